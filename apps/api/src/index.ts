@@ -6,13 +6,18 @@ import dotenv from 'dotenv';
 import cookieParser from 'cookie-parser';
 import serverless from 'serverless-http';
 import database from './utils/database';
+import { runMigrations } from './utils/migrations';
 import { errorHandler, notFoundHandler } from './middleware/error.middleware';
+import { ExtractionWorker } from './services/extractionQueue.service';
 
 // Import routes
 import authRoutes from './routes/auth.routes';
 import uploadRoutes from './routes/upload.routes';
 import extractRoutes from './routes/extract.routes';
 import invoicesRoutes from './routes/invoices.routes';
+import vendorsRoutes from './routes/vendors.routes';
+import templatesRoutes from './routes/templates.routes';
+import purchaseOrdersRoutes from './routes/purchaseOrders.routes';
 
 // Load environment variables
 dotenv.config();
@@ -33,6 +38,18 @@ const ensureDatabaseConnection = async () => {
   }
 };
 
+// Serverless instances bring the database up to date once, before their first API call
+let migrations: Promise<void> | undefined;
+const ensureMigrations = (): Promise<void> => {
+  if (!migrations) {
+    migrations = runMigrations().catch(error => {
+      console.error('❌ Migrations failed:', error);
+      migrations = undefined;
+    });
+  }
+  return migrations;
+};
+
 // Middleware to ensure database connection before API calls
 const databaseMiddleware = async (_req: any, res: any, next: any) => {
   if (!database.isConnectedToDatabase()) {
@@ -46,6 +63,7 @@ const databaseMiddleware = async (_req: any, res: any, next: any) => {
       });
     }
   }
+  await ensureMigrations();
   next();
 };
 
@@ -85,8 +103,9 @@ app.use(
       }
     },
     credentials: true,
-    methods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS'],
-    allowedHeaders: ['Content-Type', 'Authorization']
+    methods: ['GET', 'POST', 'PUT', 'PATCH', 'DELETE', 'OPTIONS'],
+    allowedHeaders: ['Content-Type', 'Authorization', 'If-Match'],
+    exposedHeaders: ['ETag']
   })
 );
 
@@ -96,7 +115,8 @@ if (process.env.NODE_ENV !== 'production') {
 }
 
 // Body parsing middleware
-app.use(express.json({ limit: '50mb' }));
+// JSON Patch documents are JSON too
+app.use(express.json({ limit: '50mb', type: ['application/json', 'application/json-patch+json'] }));
 app.use(express.urlencoded({ extended: true, limit: '50mb' }));
 app.use(cookieParser());
 
@@ -134,6 +154,9 @@ app.use('/api/auth', databaseMiddleware, authRoutes);
 app.use('/api/upload', databaseMiddleware, uploadRoutes);
 app.use('/api/extract', databaseMiddleware, extractRoutes);
 app.use('/api/invoices', databaseMiddleware, invoicesRoutes);
+app.use('/api/vendors', databaseMiddleware, vendorsRoutes);
+app.use('/api/templates', databaseMiddleware, templatesRoutes);
+app.use('/api/purchase-orders', databaseMiddleware, purchaseOrdersRoutes);
 
 // 404 handler for unmatched routes
 app.use(notFoundHandler);
@@ -146,12 +169,19 @@ if (process.env.NODE_ENV !== 'production') {
   const startServer = async (): Promise<void> => {
     try {
       await database.connect();
+      migrations = runMigrations();
+      await migrations;
 
       app.listen(PORT, () => {
         console.log(`🚀 Server running on http://localhost:${PORT}`);
         console.log(`📊 Environment: ${process.env.NODE_ENV || 'development'}`);
         console.log(`🔗 CORS enabled for: ${CORS_ORIGIN}`);
       });
+
+      // Process extraction jobs in-process unless a separate worker is running
+      if (process.env.EXTRACTION_WORKER_INLINE !== 'false') {
+        new ExtractionWorker().start();
+      }
     } catch (error) {
       console.error('❌ Failed to start server:', error);
       process.exit(1);
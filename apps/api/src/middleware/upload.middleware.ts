@@ -1,21 +1,42 @@
+import fs from 'fs';
 import multer, { FileFilterCallback } from 'multer';
 import { Request, Response, NextFunction } from 'express';
 
-const MAX_FILE_SIZE = parseInt(process.env.MAX_FILE_SIZE || '26214400', 10); // 25MB default
+export const MAX_FILE_SIZE = parseInt(process.env.MAX_FILE_SIZE || '26214400', 10); // 25MB default
+// Total size of a batch request; each file in its ZIP archives is still held to MAX_FILE_SIZE
+export const MAX_BATCH_SIZE = parseInt(process.env.MAX_BATCH_SIZE || '104857600', 10); // 100MB default
+export const MAX_BATCH_FILES = 500;
+
+const toMegabytes = (bytes: number): number => Math.round(bytes / (1024 * 1024));
 
 // Configure multer for memory storage
 const storage = multer.memoryStorage();
 
-// File filter to only allow PDFs
+// PDFs, plus XML e-invoices (UBL 2.1, XRechnung, Peppol BIS, CII) keyed by extension
+const ALLOWED_MIME_TYPES: Record<string, string[]> = {
+  '.pdf': ['application/pdf'],
+  '.xml': ['application/xml', 'text/xml']
+};
+
+const getExtension = (fileName: string): string => fileName.toLowerCase().slice(fileName.lastIndexOf('.'));
+
+/**
+ * Check whether an uploaded file is an XML e-invoice rather than a PDF
+ */
+export const isXmlUpload = (file: Express.Multer.File): boolean => getExtension(file.originalname) === '.xml';
+
+// File filter to only allow PDFs and XML e-invoices
 const fileFilter = (_req: any, file: Express.Multer.File, cb: FileFilterCallback): void => {
+  const mimeTypes = ALLOWED_MIME_TYPES[getExtension(file.originalname)];
+
   // Check file extension
-  if (!file.originalname.toLowerCase().endsWith('.pdf')) {
-    return cb(new Error('Only PDF files are allowed'));
+  if (!mimeTypes) {
+    return cb(new Error('Only PDF files and XML e-invoices are allowed'));
   }
 
   // Check MIME type
-  if (file.mimetype !== 'application/pdf') {
-    return cb(new Error('Invalid file type. Only PDF files are allowed'));
+  if (!mimeTypes.includes(file.mimetype)) {
+    return cb(new Error('Invalid file type. Only PDF files and XML e-invoices are allowed'));
   }
 
   cb(null, true);
@@ -34,6 +55,50 @@ const upload = multer({
 // Middleware function for single file upload
 export const uploadSingle = upload.single('pdf');
 
+// Batches are not filtered here: every file is checked on its own and reported back.
+// They are written to temporary files rather than memory and processed by the worker.
+export const uploadBatch = multer({
+  storage: multer.diskStorage({}),
+  limits: {
+    fileSize: MAX_BATCH_SIZE,
+    files: MAX_BATCH_FILES
+  }
+}).array('files', MAX_BATCH_FILES);
+
+// Refuse a batch over MAX_BATCH_SIZE before any of it is written to disk
+export const limitBatchSize = (req: Request, res: Response, next: NextFunction): void => {
+  const contentLength = parseInt(req.headers['content-length'] || '', 10);
+
+  if (Number.isNaN(contentLength)) {
+    res.status(411).json({
+      success: false,
+      error: 'Content-Length is required for batch uploads'
+    });
+    return;
+  }
+
+  if (contentLength > MAX_BATCH_SIZE) {
+    res.status(413).json({
+      success: false,
+      error: `Batch too large. Maximum total size is ${toMegabytes(MAX_BATCH_SIZE)}MB`
+    });
+    return;
+  }
+
+  next();
+};
+
+// Delete the temporary files of a batch once the request is over, whatever its outcome
+export const removeBatchFiles = (req: Request, res: Response, next: NextFunction): void => {
+  res.on('close', () => {
+    if (Array.isArray(req.files)) {
+      req.files.forEach(file => fs.unlink(file.path, () => undefined));
+    }
+  });
+
+  next();
+};
+
 // Error handling middleware for multer errors
 export const handleUploadError = (error: any, _req: Request, res: Response, next: NextFunction): void => {
   if (error instanceof multer.MulterError) {
@@ -42,13 +107,15 @@ export const handleUploadError = (error: any, _req: Request, res: Response, next
 
     switch (error.code) {
       case 'LIMIT_FILE_SIZE':
-        message = `File too large. Maximum size allowed is ${Math.round(MAX_FILE_SIZE / (1024 * 1024))}MB`;
+        message = error.field === 'files'
+          ? `Batch too large. Maximum total size is ${toMegabytes(MAX_BATCH_SIZE)}MB`
+          : `File too large. Maximum size allowed is ${toMegabytes(MAX_FILE_SIZE)}MB`;
         break;
       case 'LIMIT_FILE_COUNT':
-        message = 'Too many files. Only one file allowed';
+        message = `Too many files. Upload one file, or up to ${MAX_BATCH_FILES} as a batch`;
         break;
       case 'LIMIT_UNEXPECTED_FILE':
-        message = 'Unexpected field name. Use "pdf" as the field name';
+        message = 'Unexpected field name. Use "pdf" as the field name, or "files" for a batch';
         break;
       default:
         message = error.message || 'File upload error';
@@ -62,7 +129,7 @@ export const handleUploadError = (error: any, _req: Request, res: Response, next
     return;
   }
 
-  if (error.message.includes('Only PDF files are allowed') || 
+  if (error.message.includes('Only PDF files and XML e-invoices are allowed') || 
       error.message.includes('Invalid file type')) {
     res.status(400).json({
       success: false,
@@ -79,7 +146,7 @@ export const validateUploadedFile = (req: Request, res: Response, next: NextFunc
   if (!req.file) {
     res.status(400).json({
       success: false,
-      error: 'No file uploaded. Please upload a PDF file'
+      error: 'No file uploaded. Please upload a PDF file or XML e-invoice'
     });
     return;
   }
@@ -97,7 +164,20 @@ export const validateUploadedFile = (req: Request, res: Response, next: NextFunc
   if (req.file.size > MAX_FILE_SIZE) {
     res.status(400).json({
       success: false,
-      error: `File too large. Maximum size allowed is ${Math.round(MAX_FILE_SIZE / (1024 * 1024))}MB`
+      error: `File too large. Maximum size allowed is ${toMegabytes(MAX_FILE_SIZE)}MB`
+    });
+    return;
+  }
+
+  next();
+};
+
+// Validate that a batch upload carries files
+export const validateUploadedFiles = (req: Request, res: Response, next: NextFunction): void => {
+  if (!Array.isArray(req.files) || req.files.length === 0) {
+    res.status(400).json({
+      success: false,
+      error: 'No files uploaded. Please upload PDF files, XML e-invoices or ZIP archives'
     });
     return;
   }
@@ -106,7 +186,12 @@ export const validateUploadedFile = (req: Request, res: Response, next: NextFunc
 };
 
 export default {
+  isXmlUpload,
   uploadSingle,
+  uploadBatch,
+  limitBatchSize,
+  removeBatchFiles,
   handleUploadError,
-  validateUploadedFile
+  validateUploadedFile,
+  validateUploadedFiles
 };
@@ -0,0 +1,24 @@
+import dotenv from 'dotenv';
+import database from './utils/database';
+import { runMigrations } from './utils/migrations';
+
+// Load environment variables
+dotenv.config();
+
+/**
+ * Run the database migrations once, e.g. as a release step before serverless instances,
+ * which otherwise run them on their first request, start serving.
+ */
+const migrate = async (): Promise<void> => {
+  try {
+    await database.connect();
+    await runMigrations();
+    console.log('✅ Migrations complete');
+    await database.disconnect();
+  } catch (error) {
+    console.error('❌ Migrations failed:', error);
+    process.exit(1);
+  }
+};
+
+migrate();
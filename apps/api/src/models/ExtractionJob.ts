@@ -0,0 +1,91 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import { IExtractionJob } from '../types/invoice.types';
+import { EXTRACTION_MODEL_PATTERN } from '../utils/validation';
+
+interface IExtractionJobDocument extends Omit<IExtractionJob, '_id'>, Document {}
+
+const ExtractionJobSchema = new Schema<IExtractionJobDocument>({
+  owner: {
+    type: String,
+    required: [true, 'Job owner is required'],
+    index: true
+  },
+  requestedBy: {
+    type: String
+  },
+  fileId: {
+    type: String,
+    required: [true, 'File ID is required'],
+    trim: true
+  },
+  // Named aiModel because Document already defines `model`
+  aiModel: {
+    type: String,
+    match: [EXTRACTION_MODEL_PATTERN, 'Unsupported extraction model'],
+    required: [true, 'Extraction model is required']
+  },
+  invoiceId: {
+    type: String
+  },
+  invoiceVersion: {
+    type: Number
+  },
+  status: {
+    type: String,
+    enum: ['queued', 'processing', 'completed', 'failed'],
+    default: 'queued'
+  },
+  attempts: {
+    type: Number,
+    default: 0
+  },
+  maxAttempts: {
+    type: Number,
+    default: 3
+  },
+  // Scheduling fields are real Dates so the worker can compare them in queries
+  runAt: {
+    type: Date,
+    default: () => new Date()
+  },
+  leaseExpiresAt: {
+    type: Date
+  },
+  lockedBy: {
+    type: String
+  },
+  result: {
+    type: Schema.Types.Mixed
+  },
+  processingTime: {
+    type: Number
+  },
+  error: {
+    type: String
+  },
+  // Validation messages when the model output could not be repaired
+  errorDetails: {
+    type: [String],
+    default: undefined
+  },
+  createdAt: {
+    type: String,
+    default: () => new Date().toISOString()
+  },
+  updatedAt: {
+    type: String
+  },
+  completedAt: {
+    type: String
+  }
+}, {
+  timestamps: false,
+  collection: 'extraction_jobs'
+});
+
+// Indexes used by the worker to claim due and expired jobs
+ExtractionJobSchema.index({ status: 1, runAt: 1 });
+ExtractionJobSchema.index({ status: 1, leaseExpiresAt: 1 });
+
+const ExtractionJob = mongoose.model<IExtractionJobDocument>('ExtractionJob', ExtractionJobSchema);
+export default ExtractionJob;
@@ -0,0 +1,83 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import { IExtractionTemplate, ITemplateField } from '../types/invoice.types';
+
+interface IExtractionTemplateDocument extends Omit<IExtractionTemplate, '_id'>, Document {}
+
+const TemplateFieldSchema = new Schema<ITemplateField>({
+  path: {
+    type: String,
+    required: [true, 'Field path is required']
+  },
+  corrections: {
+    type: Number,
+    default: 0,
+    min: [0, 'Corrections cannot be negative']
+  },
+  extracted: {
+    type: String,
+    maxlength: [500, 'Extracted value cannot exceed 500 characters']
+  },
+  corrected: {
+    type: String,
+    maxlength: [500, 'Corrected value cannot exceed 500 characters']
+  },
+  page: {
+    type: Number,
+    min: [1, 'Page must be at least 1']
+  },
+  label: {
+    type: String,
+    maxlength: [100, 'Label cannot exceed 100 characters']
+  },
+  updatedAt: {
+    type: String,
+    default: () => new Date().toISOString()
+  }
+}, { _id: false });
+
+const ExtractionTemplateSchema = new Schema<IExtractionTemplateDocument>({
+  owner: {
+    type: String,
+    required: [true, 'Template owner is required']
+  },
+  vendorId: {
+    type: String,
+    required: [true, 'Vendor ID is required']
+  },
+  vendorName: {
+    type: String,
+    required: [true, 'Vendor name is required']
+  },
+  invoiceCount: {
+    type: Number,
+    default: 0
+  },
+  appliedCount: {
+    type: Number,
+    default: 0
+  },
+  lastAppliedAt: {
+    type: String
+  },
+  fields: {
+    type: [TemplateFieldSchema],
+    default: []
+  },
+  createdAt: {
+    type: String,
+    default: () => new Date().toISOString()
+  },
+  updatedAt: {
+    type: String
+  }
+}, {
+  timestamps: false, // We manage timestamps manually
+  collection: 'extraction_templates'
+});
+
+// One template per master vendor
+ExtractionTemplateSchema.index({ owner: 1, vendorId: 1 }, { unique: true });
+ExtractionTemplateSchema.index({ updatedAt: -1 });
+
+const ExtractionTemplate = mongoose.model<IExtractionTemplateDocument>('ExtractionTemplate', ExtractionTemplateSchema);
+export default ExtractionTemplate;
@@ -1,14 +1,29 @@
 import mongoose, { Schema, Document } from 'mongoose';
-import { IInvoice, IVendor, ILineItem, IInvoiceData } from '../types/invoice.types';
+import {
+  IInvoice,
+  IVendor,
+  ILineItem,
+  IInvoiceCharge,
+  ITaxBreakdownEntry,
+  IInvoiceData,
+  IStatusChange,
+  IFieldProvenance,
+  IExtractionMetadata,
+  IAccountingCoding,
+  IValidationWarning,
+  IVendorMatch
+} from '../types/invoice.types';
+import { INVOICE_STATUSES } from '../utils/invoiceStatus';
+import { VALIDATION_WARNING_CODES } from '../utils/arithmeticChecks';
 
 // Extend the interfaces to include Document properties
 interface IInvoiceDocument extends Omit<IInvoice, '_id'>, Document {}
 
-// Vendor schema
+// Vendor schema. The name, like the invoice number and date, is required by the API's
+// validation rather than here: drafts created for uploaded PDFs have none until extraction
 const VendorSchema = new Schema<IVendor>({
   name: {
     type: String,
-    required: [true, 'Vendor name is required'],
     trim: true,
     maxlength: [200, 'Vendor name cannot exceed 200 characters']
   },
@@ -26,6 +41,20 @@ const VendorSchema = new Schema<IVendor>({
 
 // Line item schema
 const LineItemSchema = new Schema<ILineItem>({
+  id: {
+    type: String,
+    trim: true,
+    maxlength: [64, 'Line item ID cannot exceed 64 characters']
+  },
+  position: {
+    type: Number,
+    min: [1, 'Position must be at least 1']
+  },
+  code: {
+    type: String,
+    trim: true,
+    maxlength: [100, 'Item code cannot exceed 100 characters']
+  },
   description: {
     type: String,
     required: [true, 'Line item description is required'],
@@ -42,6 +71,21 @@ const LineItemSchema = new Schema<ILineItem>({
     required: [true, 'Quantity is required'],
     min: [0, 'Quantity cannot be negative']
   },
+  unit: {
+    type: String,
+    trim: true,
+    maxlength: [20, 'Unit cannot exceed 20 characters']
+  },
+  discount: {
+    type: Number,
+    min: [0, 'Discount cannot be negative'],
+    max: [100, 'Discount cannot exceed 100']
+  },
+  taxPercent: {
+    type: Number,
+    min: [0, 'Tax percent cannot be negative'],
+    max: [100, 'Tax percent cannot exceed 100']
+  },
   total: {
     type: Number,
     required: [true, 'Line item total is required'],
@@ -49,17 +93,56 @@ const LineItemSchema = new Schema<ILineItem>({
   }
 }, { _id: false });
 
+// Charge schema; allowances are charges with a negative amount
+const ChargeSchema = new Schema<IInvoiceCharge>({
+  type: {
+    type: String,
+    enum: ['shipping', 'other'],
+    default: 'other'
+  },
+  description: {
+    type: String,
+    trim: true,
+    maxlength: [200, 'Charge description cannot exceed 200 characters']
+  },
+  amount: {
+    type: Number,
+    required: [true, 'Charge amount is required']
+  },
+  taxPercent: {
+    type: Number,
+    min: [0, 'Tax percent cannot be negative'],
+    max: [100, 'Tax percent cannot exceed 100']
+  }
+}, { _id: false });
+
+// Tax summary schema, one entry per rate
+const TaxBreakdownSchema = new Schema<ITaxBreakdownEntry>({
+  taxPercent: {
+    type: Number,
+    required: [true, 'Tax percent is required'],
+    min: [0, 'Tax percent cannot be negative'],
+    max: [100, 'Tax percent cannot exceed 100']
+  },
+  taxableAmount: {
+    type: Number,
+    required: [true, 'Taxable amount is required']
+  },
+  taxAmount: {
+    type: Number,
+    required: [true, 'Tax amount is required']
+  }
+}, { _id: false });
+
 // Invoice data schema
 const InvoiceDataSchema = new Schema<IInvoiceData>({
   number: {
     type: String,
-    required: [true, 'Invoice number is required'],
     trim: true,
     maxlength: [100, 'Invoice number cannot exceed 100 characters']
   },
   date: {
     type: String,
-    required: [true, 'Invoice date is required'],
     trim: true
   },
   currency: {
@@ -93,11 +176,175 @@ const InvoiceDataSchema = new Schema<IInvoiceData>({
   lineItems: {
     type: [LineItemSchema],
     default: []
+  },
+  charges: {
+    type: [ChargeSchema],
+    default: undefined
+  },
+  taxBreakdown: {
+    type: [TaxBreakdownSchema],
+    default: undefined
+  }
+}, { _id: false });
+
+// Status change schema
+const StatusChangeSchema = new Schema<IStatusChange>({
+  from: {
+    type: String,
+    enum: INVOICE_STATUSES
+  },
+  to: {
+    type: String,
+    enum: INVOICE_STATUSES,
+    required: [true, 'Target status is required']
+  },
+  changedBy: {
+    type: String,
+    required: [true, 'Acting user is required']
+  },
+  changedAt: {
+    type: String,
+    default: () => new Date().toISOString()
+  },
+  reason: {
+    type: String,
+    trim: true,
+    maxlength: [500, 'Reason cannot exceed 500 characters']
+  }
+}, { _id: false });
+
+// Field provenance schema
+const FieldProvenanceSchema = new Schema<IFieldProvenance>({
+  path: {
+    type: String,
+    required: [true, 'Field path is required']
+  },
+  confidence: {
+    type: Number,
+    required: [true, 'Confidence is required'],
+    min: [0, 'Confidence cannot be negative'],
+    max: [1, 'Confidence cannot exceed 1']
+  },
+  source: {
+    type: String,
+    maxlength: [500, 'Source snippet cannot exceed 500 characters']
+  },
+  page: {
+    type: Number,
+    min: [1, 'Page must be at least 1']
+  }
+}, { _id: false });
+
+// Vendor master match schema
+const VendorMatchSchema = new Schema<IVendorMatch>({
+  vendorId: {
+    type: String,
+    required: [true, 'Vendor ID is required']
+  },
+  name: {
+    type: String,
+    required: [true, 'Vendor name is required']
+  },
+  method: {
+    type: String,
+    enum: ['taxId', 'name', 'alias', 'similarity', 'manual'],
+    required: [true, 'Match method is required']
+  },
+  score: {
+    type: Number,
+    min: [0, 'Score cannot be negative'],
+    max: [1, 'Score cannot exceed 1']
+  },
+  confirmed: {
+    type: Boolean,
+    default: false
+  },
+  confirmedBy: {
+    type: String
+  },
+  confirmedAt: {
+    type: String
+  }
+}, { _id: false });
+
+// Arithmetic warning schema
+const ValidationWarningSchema = new Schema<IValidationWarning>({
+  code: {
+    type: String,
+    enum: VALIDATION_WARNING_CODES,
+    required: [true, 'Warning code is required']
+  },
+  path: {
+    type: String,
+    required: [true, 'Warning path is required']
+  },
+  message: {
+    type: String,
+    required: [true, 'Warning message is required']
+  },
+  expected: {
+    type: Number,
+    required: [true, 'Expected amount is required']
+  },
+  actual: {
+    type: Number,
+    required: [true, 'Actual amount is required']
+  },
+  difference: {
+    type: Number,
+    required: [true, 'Difference is required']
+  }
+}, { _id: false });
+
+// Extraction metadata schema
+const ExtractionMetadataSchema = new Schema<IExtractionMetadata>({
+  model: {
+    type: String,
+    required: [true, 'Extraction model is required']
+  },
+  source: {
+    type: String,
+    enum: ['model', 'e-invoice'],
+    default: 'model'
+  },
+  extractedAt: {
+    type: String,
+    default: () => new Date().toISOString()
+  },
+  fields: {
+    type: [FieldProvenanceSchema],
+    default: []
+  },
+  values: {
+    type: Schema.Types.Mixed
+  },
+  learnedAt: {
+    type: String
+  }
+}, { _id: false });
+
+// Accounting coding schema
+const AccountingCodingSchema = new Schema<IAccountingCoding>({
+  glAccount: {
+    type: String,
+    trim: true,
+    maxlength: [50, 'GL account cannot exceed 50 characters']
+  },
+  costCenter: {
+    type: String,
+    trim: true,
+    maxlength: [50, 'Cost center cannot exceed 50 characters']
   }
 }, { _id: false });
 
 // Main Invoice schema
 const InvoiceSchema = new Schema<IInvoiceDocument>({
+  owner: {
+    type: String,
+    required: [true, 'Invoice owner is required'],
+    trim: true,
+    index: true
+  },
   fileId: {
     type: String,
     required: [true, 'File ID is required'],
@@ -119,6 +366,56 @@ const InvoiceSchema = new Schema<IInvoiceDocument>({
     type: InvoiceDataSchema,
     required: [true, 'Invoice data is required']
   },
+  status: {
+    type: String,
+    enum: INVOICE_STATUSES,
+    default: 'draft',
+    index: true
+  },
+  statusHistory: {
+    type: [StatusChangeSchema],
+    default: []
+  },
+  reviewedBy: {
+    type: String
+  },
+  reviewedAt: {
+    type: String
+  },
+  rejectionReason: {
+    type: String,
+    trim: true,
+    maxlength: [500, 'Rejection reason cannot exceed 500 characters']
+  },
+  extraction: {
+    type: ExtractionMetadataSchema
+  },
+  accounting: {
+    type: AccountingCodingSchema
+  },
+  documentText: {
+    type: [String],
+    default: undefined,
+    select: false
+  },
+  contentHash: {
+    type: String
+  },
+  fingerprint: {
+    type: String
+  },
+  vendorMatch: {
+    type: VendorMatchSchema
+  },
+  validationWarnings: {
+    type: [ValidationWarningSchema],
+    default: []
+  },
+  version: {
+    type: Number,
+    default: 1,
+    min: [1, 'Version must be at least 1']
+  },
   createdAt: {
     type: String,
     default: () => new Date().toISOString()
@@ -132,8 +429,38 @@ const InvoiceSchema = new Schema<IInvoiceDocument>({
 });
 
 // Indexes for better query performance
-InvoiceSchema.index({ 'vendor.name': 'text', 'invoice.number': 'text' });
+export const FULL_TEXT_INDEX = 'invoice_full_text';
+
+// Full-text search over the invoice and the text printed on it. Without stemming, words match
+// the same way in every language and invoice numbers are not mangled.
+InvoiceSchema.index(
+  {
+    'vendor.name': 'text',
+    'invoice.number': 'text',
+    'invoice.lineItems.description': 'text',
+    documentText: 'text'
+  },
+  {
+    name: FULL_TEXT_INDEX,
+    default_language: 'none',
+    weights: {
+      'vendor.name': 10,
+      'invoice.number': 10,
+      'invoice.lineItems.description': 3,
+      documentText: 1
+    }
+  }
+);
 InvoiceSchema.index({ createdAt: -1 });
+InvoiceSchema.index({ owner: 1, createdAt: -1 });
+InvoiceSchema.index({ owner: 1, status: 1, createdAt: -1 });
+InvoiceSchema.index({ owner: 1, 'invoice.date': -1 });
+InvoiceSchema.index({ owner: 1, 'invoice.total': 1 });
+InvoiceSchema.index({ owner: 1, 'invoice.currency': 1, 'invoice.date': -1 });
+InvoiceSchema.index({ owner: 1, 'vendor.name': 1, 'invoice.date': -1 });
+InvoiceSchema.index({ contentHash: 1, owner: 1 });
+InvoiceSchema.index({ fingerprint: 1, owner: 1 });
+InvoiceSchema.index({ 'vendorMatch.vendorId': 1 });
 InvoiceSchema.index({ 'vendor.name': 1 });
 InvoiceSchema.index({ 'invoice.number': 1 });
 
@@ -0,0 +1,73 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import { IFieldChange, IInvoiceRevision } from '../types/invoice.types';
+
+interface IInvoiceRevisionDocument extends Omit<IInvoiceRevision, '_id'>, Document {}
+
+const FieldChangeSchema = new Schema<IFieldChange>({
+  path: {
+    type: String,
+    required: [true, 'Field path is required']
+  },
+  from: {
+    type: Schema.Types.Mixed
+  },
+  to: {
+    type: Schema.Types.Mixed
+  }
+}, { _id: false });
+
+const InvoiceRevisionSchema = new Schema<IInvoiceRevisionDocument>({
+  invoiceId: {
+    type: String,
+    required: [true, 'Invoice ID is required']
+  },
+  owner: {
+    type: String
+  },
+  revision: {
+    type: Number,
+    required: [true, 'Revision number is required'],
+    min: [1, 'Revision number must be at least 1']
+  },
+  source: {
+    type: String,
+    enum: ['create', 'import', 'extraction', 'edit', 'status', 'vendor', 'restore', 'initial'],
+    required: [true, 'Revision source is required']
+  },
+  actor: {
+    type: String
+  },
+  actorEmail: {
+    type: String
+  },
+  note: {
+    type: String,
+    maxlength: [500, 'Note cannot exceed 500 characters']
+  },
+  restoredFrom: {
+    type: Number
+  },
+  // Stored as written; the invoice schema has already validated it
+  snapshot: {
+    type: Schema.Types.Mixed,
+    required: [true, 'Snapshot is required']
+  },
+  changes: {
+    type: [FieldChangeSchema],
+    default: []
+  },
+  createdAt: {
+    type: String,
+    default: () => new Date().toISOString()
+  }
+}, {
+  timestamps: false, // We manage timestamps manually
+  collection: 'invoice_revisions',
+  minimize: false
+});
+
+// Revisions are numbered per invoice; the unique index stops two writers taking the same number
+InvoiceRevisionSchema.index({ invoiceId: 1, revision: -1 }, { unique: true });
+
+const InvoiceRevision = mongoose.model<IInvoiceRevisionDocument>('InvoiceRevision', InvoiceRevisionSchema);
+export default InvoiceRevision;
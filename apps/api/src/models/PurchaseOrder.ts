@@ -0,0 +1,151 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import { IGoodsReceipt, IGoodsReceiptLine, IPurchaseOrder, IPurchaseOrderLine } from '../types/invoice.types';
+import { normalizePoNumber } from '../utils/poMatching';
+
+interface IPurchaseOrderDocument extends Omit<IPurchaseOrder, '_id'>, Document {}
+
+const PurchaseOrderLineSchema = new Schema<IPurchaseOrderLine>({
+  lineNumber: {
+    type: Number,
+    required: [true, 'Line number is required'],
+    min: [1, 'Line number must be at least 1']
+  },
+  sku: {
+    type: String,
+    trim: true,
+    maxlength: [100, 'SKU cannot exceed 100 characters']
+  },
+  description: {
+    type: String,
+    required: [true, 'Line description is required'],
+    trim: true,
+    maxlength: [500, 'Line description cannot exceed 500 characters']
+  },
+  quantity: {
+    type: Number,
+    required: [true, 'Ordered quantity is required'],
+    min: [0, 'Ordered quantity cannot be negative']
+  },
+  unitPrice: {
+    type: Number,
+    required: [true, 'Unit price is required'],
+    min: [0, 'Unit price cannot be negative']
+  }
+}, { _id: false });
+
+const GoodsReceiptLineSchema = new Schema<IGoodsReceiptLine>({
+  lineNumber: {
+    type: Number,
+    required: [true, 'Line number is required']
+  },
+  quantity: {
+    type: Number,
+    required: [true, 'Received quantity is required'],
+    min: [0, 'Received quantity cannot be negative']
+  }
+}, { _id: false });
+
+const GoodsReceiptSchema = new Schema<IGoodsReceipt>({
+  receiptNumber: {
+    type: String,
+    trim: true,
+    maxlength: [100, 'Receipt number cannot exceed 100 characters']
+  },
+  receivedAt: {
+    type: String,
+    required: [true, 'Receipt date is required']
+  },
+  lines: {
+    type: [GoodsReceiptLineSchema],
+    default: []
+  },
+  createdBy: {
+    type: String
+  },
+  createdAt: {
+    type: String,
+    default: () => new Date().toISOString()
+  }
+});
+
+const PurchaseOrderSchema = new Schema<IPurchaseOrderDocument>({
+  owner: {
+    type: String,
+    required: [true, 'Purchase order owner is required']
+  },
+  poNumber: {
+    type: String,
+    required: [true, 'PO number is required'],
+    trim: true,
+    maxlength: [100, 'PO number cannot exceed 100 characters']
+  },
+  poDate: {
+    type: String
+  },
+  vendorName: {
+    type: String,
+    trim: true,
+    maxlength: [200, 'Vendor name cannot exceed 200 characters']
+  },
+  vendorTaxId: {
+    type: String,
+    trim: true,
+    maxlength: [50, 'Tax ID cannot exceed 50 characters']
+  },
+  vendorId: {
+    type: String
+  },
+  currency: {
+    type: String,
+    trim: true,
+    uppercase: true,
+    match: [/^[A-Z]{3}$/, 'Currency must be an ISO 4217 code']
+  },
+  receiptRequired: {
+    type: Boolean,
+    default: false
+  },
+  tolerances: {
+    pricePercent: { type: Number, min: 0 },
+    quantityPercent: { type: Number, min: 0 }
+  },
+  lines: {
+    type: [PurchaseOrderLineSchema],
+    default: []
+  },
+  receipts: {
+    type: [GoodsReceiptSchema],
+    default: []
+  },
+  poNumberKey: {
+    type: String,
+    select: false
+  },
+  createdAt: {
+    type: String,
+    default: () => new Date().toISOString()
+  },
+  updatedAt: {
+    type: String
+  }
+}, {
+  timestamps: false, // We manage timestamps manually
+  collection: 'purchase_orders'
+});
+
+// Keep the matching key in step with the PO number
+PurchaseOrderSchema.pre('validate', function(this: IPurchaseOrderDocument, next) {
+  this.poNumberKey = normalizePoNumber(this.poNumber || '');
+
+  if (this.isModified() && !this.isNew) {
+    this.updatedAt = new Date().toISOString();
+  }
+  next();
+});
+
+// One PO per number and user, however the number is punctuated
+PurchaseOrderSchema.index({ owner: 1, poNumberKey: 1 }, { unique: true });
+PurchaseOrderSchema.index({ owner: 1, createdAt: -1 });
+
+const PurchaseOrder = mongoose.model<IPurchaseOrderDocument>('PurchaseOrder', PurchaseOrderSchema);
+export default PurchaseOrder;
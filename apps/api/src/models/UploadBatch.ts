@@ -0,0 +1,84 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import { IBatchUploadFile, IUploadBatch } from '../types/invoice.types';
+import { EXTRACTION_MODEL_PATTERN } from '../utils/validation';
+
+interface IUploadBatchDocument extends Omit<IUploadBatch, '_id'>, Document {}
+
+const BatchUploadFileSchema = new Schema<IBatchUploadFile>({
+  fileName: {
+    type: String,
+    required: [true, 'File name is required']
+  },
+  fileId: {
+    type: String
+  },
+  status: {
+    type: String,
+    enum: ['queued', 'done'],
+    default: 'queued'
+  },
+  // One entry per imported file, pushed as the worker goes
+  results: {
+    type: Schema.Types.Mixed,
+    default: () => []
+  }
+}, { _id: false });
+
+const UploadBatchSchema = new Schema<IUploadBatchDocument>({
+  owner: {
+    type: String,
+    required: [true, 'Batch owner is required'],
+    index: true
+  },
+  // Named aiModel because Document already defines `model`
+  aiModel: {
+    type: String,
+    match: [EXTRACTION_MODEL_PATTERN, 'Unsupported extraction model']
+  },
+  status: {
+    type: String,
+    enum: ['queued', 'processing', 'completed', 'failed'],
+    default: 'queued'
+  },
+  files: {
+    type: [BatchUploadFileSchema],
+    default: []
+  },
+  attempts: {
+    type: Number,
+    default: 0
+  },
+  maxAttempts: {
+    type: Number,
+    default: 3
+  },
+  leaseExpiresAt: {
+    type: Date
+  },
+  lockedBy: {
+    type: String
+  },
+  error: {
+    type: String
+  },
+  createdAt: {
+    type: String,
+    default: () => new Date().toISOString()
+  },
+  updatedAt: {
+    type: String
+  },
+  completedAt: {
+    type: String
+  }
+}, {
+  timestamps: false,
+  collection: 'upload_batches'
+});
+
+// Indexes used by the worker to claim queued and expired batches
+UploadBatchSchema.index({ status: 1, createdAt: 1 });
+UploadBatchSchema.index({ status: 1, leaseExpiresAt: 1 });
+
+const UploadBatch = mongoose.model<IUploadBatchDocument>('UploadBatch', UploadBatchSchema);
+export default UploadBatch;
@@ -1,5 +1,7 @@
 import mongoose, { Schema, Document } from 'mongoose';
 import bcrypt from 'bcrypt';
+import { AccountingProfileId, IAccountingPreferences } from '../types/invoice.types';
+import { ACCOUNTING_PROFILE_IDS } from '../utils/validation';
 
 export interface IUser {
   _id?: string;
@@ -12,6 +14,8 @@ export interface IUser {
     language: string;
     currency: string;
     timezone: string;
+    exportProfile?: AccountingProfileId;
+    accounting?: IAccountingPreferences;
   };
   createdAt: string;
   updatedAt: string;
@@ -21,6 +25,34 @@ interface IUserDocument extends Omit<IUser, '_id'>, Document {
   comparePassword(candidatePassword: string): Promise<boolean>;
 }
 
+const AccountingPreferencesSchema = new Schema<IAccountingPreferences>({
+  defaultGlAccount: {
+    type: String,
+    trim: true,
+    maxlength: [50, 'GL account cannot exceed 50 characters']
+  },
+  payablesAccount: {
+    type: String,
+    trim: true,
+    maxlength: [50, 'Payables account cannot exceed 50 characters']
+  },
+  taxAccount: {
+    type: String,
+    trim: true,
+    maxlength: [50, 'Tax account cannot exceed 50 characters']
+  },
+  datevConsultantNumber: {
+    type: String,
+    trim: true,
+    match: [/^\d{4,7}$/, 'DATEV consultant number must have 4 to 7 digits']
+  },
+  datevClientNumber: {
+    type: String,
+    trim: true,
+    match: [/^\d{1,5}$/, 'DATEV client number must have 1 to 5 digits']
+  }
+}, { _id: false });
+
 const UserPreferencesSchema = new Schema({
   theme: {
     type: String,
@@ -38,6 +70,14 @@ const UserPreferencesSchema = new Schema({
   timezone: {
     type: String,
     default: 'UTC'
+  },
+  exportProfile: {
+    type: String,
+    enum: ACCOUNTING_PROFILE_IDS
+  },
+  accounting: {
+    type: AccountingPreferencesSchema,
+    default: () => ({})
   }
 }, { _id: false });
 
@@ -0,0 +1,92 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import { IVendorRecord } from '../types/invoice.types';
+import { normalizeVendorName, normalizeTaxId } from '../utils/vendorNames';
+
+interface IVendorDocument extends Omit<IVendorRecord, '_id'>, Document {}
+
+const VendorSchema = new Schema<IVendorDocument>({
+  owner: {
+    type: String,
+    required: [true, 'Vendor owner is required']
+  },
+  name: {
+    type: String,
+    required: [true, 'Vendor name is required'],
+    trim: true,
+    maxlength: [200, 'Vendor name cannot exceed 200 characters']
+  },
+  aliases: {
+    type: [String],
+    default: []
+  },
+  taxId: {
+    type: String,
+    trim: true,
+    maxlength: [50, 'Tax ID cannot exceed 50 characters']
+  },
+  address: {
+    type: String,
+    trim: true,
+    maxlength: [500, 'Address cannot exceed 500 characters']
+  },
+  defaultCurrency: {
+    type: String,
+    trim: true,
+    uppercase: true,
+    match: [/^[A-Z]{3}$/, 'Default currency must be an ISO 4217 code']
+  },
+  defaultGlAccount: {
+    type: String,
+    trim: true,
+    maxlength: [50, 'GL account cannot exceed 50 characters']
+  },
+  defaultCostCenter: {
+    type: String,
+    trim: true,
+    maxlength: [50, 'Cost center cannot exceed 50 characters']
+  },
+  // Kept in sync with name, aliases and taxId by the pre-validate hook
+  nameKeys: {
+    type: [String],
+    default: [],
+    select: false
+  },
+  taxIdKey: {
+    type: String,
+    select: false
+  },
+  createdAt: {
+    type: String,
+    default: () => new Date().toISOString()
+  },
+  updatedAt: {
+    type: String
+  }
+}, {
+  timestamps: false, // We manage timestamps manually
+  collection: 'vendors'
+});
+
+// Indexes for matching extracted vendors
+VendorSchema.index({ owner: 1, name: 1 });
+VendorSchema.index({ owner: 1, nameKeys: 1 });
+// One master record per tax ID and owner
+VendorSchema.index(
+  { owner: 1, taxIdKey: 1 },
+  { unique: true, partialFilterExpression: { taxIdKey: { $type: 'string' } } }
+);
+
+// Derive the matching keys
+VendorSchema.pre('validate', function(this: IVendorDocument, next) {
+  const names = [this.name, ...(this.aliases || [])].map(normalizeVendorName).filter(Boolean);
+  this.nameKeys = Array.from(new Set(names));
+  this.taxIdKey = this.taxId ? normalizeTaxId(this.taxId) || undefined : undefined;
+
+  if (this.isModified() && !this.isNew) {
+    this.updatedAt = new Date().toISOString();
+  }
+  next();
+});
+
+const Vendor = mongoose.model<IVendorDocument>('Vendor', VendorSchema);
+export default Vendor;
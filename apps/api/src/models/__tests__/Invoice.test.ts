@@ -0,0 +1,51 @@
+import Invoice from '../Invoice';
+import { checkInvoiceArithmetic } from '../../utils/arithmeticChecks';
+import { IInvoiceData } from '../../types/invoice.types';
+
+const invoiceData: IInvoiceData = {
+  number: 'INV-1',
+  date: '2024-05-01',
+  currency: 'EUR',
+  subtotal: 100,
+  taxBreakdown: [{ taxPercent: 19, taxableAmount: 100, taxAmount: 20 }],
+  total: 120,
+  lineItems: [{ description: 'Consulting', quantity: 1, unitPrice: 100, total: 100 }]
+};
+
+const buildInvoice = (data: IInvoiceData) => new Invoice({
+  owner: 'user-1',
+  fileId: 'file-1',
+  fileName: 'invoice.pdf',
+  vendor: { name: 'Acme GmbH' },
+  invoice: data,
+  validationWarnings: checkInvoiceArithmetic(data)
+});
+
+describe('Invoice model', () => {
+  it('stores every warning the arithmetic checks raise', () => {
+    const invoice = buildInvoice(invoiceData);
+
+    expect(invoice.validationWarnings?.map(warning => warning.code)).toContain('tax_amount_mismatch');
+    expect(invoice.validateSync()).toBeUndefined();
+  });
+
+  it('accepts drafts whose vendor, number and date are not known yet', () => {
+    const invoice = new Invoice({
+      owner: 'user-1',
+      fileId: 'file-2',
+      fileName: 'scan.pdf',
+      vendor: { name: '' },
+      invoice: { number: '', date: '', lineItems: [] }
+    });
+
+    expect(invoice.validateSync()).toBeUndefined();
+    expect(invoice.status).toBe('draft');
+  });
+
+  it('rejects unknown warning codes', () => {
+    const invoice = buildInvoice(invoiceData);
+    invoice.set('validationWarnings.0.code', 'unknown_mismatch');
+
+    expect(invoice.validateSync()?.errors['validationWarnings.0.code']).toBeDefined();
+  });
+});
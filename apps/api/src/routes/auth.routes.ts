@@ -6,6 +6,7 @@ import { createSendToken } from '../utils/jwt';
 import { authenticate, optionalAuth, AuthenticatedRequest } from '../middleware/auth.middleware';
 import { asyncHandler } from '../middleware/error.middleware';
 import { IApiResponse } from '../types/invoice.types';
+import { ACCOUNTING_PROFILE_IDS } from '../utils/validation';
 
 const router = express.Router();
 
@@ -65,6 +66,16 @@ const updateProfileSchema = Joi.object({
     language: Joi.string().optional(),
     currency: Joi.string().optional(),
     timezone: Joi.string().optional(),
+    exportProfile: Joi.string().valid(...ACCOUNTING_PROFILE_IDS).optional(),
+    accounting: Joi.object({
+      defaultGlAccount: Joi.string().allow('').optional().trim().max(50),
+      payablesAccount: Joi.string().allow('').optional().trim().max(50),
+      taxAccount: Joi.string().allow('').optional().trim().max(50),
+      datevConsultantNumber: Joi.string().allow('').optional().pattern(/^\d{4,7}$/)
+        .messages({ 'string.pattern.base': 'DATEV consultant number must have 4 to 7 digits' }),
+      datevClientNumber: Joi.string().allow('').optional().pattern(/^\d{1,5}$/)
+        .messages({ 'string.pattern.base': 'DATEV client number must have 1 to 5 digits' }),
+    }).optional(),
   }).optional(),
 });
 
@@ -227,8 +238,11 @@ router.put('/profile', authenticate, asyncHandler(async (req: AuthenticatedReque
 
   // Update user fields
   if (value.name) user.name = value.name;
+  // Set preferences one by one so settings forms that send only some of them keep the rest
   if (value.preferences) {
-    user.preferences = { ...user.preferences, ...value.preferences };
+    for (const [key, preference] of Object.entries(value.preferences)) {
+      user.set(`preferences.${key}`, preference);
+    }
   }
 
   await user.save();
@@ -1,60 +1,185 @@
 import express from 'express';
-import { getAIService } from '../services/ai.service';
-import { IApiResponse, IExtractRequest, IInvoice } from '../types/invoice.types';
+import Invoice from '../models/Invoice';
+import { getExtractionQueue } from '../services/extractionQueue.service';
+import { getExtractionModels } from '../services/ai.service';
+import { IApiResponse, IExtractRequest, IExtractionJob, IExtractionJobResponse, IExtractionModelInfo } from '../types/invoice.types';
 import { validate, extractRequestSchema } from '../utils/validation';
+import { authenticate, AuthenticatedRequest } from '../middleware/auth.middleware';
+import { canAccess, ownerFilter } from '../utils/access';
+import { getStorageService } from '../services/fileStorage.service';
+import { checkInvoiceArithmetic } from '../utils/arithmeticChecks';
+import { getInvoiceVersion } from '../utils/invoiceVersion';
 
 const router = express.Router();
 
+// Shape a stored job for API responses
+const toJobResponse = (job: IExtractionJob): IExtractionJobResponse => ({
+  jobId: String(job._id),
+  status: job.status,
+  fileId: job.fileId,
+  model: job.aiModel,
+  invoiceId: job.invoiceId,
+  attempts: job.attempts,
+  maxAttempts: job.maxAttempts,
+  error: job.error,
+  errorDetails: job.errorDetails,
+  result: job.result ? {
+    extractedData: {
+      fileId: job.fileId,
+      fileName: `${job.fileId}.pdf`,
+      vendor: job.result.vendor,
+      invoice: job.result.invoice,
+      status: 'extracted',
+      extraction: {
+        model: job.aiModel,
+        source: job.result.source || 'model',
+        extractedAt: job.completedAt || job.createdAt,
+        fields: job.result.provenance || []
+      },
+      validationWarnings: checkInvoiceArithmetic(job.result.invoice)
+    },
+    processingTime: job.processingTime || 0,
+    model: job.aiModel
+  } : undefined,
+  createdAt: job.createdAt,
+  completedAt: job.completedAt
+});
+
 /**
  * POST /extract
- * Body: { fileId: string, model: 'gemini' | 'groq' }
- * Returns extracted JSON data
+ * Body: { fileId: string, model: ExtractionModel, invoiceId?: string }
+ * Queues an extraction job and returns its ID immediately.
+ * When invoiceId is given, that invoice's own file is extracted and the result is written
+ * into the invoice on completion; the fileId in the body is not used.
  */
 router.post('/',
+  authenticate,
   validate(extractRequestSchema),
-  async (req: express.Request, res: express.Response): Promise<void> => {
+  async (req: AuthenticatedRequest, res: express.Response): Promise<void> => {
   try {
-    const { fileId, model }: IExtractRequest = req.body;
+    const { model, invoiceId }: IExtractRequest = req.body;
+    let { fileId } = req.body as IExtractRequest;
+    let invoiceVersion: number | undefined;
+    let invoiceOwner: string | undefined;
 
     if (!fileId || !model) {
       res.status(400).json({ success: false, error: 'fileId and model are required' });
       return;
     }
 
-    const aiService = getAIService(model);
-    const startTime = Date.now();
-
-    // Extract data using selected model
-    const extracted = await aiService.extractInvoiceData(fileId);
+    if (invoiceId) {
+      const invoice = await Invoice.findOne({ _id: invoiceId, ...ownerFilter(req.user!) }).select('owner fileId version');
+      if (!invoice) {
+        res.status(404).json({ success: false, error: 'Invoice not found' });
+        return;
+      }
+      fileId = invoice.fileId;
+      invoiceVersion = getInvoiceVersion(invoice);
+      invoiceOwner = invoice.owner;
+    }
 
-    const duration = Date.now() - startTime;
+    let ownerId: string | undefined;
+    try {
+      ownerId = (await getStorageService().getFileInfo(fileId)).ownerId;
+    } catch {
+      res.status(404).json({ success: false, error: 'File not found' });
+      return;
+    }
+    if (!canAccess(req.user!, ownerId)) {
+      res.status(403).json({ success: false, error: 'You do not have permission to extract this file' });
+      return;
+    }
 
-    // Prepare data to be saved/returned
-    const data: Omit<IInvoice, '_id'> = {
+    // Templates and vendors are looked up for the owner, also when an admin queues the job
+    const job = await getExtractionQueue().enqueue({
+      owner: invoiceOwner || ownerId || req.user!.id,
+      requestedBy: req.user!.id,
       fileId,
-      fileName: `${fileId}.pdf`,
-      vendor: extracted.vendor,
-      invoice: extracted.invoice,
-      createdAt: new Date().toISOString(),
-      updatedAt: new Date().toISOString()
+      aiModel: model,
+      invoiceId,
+      invoiceVersion
+    });
+
+    const response: IApiResponse<IExtractionJobResponse> = {
+      success: true,
+      data: toJobResponse(job),
+      message: 'Extraction queued'
     };
 
+    res.status(202).json(response);
+  } catch (error) {
+    console.error('Extraction enqueue error:', error);
     const response: IApiResponse = {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to queue extraction'
+    };
+    res.status(500).json(response);
+  }
+});
+
+/**
+ * GET /extract/models
+ * List the extraction models and whether each one is configured and reachable
+ */
+router.get('/models', authenticate, async (_req: AuthenticatedRequest, res: express.Response): Promise<void> => {
+  try {
+    const models = await getExtractionModels();
+
+    const response: IApiResponse<IExtractionModelInfo[]> = {
       success: true,
-      data: {
-        extractedData: data,
-        processingTime: duration,
-        model
-      },
-      message: 'Extraction successful'
+      data: models
+    };
+
+    res.json(response);
+  } catch (error) {
+    console.error('List extraction models error:', error);
+    const response: IApiResponse = {
+      success: false,
+      error: 'Failed to list extraction models'
+    };
+    res.status(500).json(response);
+  }
+});
+
+/**
+ * GET /extract/jobs/:id
+ * Poll the status of an extraction job; includes the extracted data once completed
+ */
+router.get('/jobs/:id', authenticate, async (req: AuthenticatedRequest, res: express.Response): Promise<void> => {
+  try {
+    const { id } = req.params;
+
+    // Validate ObjectId format
+    if (!id.match(/^[0-9a-fA-F]{24}$/)) {
+      res.status(400).json({
+        success: false,
+        error: 'Invalid job ID format'
+      });
+      return;
+    }
+
+    const job = await getExtractionQueue().findForOwner(id, ownerFilter(req.user!));
+
+    if (!job) {
+      res.status(404).json({
+        success: false,
+        error: 'Extraction job not found'
+      });
+      return;
+    }
+
+    const response: IApiResponse<IExtractionJobResponse> = {
+      success: true,
+      data: toJobResponse(job),
+      message: `Extraction job is ${job.status}`
     };
 
     res.json(response);
   } catch (error) {
-    console.error('Extraction error:', error);
+    console.error('Get extraction job error:', error);
     const response: IApiResponse = {
       success: false,
-      error: error instanceof Error ? error.message : 'Extraction failed'
+      error: 'Failed to retrieve extraction job'
     };
     res.status(500).json(response);
   }
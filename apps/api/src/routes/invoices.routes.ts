@@ -1,43 +1,462 @@
 import express from 'express';
+import JSZip from 'jszip';
 import Invoice from '../models/Invoice';
-import { IApiResponse, IInvoice, ISearchQuery } from '../types/invoice.types';
-import { validate, createInvoiceSchema, updateInvoiceSchema, searchQuerySchema } from '../utils/validation';
+import User from '../models/User';
+import Vendor from '../models/Vendor';
+import {
+  IApiResponse,
+  IInvoice,
+  IPoMatchReport,
+  IInvoiceRevision,
+  IRevisionDiff,
+  IVendorMatch,
+  IVendorRecord,
+  ISearchQuery,
+  ISearchFilters,
+  IExportQuery,
+  InvoiceStatus,
+  TableExportFormat,
+  AccountingProfileId
+} from '../types/invoice.types';
+import {
+  validate,
+  createInvoiceSchema,
+  updateInvoiceSchema,
+  searchQuerySchema,
+  rejectInvoiceSchema,
+  statusChangeSchema,
+  exportQuerySchema,
+  bulkExportQuerySchema,
+  linkVendorSchema,
+  revisionDiffQuerySchema,
+  validateJsonPatch,
+  validateInvoiceEdits
+} from '../utils/validation';
 import { authenticate, AuthenticatedRequest } from '../middleware/auth.middleware';
+import { canAccess, ownerFilter } from '../utils/access';
+import { canTransition, getAllowedTransitions, isEditable, EXPORTABLE_STATUSES, LOCKED_STATUSES } from '../utils/invoiceStatus';
+import { validateUblExport, buildUblInvoice } from '../utils/ublExport';
+import { createTableWriter, toExportRows, EXPORT_CONTENT_TYPES } from '../utils/tableExport';
+import {
+  getAccountingProfile,
+  getAccountingProfiles,
+  validateAccountingExport,
+  DEFAULT_ACCOUNTING_PROFILE
+} from '../services/accountingExport.service';
+import { extractDocumentText } from '../services/ai.service';
+import { getStorageService } from '../services/fileStorage.service';
+import { getDuplicateDetectionService, getInvoiceFingerprint } from '../services/duplicateDetection.service';
+import { buildSearchSnippets, escapeRegex } from '../utils/textSearch';
+import { checkInvoiceArithmetic } from '../utils/arithmeticChecks';
+import { getVendorMatchingService } from '../services/vendorMatching.service';
+import { getExtractionTemplateService } from '../services/extractionTemplate.service';
+import { getExtractionQueue } from '../services/extractionQueue.service';
+import { getPurchaseOrderService } from '../services/purchaseOrder.service';
+import { getInvoiceRevisionService, IRevisionContext } from '../services/invoiceRevision.service';
+import { getInvoiceETag, matchesIfMatch, versionFilter } from '../utils/invoiceVersion';
+import { applyInvoicePatch, InvoicePatchError, InvoicePatchTestError } from '../utils/invoicePatch';
+import { normalizeLineItems } from '../utils/lineItems';
 
 const router = express.Router();
 
+// Accounting files are built in memory, unlike the streamed spreadsheet export
+const MAX_ACCOUNTING_EXPORT = 1000;
+
+// Times a JSON Patch is applied again when another update got in between reading and writing
+const MAX_PATCH_ATTEMPTS = 3;
+
+const revisionActor = (req: AuthenticatedRequest): IRevisionContext['actor'] => ({ id: req.user!.id, email: req.user!.email });
+
+// History is kept on a best effort basis: a revision that cannot be written does not undo the change
+const recordRevision = async (invoice: IInvoice, context: IRevisionContext, before?: IInvoice): Promise<void> => {
+  await getInvoiceRevisionService().record(invoice, context, before).catch(error => {
+    console.warn(`Could not record revision of invoice ${invoice._id}:`, error instanceof Error ? error.message : error);
+  });
+};
+
+/**
+ * Respond with 412 and the invoice as it is now, so the client can show what the other
+ * writer changed and offer to merge it with its own changes
+ */
+const sendVersionConflict = (res: express.Response, invoice: IInvoice): void => {
+  const response: IApiResponse<IInvoice> = {
+    success: false,
+    data: invoice,
+    error: 'Invoice was changed by someone else. Review their changes and save again'
+  };
+  res.status(412).set('ETag', getInvoiceETag(invoice)).json(response);
+};
+
+/**
+ * Respond with 409 to an edit or delete of an approved or paid invoice
+ */
+const sendLocked = (res: express.Response, invoice: IInvoice, action: 'edited' | 'deleted' = 'edited'): void => {
+  const response: IApiResponse<IInvoice> = {
+    success: false,
+    data: invoice,
+    error: `${invoice.status === 'paid' ? 'Paid' : 'Approved'} invoices cannot be ${action}. Send the invoice back to review first`
+  };
+  res.status(409).set('ETag', getInvoiceETag(invoice)).json(response);
+};
+
+/**
+ * Respond to a conditional write that did not apply: 409 when the invoice was approved
+ * meanwhile, 412 when it was changed, 404 when it was deleted
+ */
+const sendWriteRejected = async (res: express.Response, filter: Record<string, unknown>): Promise<void> => {
+  const latest = await Invoice.findOne(filter).select('-documentText').lean() as unknown as IInvoice | null;
+  if (!latest) {
+    res.status(404).json({
+      success: false,
+      error: 'Invoice not found'
+    });
+    return;
+  }
+  (isEditable(latest.status) ? sendVersionConflict : sendLocked)(res, latest);
+};
+
+/**
+ * Move an invoice to a new status, recording who acted and when.
+ * Responds with 409 when the transition is not allowed from the current status.
+ */
+const changeStatus = async (
+  req: AuthenticatedRequest,
+  res: express.Response,
+  status: InvoiceStatus,
+  reason?: string
+): Promise<void> => {
+  try {
+    const { id } = req.params;
+
+    // Validate ObjectId format
+    if (!id.match(/^[0-9a-fA-F]{24}$/)) {
+      res.status(400).json({
+        success: false,
+        error: 'Invalid invoice ID format'
+      });
+      return;
+    }
+
+    const filter = { _id: id, ...ownerFilter(req.user!) };
+    const existing = await Invoice.findOne(filter).lean();
+
+    if (!existing) {
+      res.status(404).json({
+        success: false,
+        error: 'Invoice not found'
+      });
+      return;
+    }
+
+    // Invoices created before statuses existed are treated as drafts
+    const currentStatus: InvoiceStatus = existing.status || 'draft';
+    if (!canTransition(currentStatus, status)) {
+      const allowed = getAllowedTransitions(currentStatus);
+      res.status(409).json({
+        success: false,
+        error: `Cannot change invoice status from '${currentStatus}' to '${status}'. ` +
+          (allowed.length ? `Allowed: ${allowed.join(', ')}` : 'No further changes are allowed')
+      });
+      return;
+    }
+
+    const now = new Date().toISOString();
+    const set: Record<string, unknown> = { status, updatedAt: now };
+    const unset: Record<string, ''> = {};
+
+    if (status === 'approved' || status === 'rejected') {
+      set.reviewedBy = req.user!.id;
+      set.reviewedAt = now;
+    }
+    if (status === 'rejected') {
+      set.rejectionReason = reason;
+    } else {
+      unset.rejectionReason = '';
+    }
+
+    // Only apply the change if nobody moved the invoice in the meantime
+    const invoice = await Invoice.findOneAndUpdate(
+      { ...filter, status: existing.status ?? null },
+      {
+        $set: set,
+        $unset: unset,
+        $inc: { version: 1 },
+        $push: {
+          statusHistory: {
+            from: currentStatus,
+            to: status,
+            changedBy: req.user!.id,
+            changedAt: now,
+            reason: reason || undefined
+          }
+        }
+      },
+      {
+        new: true,
+        runValidators: true,
+        lean: true
+      }
+    );
+
+    if (!invoice) {
+      res.status(409).json({
+        success: false,
+        error: 'Invoice status was changed by another request. Please reload and try again'
+      });
+      return;
+    }
+
+    await recordRevision(
+      invoice as unknown as IInvoice,
+      { source: 'status', actor: revisionActor(req), note: reason || undefined },
+      existing as unknown as IInvoice
+    );
+
+    // What the reviewer corrected before approving improves the next extraction from this vendor
+    if (status === 'approved') {
+      await getExtractionTemplateService().learnFromInvoice(invoice as unknown as IInvoice).catch(error => {
+        console.warn(`Could not learn from invoice ${id}:`, error instanceof Error ? error.message : error);
+      });
+    }
+
+    const response: IApiResponse<IInvoice> = {
+      success: true,
+      data: invoice as unknown as IInvoice,
+      message: `Invoice marked as ${status.replace('_', ' ')}`
+    };
+
+    res.set('ETag', getInvoiceETag(invoice)).json(response);
+  } catch (error) {
+    console.error('Change invoice status error:', error);
+    const response: IApiResponse = {
+      success: false,
+      error: 'Failed to update invoice status'
+    };
+    res.status(500).json(response);
+  }
+};
+
+// Inclusive range condition, or undefined when neither bound is set
+const range = <T>(min?: T, max?: T): Record<string, T> | undefined => {
+  if (min === undefined && max === undefined) {
+    return undefined;
+  }
+  return {
+    ...(min !== undefined ? { $gte: min } : {}),
+    ...(max !== undefined ? { $lte: max } : {})
+  };
+};
+
+/**
+ * Build the MongoDB filter for the search parameters shared by the invoice list and its export
+ */
+const buildSearchFilter = (
+  user: NonNullable<AuthenticatedRequest['user']>,
+  filters: ISearchFilters
+): Record<string, unknown> => {
+  const { q, status } = filters;
+  let query: Record<string, unknown> = ownerFilter(user);
+  
+  // Full-text search over the vendor, number, line items and the text printed on the document.
+  // Text search only matches whole words, so vendor names and numbers also match by prefix.
+  if (q && q.trim()) {
+    const prefix = new RegExp(`^${escapeRegex(q.trim())}`, 'i');
+    query = {
+      ...query,
+      $or: [
+        { $text: { $search: q.trim() } },
+        { 'vendor.name': prefix },
+        { 'invoice.number': prefix }
+      ]
+    };
+  }
+
+  // Filter by status; invoices without a stored status count as drafts
+  if (status && status.length) {
+    query.status = { $in: status.includes('draft') ? [...status, null] : status };
+  }
+
+  // Invoice dates are stored as YYYY-MM-DD, so string bounds compare chronologically
+  const invoiceDate = range(filters.dateFrom?.slice(0, 10), filters.dateTo?.slice(0, 10));
+  if (invoiceDate) {
+    query['invoice.date'] = invoiceDate;
+  }
+
+  // Creation times are ISO timestamps; extend the upper bound to the end of that day
+  const createdAt = range(
+    filters.createdFrom?.slice(0, 10),
+    filters.createdTo ? `${filters.createdTo.slice(0, 10)}T23:59:59.999Z` : undefined
+  );
+  if (createdAt) {
+    query.createdAt = createdAt;
+  }
+
+  const total = range(filters.totalMin, filters.totalMax);
+  if (total) {
+    query['invoice.total'] = total;
+  }
+
+  if (filters.currency && filters.currency.length) {
+    query['invoice.currency'] = { $in: filters.currency };
+  }
+
+  if (filters.vendor) {
+    query['vendor.name'] = filters.vendor;
+  }
+
+  if (filters.hasPoNumber !== undefined) {
+    query['invoice.poNumber'] = filters.hasPoNumber ? { $nin: [null, ''] } : { $in: [null, ''] };
+  }
+
+  return query;
+};
+
+const buildSort = (
+  { q, sortBy, sortOrder }: Pick<ISearchQuery, 'q' | 'sortBy' | 'sortOrder'>
+): Record<string, 1 | -1 | { $meta: 'textScore' }> => {
+  const hasText = !!q?.trim();
+  const field = sortBy || (hasText ? 'relevance' : 'createdAt');
+
+  // Tie-break on _id so paging and exports have a stable order
+  if (field === 'relevance') {
+    return hasText ? { score: { $meta: 'textScore' }, _id: 1 } : { createdAt: -1, _id: 1 };
+  }
+  return { [field]: (sortOrder || 'desc') === 'desc' ? -1 : 1, _id: 1 };
+};
+
+// Attach the search score and passages of the document text matching the query
+const withSearchMatch = (invoice: IInvoice & { score?: number }, q: string): IInvoice => {
+  const { documentText, score, ...rest } = invoice;
+  return {
+    ...rest,
+    search: {
+      score: score || 0,
+      snippets: buildSearchSnippets(documentText || [], q)
+    }
+  };
+};
+
+// Hash of the stored file; files uploaded before hashes were recorded have none
+const readContentHash = async (fileId: string): Promise<string | undefined> => {
+  try {
+    return (await getStorageService().getFileInfo(fileId)).contentHash;
+  } catch (error) {
+    console.warn(`Could not read info of file ${fileId}:`, error instanceof Error ? error.message : error);
+    return undefined;
+  }
+};
+
+// Whether the user may attach a stored file to an invoice; missing files count as not theirs
+const canUseFile = async (user: NonNullable<AuthenticatedRequest['user']>, fileId: string): Promise<boolean> => {
+  try {
+    return canAccess(user, (await getStorageService().getFileInfo(fileId)).ownerId);
+  } catch (error) {
+    console.warn(`Could not read info of file ${fileId}:`, error instanceof Error ? error.message : error);
+    return false;
+  }
+};
+
+// Add the other invoices that look like the same document, if there are any
+const withDuplicates = async (user: NonNullable<AuthenticatedRequest['user']>, invoice: IInvoice): Promise<IInvoice> => {
+  const duplicates = await getDuplicateDetectionService().findDuplicatesOf(user, invoice);
+  return duplicates.length ? { ...invoice, duplicates } : invoice;
+};
+
+// Text for the search index; an unreadable document is still saved, just not searchable by content
+const readDocumentText = async (fileId: string): Promise<string[]> => {
+  try {
+    return await extractDocumentText(fileId);
+  } catch (error) {
+    console.warn(`Could not read text of file ${fileId}:`, error instanceof Error ? error.message : error);
+    return [];
+  }
+};
+
+/**
+ * Add what follows the file, vendor and invoice data to an update of the current invoice:
+ * arithmetic warnings, search text, duplicate detection hashes and the vendor match
+ */
+const addDerivedFields = async (updateData: Record<string, any>, current: IInvoice, userId: string): Promise<void> => {
+  if (updateData.invoice) {
+    updateData.invoice.lineItems = normalizeLineItems(updateData.invoice.lineItems);
+    updateData.validationWarnings = checkInvoiceArithmetic(updateData.invoice);
+  }
+  if (updateData.fileId && current.fileId !== updateData.fileId) {
+    updateData.documentText = await readDocumentText(updateData.fileId);
+    updateData.contentHash = await readContentHash(updateData.fileId) ?? null;
+  }
+  if (updateData.fileId || updateData.vendor || updateData.invoice) {
+    updateData.fingerprint = getInvoiceFingerprint(
+      updateData.vendor || current.vendor,
+      updateData.invoice || current.invoice
+    ) ?? null;
+  }
+  if (updateData.vendor) {
+    updateData.vendorMatch = await getVendorMatchingService().rematch(
+      current.owner || userId,
+      updateData.vendor,
+      current.vendor,
+      current.vendorMatch
+    ) ?? null;
+  }
+};
+
+/**
+ * Write an edit of the invoice read as current, with the fields derived from it, and record
+ * the revision. A conditional write only applies while the invoice is still at the version
+ * read; like a write to a deleted invoice, it resolves to null otherwise.
+ */
+const writeInvoiceEdit = async (
+  req: AuthenticatedRequest,
+  current: IInvoice,
+  updateData: Record<string, any>,
+  conditional: boolean
+): Promise<IInvoice | null> => {
+  updateData.updatedAt = new Date().toISOString();
+  await addDerivedFields(updateData, current, req.user!.id);
+
+  const invoice = await Invoice.findOneAndUpdate(
+    // Never over an approval that came in meanwhile
+    { _id: current._id, ...ownerFilter(req.user!), status: { $nin: LOCKED_STATUSES }, ...(conditional ? versionFilter(current) : {}) },
+    { $set: updateData, $inc: { version: 1 } },
+    {
+      new: true,
+      runValidators: true,
+      lean: true
+    }
+  ) as unknown as IInvoice | null;
+
+  if (invoice) {
+    await recordRevision(invoice, { source: 'edit', actor: revisionActor(req) }, current);
+  }
+  return invoice;
+};
+
 /**
  * GET /invoices
- * Get all invoices with optional search and pagination
+ * Get all invoices owned by the current user (admins see all) with optional search and pagination
  */
 router.get('/', 
   authenticate,
   validate(searchQuerySchema, 'query'),
   async (req: AuthenticatedRequest, res: express.Response): Promise<void> => {
     try {
-      const { q, page, limit, sortBy, sortOrder }: ISearchQuery = req.query;
+      const { q, page, limit }: ISearchQuery = req.query;
       
       const skip = ((page || 1) - 1) * (limit || 10);
-      let query = {};
-      
-      // Build search query
-      if (q && q.trim()) {
-        query = {
-          $or: [
-            { 'vendor.name': { $regex: q.trim(), $options: 'i' } },
-            { 'invoice.number': { $regex: q.trim(), $options: 'i' } }
-          ]
-        };
-      }
+      const query = buildSearchFilter(req.user!, req.query);
+      const sort = buildSort(req.query);
+      const search = q?.trim();
 
-      // Build sort object
-      const sort: any = {};
-      const sortField = sortBy || 'createdAt';
-      sort[sortField] = (sortOrder || 'desc') === 'desc' ? -1 : 1;
+      // Text searches also load the score and the document text for snippets
+      const find = Invoice.find(query);
+      if (search) {
+        find.select({ score: { $meta: 'textScore' } }).select('+documentText');
+      }
 
       // Execute queries
       const [invoices, total] = await Promise.all([
-        Invoice.find(query)
+        find
           .sort(sort)
           .skip(skip)
           .limit(limit || 10)
@@ -45,9 +464,10 @@ router.get('/',
         Invoice.countDocuments(query)
       ]);
 
+      const data = invoices as unknown as IInvoice[];
       const response: IApiResponse<IInvoice[]> = {
         success: true,
-        data: invoices as unknown as IInvoice[],
+        data: search ? data.map(invoice => withSearchMatch(invoice, search)) : data,
         message: `Found ${invoices.length} invoice(s)`,
         pagination: {
           page: page || 1,
@@ -69,6 +489,307 @@ router.get('/',
   }
 );
 
+// Invoice number as a safe file name, falling back to the document ID
+const exportFileName = (invoice: IInvoice, extension: string): string => {
+  const base = (invoice.invoice.number || '').replace(/[^\w.-]+/g, '_').replace(/^[_.]+|_+$/g, '');
+  return `${base || invoice._id}.${extension}`;
+};
+
+/**
+ * Send the listed invoices as a ZIP of UBL 2.1 XML files. Nothing is exported
+ * unless every invoice passes validation.
+ */
+const sendUblArchive = async (req: AuthenticatedRequest, res: express.Response, ids: string[]): Promise<void> => {
+  const invoices = await Invoice.find({ _id: { $in: ids }, ...ownerFilter(req.user!) }).lean() as unknown as IInvoice[];
+
+  const found = new Set(invoices.map(invoice => String(invoice._id)));
+  const missing = ids.filter(id => !found.has(id));
+  if (missing.length) {
+    res.status(404).json({
+      success: false,
+      error: 'Invoice not found',
+      details: missing.map(id => `${id}: not found`)
+    });
+    return;
+  }
+
+  const details = invoices.flatMap(invoice =>
+    validateUblExport(invoice).map(message => `${invoice._id} (${invoice.invoice.number || 'no number'}): ${message}`)
+  );
+  if (details.length) {
+    res.status(422).json({
+      success: false,
+      error: 'Invoices cannot be exported as UBL',
+      details
+    });
+    return;
+  }
+
+  // Invoice numbers are not unique across vendors, so clashing names get the document ID
+  const zip = new JSZip();
+  const names = new Set<string>();
+  for (const invoice of invoices) {
+    let fileName = exportFileName(invoice, 'xml');
+    if (names.has(fileName)) {
+      fileName = `${invoice._id}.xml`;
+    }
+    names.add(fileName);
+    zip.file(fileName, buildUblInvoice(invoice));
+  }
+
+  const archive = await zip.generateAsync({ type: 'nodebuffer', compression: 'DEFLATE' });
+  res.setHeader('Content-Type', 'application/zip');
+  res.setHeader('Content-Disposition', 'attachment; filename="invoices-ubl.zip"');
+  res.send(archive);
+};
+
+/**
+ * Stream the invoices matching the search as a CSV or XLSX table. Rows are written
+ * as they are read from the database, so exports of any size use constant memory.
+ */
+const streamInvoiceTable = async (req: AuthenticatedRequest, res: express.Response, query: IExportQuery): Promise<void> => {
+  const format = query.format as TableExportFormat;
+  const filter = buildSearchFilter(req.user!, query);
+  if (query.ids) {
+    filter._id = { $in: query.ids };
+  }
+
+  const date = new Date().toISOString().slice(0, 10);
+  res.setHeader('Content-Type', EXPORT_CONTENT_TYPES[format]);
+  res.setHeader('Content-Disposition', `attachment; filename="invoices-${query.layout}-${date}.${format}"`);
+
+  const writer = await createTableWriter(format, query.layout, res);
+  const cursor = Invoice.find(filter).sort(buildSort(query)).lean().cursor();
+
+  for await (const invoice of cursor) {
+    for (const row of toExportRows(invoice as unknown as IInvoice, query.layout)) {
+      await writer.writeRow(row);
+    }
+  }
+
+  await writer.finish();
+};
+
+/**
+ * Render invoices with an accounting profile: the one requested, or the user's default.
+ * Responds with 422 and every problem found when any invoice cannot be exported.
+ */
+const sendAccountingExport = async (
+  req: AuthenticatedRequest,
+  res: express.Response,
+  invoices: IInvoice[],
+  profileId?: AccountingProfileId
+): Promise<void> => {
+  const user = await User.findById(req.user!.id).lean();
+  const preferences = user?.preferences?.accounting || {};
+  const profile = getAccountingProfile(profileId || user?.preferences?.exportProfile || DEFAULT_ACCOUNTING_PROFILE);
+
+  const details = validateAccountingExport(profile, invoices, preferences);
+  if (details.length) {
+    res.status(422).json({
+      success: false,
+      error: `${invoices.length > 1 ? 'Invoices' : 'Invoice'} cannot be exported for ${profile.name}`,
+      details
+    });
+    return;
+  }
+
+  const fileName = invoices.length === 1
+    ? exportFileName(invoices[0], profile.extension)
+    : `invoices-${profile.id}-${new Date().toISOString().slice(0, 10)}.${profile.extension}`;
+
+  res.setHeader('Content-Type', profile.contentType);
+  res.setHeader('Content-Disposition', `attachment; filename="${fileName}"`);
+  res.send(profile.render(invoices, preferences));
+};
+
+/**
+ * Load the invoices for a bulk accounting export: the listed IDs, which must all exist,
+ * or the approved and paid invoices matching the search. Responds and returns undefined otherwise.
+ */
+const findAccountingExportInvoices = async (
+  req: AuthenticatedRequest,
+  res: express.Response,
+  query: IExportQuery
+): Promise<IInvoice[] | undefined> => {
+  if (query.ids) {
+    const ids = Array.from(new Set(query.ids));
+    // The listed invoices are not text searched, so they cannot be ranked by relevance
+    const invoices = await Invoice.find({ _id: { $in: ids }, ...ownerFilter(req.user!) })
+      .sort(buildSort({ sortBy: query.sortBy, sortOrder: query.sortOrder }))
+      .lean() as unknown as IInvoice[];
+    const found = new Set(invoices.map(invoice => String(invoice._id)));
+    const missing = ids.filter(id => !found.has(id));
+    if (missing.length) {
+      res.status(404).json({
+        success: false,
+        error: 'Invoice not found',
+        details: missing.map(id => `${id}: not found`)
+      });
+      return undefined;
+    }
+    return invoices;
+  }
+
+  const filter = buildSearchFilter(req.user!, query);
+  const status = query.status?.length
+    ? query.status.filter(value => EXPORTABLE_STATUSES.includes(value))
+    : EXPORTABLE_STATUSES;
+  const invoices = await Invoice.find({ ...filter, status: { $in: status } })
+    .sort(buildSort(query))
+    .limit(MAX_ACCOUNTING_EXPORT + 1)
+    .lean() as unknown as IInvoice[];
+
+  if (!invoices.length) {
+    res.status(404).json({
+      success: false,
+      error: 'No approved or paid invoices match the search'
+    });
+    return undefined;
+  }
+  if (invoices.length > MAX_ACCOUNTING_EXPORT) {
+    res.status(400).json({
+      success: false,
+      error: `Accounting exports are limited to ${MAX_ACCOUNTING_EXPORT} invoices; narrow the search`
+    });
+    return undefined;
+  }
+  return invoices;
+};
+
+/**
+ * GET /invoices/export/profiles
+ * List the accounting export profiles and the current user's default
+ */
+router.get('/export/profiles', authenticate, async (req: AuthenticatedRequest, res: express.Response): Promise<void> => {
+  try {
+    const user = await User.findById(req.user!.id).lean();
+
+    const response: IApiResponse = {
+      success: true,
+      data: {
+        profiles: getAccountingProfiles(),
+        defaultProfile: user?.preferences?.exportProfile || DEFAULT_ACCOUNTING_PROFILE
+      }
+    };
+
+    res.json(response);
+  } catch (error) {
+    console.error('Get export profiles error:', error);
+    const response: IApiResponse = {
+      success: false,
+      error: 'Failed to retrieve export profiles'
+    };
+    res.status(500).json(response);
+  }
+});
+
+/**
+ * GET /invoices/export
+ * Export invoices for finance. `format=csv|xlsx` streams the invoices matching the same
+ * search and sort parameters as GET /invoices, one row per invoice (`layout=header`) or per
+ * line item (`layout=lines`). `format=ubl` downloads the invoices given in `ids` as a ZIP of UBL 2.1 XML files.
+ * `format=accounting` renders the listed or approved matching invoices with an accounting `profile`.
+ */
+router.get('/export',
+  authenticate,
+  validate(bulkExportQuerySchema, 'query'),
+  async (req: AuthenticatedRequest, res: express.Response): Promise<void> => {
+    try {
+      const query = req.query as unknown as IExportQuery;
+
+      if (query.format === 'ubl') {
+        await sendUblArchive(req, res, Array.from(new Set(query.ids)));
+        return;
+      }
+
+      if (query.format === 'accounting') {
+        const invoices = await findAccountingExportInvoices(req, res, query);
+        if (invoices) {
+          await sendAccountingExport(req, res, invoices, query.profile);
+        }
+        return;
+      }
+
+      await streamInvoiceTable(req, res, query);
+    } catch (error) {
+      console.error('Export invoices error:', error);
+
+      // Once streaming has started the status is sent; abort so the client sees an incomplete download
+      if (res.headersSent) {
+        res.destroy(error as Error);
+        return;
+      }
+
+      const response: IApiResponse = {
+        success: false,
+        error: 'Failed to export invoices'
+      };
+      res.status(500).json(response);
+    }
+  }
+);
+
+/**
+ * GET /invoices/:id/export?format=ubl|accounting&profile=...
+ * Export an approved invoice as UBL 2.1 XML, or for an accounting package
+ */
+router.get('/:id/export',
+  authenticate,
+  validate(exportQuerySchema, 'query'),
+  async (req: AuthenticatedRequest, res: express.Response): Promise<void> => {
+    try {
+      const { id } = req.params;
+
+      // Validate ObjectId format
+      if (!id.match(/^[0-9a-fA-F]{24}$/)) {
+        res.status(400).json({
+          success: false,
+          error: 'Invalid invoice ID format'
+        });
+        return;
+      }
+
+      const invoice = await Invoice.findOne({ _id: id, ...ownerFilter(req.user!) }).lean() as unknown as IInvoice | null;
+
+      if (!invoice) {
+        res.status(404).json({
+          success: false,
+          error: 'Invoice not found'
+        });
+        return;
+      }
+
+      const query = req.query as unknown as IExportQuery;
+      if (query.format === 'accounting') {
+        await sendAccountingExport(req, res, [invoice], query.profile);
+        return;
+      }
+
+      const details = validateUblExport(invoice);
+      if (details.length) {
+        res.status(422).json({
+          success: false,
+          error: 'Invoice cannot be exported as UBL',
+          details
+        });
+        return;
+      }
+
+      res.setHeader('Content-Type', 'application/xml; charset=utf-8');
+      res.setHeader('Content-Disposition', `attachment; filename="${exportFileName(invoice, 'xml')}"`);
+      res.send(buildUblInvoice(invoice));
+    } catch (error) {
+      console.error('Export invoice error:', error);
+      const response: IApiResponse = {
+        success: false,
+        error: 'Failed to export invoice'
+      };
+      res.status(500).json(response);
+    }
+  }
+);
+
 /**
  * GET /invoices/:id
  * Get a specific invoice by ID
@@ -86,9 +807,289 @@ router.get('/:id', authenticate, async (req: AuthenticatedRequest, res: express.
       return;
     }
 
-    const invoice = await Invoice.findById(id).lean();
+    const invoice = await Invoice.findOne({ _id: id, ...ownerFilter(req.user!) }).lean();
+
+    if (!invoice) {
+      res.status(404).json({
+        success: false,
+        error: 'Invoice not found'
+      });
+      return;
+    }
+
+    const response: IApiResponse<IInvoice> = {
+      success: true,
+      data: await withDuplicates(req.user!, invoice as unknown as IInvoice),
+      message: 'Invoice retrieved successfully'
+    };
+
+    res.set('ETag', getInvoiceETag(invoice)).json(response);
+  } catch (error) {
+    console.error('Get invoice error:', error);
+    const response: IApiResponse = {
+      success: false,
+      error: 'Failed to retrieve invoice'
+    };
+    res.status(500).json(response);
+  }
+});
+
+/**
+ * GET /invoices/:id/po-match
+ * Match the invoice's line items against the purchase order with its PO number and, where
+ * goods receipts are kept, the quantities received (2-way or 3-way match report)
+ */
+router.get('/:id/po-match', authenticate, async (req: AuthenticatedRequest, res: express.Response): Promise<void> => {
+  try {
+    const { id } = req.params;
+
+    // Validate ObjectId format
+    if (!id.match(/^[0-9a-fA-F]{24}$/)) {
+      res.status(400).json({
+        success: false,
+        error: 'Invalid invoice ID format'
+      });
+      return;
+    }
+
+    const invoice = await Invoice.findOne({ _id: id, ...ownerFilter(req.user!) })
+      .select('owner invoice vendorMatch')
+      .lean();
+
+    if (!invoice) {
+      res.status(404).json({
+        success: false,
+        error: 'Invoice not found'
+      });
+      return;
+    }
+
+    const response: IApiResponse<IPoMatchReport> = {
+      success: true,
+      data: await getPurchaseOrderService().matchInvoice(invoice as unknown as IInvoice)
+    };
+
+    res.json(response);
+  } catch (error) {
+    console.error('PO match error:', error);
+    const response: IApiResponse = {
+      success: false,
+      error: 'Failed to match invoice against purchase order'
+    };
+    res.status(500).json(response);
+  }
+});
+
+// Revision routes take the invoice ID and, where given, a revision number
+const parseRevisionParams = (req: AuthenticatedRequest, res: express.Response): { id: string; revision?: number } | undefined => {
+  const { id, revision } = req.params;
+
+  // Validate ObjectId format
+  if (!id.match(/^[0-9a-fA-F]{24}$/)) {
+    res.status(400).json({
+      success: false,
+      error: 'Invalid invoice ID format'
+    });
+    return undefined;
+  }
+  if (revision !== undefined && !/^[1-9]\d*$/.test(revision)) {
+    res.status(400).json({
+      success: false,
+      error: 'Invalid revision number'
+    });
+    return undefined;
+  }
+
+  return { id, revision: revision === undefined ? undefined : parseInt(revision, 10) };
+};
+
+/**
+ * GET /invoices/:id/revisions
+ * List the revisions of an invoice, newest first, with who made them and the fields they changed
+ */
+router.get('/:id/revisions', authenticate, async (req: AuthenticatedRequest, res: express.Response): Promise<void> => {
+  try {
+    const params = parseRevisionParams(req, res);
+    if (!params) {
+      return;
+    }
+
+    if (!await Invoice.exists({ _id: params.id, ...ownerFilter(req.user!) })) {
+      res.status(404).json({
+        success: false,
+        error: 'Invoice not found'
+      });
+      return;
+    }
+
+    const revisions = await getInvoiceRevisionService().list(params.id);
+    const response: IApiResponse<IInvoiceRevision[]> = {
+      success: true,
+      data: revisions,
+      message: `Found ${revisions.length} revision(s)`
+    };
+
+    res.json(response);
+  } catch (error) {
+    console.error('Get invoice revisions error:', error);
+    const response: IApiResponse = {
+      success: false,
+      error: 'Failed to retrieve invoice revisions'
+    };
+    res.status(500).json(response);
+  }
+});
+
+/**
+ * GET /invoices/:id/revisions/diff?from=1&to=3
+ * Field level changes between two revisions; to defaults to the latest revision
+ */
+router.get('/:id/revisions/diff',
+  authenticate,
+  validate(revisionDiffQuerySchema, 'query'),
+  async (req: AuthenticatedRequest, res: express.Response): Promise<void> => {
+    try {
+      const params = parseRevisionParams(req, res);
+      if (!params) {
+        return;
+      }
+
+      if (!await Invoice.exists({ _id: params.id, ...ownerFilter(req.user!) })) {
+        res.status(404).json({
+          success: false,
+          error: 'Invoice not found'
+        });
+        return;
+      }
+
+      const revisionService = getInvoiceRevisionService();
+      const { from, to } = req.query as unknown as { from: number; to?: number };
+      const latest = to ?? await revisionService.latestRevision(params.id);
+      const diff = latest === undefined ? null : await revisionService.diff(params.id, from, latest);
+
+      if (!diff) {
+        res.status(404).json({
+          success: false,
+          error: 'Revision not found'
+        });
+        return;
+      }
+
+      const response: IApiResponse<IRevisionDiff> = {
+        success: true,
+        data: diff
+      };
+
+      res.json(response);
+    } catch (error) {
+      console.error('Diff invoice revisions error:', error);
+      const response: IApiResponse = {
+        success: false,
+        error: 'Failed to compare invoice revisions'
+      };
+      res.status(500).json(response);
+    }
+  }
+);
+
+/**
+ * GET /invoices/:id/revisions/:revision
+ * Get one revision with the full snapshot of the invoice at that point
+ */
+router.get('/:id/revisions/:revision', authenticate, async (req: AuthenticatedRequest, res: express.Response): Promise<void> => {
+  try {
+    const params = parseRevisionParams(req, res);
+    if (!params) {
+      return;
+    }
+
+    const exists = await Invoice.exists({ _id: params.id, ...ownerFilter(req.user!) });
+    const revision = exists ? await getInvoiceRevisionService().get(params.id, params.revision!) : null;
+
+    if (!revision) {
+      res.status(404).json({
+        success: false,
+        error: exists ? 'Revision not found' : 'Invoice not found'
+      });
+      return;
+    }
+
+    const response: IApiResponse<IInvoiceRevision> = {
+      success: true,
+      data: revision
+    };
+
+    res.json(response);
+  } catch (error) {
+    console.error('Get invoice revision error:', error);
+    const response: IApiResponse = {
+      success: false,
+      error: 'Failed to retrieve invoice revision'
+    };
+    res.status(500).json(response);
+  }
+});
+
+/**
+ * POST /invoices/:id/revisions/:revision/restore
+ * Put the vendor, invoice data and accounting coding of an earlier revision back. The status
+ * stays as it is, since status changes follow the review workflow. Recorded as a new revision.
+ * Like PUT and PATCH it honours If-Match, and it only writes over the version it read.
+ */
+router.post('/:id/revisions/:revision/restore', authenticate, async (req: AuthenticatedRequest, res: express.Response): Promise<void> => {
+  try {
+    const params = parseRevisionParams(req, res);
+    if (!params) {
+      return;
+    }
+
+    const filter = { _id: params.id, ...ownerFilter(req.user!) };
+    const ifMatch = req.get('If-Match');
+    const current = await Invoice.findOne(filter).select('-documentText').lean() as unknown as IInvoice | null;
+    const target = current ? await getInvoiceRevisionService().get(params.id, params.revision!) : null;
+
+    if (!current || !target) {
+      res.status(404).json({
+        success: false,
+        error: current ? 'Revision not found' : 'Invoice not found'
+      });
+      return;
+    }
+
+    if (!matchesIfMatch(ifMatch, current)) {
+      sendVersionConflict(res, current);
+      return;
+    }
+
+    if (!isEditable(current.status)) {
+      sendLocked(res, current);
+      return;
+    }
+
+    const { vendor, invoice: invoiceData, accounting } = target.snapshot;
+    const set: Record<string, any> = { vendor, invoice: invoiceData, updatedAt: new Date().toISOString() };
+    await addDerivedFields(set, current, req.user!.id);
+    if (accounting) {
+      set.accounting = accounting;
+    }
+
+    // Restoring over a change made since the invoice was read would silently undo it
+    const invoice = await Invoice.findOneAndUpdate(
+      { ...filter, ...versionFilter(current), status: { $nin: LOCKED_STATUSES } },
+      { $set: set, $inc: { version: 1 }, ...(accounting ? {} : { $unset: { accounting: '' } }) },
+      {
+        new: true,
+        runValidators: true,
+        lean: true
+      }
+    );
 
     if (!invoice) {
+      const latest = await Invoice.findOne(filter).select('-documentText').lean() as unknown as IInvoice | null;
+      if (latest) {
+        (isEditable(latest.status) ? sendVersionConflict : sendLocked)(res, latest);
+        return;
+      }
       res.status(404).json({
         success: false,
         error: 'Invoice not found'
@@ -96,18 +1097,24 @@ router.get('/:id', authenticate, async (req: AuthenticatedRequest, res: express.
       return;
     }
 
+    await recordRevision(
+      invoice as unknown as IInvoice,
+      { source: 'restore', actor: revisionActor(req), restoredFrom: target.revision, note: `Restored revision ${target.revision}` },
+      current
+    );
+
     const response: IApiResponse<IInvoice> = {
       success: true,
-      data: invoice as unknown as IInvoice,
-      message: 'Invoice retrieved successfully'
+      data: await withDuplicates(req.user!, invoice as unknown as IInvoice),
+      message: `Invoice restored to revision ${target.revision}`
     };
 
-    res.json(response);
+    res.set('ETag', getInvoiceETag(invoice)).json(response);
   } catch (error) {
-    console.error('Get invoice error:', error);
+    console.error('Restore invoice revision error:', error);
     const response: IApiResponse = {
       success: false,
-      error: 'Failed to retrieve invoice'
+      error: 'Failed to restore invoice revision'
     };
     res.status(500).json(response);
   }
@@ -122,7 +1129,16 @@ router.post('/',
   validate(createInvoiceSchema),
   async (req: AuthenticatedRequest, res: express.Response): Promise<void> => {
     try {
-      const invoiceData = req.body;
+      const { jobId, ...invoiceData } = req.body;
+
+      // The file's text and hash are copied into the invoice, so it has to be the user's own
+      if (!await canUseFile(req.user!, invoiceData.fileId)) {
+        res.status(403).json({
+          success: false,
+          error: 'You do not have permission to use this file'
+        });
+        return;
+      }
       
       // Check if invoice with this fileId already exists
       const existingInvoice = await Invoice.findOne({ fileId: invoiceData.fileId });
@@ -134,16 +1150,43 @@ router.post('/',
         return;
       }
 
-      // Add timestamps
+      // Record the creating user and timestamps
+      invoiceData.owner = req.user!.id;
       invoiceData.createdAt = new Date().toISOString();
+      invoiceData.invoice.lineItems = normalizeLineItems(invoiceData.invoice.lineItems);
+      invoiceData.documentText = await readDocumentText(invoiceData.fileId);
+      invoiceData.contentHash = await readContentHash(invoiceData.fileId);
+      invoiceData.fingerprint = getInvoiceFingerprint(invoiceData.vendor, invoiceData.invoice);
+      invoiceData.validationWarnings = checkInvoiceArithmetic(invoiceData.invoice);
+      invoiceData.vendorMatch = await getVendorMatchingService().findMatch(req.user!.id, invoiceData.vendor);
+      // Corrections are learned against what the model returned, not what the reviewer first saved
+      if (jobId) {
+        const job = await getExtractionQueue().findForOwner(jobId, ownerFilter(req.user!));
+        if (!job?.result || job.fileId !== invoiceData.fileId) {
+          res.status(400).json({
+            success: false,
+            error: 'No completed extraction job of this file was found'
+          });
+          return;
+        }
+        if (invoiceData.extraction && job.result.source !== 'e-invoice') {
+          invoiceData.extraction.values = { vendor: job.result.vendor, invoice: job.result.invoice };
+        }
+      }
 
       const invoice = new Invoice(invoiceData);
       const savedInvoice = await invoice.save();
+      await recordRevision(savedInvoice.toObject() as IInvoice, { source: 'create', actor: revisionActor(req) });
+      const created = await withDuplicates(req.user!, savedInvoice.toObject() as IInvoice);
+      delete created.documentText;
 
+      // Still created: the same invoice may legitimately arrive twice, the user decides
       const response: IApiResponse<IInvoice> = {
         success: true,
-        data: savedInvoice.toObject() as IInvoice,
-        message: 'Invoice created successfully'
+        data: created,
+        message: created.duplicates
+          ? 'Invoice created successfully, but it looks like an invoice that already exists'
+          : 'Invoice created successfully'
       };
 
       res.status(201).json(response);
@@ -169,7 +1212,8 @@ router.post('/',
 
 /**
  * PUT /invoices/:id
- * Update an existing invoice
+ * Update an existing invoice. With an If-Match header the update only applies while the
+ * invoice is still at that version; otherwise it responds with 412 and the current invoice.
  */
 router.put('/:id',
   authenticate,
@@ -188,20 +1232,51 @@ router.put('/:id',
         return;
       }
 
-      // Add updated timestamp
-      updateData.updatedAt = new Date().toISOString();
+      const filter = { _id: id, ...ownerFilter(req.user!) };
+      const ifMatch = req.get('If-Match');
+      const current = await Invoice.findOne(filter)
+        .select('-documentText')
+        .lean() as unknown as IInvoice | null;
 
-      const invoice = await Invoice.findByIdAndUpdate(
-        id,
-        updateData,
-        { 
-          new: true, 
-          runValidators: true,
-          lean: true
-        }
-      );
+      if (!current) {
+        res.status(404).json({
+          success: false,
+          error: 'Invoice not found'
+        });
+        return;
+      }
+
+      if (!matchesIfMatch(ifMatch, current)) {
+        sendVersionConflict(res, current);
+        return;
+      }
+
+      if (!isEditable(current.status)) {
+        sendLocked(res, current);
+        return;
+      }
+
+      if (updateData.fileId && updateData.fileId !== current.fileId && !await canUseFile(req.user!, updateData.fileId)) {
+        res.status(403).json({
+          success: false,
+          error: 'You do not have permission to use this file'
+        });
+        return;
+      }
+
+      // The version is checked again on write, in case another update came in meanwhile
+      const invoice = await writeInvoiceEdit(req, current, updateData, !!ifMatch);
 
       if (!invoice) {
+        const latest = await Invoice.findOne(filter).select('-documentText').lean() as unknown as IInvoice | null;
+        if (latest && !isEditable(latest.status)) {
+          sendLocked(res, latest);
+          return;
+        }
+        if (latest && ifMatch) {
+          sendVersionConflict(res, latest);
+          return;
+        }
         res.status(404).json({
           success: false,
           error: 'Invoice not found'
@@ -211,11 +1286,11 @@ router.put('/:id',
 
       const response: IApiResponse<IInvoice> = {
         success: true,
-        data: invoice as unknown as IInvoice,
+        data: await withDuplicates(req.user!, invoice),
         message: 'Invoice updated successfully'
       };
 
-      res.json(response);
+      res.set('ETag', getInvoiceETag(invoice)).json(response);
     } catch (error) {
       console.error('Update invoice error:', error);
       
@@ -236,9 +1311,403 @@ router.put('/:id',
   }
 );
 
+/**
+ * PATCH /invoices/:id
+ * Apply an RFC 6902 JSON Patch (add, replace, remove, test) to the vendor, invoice data and
+ * accounting coding. Line items are addressed by ID, e.g. /invoice/lineItems/{id}/quantity.
+ * The patch applies to the invoice as it is when written; a failed test, or an If-Match
+ * header naming another version, responds with 412 and the current invoice.
+ */
+router.patch('/:id', authenticate, async (req: AuthenticatedRequest, res: express.Response): Promise<void> => {
+  try {
+    const { id } = req.params;
+
+    // Validate ObjectId format
+    if (!id.match(/^[0-9a-fA-F]{24}$/)) {
+      res.status(400).json({
+        success: false,
+        error: 'Invalid invoice ID format'
+      });
+      return;
+    }
+
+    const { value: operations, errors } = validateJsonPatch(req.body);
+    if (!operations) {
+      res.status(400).json({
+        success: false,
+        error: 'Validation error',
+        details: errors
+      });
+      return;
+    }
+
+    const filter = { _id: id, ...ownerFilter(req.user!) };
+    const ifMatch = req.get('If-Match');
+
+    for (let attempt = 1; attempt <= MAX_PATCH_ATTEMPTS; attempt++) {
+      const current = await Invoice.findOne(filter)
+        .select('-documentText')
+        .lean() as unknown as IInvoice | null;
+
+      if (!current) {
+        res.status(404).json({
+          success: false,
+          error: 'Invoice not found'
+        });
+        return;
+      }
+
+      if (!matchesIfMatch(ifMatch, current)) {
+        sendVersionConflict(res, current);
+        return;
+      }
+
+      if (!isEditable(current.status)) {
+        sendLocked(res, current);
+        return;
+      }
+
+      let patched: ReturnType<typeof applyInvoicePatch>;
+      try {
+        patched = applyInvoicePatch(current, operations);
+      } catch (error) {
+        // A failed test means the client edited a value someone else has changed since
+        if (error instanceof InvoicePatchTestError) {
+          sendVersionConflict(res, current);
+          return;
+        }
+        if (error instanceof InvoicePatchError) {
+          res.status(422).json({
+            success: false,
+            error: `Cannot apply patch: ${error.message}`
+          });
+          return;
+        }
+        throw error;
+      }
+
+      // Only what the patch changed is validated and written
+      const { value: updateData, errors: invalid } = validateInvoiceEdits(
+        Object.fromEntries(patched.changed.map(field => [field, patched.edits[field]]))
+      );
+      if (!updateData) {
+        res.status(400).json({
+          success: false,
+          error: 'Validation error',
+          details: invalid
+        });
+        return;
+      }
+
+      const invoice = await writeInvoiceEdit(req, current, updateData, true);
+      if (invoice) {
+        const response: IApiResponse<IInvoice> = {
+          success: true,
+          data: await withDuplicates(req.user!, invoice),
+          message: 'Invoice updated successfully'
+        };
+
+        res.set('ETag', getInvoiceETag(invoice)).json(response);
+        return;
+      }
+    }
+
+    res.status(409).json({
+      success: false,
+      error: 'Invoice is being changed by others. Please try again'
+    });
+  } catch (error) {
+    console.error('Patch invoice error:', error);
+    const response: IApiResponse = {
+      success: false,
+      error: 'Failed to update invoice'
+    };
+    res.status(500).json(response);
+  }
+});
+
+/**
+ * POST /invoices/:id/approve
+ * Approve an invoice, recording the reviewer and time
+ */
+router.post('/:id/approve', authenticate, async (req: AuthenticatedRequest, res: express.Response): Promise<void> => {
+  await changeStatus(req, res, 'approved');
+});
+
+/**
+ * POST /invoices/:id/reject
+ * Reject an invoice with a reason, recording the reviewer and time
+ */
+router.post('/:id/reject',
+  authenticate,
+  validate(rejectInvoiceSchema),
+  async (req: AuthenticatedRequest, res: express.Response): Promise<void> => {
+    await changeStatus(req, res, 'rejected', req.body.reason);
+  }
+);
+
+/**
+ * POST /invoices/:id/status
+ * Move an invoice to any status allowed from its current one (e.g. in_review, paid)
+ */
+router.post('/:id/status',
+  authenticate,
+  validate(statusChangeSchema),
+  async (req: AuthenticatedRequest, res: express.Response): Promise<void> => {
+    const { status, reason } = req.body;
+
+    if (status === 'rejected' && !reason) {
+      res.status(400).json({
+        success: false,
+        error: 'A reason is required to reject an invoice'
+      });
+      return;
+    }
+
+    await changeStatus(req, res, status, reason);
+  }
+);
+
+/**
+ * POST /invoices/:id/vendor
+ * Body: { vendorId } to confirm or pick a master vendor, or { create: true } to add the
+ * invoice's vendor to the master data. Copies the vendor's canonical details into the invoice.
+ * Like other edits, refused for approved and paid invoices (409) and checked against If-Match (412).
+ */
+router.post('/:id/vendor',
+  authenticate,
+  validate(linkVendorSchema),
+  async (req: AuthenticatedRequest, res: express.Response): Promise<void> => {
+    try {
+      const { id } = req.params;
+      const { vendorId, create }: { vendorId?: string; create?: boolean } = req.body;
+
+      // Validate ObjectId format
+      if (!id.match(/^[0-9a-fA-F]{24}$/)) {
+        res.status(400).json({
+          success: false,
+          error: 'Invalid invoice ID format'
+        });
+        return;
+      }
+
+      const filter = { _id: id, ...ownerFilter(req.user!) };
+      const existing = await Invoice.findOne(filter).select('-documentText').lean() as unknown as IInvoice | null;
+
+      if (!existing) {
+        res.status(404).json({
+          success: false,
+          error: 'Invoice not found'
+        });
+        return;
+      }
+
+      if (!matchesIfMatch(req.get('If-Match'), existing)) {
+        sendVersionConflict(res, existing);
+        return;
+      }
+
+      if (!isEditable(existing.status)) {
+        sendLocked(res, existing);
+        return;
+      }
+
+      // Vendors belong to the invoice owner, also when an admin does the review
+      const owner = existing.owner || req.user!.id;
+      const matchingService = getVendorMatchingService();
+      let vendor: IVendorRecord | null;
+
+      if (create) {
+        const currency = existing.invoice.currency?.toUpperCase();
+        try {
+          vendor = (await Vendor.create({
+            owner,
+            name: existing.vendor.name,
+            taxId: existing.vendor.taxId || undefined,
+            address: existing.vendor.address || undefined,
+            defaultCurrency: currency && /^[A-Z]{3}$/.test(currency) ? currency : undefined
+          })).toObject() as unknown as IVendorRecord;
+        } catch (error) {
+          if (error instanceof Error && error.message.includes('duplicate key')) {
+            res.status(409).json({
+              success: false,
+              error: 'A vendor with this tax ID already exists'
+            });
+            return;
+          }
+          throw error;
+        }
+      } else {
+        vendor = await Vendor.findOne({ _id: vendorId, owner }).lean() as unknown as IVendorRecord | null;
+        if (!vendor) {
+          res.status(404).json({
+            success: false,
+            error: 'Vendor not found'
+          });
+          return;
+        }
+        await matchingService.learnAlias(String(vendor._id), existing.vendor.name);
+      }
+
+      const suggested = existing.vendorMatch?.vendorId === String(vendor._id) ? existing.vendorMatch : undefined;
+      const vendorMatch: IVendorMatch = {
+        vendorId: String(vendor._id),
+        name: vendor.name,
+        method: suggested?.method || 'manual',
+        score: suggested?.score ?? 1,
+        confirmed: true,
+        confirmedBy: req.user!.id,
+        confirmedAt: new Date().toISOString()
+      };
+      const fields = matchingService.getLinkedInvoiceFields(vendor, existing);
+      const linkedVendor = {
+        ...existing.vendor,
+        name: vendor.name,
+        taxId: vendor.taxId || existing.vendor.taxId,
+        address: vendor.address || existing.vendor.address
+      };
+      const linkedInvoice = { ...existing.invoice, currency: existing.invoice.currency || vendor.defaultCurrency };
+
+      // Written like any other edit: only while the invoice is still editable and as read
+      const invoice = await Invoice.findOneAndUpdate(
+        { ...filter, ...versionFilter(existing), status: { $nin: LOCKED_STATUSES } },
+        {
+          $set: {
+            ...fields,
+            vendorMatch,
+            fingerprint: getInvoiceFingerprint(linkedVendor, linkedInvoice) ?? null,
+            validationWarnings: checkInvoiceArithmetic(linkedInvoice),
+            updatedAt: vendorMatch.confirmedAt
+          },
+          $inc: { version: 1 }
+        },
+        {
+          new: true,
+          runValidators: true,
+          lean: true
+        }
+      );
+
+      if (!invoice) {
+        await sendWriteRejected(res, filter);
+        return;
+      }
+
+      await recordRevision(
+        invoice as unknown as IInvoice,
+        { source: 'vendor', actor: revisionActor(req), note: `Linked to vendor ${vendor.name}` },
+        existing
+      );
+
+      const response: IApiResponse<IInvoice> = {
+        success: true,
+        data: await withDuplicates(req.user!, invoice as unknown as IInvoice),
+        message: create ? 'Vendor created and linked to the invoice' : 'Vendor linked to the invoice'
+      };
+
+      res.set('ETag', getInvoiceETag(invoice)).json(response);
+    } catch (error) {
+      console.error('Link invoice vendor error:', error);
+      const response: IApiResponse = {
+        success: false,
+        error: 'Failed to link vendor'
+      };
+      res.status(500).json(response);
+    }
+  }
+);
+
+/**
+ * DELETE /invoices/:id/vendor
+ * Remove the vendor match, e.g. when the suggested master vendor is wrong. Refused for approved
+ * and paid invoices (409); checked against If-Match (412).
+ */
+router.delete('/:id/vendor', authenticate, async (req: AuthenticatedRequest, res: express.Response): Promise<void> => {
+  try {
+    const { id } = req.params;
+
+    // Validate ObjectId format
+    if (!id.match(/^[0-9a-fA-F]{24}$/)) {
+      res.status(400).json({
+        success: false,
+        error: 'Invalid invoice ID format'
+      });
+      return;
+    }
+
+    const filter = { _id: id, ...ownerFilter(req.user!) };
+    const existing = await Invoice.findOne(filter).select('-documentText').lean() as unknown as IInvoice | null;
+
+    if (!existing) {
+      res.status(404).json({
+        success: false,
+        error: 'Invoice not found'
+      });
+      return;
+    }
+
+    if (!matchesIfMatch(req.get('If-Match'), existing)) {
+      sendVersionConflict(res, existing);
+      return;
+    }
+
+    if (!isEditable(existing.status)) {
+      sendLocked(res, existing);
+      return;
+    }
+
+    const invoice = await Invoice.findOneAndUpdate(
+      { ...filter, ...versionFilter(existing), status: { $nin: LOCKED_STATUSES } },
+      {
+        $unset: { vendorMatch: '' },
+        $set: {
+          fingerprint: getInvoiceFingerprint(existing.vendor, existing.invoice) ?? null,
+          validationWarnings: checkInvoiceArithmetic(existing.invoice),
+          updatedAt: new Date().toISOString()
+        },
+        $inc: { version: 1 }
+      },
+      { new: true, lean: true }
+    );
+
+    if (!invoice) {
+      await sendWriteRejected(res, filter);
+      return;
+    }
+
+    // Only the vendor match changes, which revisions do not keep, so the revision is forced
+    await recordRevision(
+      invoice as unknown as IInvoice,
+      {
+        source: 'vendor',
+        actor: revisionActor(req),
+        note: existing.vendorMatch ? `Unlinked from vendor ${existing.vendorMatch.name}` : 'Vendor match removed',
+        always: true
+      },
+      existing
+    );
+
+    const response: IApiResponse<IInvoice> = {
+      success: true,
+      data: invoice as unknown as IInvoice,
+      message: 'Vendor match removed'
+    };
+
+    res.set('ETag', getInvoiceETag(invoice)).json(response);
+  } catch (error) {
+    console.error('Unlink invoice vendor error:', error);
+    const response: IApiResponse = {
+      success: false,
+      error: 'Failed to remove vendor match'
+    };
+    res.status(500).json(response);
+  }
+});
+
 /**
  * DELETE /invoices/:id
- * Delete an invoice
+ * Delete an invoice unless it is approved or paid (409). With an If-Match header only while it
+ * is still at that version (412 otherwise).
  */
 router.delete('/:id', authenticate, async (req: AuthenticatedRequest, res: express.Response): Promise<void> => {
   try {
@@ -253,7 +1722,38 @@ router.delete('/:id', authenticate, async (req: AuthenticatedRequest, res: expre
       return;
     }
 
-    const invoice = await Invoice.findByIdAndDelete(id);
+    const filter = { _id: id, ...ownerFilter(req.user!) };
+    const ifMatch = req.get('If-Match');
+    const current = await Invoice.findOne(filter).select('-documentText').lean() as unknown as IInvoice | null;
+
+    if (current && !matchesIfMatch(ifMatch, current)) {
+      sendVersionConflict(res, current);
+      return;
+    }
+
+    if (current && !isEditable(current.status)) {
+      sendLocked(res, current, 'deleted');
+      return;
+    }
+
+    const invoice = current && await Invoice.findOneAndDelete({
+      ...filter,
+      status: { $nin: LOCKED_STATUSES },
+      ...(ifMatch ? versionFilter(current) : {})
+    });
+
+    // Still there if it was approved or changed between the check and the delete
+    const latest = !invoice && current
+      ? await Invoice.findOne(filter).select('-documentText').lean() as unknown as IInvoice | null
+      : null;
+    if (latest && !isEditable(latest.status)) {
+      sendLocked(res, latest, 'deleted');
+      return;
+    }
+    if (latest && ifMatch) {
+      sendVersionConflict(res, latest);
+      return;
+    }
 
     if (!invoice) {
       res.status(404).json({
@@ -263,6 +1763,8 @@ router.delete('/:id', authenticate, async (req: AuthenticatedRequest, res: expre
       return;
     }
 
+    await getInvoiceRevisionService().deleteForInvoice(id);
+
     const response: IApiResponse = {
       success: true,
       message: 'Invoice deleted successfully'
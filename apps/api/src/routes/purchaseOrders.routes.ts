@@ -0,0 +1,374 @@
+import express from 'express';
+import PurchaseOrder from '../models/PurchaseOrder';
+import { IApiResponse, IPurchaseOrder } from '../types/invoice.types';
+import {
+  validate,
+  purchaseOrderSchema,
+  importPurchaseOrdersSchema,
+  purchaseOrderQuerySchema,
+  goodsReceiptSchema
+} from '../utils/validation';
+import { authenticate, AuthenticatedRequest } from '../middleware/auth.middleware';
+import { ownerFilter } from '../utils/access';
+import { escapeRegex } from '../utils/textSearch';
+import { normalizePoNumber } from '../utils/poMatching';
+import { parsePurchaseOrderCsv } from '../utils/purchaseOrderCsv';
+import { getPurchaseOrderService, IPurchaseOrderImportResult } from '../services/purchaseOrder.service';
+
+const router = express.Router();
+
+// CSV imports are posted as the raw file content
+const csvBody = express.text({ type: ['text/csv', 'application/csv'], limit: '5mb' });
+
+// Saved documents still hold the matching key, which is internal
+const toPurchaseOrderResponse = (po: InstanceType<typeof PurchaseOrder>): IPurchaseOrder => {
+  const data = po.toObject() as unknown as IPurchaseOrder;
+  delete data.poNumberKey;
+  return data;
+};
+
+/**
+ * GET /purchase-orders
+ * List purchase orders, newest first, optionally searching PO number and vendor
+ */
+router.get('/',
+  authenticate,
+  validate(purchaseOrderQuerySchema, 'query'),
+  async (req: AuthenticatedRequest, res: express.Response): Promise<void> => {
+    try {
+      const { q, page, limit } = req.query as unknown as { q?: string; page: number; limit: number };
+      const query: Record<string, unknown> = { ...ownerFilter(req.user!) };
+      if (q) {
+        const pattern = new RegExp(escapeRegex(q), 'i');
+        query.$or = [{ poNumber: pattern }, { vendorName: pattern }];
+      }
+
+      const [purchaseOrders, total] = await Promise.all([
+        PurchaseOrder.find(query)
+          .sort({ createdAt: -1 })
+          .skip((page - 1) * limit)
+          .limit(limit)
+          .lean(),
+        PurchaseOrder.countDocuments(query)
+      ]);
+
+      const response: IApiResponse<IPurchaseOrder[]> = {
+        success: true,
+        data: purchaseOrders as unknown as IPurchaseOrder[],
+        message: `Found ${purchaseOrders.length} purchase order(s)`,
+        pagination: {
+          page,
+          limit,
+          total,
+          pages: Math.ceil(total / limit)
+        }
+      };
+
+      res.json(response);
+    } catch (error) {
+      console.error('Get purchase orders error:', error);
+      const response: IApiResponse = {
+        success: false,
+        error: 'Failed to retrieve purchase orders'
+      };
+      res.status(500).json(response);
+    }
+  }
+);
+
+/**
+ * POST /purchase-orders/import
+ * Create or replace purchase orders from JSON ({ purchaseOrders: [...] }) or from a
+ * text/csv body with one row per PO line. Replaced POs keep their goods receipts.
+ */
+router.post('/import', authenticate, csvBody, async (req: AuthenticatedRequest, res: express.Response): Promise<void> => {
+  try {
+    let body: unknown = req.body;
+    if (typeof req.body === 'string') {
+      const { purchaseOrders, errors } = parsePurchaseOrderCsv(req.body);
+      if (errors.length) {
+        res.status(400).json({
+          success: false,
+          error: 'Validation error',
+          details: errors
+        });
+        return;
+      }
+      body = { purchaseOrders };
+    }
+
+    const { error, value } = importPurchaseOrdersSchema.validate(body, { abortEarly: false, stripUnknown: true });
+    if (error) {
+      res.status(400).json({
+        success: false,
+        error: 'Validation error',
+        details: error.details.map(detail => detail.message)
+      });
+      return;
+    }
+
+    const result = await getPurchaseOrderService().importPurchaseOrders(req.user!.id, value.purchaseOrders);
+
+    const response: IApiResponse<IPurchaseOrderImportResult> = {
+      success: true,
+      data: result,
+      message: `Imported ${result.created + result.updated} purchase order(s): ${result.created} created, ${result.updated} updated`
+    };
+
+    res.json(response);
+  } catch (error) {
+    console.error('Import purchase orders error:', error);
+    const response: IApiResponse = {
+      success: false,
+      error: 'Failed to import purchase orders'
+    };
+    res.status(500).json(response);
+  }
+});
+
+/**
+ * GET /purchase-orders/:id
+ * Get a single purchase order with its goods receipts
+ */
+router.get('/:id', authenticate, async (req: AuthenticatedRequest, res: express.Response): Promise<void> => {
+  try {
+    const { id } = req.params;
+
+    // Validate ObjectId format
+    if (!id.match(/^[0-9a-fA-F]{24}$/)) {
+      res.status(400).json({
+        success: false,
+        error: 'Invalid purchase order ID format'
+      });
+      return;
+    }
+
+    const po = await PurchaseOrder.findOne({ _id: id, ...ownerFilter(req.user!) }).lean();
+
+    if (!po) {
+      res.status(404).json({
+        success: false,
+        error: 'Purchase order not found'
+      });
+      return;
+    }
+
+    const response: IApiResponse<IPurchaseOrder> = {
+      success: true,
+      data: po as unknown as IPurchaseOrder
+    };
+
+    res.json(response);
+  } catch (error) {
+    console.error('Get purchase order error:', error);
+    const response: IApiResponse = {
+      success: false,
+      error: 'Failed to retrieve purchase order'
+    };
+    res.status(500).json(response);
+  }
+});
+
+/**
+ * POST /purchase-orders
+ * Create a single purchase order
+ */
+router.post('/',
+  authenticate,
+  validate(purchaseOrderSchema),
+  async (req: AuthenticatedRequest, res: express.Response): Promise<void> => {
+    try {
+      const existing = await PurchaseOrder.exists({ owner: req.user!.id, poNumberKey: normalizePoNumber(req.body.poNumber) });
+      if (existing) {
+        res.status(409).json({
+          success: false,
+          error: 'A purchase order with this number already exists'
+        });
+        return;
+      }
+
+      const { purchaseOrders } = await getPurchaseOrderService().importPurchaseOrders(req.user!.id, [req.body]);
+
+      const response: IApiResponse<IPurchaseOrder> = {
+        success: true,
+        data: purchaseOrders[0],
+        message: 'Purchase order created successfully'
+      };
+
+      res.status(201).json(response);
+    } catch (error) {
+      console.error('Create purchase order error:', error);
+      const response: IApiResponse = {
+        success: false,
+        error: 'Failed to create purchase order'
+      };
+      res.status(500).json(response);
+    }
+  }
+);
+
+/**
+ * DELETE /purchase-orders/:id
+ * Delete a purchase order and its goods receipts
+ */
+router.delete('/:id', authenticate, async (req: AuthenticatedRequest, res: express.Response): Promise<void> => {
+  try {
+    const { id } = req.params;
+
+    // Validate ObjectId format
+    if (!id.match(/^[0-9a-fA-F]{24}$/)) {
+      res.status(400).json({
+        success: false,
+        error: 'Invalid purchase order ID format'
+      });
+      return;
+    }
+
+    const po = await PurchaseOrder.findOneAndDelete({ _id: id, ...ownerFilter(req.user!) });
+
+    if (!po) {
+      res.status(404).json({
+        success: false,
+        error: 'Purchase order not found'
+      });
+      return;
+    }
+
+    const response: IApiResponse = {
+      success: true,
+      message: 'Purchase order deleted successfully'
+    };
+
+    res.json(response);
+  } catch (error) {
+    console.error('Delete purchase order error:', error);
+    const response: IApiResponse = {
+      success: false,
+      error: 'Failed to delete purchase order'
+    };
+    res.status(500).json(response);
+  }
+});
+
+/**
+ * POST /purchase-orders/:id/receipts
+ * Record a goods receipt: the quantities delivered per PO line
+ */
+router.post('/:id/receipts',
+  authenticate,
+  validate(goodsReceiptSchema),
+  async (req: AuthenticatedRequest, res: express.Response): Promise<void> => {
+    try {
+      const { id } = req.params;
+
+      // Validate ObjectId format
+      if (!id.match(/^[0-9a-fA-F]{24}$/)) {
+        res.status(400).json({
+          success: false,
+          error: 'Invalid purchase order ID format'
+        });
+        return;
+      }
+
+      const po = await PurchaseOrder.findOne({ _id: id, ...ownerFilter(req.user!) });
+
+      if (!po) {
+        res.status(404).json({
+          success: false,
+          error: 'Purchase order not found'
+        });
+        return;
+      }
+
+      const { receiptNumber, receivedAt, lines } = req.body as {
+        receiptNumber?: string;
+        receivedAt?: string;
+        lines: Array<{ lineNumber: number; quantity: number }>;
+      };
+      const unknownLines = lines.filter(line => !po.lines.some(poLine => poLine.lineNumber === line.lineNumber));
+      if (unknownLines.length) {
+        res.status(400).json({
+          success: false,
+          error: 'Validation error',
+          details: unknownLines.map(line => `PO ${po.poNumber} has no line ${line.lineNumber}`)
+        });
+        return;
+      }
+
+      const now = new Date().toISOString();
+      po.receipts.push({
+        receiptNumber,
+        receivedAt: receivedAt || now.slice(0, 10),
+        lines,
+        createdBy: req.user!.id,
+        createdAt: now
+      });
+      await po.save();
+
+      const response: IApiResponse<IPurchaseOrder> = {
+        success: true,
+        data: toPurchaseOrderResponse(po),
+        message: 'Goods receipt recorded successfully'
+      };
+
+      res.status(201).json(response);
+    } catch (error) {
+      console.error('Create goods receipt error:', error);
+      const response: IApiResponse = {
+        success: false,
+        error: 'Failed to record goods receipt'
+      };
+      res.status(500).json(response);
+    }
+  }
+);
+
+/**
+ * DELETE /purchase-orders/:id/receipts/:receiptId
+ * Remove a goods receipt recorded in error
+ */
+router.delete('/:id/receipts/:receiptId', authenticate, async (req: AuthenticatedRequest, res: express.Response): Promise<void> => {
+  try {
+    const { id, receiptId } = req.params;
+
+    // Validate ObjectId format
+    if (!id.match(/^[0-9a-fA-F]{24}$/) || !receiptId.match(/^[0-9a-fA-F]{24}$/)) {
+      res.status(400).json({
+        success: false,
+        error: 'Invalid purchase order or receipt ID format'
+      });
+      return;
+    }
+
+    const po = await PurchaseOrder.findOneAndUpdate(
+      { _id: id, ...ownerFilter(req.user!), 'receipts._id': receiptId },
+      { $pull: { receipts: { _id: receiptId } }, $set: { updatedAt: new Date().toISOString() } },
+      { new: true }
+    );
+
+    if (!po) {
+      res.status(404).json({
+        success: false,
+        error: 'Goods receipt not found'
+      });
+      return;
+    }
+
+    const response: IApiResponse<IPurchaseOrder> = {
+      success: true,
+      data: toPurchaseOrderResponse(po),
+      message: 'Goods receipt deleted successfully'
+    };
+
+    res.json(response);
+  } catch (error) {
+    console.error('Delete goods receipt error:', error);
+    const response: IApiResponse = {
+      success: false,
+      error: 'Failed to delete goods receipt'
+    };
+    res.status(500).json(response);
+  }
+});
+
+export default router;
@@ -0,0 +1,128 @@
+import express from 'express';
+import ExtractionTemplate from '../models/ExtractionTemplate';
+import { IApiResponse, IExtractionTemplate } from '../types/invoice.types';
+import { authenticate, authorize, AuthenticatedRequest } from '../middleware/auth.middleware';
+import { buildPromptHints } from '../services/extractionTemplate.service';
+
+const router = express.Router();
+
+// Templates are shown with the prompt section they currently add to extractions
+const withPromptHints = (template: IExtractionTemplate): IExtractionTemplate & { promptHints?: string } => ({
+  ...template,
+  promptHints: buildPromptHints(template)
+});
+
+/**
+ * GET /templates
+ * List the vendor extraction templates of all users, most recently updated first (admin only)
+ */
+router.get('/', authenticate, authorize('admin'), async (_req: AuthenticatedRequest, res: express.Response): Promise<void> => {
+  try {
+    const templates = await ExtractionTemplate.find()
+      .sort({ updatedAt: -1 })
+      .lean() as unknown as IExtractionTemplate[];
+
+    const response: IApiResponse<IExtractionTemplate[]> = {
+      success: true,
+      data: templates.map(withPromptHints),
+      message: `Found ${templates.length} template(s)`
+    };
+
+    res.json(response);
+  } catch (error) {
+    console.error('Get templates error:', error);
+    const response: IApiResponse = {
+      success: false,
+      error: 'Failed to retrieve templates'
+    };
+    res.status(500).json(response);
+  }
+});
+
+/**
+ * GET /templates/:id
+ * Get a single vendor extraction template (admin only)
+ */
+router.get('/:id', authenticate, authorize('admin'), async (req: AuthenticatedRequest, res: express.Response): Promise<void> => {
+  try {
+    const { id } = req.params;
+
+    // Validate ObjectId format
+    if (!id.match(/^[0-9a-fA-F]{24}$/)) {
+      res.status(400).json({
+        success: false,
+        error: 'Invalid template ID format'
+      });
+      return;
+    }
+
+    const template = await ExtractionTemplate.findById(id).lean() as unknown as IExtractionTemplate | null;
+
+    if (!template) {
+      res.status(404).json({
+        success: false,
+        error: 'Template not found'
+      });
+      return;
+    }
+
+    const response: IApiResponse<IExtractionTemplate> = {
+      success: true,
+      data: withPromptHints(template)
+    };
+
+    res.json(response);
+  } catch (error) {
+    console.error('Get template error:', error);
+    const response: IApiResponse = {
+      success: false,
+      error: 'Failed to retrieve template'
+    };
+    res.status(500).json(response);
+  }
+});
+
+/**
+ * DELETE /templates/:id
+ * Reset a vendor extraction template; it is learned again from the next approved invoices (admin only)
+ */
+router.delete('/:id', authenticate, authorize('admin'), async (req: AuthenticatedRequest, res: express.Response): Promise<void> => {
+  try {
+    const { id } = req.params;
+
+    // Validate ObjectId format
+    if (!id.match(/^[0-9a-fA-F]{24}$/)) {
+      res.status(400).json({
+        success: false,
+        error: 'Invalid template ID format'
+      });
+      return;
+    }
+
+    const template = await ExtractionTemplate.findByIdAndDelete(id);
+
+    if (!template) {
+      res.status(404).json({
+        success: false,
+        error: 'Template not found'
+      });
+      return;
+    }
+
+    const response: IApiResponse = {
+      success: true,
+      message: 'Template reset successfully'
+    };
+
+    res.json(response);
+  } catch (error) {
+    console.error('Reset template error:', error);
+    const response: IApiResponse = {
+      success: false,
+      error: 'Failed to reset template'
+    };
+    res.status(500).json(response);
+  }
+});
+
+export default router;
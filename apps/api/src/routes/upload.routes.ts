@@ -1,39 +1,121 @@
 import express from 'express';
-import { uploadSingle, handleUploadError, validateUploadedFile } from '../middleware/upload.middleware';
+import {
+  uploadSingle,
+  uploadBatch,
+  limitBatchSize,
+  removeBatchFiles,
+  handleUploadError,
+  validateUploadedFile,
+  validateUploadedFiles,
+  isXmlUpload
+} from '../middleware/upload.middleware';
 import { getStorageService } from '../services/fileStorage.service';
-import { IApiResponse, IUploadResponse } from '../types/invoice.types';
+import { getDuplicateDetectionService } from '../services/duplicateDetection.service';
+import { getInvoiceImportService, EInvoiceImportError } from '../services/invoiceImport.service';
+import { getBatchUploadService, toBatchResponse } from '../services/batchUpload.service';
+import {
+  IApiResponse,
+  IUploadResponse,
+  IEInvoiceDocument,
+  IBatchUploadResponse,
+  ExtractionModel
+} from '../types/invoice.types';
+import { authenticate, AuthenticatedRequest } from '../middleware/auth.middleware';
+import { canAccess, ownerFilter } from '../utils/access';
+import { parseEInvoice } from '../utils/eInvoice';
+import { validate, uploadSchema, batchUploadSchema } from '../utils/validation';
 
 const router = express.Router();
 
+const importEInvoice = async (req: AuthenticatedRequest, res: express.Response): Promise<void> => {
+  let imported: IUploadResponse;
+  try {
+    imported = await getInvoiceImportService().importEInvoice(req.user!, req.file!);
+  } catch (error) {
+    if (error instanceof EInvoiceImportError) {
+      res.status(400).json({
+        success: false,
+        error: error.message,
+        ...(error.details ? { details: error.details } : {})
+      });
+      return;
+    }
+    throw error;
+  }
+
+  const response: IApiResponse<IUploadResponse> = {
+    success: true,
+    data: imported,
+    message: imported.duplicates
+      ? 'E-invoice imported successfully, but it looks like an invoice that already exists'
+      : 'E-invoice imported successfully'
+  };
+
+  res.status(201).json(response);
+};
+
 /**
  * POST /upload
- * Upload a PDF file
+ * Upload a PDF file owned by the current user. XML e-invoices (UBL 2.1, XRechnung,
+ * Peppol BIS, CII) are parsed straight into a new invoice. With "draft" set, a PDF gets an
+ * empty draft invoice to review or extract, like the PDFs of a batch upload.
  */
 router.post('/', 
+  authenticate,
   uploadSingle as unknown as express.RequestHandler,
   handleUploadError,
   validateUploadedFile,
-  async (req: express.Request, res: express.Response): Promise<void> => {
+  validate(uploadSchema),
+  async (req: AuthenticatedRequest, res: express.Response): Promise<void> => {
     try {
       const file = req.file!;
+
+      if (isXmlUpload(file)) {
+        await importEInvoice(req, res);
+        return;
+      }
+
+      if (req.body.draft) {
+        const created = await getInvoiceImportService().createDraft(req.user!, file);
+        const response: IApiResponse<IUploadResponse> = {
+          success: true,
+          data: created,
+          message: created.duplicates
+            ? 'Draft invoice created, but the same file belongs to an existing invoice'
+            : 'Draft invoice created'
+        };
+
+        res.status(201).json(response);
+        return;
+      }
+
       const storageService = getStorageService();
 
       // Upload file to storage
       const fileMetadata = await storageService.upload(
         file.buffer,
         file.originalname,
-        file.mimetype
+        file.mimetype,
+        req.user!.id
       );
 
+      // The file is kept either way; the warning lets the user stop before extracting it again
+      const duplicates = await getDuplicateDetectionService().findDuplicates(req.user!, {
+        contentHash: fileMetadata.contentHash
+      });
+
       const response: IApiResponse<IUploadResponse> = {
         success: true,
         data: {
           fileId: fileMetadata.fileId,
           fileName: fileMetadata.fileName,
           fileSize: fileMetadata.fileSize,
-          uploadedAt: fileMetadata.uploadedAt
+          uploadedAt: fileMetadata.uploadedAt,
+          ...(duplicates.length ? { duplicates } : {})
         },
-        message: 'File uploaded successfully'
+        message: duplicates.length
+          ? 'File uploaded successfully, but the same file belongs to an existing invoice'
+          : 'File uploaded successfully'
       };
 
       res.status(201).json(response);
@@ -50,11 +132,97 @@ router.post('/',
   }
 );
 
+/**
+ * POST /upload/batch
+ * Upload PDFs, XML e-invoices and ZIP archives of them as "files", up to MAX_BATCH_SIZE
+ * in total. The files are stored and the batch is queued for the extraction worker, which
+ * unpacks archives and turns every file into an invoice of its own: e-invoices are
+ * imported and PDFs get a draft invoice, with extraction queued when "extract" is set
+ * along with a "model". Responds 202 with the batch id; poll GET /upload/batch/:id for
+ * the outcome per file. Files that fail do not stop the others.
+ */
+router.post('/batch',
+  authenticate,
+  limitBatchSize,
+  removeBatchFiles,
+  uploadBatch as unknown as express.RequestHandler,
+  handleUploadError,
+  validateUploadedFiles,
+  validate(batchUploadSchema),
+  async (req: AuthenticatedRequest, res: express.Response): Promise<void> => {
+    try {
+      const { extract, model }: { extract: boolean; model?: ExtractionModel } = req.body;
+      const files = req.files as Express.Multer.File[];
+      const batch = await getBatchUploadService().create(req.user!, files, extract ? model : undefined);
+
+      const response: IApiResponse<IBatchUploadResponse> = {
+        success: true,
+        data: toBatchResponse(batch),
+        message: `${files.length} ${files.length === 1 ? 'file' : 'files'} queued for import`
+      };
+
+      res.status(202).json(response);
+    } catch (error) {
+      console.error('Batch upload error:', error);
+
+      const response: IApiResponse = {
+        success: false,
+        error: 'Failed to upload files'
+      };
+      res.status(500).json(response);
+    }
+  }
+);
+
+/**
+ * GET /upload/batch/:id
+ * Get the progress of a batch upload and the outcome of every file imported so far
+ */
+router.get('/batch/:id', authenticate, async (req: AuthenticatedRequest, res: express.Response): Promise<void> => {
+  try {
+    const { id } = req.params;
+
+    // Validate ObjectId format
+    if (!id.match(/^[0-9a-fA-F]{24}$/)) {
+      res.status(400).json({
+        success: false,
+        error: 'Invalid batch ID format'
+      });
+      return;
+    }
+
+    const report = await getBatchUploadService().getReport(id, ownerFilter(req.user!));
+
+    if (!report) {
+      res.status(404).json({
+        success: false,
+        error: 'Batch upload not found'
+      });
+      return;
+    }
+
+    const response: IApiResponse<IBatchUploadResponse> = {
+      success: true,
+      data: report
+    };
+
+    res.json(response);
+  } catch (error) {
+    console.error('Get batch upload error:', error);
+
+    const response: IApiResponse = {
+      success: false,
+      error: 'Failed to get batch upload'
+    };
+    res.status(500).json(response);
+  }
+});
+
 /**
  * GET /upload/:fileId
  * Get file information
  */
-router.get('/:fileId', async (req: express.Request, res: express.Response): Promise<void> => {
+router.get('/:fileId', authenticate, async (req: AuthenticatedRequest, res: express.Response): Promise<void> => {
   try {
     const { fileId } = req.params;
     
@@ -69,6 +237,14 @@ router.get('/:fileId', async (req: express.Request, res: express.Response): Prom
     const storageService = getStorageService();
     const fileInfo = await storageService.getFileInfo(fileId);
 
+    if (!canAccess(req.user!, fileInfo.ownerId)) {
+      res.status(403).json({
+        success: false,
+        error: 'You do not have permission to view this file'
+      });
+      return;
+    }
+
     const response: IApiResponse = {
       success: true,
       data: fileInfo,
@@ -97,26 +273,67 @@ router.get('/:fileId', async (req: express.Request, res: express.Response): Prom
 });
 
 /**
- * OPTIONS /upload/:fileId/view
- * Handle CORS preflight for view endpoint
+ * GET /upload/:fileId/e-invoice
+ * Get the parsed contents of an uploaded XML e-invoice, for display in place of a PDF
  */
-router.options('/:fileId/view', (req: express.Request, res: express.Response): void => {
-  res.setHeader('Access-Control-Allow-Origin', '*');
-  res.setHeader('Access-Control-Allow-Methods', 'GET, HEAD, OPTIONS');
-  res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
-  res.setHeader('Access-Control-Max-Age', '86400'); // 24 hours
-  res.status(200).end();
+router.get('/:fileId/e-invoice', authenticate, async (req: AuthenticatedRequest, res: express.Response): Promise<void> => {
+  try {
+    const { fileId } = req.params;
+    const storageService = getStorageService();
+    const fileInfo = await storageService.getFileInfo(fileId);
+
+    if (!canAccess(req.user!, fileInfo.ownerId)) {
+      res.status(403).json({
+        success: false,
+        error: 'You do not have permission to view this file'
+      });
+      return;
+    }
+
+    const parsed = parseEInvoice(await storageService.download(fileId), fileInfo.fileName);
+    if (!parsed) {
+      res.status(400).json({
+        success: false,
+        error: 'File is not a UBL or CII e-invoice'
+      });
+      return;
+    }
+
+    const response: IApiResponse<IEInvoiceDocument> = {
+      success: true,
+      data: parsed.document,
+      message: 'E-invoice retrieved successfully'
+    };
+
+    res.json(response);
+  } catch (error) {
+    console.error('Get e-invoice error:', error);
+
+    let statusCode = 500;
+    let message = 'Failed to read e-invoice';
+
+    if (error instanceof Error && error.message.includes('not found')) {
+      statusCode = 404;
+      message = 'File not found';
+    }
+
+    const response: IApiResponse = {
+      success: false,
+      error: message
+    };
+
+    res.status(statusCode).json(response);
+  }
 });
 
 /**
  * GET /upload/:fileId/view
  * View a file inline (for embedding in iframe)
  */
-router.get('/:fileId/view', async (req: express.Request, res: express.Response): Promise<void> => {
+router.get('/:fileId/view', authenticate, async (req: AuthenticatedRequest, res: express.Response): Promise<void> => {
   try {
     const { fileId } = req.params;
-    console.log('View endpoint called with fileId:', fileId);
-    
+
     if (!fileId) {
       res.status(400).json({
         success: false,
@@ -126,34 +343,33 @@ router.get('/:fileId/view', async (req: express.Request, res: express.Response):
     }
 
     const storageService = getStorageService();
-    console.log('Storage service obtained:', storageService.constructor.name);
     
     // Get file info first
-    console.log('Getting file info for:', fileId);
     const fileInfo = await storageService.getFileInfo(fileId);
-    console.log('File info retrieved:', fileInfo);
+
+    if (!canAccess(req.user!, fileInfo.ownerId)) {
+      res.status(403).json({
+        success: false,
+        error: 'You do not have permission to view this file'
+      });
+      return;
+    }
     
     // Get file content
-    console.log('Downloading file content...');
     const fileBuffer = await storageService.download(fileId);
-    console.log('File downloaded, size:', fileBuffer.length, 'bytes');
 
     // Set appropriate headers for inline display
     res.setHeader('Content-Type', fileInfo.mimeType);
     res.setHeader('Content-Length', fileBuffer.length.toString());
     res.setHeader('Content-Disposition', `inline; filename="${fileInfo.fileName}"`);
-    res.setHeader('Cache-Control', 'public, max-age=3600'); // Cache for 1 hour
-    res.setHeader('Access-Control-Allow-Origin', '*'); // Allow CORS
-    res.setHeader('Access-Control-Allow-Methods', 'GET, HEAD, OPTIONS');
-    res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+    // Private: the file is only served to its owner
+    res.setHeader('Cache-Control', 'private, max-age=3600');
     // Remove CSP header to allow iframe embedding
     res.removeHeader('Content-Security-Policy');
     
-    console.log('Sending file buffer to client');
     res.send(fileBuffer);
   } catch (error) {
     console.error('View error:', error);
-    console.error('Error details:', error instanceof Error ? error.stack : error);
     
     let statusCode = 500;
     let message = 'Failed to view file';
@@ -177,7 +393,7 @@ router.get('/:fileId/view', async (req: express.Request, res: express.Response):
  * GET /upload/:fileId/download
  * Download a file
  */
-router.get('/:fileId/download', async (req: express.Request, res: express.Response): Promise<void> => {
+router.get('/:fileId/download', authenticate, async (req: AuthenticatedRequest, res: express.Response): Promise<void> => {
   try {
     const { fileId } = req.params;
     
@@ -193,6 +409,14 @@ router.get('/:fileId/download', async (req: express.Request, res: express.Respon
     
     // Get file info first
     const fileInfo = await storageService.getFileInfo(fileId);
+
+    if (!canAccess(req.user!, fileInfo.ownerId)) {
+      res.status(403).json({
+        success: false,
+        error: 'You do not have permission to download this file'
+      });
+      return;
+    }
     
     // Download file content
     const fileBuffer = await storageService.download(fileId);
@@ -225,9 +449,9 @@ router.get('/:fileId/download', async (req: express.Request, res: express.Respon
 
 /**
  * DELETE /upload/:fileId
- * Delete a file
+ * Delete a file owned by the current user
  */
-router.delete('/:fileId', async (req: express.Request, res: express.Response): Promise<void> => {
+router.delete('/:fileId', authenticate, async (req: AuthenticatedRequest, res: express.Response): Promise<void> => {
   try {
     const { fileId } = req.params;
     
@@ -240,6 +464,16 @@ router.delete('/:fileId', async (req: express.Request, res: express.Response): P
     }
 
     const storageService = getStorageService();
+    const fileInfo = await storageService.getFileInfo(fileId);
+
+    if (!canAccess(req.user!, fileInfo.ownerId)) {
+      res.status(403).json({
+        success: false,
+        error: 'You do not have permission to delete this file'
+      });
+      return;
+    }
+
     await storageService.delete(fileId);
 
     const response: IApiResponse = {
@@ -0,0 +1,289 @@
+import express from 'express';
+import Vendor from '../models/Vendor';
+import { IApiResponse, IVendorRecord } from '../types/invoice.types';
+import { validate, createVendorSchema, updateVendorSchema, vendorQuerySchema } from '../utils/validation';
+import { authenticate, AuthenticatedRequest } from '../middleware/auth.middleware';
+import { ownerFilter } from '../utils/access';
+import { escapeRegex } from '../utils/textSearch';
+import { getVendorMatchingService } from '../services/vendorMatching.service';
+
+const router = express.Router();
+
+// Empty strings clear optional fields
+const toVendorFields = (body: Partial<IVendorRecord>): { set: Record<string, unknown>; unset: string[] } => {
+  const set: Record<string, unknown> = {};
+  const unset: string[] = [];
+  Object.entries(body).forEach(([key, value]) => {
+    if (value === '') {
+      unset.push(key);
+    } else {
+      set[key] = value;
+    }
+  });
+  return { set, unset };
+};
+
+// Saved documents still hold the matching keys, which are internal
+const toVendorResponse = (vendor: InstanceType<typeof Vendor>): IVendorRecord => {
+  const data = vendor.toObject() as unknown as IVendorRecord;
+  delete data.nameKeys;
+  delete data.taxIdKey;
+  return data;
+};
+
+const isDuplicateKeyError = (error: unknown): boolean => {
+  return error instanceof Error && error.message.includes('duplicate key');
+};
+
+/**
+ * GET /vendors
+ * List master vendors, optionally searching name, aliases and tax ID
+ */
+router.get('/',
+  authenticate,
+  validate(vendorQuerySchema, 'query'),
+  async (req: AuthenticatedRequest, res: express.Response): Promise<void> => {
+    try {
+      const { q, page, limit } = req.query as unknown as { q?: string; page: number; limit: number };
+      const query: Record<string, unknown> = { ...ownerFilter(req.user!) };
+      if (q) {
+        const pattern = new RegExp(escapeRegex(q), 'i');
+        query.$or = [{ name: pattern }, { aliases: pattern }, { taxId: pattern }];
+      }
+
+      const [vendors, total] = await Promise.all([
+        Vendor.find(query)
+          .sort({ name: 1 })
+          .skip((page - 1) * limit)
+          .limit(limit)
+          .lean(),
+        Vendor.countDocuments(query)
+      ]);
+
+      const response: IApiResponse<IVendorRecord[]> = {
+        success: true,
+        data: vendors as unknown as IVendorRecord[],
+        message: `Found ${vendors.length} vendor(s)`,
+        pagination: {
+          page,
+          limit,
+          total,
+          pages: Math.ceil(total / limit)
+        }
+      };
+
+      res.json(response);
+    } catch (error) {
+      console.error('Get vendors error:', error);
+      const response: IApiResponse = {
+        success: false,
+        error: 'Failed to retrieve vendors'
+      };
+      res.status(500).json(response);
+    }
+  }
+);
+
+/**
+ * GET /vendors/:id
+ * Get a single master vendor
+ */
+router.get('/:id', authenticate, async (req: AuthenticatedRequest, res: express.Response): Promise<void> => {
+  try {
+    const { id } = req.params;
+
+    // Validate ObjectId format
+    if (!id.match(/^[0-9a-fA-F]{24}$/)) {
+      res.status(400).json({
+        success: false,
+        error: 'Invalid vendor ID format'
+      });
+      return;
+    }
+
+    const vendor = await Vendor.findOne({ _id: id, ...ownerFilter(req.user!) }).lean();
+
+    if (!vendor) {
+      res.status(404).json({
+        success: false,
+        error: 'Vendor not found'
+      });
+      return;
+    }
+
+    const response: IApiResponse<IVendorRecord> = {
+      success: true,
+      data: vendor as unknown as IVendorRecord
+    };
+
+    res.json(response);
+  } catch (error) {
+    console.error('Get vendor error:', error);
+    const response: IApiResponse = {
+      success: false,
+      error: 'Failed to retrieve vendor'
+    };
+    res.status(500).json(response);
+  }
+});
+
+/**
+ * POST /vendors
+ * Create a master vendor
+ */
+router.post('/',
+  authenticate,
+  validate(createVendorSchema),
+  async (req: AuthenticatedRequest, res: express.Response): Promise<void> => {
+    try {
+      const { set } = toVendorFields(req.body);
+      const vendor = await Vendor.create({ ...set, owner: req.user!.id });
+
+      const response: IApiResponse<IVendorRecord> = {
+        success: true,
+        data: toVendorResponse(vendor),
+        message: 'Vendor created successfully'
+      };
+
+      res.status(201).json(response);
+    } catch (error) {
+      console.error('Create vendor error:', error);
+
+      if (isDuplicateKeyError(error)) {
+        res.status(409).json({
+          success: false,
+          error: 'A vendor with this tax ID already exists'
+        });
+        return;
+      }
+
+      const response: IApiResponse = {
+        success: false,
+        error: 'Failed to create vendor'
+      };
+      res.status(500).json(response);
+    }
+  }
+);
+
+/**
+ * PUT /vendors/:id
+ * Update a master vendor. Linked invoices keep their data; only the name of the match follows.
+ */
+router.put('/:id',
+  authenticate,
+  validate(updateVendorSchema),
+  async (req: AuthenticatedRequest, res: express.Response): Promise<void> => {
+    try {
+      const { id } = req.params;
+
+      // Validate ObjectId format
+      if (!id.match(/^[0-9a-fA-F]{24}$/)) {
+        res.status(400).json({
+          success: false,
+          error: 'Invalid vendor ID format'
+        });
+        return;
+      }
+
+      const vendor = await Vendor.findOne({ _id: id, ...ownerFilter(req.user!) });
+
+      if (!vendor) {
+        res.status(404).json({
+          success: false,
+          error: 'Vendor not found'
+        });
+        return;
+      }
+
+      // Saved through the document so the matching keys are derived again
+      const { set, unset } = toVendorFields(req.body);
+      vendor.set(set);
+      unset.forEach(key => vendor.set(key, undefined));
+      await vendor.save();
+
+      if (set.name) {
+        await getVendorMatchingService().updateMatchedInvoices(
+          id,
+          { $set: { 'vendorMatch.name': set.name } },
+          { source: 'vendor', actor: { id: req.user!.id, email: req.user!.email }, note: `Vendor renamed to ${set.name}` }
+        );
+      }
+
+      const response: IApiResponse<IVendorRecord> = {
+        success: true,
+        data: toVendorResponse(vendor),
+        message: 'Vendor updated successfully'
+      };
+
+      res.json(response);
+    } catch (error) {
+      console.error('Update vendor error:', error);
+
+      if (isDuplicateKeyError(error)) {
+        res.status(409).json({
+          success: false,
+          error: 'A vendor with this tax ID already exists'
+        });
+        return;
+      }
+
+      const response: IApiResponse = {
+        success: false,
+        error: 'Failed to update vendor'
+      };
+      res.status(500).json(response);
+    }
+  }
+);
+
+/**
+ * DELETE /vendors/:id
+ * Delete a master vendor and unlink the invoices matched to it
+ */
+router.delete('/:id', authenticate, async (req: AuthenticatedRequest, res: express.Response): Promise<void> => {
+  try {
+    const { id } = req.params;
+
+    // Validate ObjectId format
+    if (!id.match(/^[0-9a-fA-F]{24}$/)) {
+      res.status(400).json({
+        success: false,
+        error: 'Invalid vendor ID format'
+      });
+      return;
+    }
+
+    const vendor = await Vendor.findOneAndDelete({ _id: id, ...ownerFilter(req.user!) });
+
+    if (!vendor) {
+      res.status(404).json({
+        success: false,
+        error: 'Vendor not found'
+      });
+      return;
+    }
+
+    await getVendorMatchingService().updateMatchedInvoices(
+      id,
+      { $unset: { vendorMatch: '' } },
+      { source: 'vendor', actor: { id: req.user!.id, email: req.user!.email }, note: `Unlinked from deleted vendor ${vendor.name}` }
+    );
+
+    const response: IApiResponse = {
+      success: true,
+      message: 'Vendor deleted successfully'
+    };
+
+    res.json(response);
+  } catch (error) {
+    console.error('Delete vendor error:', error);
+    const response: IApiResponse = {
+      success: false,
+      error: 'Failed to delete vendor'
+    };
+    res.status(500).json(response);
+  }
+});
+
+export default router;
@@ -0,0 +1,122 @@
+import { getAccountingProfile, validateAccountingExport } from '../accountingExport.service';
+import { IAccountingPreferences, IInvoice } from '../../types/invoice.types';
+
+const invoice = {
+  _id: 'invoice-1',
+  fileId: 'file-1',
+  fileName: 'invoice.pdf',
+  status: 'approved',
+  vendor: { name: 'Acme GmbH' },
+  invoice: {
+    number: 'RE-1',
+    date: '2024-05-01',
+    currency: 'EUR',
+    taxPercent: 19,
+    subtotal: 150,
+    total: 178.5,
+    lineItems: [
+      { description: 'Consulting', quantity: 2, unitPrice: 50, total: 100 },
+      { description: 'Support', quantity: 1, unitPrice: 50, total: 50 }
+    ]
+  },
+  accounting: { glAccount: '4400', costCenter: 'KST1' }
+} as unknown as IInvoice;
+
+const preferences: IAccountingPreferences = {
+  payablesAccount: '70000',
+  datevConsultantNumber: '1001',
+  datevClientNumber: '1'
+};
+
+const render = (profileId: 'quickbooks-iif' | 'xero-csv' | 'datev', invoices: IInvoice[], prefs = preferences): string[] =>
+  getAccountingProfile(profileId).render(invoices, prefs).toString('latin1').split('\r\n');
+
+describe('validate', () => {
+  it('lists what keeps an invoice from being exported', () => {
+    const errors = getAccountingProfile('xero-csv').validate({
+      ...invoice,
+      status: 'in_review',
+      invoice: { ...invoice.invoice, total: 140 },
+      accounting: undefined
+    }, {});
+
+    expect(errors).toEqual([
+      "Only approved or paid invoices can be exported (status is 'in_review')",
+      '"accounting.glAccount" is required when no default GL account is set in your preferences',
+      '"invoice.total" is less than the sum of the line items'
+    ]);
+  });
+
+  it('prefixes errors with the invoice when a batch is exported', () => {
+    const errors = validateAccountingExport(
+      getAccountingProfile('datev'),
+      [invoice, { ...invoice, _id: 'invoice-2', invoice: { ...invoice.invoice, date: '2023-12-31', taxPercent: 10 } }],
+      { ...preferences, payablesAccount: 'AP' }
+    );
+
+    expect(errors).toEqual([
+      'A numeric creditor account must be set as payables account in your preferences',
+      'DATEV exports cannot mix invoices from different years',
+      'invoice-2 (RE-1): No DATEV tax key for a tax rate of 10%'
+    ]);
+  });
+});
+
+describe('Xero CSV', () => {
+  it('writes one row per line with its share of the tax', () => {
+    const lines = render('xero-csv', [invoice]);
+
+    expect(lines.slice(1)).toEqual([
+      'Acme GmbH,,RE-1,01/05/2024,01/05/2024,Consulting,2,50,4400,Tax on Purchases,19.00,Cost Centre,KST1,EUR',
+      'Acme GmbH,,RE-1,01/05/2024,01/05/2024,Support,1,50,4400,Tax on Purchases,9.50,Cost Centre,KST1,EUR',
+      ''
+    ]);
+  });
+
+  it('takes the tax of each rate from the printed summary', () => {
+    const lines = render('xero-csv', [{
+      ...invoice,
+      invoice: {
+        ...invoice.invoice,
+        taxPercent: undefined,
+        total: 172.49,
+        lineItems: [
+          { description: 'Consulting', quantity: 2, unitPrice: 50, taxPercent: 19, total: 100 },
+          { description: 'Books', quantity: 1, unitPrice: 50, taxPercent: 7, total: 50 }
+        ],
+        taxBreakdown: [
+          { taxPercent: 19, taxableAmount: 100, taxAmount: 19 },
+          { taxPercent: 7, taxableAmount: 50, taxAmount: 3.49 }
+        ]
+      }
+    }]);
+
+    expect(lines.slice(1, 3).map(line => line.split(',')[10])).toEqual(['19.00', '3.49']);
+  });
+});
+
+describe('QuickBooks IIF', () => {
+  it('credits payables with the total and posts tax to the tax account', () => {
+    const lines = render('quickbooks-iif', [invoice], { ...preferences, taxAccount: 'Input VAT' });
+
+    expect(lines.slice(3).map(line => line.split('\t').slice(0, 7))).toEqual([
+      ['TRNS', 'BILL', '05/01/2024', '70000', 'Acme GmbH', 'KST1', '-178.50'],
+      ['SPL', 'BILL', '05/01/2024', '4400', 'Acme GmbH', 'KST1', '100.00'],
+      ['SPL', 'BILL', '05/01/2024', '4400', 'Acme GmbH', 'KST1', '50.00'],
+      ['SPL', 'BILL', '05/01/2024', 'Input VAT', 'Acme GmbH', 'KST1', '28.50'],
+      ['ENDTRNS'],
+      ['']
+    ]);
+  });
+});
+
+describe('DATEV', () => {
+  it('books the gross amount of each line with the tax key of its rate', () => {
+    const lines = render('datev', [invoice]);
+
+    expect(lines[0]).toMatch(/^"EXTF";700;21;"Buchungsstapel";13;\d{17};;"RE";"";"";1001;1;20240101;4;20240501;20240501;/);
+    expect(lines[2]).toMatch(/^119,00;"S";"EUR";;;;4400;70000;"9";0105;"RE-1";;;"Acme GmbH Consulting";/);
+    expect(lines[3]).toMatch(/^59,50;"S";/);
+    expect(lines[3]).toMatch(/;"KST1"$/);
+  });
+});
@@ -0,0 +1,85 @@
+import { Readable } from 'stream';
+import JSZip from 'jszip';
+import UploadBatch from '../../models/UploadBatch';
+import User from '../../models/User';
+import { getBatchUploadService } from '../batchUpload.service';
+import { GridFSStorageService } from '../fileStorage.service';
+import { getInvoiceImportService } from '../invoiceImport.service';
+import { IUploadBatch } from '../../types/invoice.types';
+
+// Stands in for a mongoose query resolving to `value`
+const query = (value: unknown) => {
+  const chain = { select: () => chain, lean: () => chain, then: (resolve: (result: unknown) => unknown) => resolve(value) };
+  return chain as never;
+};
+
+const pdf = Buffer.from('%PDF-1.7\n%…');
+const names = ['1.pdf', '2.pdf', '3.pdf', '4.pdf', '5.pdf', '6.pdf', '7.pdf'];
+
+const batchOf = (reported: string[]): IUploadBatch => ({
+  _id: 'batch-1',
+  owner: 'user-1',
+  status: 'processing',
+  files: [{
+    fileName: 'march.zip',
+    fileId: 'file-1',
+    status: 'queued',
+    results: reported.map(fileName => ({ fileName, archive: 'march.zip', status: 'created' as const }))
+  }],
+  attempts: 1,
+  maxAttempts: 3,
+  createdAt: '2024-05-01T00:00:00.000Z'
+});
+
+describe('BatchUploadService.process', () => {
+  const service = getBatchUploadService();
+  let updateOne: jest.SpyInstance;
+  let createDraft: jest.SpyInstance;
+  let deleteFile: jest.SpyInstance;
+
+  beforeEach(async () => {
+    const archive = new JSZip();
+    names.forEach(name => archive.file(name, pdf));
+    const buffer = await archive.generateAsync({ type: 'nodebuffer', compression: 'DEFLATE' });
+    // A new storage service is handed out on every call
+    const storageService = GridFSStorageService.prototype;
+
+    jest.spyOn(User, 'findById').mockReturnValue(query({ email: 'user@example.com', role: 'user' }));
+    jest.spyOn(storageService, 'getFileInfo').mockResolvedValue({ fileSize: buffer.length } as never);
+    jest.spyOn(storageService, 'downloadStream').mockImplementation((_fileId, start = 0) => Readable.from([buffer.subarray(start)]));
+    deleteFile = jest.spyOn(storageService, 'delete').mockResolvedValue();
+    updateOne = jest.spyOn(UploadBatch, 'updateOne').mockResolvedValue({ modifiedCount: 1 } as never);
+    createDraft = jest.spyOn(getInvoiceImportService(), 'createDraft')
+      .mockResolvedValue({ invoiceId: 'invoice-1', fileId: 'stored-1' } as never);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('imports a few files per turn and hands the batch back to the queue', async () => {
+    await service.process(batchOf([]), 'worker-1');
+
+    expect(createDraft).toHaveBeenCalledTimes(5);
+    expect(deleteFile).not.toHaveBeenCalled();
+    expect(updateOne).toHaveBeenLastCalledWith(
+      { _id: 'batch-1', status: 'processing', lockedBy: 'worker-1' },
+      {
+        $set: { status: 'queued', updatedAt: expect.any(String) },
+        $unset: { lockedBy: '', leaseExpiresAt: '' },
+        $inc: { attempts: -1 }
+      }
+    );
+  });
+
+  it('picks up after the files already reported and completes the batch', async () => {
+    await service.process(batchOf(names.slice(0, 5)), 'worker-1');
+
+    expect(createDraft.mock.calls.map(([, upload]) => upload.originalname)).toEqual(['6.pdf', '7.pdf']);
+    expect(deleteFile).toHaveBeenCalledWith('file-1');
+    expect(updateOne).toHaveBeenLastCalledWith(
+      { _id: 'batch-1', status: 'processing', lockedBy: 'worker-1' },
+      expect.objectContaining({ $set: expect.objectContaining({ status: 'completed' }) })
+    );
+  });
+});
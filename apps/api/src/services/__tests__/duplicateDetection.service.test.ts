@@ -0,0 +1,70 @@
+import Invoice from '../../models/Invoice';
+import { getDuplicateDetectionService, getInvoiceFingerprint } from '../duplicateDetection.service';
+
+// Stands in for a mongoose query resolving to `value`
+const query = (value: unknown) => {
+  const chain = {
+    sort: () => chain,
+    limit: () => chain,
+    lean: () => chain,
+    then: (resolve: (result: unknown) => unknown) => resolve(value)
+  };
+  return chain as never;
+};
+
+const user = { id: 'user-1', email: 'ap@example.com', role: 'user' as const };
+
+describe('getInvoiceFingerprint', () => {
+  const invoice = { number: 'INV-2024/017', total: 119, date: '2024-05-01' };
+
+  it('ignores case, spacing and punctuation', () => {
+    expect(getInvoiceFingerprint({ name: 'ACME  Supplies, Ltd' }, { ...invoice, number: 'inv 2024 017' }))
+      .toBe(getInvoiceFingerprint({ name: 'Acme Supplies Ltd' }, invoice));
+  });
+
+  it('tells invoices apart by total and date', () => {
+    const fingerprint = getInvoiceFingerprint({ name: 'Acme' }, invoice);
+
+    expect(getInvoiceFingerprint({ name: 'Acme' }, { ...invoice, total: 119.01 })).not.toBe(fingerprint);
+    expect(getInvoiceFingerprint({ name: 'Acme' }, { ...invoice, date: '2024-05-02' })).not.toBe(fingerprint);
+  });
+
+  it('has no fingerprint without vendor name or invoice number', () => {
+    expect(getInvoiceFingerprint({ name: '' }, invoice)).toBeUndefined();
+    expect(getInvoiceFingerprint({ name: 'Acme' }, { ...invoice, number: '--' })).toBeUndefined();
+  });
+});
+
+describe('DuplicateDetectionService', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('reports what each duplicate matched on', async () => {
+    const find = jest.spyOn(Invoice, 'find').mockReturnValue(query([{
+      _id: 'invoice-2',
+      contentHash: 'other',
+      fingerprint: 'fp',
+      vendor: { name: 'Acme' },
+      invoice: { number: 'INV-1', total: 119, currency: 'EUR' },
+      status: 'approved',
+      createdAt: '2024-05-01T00:00:00.000Z'
+    }]));
+
+    const matches = await getDuplicateDetectionService().findDuplicates(user, {
+      contentHash: 'hash',
+      fingerprint: 'fp',
+      excludeId: 'invoice-1'
+    });
+
+    expect(find).toHaveBeenCalledWith(expect.objectContaining({ _id: { $ne: 'invoice-1' }, owner: 'user-1' }));
+    expect(matches).toEqual([expect.objectContaining({ invoiceId: 'invoice-2', status: 'approved', matchedOn: ['fingerprint'] })]);
+  });
+
+  it('does not search without a hash or fingerprint', async () => {
+    const find = jest.spyOn(Invoice, 'find');
+
+    expect(await getDuplicateDetectionService().findDuplicates(user, {})).toEqual([]);
+    expect(find).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,102 @@
+import Invoice from '../../models/Invoice';
+import ExtractionTemplate from '../../models/ExtractionTemplate';
+import {
+  buildPromptHints,
+  findValueLocation,
+  getFieldCorrections,
+  getExtractionTemplateService,
+  MIN_CORRECTIONS
+} from '../extractionTemplate.service';
+import { IExtractionTemplate, IInvoice } from '../../types/invoice.types';
+
+// Stands in for a mongoose query resolving to `value`
+const query = (value: unknown) => {
+  const chain = { select: () => chain, lean: () => chain, then: (resolve: (result: unknown) => unknown) => resolve(value) };
+  return chain as never;
+};
+
+const template: IExtractionTemplate = {
+  owner: 'user-1',
+  vendorId: 'vendor-1',
+  vendorName: 'Acme GmbH',
+  invoiceCount: 3,
+  appliedCount: 0,
+  fields: [
+    { path: 'invoice.number', corrections: MIN_CORRECTIONS, extracted: '2024', corrected: 'RE-2024-17', label: 'Rechnung Nr.:', page: 1, updatedAt: '' },
+    { path: 'invoice.poNumber', corrections: 1, extracted: '', corrected: 'PO-1', updatedAt: '' }
+  ],
+  createdAt: ''
+};
+
+describe('getFieldCorrections', () => {
+  it('lists the fields the reviewer changed', () => {
+    const extracted = { invoice: { number: '2024', date: '2024-05-01', total: 119.001 } };
+    const approved = { invoice: { number: 'RE-2024-17', date: '2024-05-01', total: 119 } };
+
+    expect(getFieldCorrections(extracted, approved)).toEqual([
+      { path: 'invoice.number', extracted: '2024', corrected: 'RE-2024-17' }
+    ]);
+  });
+});
+
+describe('findValueLocation', () => {
+  it('finds the page and label of a value, also as printed in local formats', () => {
+    const pages = ['Acme GmbH', 'Rechnung Nr.: RE-2024-17\nDatum: 01.05.2024'];
+
+    expect(findValueLocation(pages, 'RE-2024-17')).toEqual({ page: 2, label: 'Rechnung Nr.:' });
+    expect(findValueLocation(pages, '2024-05-01')).toEqual({ page: 2, label: 'Datum:' });
+    expect(findValueLocation(pages, 'missing')).toEqual({});
+  });
+});
+
+describe('buildPromptHints', () => {
+  it('only mentions fields corrected often enough', () => {
+    const hints = buildPromptHints(template);
+
+    expect(hints).toContain('invoice.number');
+    expect(hints).toContain('printed after "Rechnung Nr.:" on page 1');
+    expect(hints).not.toContain('invoice.poNumber');
+  });
+
+  it('has no hints before any field was corrected often enough', () => {
+    expect(buildPromptHints({ ...template, fields: [template.fields[1]] })).toBeUndefined();
+  });
+});
+
+describe('ExtractionTemplateService', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('only reads the vendor of an invoice the extraction owner owns', async () => {
+    const findOne = jest.spyOn(Invoice, 'findOne').mockReturnValue(query(null));
+    jest.spyOn(ExtractionTemplate, 'find').mockReturnValue(query([]));
+
+    await getExtractionTemplateService().getPromptHints('user-1', 'text', '6561f1c2a4b5c6d7e8f90123');
+
+    expect(findOne).toHaveBeenCalledWith({ _id: '6561f1c2a4b5c6d7e8f90123', owner: 'user-1' });
+  });
+
+  it('does not learn from an invoice changed since it was approved', async () => {
+    const invoice = {
+      _id: '6561f1c2a4b5c6d7e8f90123',
+      owner: 'user-1',
+      version: 4,
+      vendor: { name: 'Acme GmbH' },
+      invoice: { number: 'RE-2024-17', date: '2024-05-01', lineItems: [] },
+      extraction: { model: 'gemini', extractedAt: '', values: { invoice: { number: '2024' } } },
+      vendorMatch: { vendorId: 'vendor-1', name: 'Acme GmbH', method: 'exact', score: 1, confirmed: true }
+    } as unknown as IInvoice;
+    const claim = jest.spyOn(Invoice, 'findOneAndUpdate').mockReturnValue(query(null));
+    const findTemplate = jest.spyOn(ExtractionTemplate, 'findOne');
+
+    await getExtractionTemplateService().learnFromInvoice(invoice);
+
+    expect(claim).toHaveBeenCalledWith(
+      expect.objectContaining({ _id: invoice._id, owner: 'user-1', version: 4 }),
+      expect.anything(),
+      expect.anything()
+    );
+    expect(findTemplate).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,46 @@
+import { EInvoiceImportError, getInvoiceImportService } from '../invoiceImport.service';
+import { getStorageService } from '../fileStorage.service';
+
+const user = { id: 'user-1', email: 'user@example.com', role: 'user' };
+
+const file = (xml: string) => ({ buffer: Buffer.from(xml), originalname: 'invoice.xml', mimetype: 'application/xml' });
+
+const importXml = (xml: string) => getInvoiceImportService().importEInvoice(user as never, file(xml));
+
+describe('importEInvoice', () => {
+  let upload: jest.SpyInstance;
+
+  beforeEach(() => {
+    upload = jest.spyOn(getStorageService(), 'upload');
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('rejects malformed XML before storing it', async () => {
+    await expect(importXml('<Invoice><ID>1</Invoice>')).rejects.toThrow(/^Invalid XML: /);
+    expect(upload).not.toHaveBeenCalled();
+  });
+
+  it('rejects XML that is not a supported e-invoice', async () => {
+    await expect(importXml('<Order><ID>1</ID></Order>')).rejects.toThrow(
+      'Unsupported XML document. Upload a UBL 2.1 or CII (ZUGFeRD, Factur-X, XRechnung) invoice'
+    );
+    expect(upload).not.toHaveBeenCalled();
+  });
+
+  it('lists the required fields an e-invoice is missing', async () => {
+    const xml = `<Invoice xmlns="urn:oasis:names:specification:ubl:schema:xsd:Invoice-2"
+      xmlns:cbc="urn:oasis:names:specification:ubl:schema:xsd:CommonBasicComponents-2">
+      <cbc:IssueDate>2024-05-01</cbc:IssueDate>
+    </Invoice>`;
+
+    const error = await importXml(xml).catch((err: unknown) => err);
+
+    expect(error).toBeInstanceOf(EInvoiceImportError);
+    expect(error).toMatchObject({ message: 'E-invoice is missing required fields', details: expect.any(Array) });
+    expect((error as EInvoiceImportError).details!.length).toBeGreaterThan(0);
+    expect(upload).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,116 @@
+import Vendor from '../../models/Vendor';
+import Invoice from '../../models/Invoice';
+import { getVendorMatchingService } from '../vendorMatching.service';
+import { getInvoiceRevisionService } from '../invoiceRevision.service';
+import { IInvoice, IVendorMatch, IVendorRecord } from '../../types/invoice.types';
+
+// Stands in for a mongoose query resolving to `value`
+const query = (value: unknown) => {
+  const chain = { select: () => chain, lean: () => chain, then: (resolve: (result: unknown) => unknown) => resolve(value) };
+  return chain as never;
+};
+
+const vendors = [
+  { _id: 'vendor-1', name: 'Acme Industries GmbH', nameKeys: ['acme industries', 'acme'] },
+  { _id: 'vendor-2', name: 'Globex Corporation', nameKeys: ['globex'] }
+];
+
+describe('VendorMatchingService', () => {
+  const service = getVendorMatchingService();
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('findMatch', () => {
+    it('matches by tax ID first, whatever the name', async () => {
+      const findOne = jest.spyOn(Vendor, 'findOne').mockReturnValue(query(vendors[1]));
+
+      const match = await service.findMatch('user-1', { name: 'Acme', taxId: 'de 123 456 789' });
+
+      expect(findOne).toHaveBeenCalledWith({ owner: 'user-1', taxIdKey: 'DE123456789' });
+      expect(match).toEqual({ vendorId: 'vendor-2', name: 'Globex Corporation', method: 'taxId', score: 1, confirmed: false });
+    });
+
+    it('matches names and aliases exactly after normalizing them', async () => {
+      jest.spyOn(Vendor, 'find').mockReturnValue(query(vendors));
+
+      expect(await service.findMatch('user-1', { name: 'ACME Industries Ltd.' })).toMatchObject({ vendorId: 'vendor-1', method: 'name' });
+      expect(await service.findMatch('user-1', { name: 'Acme, Inc.' })).toMatchObject({ vendorId: 'vendor-1', method: 'alias' });
+    });
+
+    it('suggests a similar name with its score', async () => {
+      jest.spyOn(Vendor, 'find').mockReturnValue(query(vendors));
+
+      const match = await service.findMatch('user-1', { name: 'Acme Industires' });
+
+      expect(match).toMatchObject({ vendorId: 'vendor-1', method: 'similarity', confirmed: false });
+      expect(match!.score).toBeGreaterThanOrEqual(0.75);
+      expect(match!.score).toBeLessThan(1);
+    });
+
+    it('does not suggest dissimilar names', async () => {
+      jest.spyOn(Vendor, 'find').mockReturnValue(query(vendors));
+
+      expect(await service.findMatch('user-1', { name: 'Apex Manufacturing' })).toBeUndefined();
+    });
+  });
+
+  describe('rematch', () => {
+    const confirmed: IVendorMatch = { vendorId: 'vendor-1', name: 'Acme Industries GmbH', method: 'similarity', score: 0.8, confirmed: true };
+
+    it('keeps a confirmed match while the vendor is unchanged', async () => {
+      const find = jest.spyOn(Vendor, 'find');
+
+      expect(await service.rematch('user-1', { name: 'Acme' }, { name: 'Acme' }, confirmed)).toBe(confirmed);
+      expect(find).not.toHaveBeenCalled();
+    });
+
+    it('drops a confirmed match when the vendor changed to another one', async () => {
+      jest.spyOn(Vendor, 'find').mockReturnValue(query(vendors));
+
+      expect(await service.rematch('user-1', { name: 'Globex' }, { name: 'Acme' }, confirmed))
+        .toMatchObject({ vendorId: 'vendor-2', confirmed: false });
+    });
+  });
+
+  it('fills in the vendor defaults the invoice does not have', () => {
+    const vendor = {
+      name: 'Acme Industries GmbH',
+      taxId: 'DE123456789',
+      defaultCurrency: 'EUR',
+      defaultGlAccount: '4400',
+      defaultCostCenter: 'KST1'
+    } as IVendorRecord;
+    const invoice = {
+      invoice: { number: 'INV-1', date: '', currency: 'USD', lineItems: [] },
+      accounting: { costCenter: 'KST9' }
+    } as unknown as IInvoice;
+
+    expect(service.getLinkedInvoiceFields(vendor, invoice)).toEqual({
+      'vendor.name': 'Acme Industries GmbH',
+      'vendor.taxId': 'DE123456789',
+      'accounting.glAccount': '4400'
+    });
+  });
+
+  it('versions and records a revision of every invoice it updates', async () => {
+    const before = { _id: 'invoice-1', version: 2, vendorMatch: { vendorId: 'vendor-1' } };
+    jest.spyOn(Invoice, 'find').mockReturnValue(query([before, { _id: 'invoice-2' }]));
+    const update = jest.spyOn(Invoice, 'findOneAndUpdate')
+      .mockReturnValueOnce({ ...before, version: 3 } as never)
+      .mockReturnValueOnce(null as never);
+    const record = jest.spyOn(getInvoiceRevisionService(), 'record').mockResolvedValue(null);
+    const context = { source: 'vendor' as const, note: 'Unlinked from deleted vendor Acme' };
+
+    await service.updateMatchedInvoices('vendor-1', { $unset: { vendorMatch: '' } }, context);
+
+    expect(update).toHaveBeenCalledWith(
+      { _id: 'invoice-1', 'vendorMatch.vendorId': 'vendor-1' },
+      { $unset: { vendorMatch: '' }, $set: { updatedAt: expect.any(String) }, $inc: { version: 1 } },
+      expect.anything()
+    );
+    expect(record).toHaveBeenCalledTimes(1);
+    expect(record).toHaveBeenCalledWith({ ...before, version: 3 }, { ...context, always: true }, before);
+  });
+});
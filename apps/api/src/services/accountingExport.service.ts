@@ -0,0 +1,383 @@
+import { IInvoice, IAccountingPreferences, AccountingProfileId } from '../types/invoice.types';
+import { EXPORTABLE_STATUSES } from '../utils/invoiceStatus';
+import { toCsvRow } from '../utils/tableExport';
+import { getChargeLabel, getTaxRate } from '../utils/invoiceTotals';
+
+export interface IAccountingProfileInfo {
+  id: AccountingProfileId;
+  name: string;
+  extension: string;
+}
+
+export interface IAccountingExportProfile extends IAccountingProfileInfo {
+  contentType: string;
+  validate(invoice: IInvoice, preferences: IAccountingPreferences): string[];
+  // Checks on the preferences and on the batch as a whole
+  validateBatch?(invoices: IInvoice[], preferences: IAccountingPreferences): string[];
+  render(invoices: IInvoice[], preferences: IAccountingPreferences): Buffer;
+}
+
+// One booking line: an invoice line item or charge, or the whole invoice when it has no line items
+interface IPosting {
+  description: string;
+  quantity: number;
+  unitPrice: number;
+  net: number;
+  taxPercent?: number;
+  tax: number;
+}
+
+const DATE_PATTERN = /^(\d{4})-(\d{2})-(\d{2})$/;
+
+const round = (value: number): number => Math.round(value * 100) / 100;
+
+/**
+ * Spread a tax amount over postings by net amount; the last posting takes the rounding
+ * difference so the shares always add up to the amount.
+ */
+const allocateTax = (postings: Array<Omit<IPosting, 'tax'>>, taxTotal: number): IPosting[] => {
+  const net = round(postings.reduce((sum, posting) => sum + posting.net, 0));
+  let allocated = 0;
+  return postings.map((posting, index) => {
+    const tax = index === postings.length - 1
+      ? round(taxTotal - allocated)
+      : round(net ? taxTotal * posting.net / net : 0);
+    allocated = round(allocated + tax);
+    return { ...posting, tax };
+  });
+};
+
+/**
+ * Split an invoice into postings, one per line item and charge. With a single tax rate the
+ * tax is the difference between the stored total and the net amount when a total is known,
+ * so the postings always add up to the invoice total. With several rates each rate's tax
+ * comes from the invoice's tax summary, or is computed, and is spread over its postings.
+ */
+const getPostings = (invoice: IInvoice): IPosting[] => {
+  const { invoice: data } = invoice;
+  const lines: Array<Omit<IPosting, 'tax'>> = data.lineItems.length
+    ? data.lineItems.map(item => ({
+      description: item.description,
+      quantity: item.quantity,
+      unitPrice: item.unitPrice,
+      net: item.total,
+      taxPercent: getTaxRate(item, data)
+    }))
+    : [{ description: `Invoice ${data.number}`, quantity: 1, unitPrice: data.subtotal || 0, net: data.subtotal || 0, taxPercent: data.taxPercent }];
+  lines.push(...(data.charges || []).map(charge => ({
+    description: getChargeLabel(charge),
+    quantity: 1,
+    unitPrice: charge.amount,
+    net: charge.amount,
+    taxPercent: getTaxRate(charge, data)
+  })));
+
+  const rates = Array.from(new Set(lines.map(line => line.taxPercent)));
+  if (rates.length > 1 && !rates.includes(undefined)) {
+    return rates.flatMap(rate => {
+      const group = lines.filter(line => line.taxPercent === rate);
+      const net = round(group.reduce((sum, line) => sum + line.net, 0));
+      const printed = data.taxBreakdown?.find(entry => entry.taxPercent === rate);
+      return allocateTax(group, printed ? printed.taxAmount : round(net * rate! / 100));
+    });
+  }
+
+  const net = round(lines.reduce((sum, line) => sum + line.net, 0));
+  const taxTotal = data.total !== undefined && data.total !== null
+    ? round(data.total - net)
+    : round(net * (data.taxPercent || 0) / 100);
+  return allocateTax(lines, taxTotal);
+};
+
+const getGlAccount = (invoice: IInvoice, preferences: IAccountingPreferences): string | undefined => {
+  return invoice.accounting?.glAccount || preferences.defaultGlAccount || undefined;
+};
+
+abstract class AccountingExportProfile implements IAccountingExportProfile {
+  abstract readonly id: AccountingProfileId;
+  abstract readonly name: string;
+  abstract readonly extension: string;
+  abstract readonly contentType: string;
+
+  /**
+   * Checks every profile needs; profiles add their own in validateProfile
+   */
+  validate(invoice: IInvoice, preferences: IAccountingPreferences): string[] {
+    const errors: string[] = [];
+    const { vendor, invoice: data } = invoice;
+    const status = invoice.status || 'draft';
+
+    if (!EXPORTABLE_STATUSES.includes(status)) {
+      errors.push(`Only approved or paid invoices can be exported (status is '${status}')`);
+    }
+    if (!vendor.name?.trim()) {
+      errors.push('"vendor.name" is required');
+    }
+    if (!data.number?.trim()) {
+      errors.push('"invoice.number" is required');
+    }
+    if (!DATE_PATTERN.test(data.date || '')) {
+      errors.push('"invoice.date" must be a date in YYYY-MM-DD format');
+    }
+    if (!getGlAccount(invoice, preferences)) {
+      errors.push('"accounting.glAccount" is required when no default GL account is set in your preferences');
+    }
+    if (!data.lineItems.length && !data.subtotal) {
+      errors.push('At least one line item or a subtotal is required');
+    }
+
+    const postings = getPostings(invoice);
+    if (postings.reduce((sum, posting) => sum + posting.tax, 0) < 0) {
+      errors.push('"invoice.total" is less than the sum of the line items');
+    }
+
+    return [...errors, ...(this.validateProfile?.(invoice, preferences) || [])];
+  }
+
+  protected validateProfile?(invoice: IInvoice, preferences: IAccountingPreferences): string[];
+
+  abstract render(invoices: IInvoice[], preferences: IAccountingPreferences): Buffer;
+}
+
+/**
+ * QuickBooks Desktop IIF: one BILL transaction per invoice, crediting accounts payable
+ * with the total and debiting the expense account per line. Tax is posted to the tax
+ * account when one is set, otherwise it is included in the expense lines.
+ */
+class QuickBooksIifProfile extends AccountingExportProfile {
+  readonly id = 'quickbooks-iif' as const;
+  readonly name = 'QuickBooks (IIF)';
+  readonly extension = 'iif';
+  readonly contentType = 'text/plain; charset=utf-8';
+
+  render(invoices: IInvoice[], preferences: IAccountingPreferences): Buffer {
+    const payables = preferences.payablesAccount || 'Accounts Payable';
+    // IIF fields are tab separated, so tabs and line breaks are flattened
+    const field = (value: string | number | undefined): string => String(value ?? '').replace(/[\t\r\n]+/g, ' ');
+    const row = (values: (string | number | undefined)[]): string => values.map(field).join('\t');
+
+    const lines = [
+      row(['!TRNS', 'TRNSTYPE', 'DATE', 'ACCNT', 'NAME', 'CLASS', 'AMOUNT', 'DOCNUM', 'MEMO']),
+      row(['!SPL', 'TRNSTYPE', 'DATE', 'ACCNT', 'NAME', 'CLASS', 'AMOUNT', 'DOCNUM', 'MEMO']),
+      row(['!ENDTRNS'])
+    ];
+
+    for (const invoice of invoices) {
+      const { vendor, invoice: data } = invoice;
+      const [, year, month, day] = data.date.match(DATE_PATTERN) || [];
+      const date = `${month}/${day}/${year}`;
+      const account = getGlAccount(invoice, preferences);
+      const costCenter = invoice.accounting?.costCenter;
+      const postings = getPostings(invoice);
+      const total = round(postings.reduce((sum, posting) => sum + posting.net + posting.tax, 0));
+
+      lines.push(row(['TRNS', 'BILL', date, payables, vendor.name, costCenter, (-total).toFixed(2), data.number, vendor.name]));
+      for (const posting of postings) {
+        const amount = preferences.taxAccount ? posting.net : posting.net + posting.tax;
+        lines.push(row(['SPL', 'BILL', date, account, vendor.name, costCenter, round(amount).toFixed(2), data.number, posting.description]));
+      }
+
+      const tax = round(postings.reduce((sum, posting) => sum + posting.tax, 0));
+      if (preferences.taxAccount && tax) {
+        lines.push(row(['SPL', 'BILL', date, preferences.taxAccount, vendor.name, costCenter, tax.toFixed(2), data.number, 'Tax']));
+      }
+      lines.push(row(['ENDTRNS']));
+    }
+
+    return Buffer.from(lines.join('\r\n') + '\r\n', 'utf8');
+  }
+}
+
+/**
+ * Xero bill import CSV (Business > Bills to pay > Import), one row per line item.
+ * Rows with the same contact and invoice number become one bill.
+ */
+class XeroCsvProfile extends AccountingExportProfile {
+  readonly id = 'xero-csv' as const;
+  readonly name = 'Xero (bill import CSV)';
+  readonly extension = 'csv';
+  readonly contentType = 'text/csv; charset=utf-8';
+
+  render(invoices: IInvoice[], preferences: IAccountingPreferences): Buffer {
+    const lines = [toCsvRow([
+      '*ContactName', 'POAddressLine1', '*InvoiceNumber', '*InvoiceDate', '*DueDate', 'Description',
+      '*Quantity', '*UnitAmount', '*AccountCode', '*TaxType', 'TaxAmount', 'TrackingName1', 'TrackingOption1', 'Currency'
+    ])];
+
+    for (const invoice of invoices) {
+      const { vendor, invoice: data } = invoice;
+      const [, year, month, day] = data.date.match(DATE_PATTERN) || [];
+      // Xero reads dates in the organisation's regional format; day first is the most common.
+      // Invoices carry no due date, so the bill is due on its invoice date until edited in Xero.
+      const date = `${day}/${month}/${year}`;
+
+      for (const posting of getPostings(invoice)) {
+        lines.push(toCsvRow([
+          vendor.name,
+          vendor.address,
+          data.number,
+          date,
+          date,
+          posting.description,
+          posting.quantity,
+          // Amounts are tax exclusive; Xero adds TaxAmount on top
+          posting.unitPrice,
+          getGlAccount(invoice, preferences),
+          posting.tax ? 'Tax on Purchases' : 'Tax Exempt',
+          posting.tax.toFixed(2),
+          invoice.accounting?.costCenter ? 'Cost Centre' : undefined,
+          invoice.accounting?.costCenter,
+          data.currency
+        ]));
+      }
+    }
+
+    return Buffer.from(lines.join('\r\n') + '\r\n', 'utf8');
+  }
+}
+
+// DATEV tax keys (BU-Schlüssel) for input tax, the same in SKR03 and SKR04
+const DATEV_TAX_KEYS: Record<number, string> = {
+  0: '',
+  7: '8',
+  19: '9'
+};
+
+// Columns 1 to 37 of the Buchungsstapel format; later columns are optional and left out
+const DATEV_COLUMNS = [
+  'Umsatz (ohne Soll/Haben-Kz)', 'Soll/Haben-Kennzeichen', 'WKZ Umsatz', 'Kurs', 'Basis-Umsatz', 'WKZ Basis-Umsatz',
+  'Konto', 'Gegenkonto (ohne BU-Schlüssel)', 'BU-Schlüssel', 'Belegdatum', 'Belegfeld 1', 'Belegfeld 2', 'Skonto',
+  'Buchungstext', 'Postensperre', 'Diverse Adressnummer', 'Geschäftspartnerbank', 'Sachverhalt', 'Zinssperre',
+  'Beleglink', 'Beleginfo - Art 1', 'Beleginfo - Inhalt 1', 'Beleginfo - Art 2', 'Beleginfo - Inhalt 2',
+  'Beleginfo - Art 3', 'Beleginfo - Inhalt 3', 'Beleginfo - Art 4', 'Beleginfo - Inhalt 4', 'Beleginfo - Art 5',
+  'Beleginfo - Inhalt 5', 'Beleginfo - Art 6', 'Beleginfo - Inhalt 6', 'Beleginfo - Art 7', 'Beleginfo - Inhalt 7',
+  'Beleginfo - Art 8', 'Beleginfo - Inhalt 8', 'KOST1 - Kostenstelle'
+];
+
+const datevText = (value: string | undefined, maxLength: number): string => {
+  return `"${(value || '').replace(/[\r\n]+/g, ' ').replace(/"/g, '""').slice(0, maxLength)}"`;
+};
+
+/**
+ * DATEV Buchungsstapel (EXTF format 700), one booking per line item and charge: the gross amount
+ * is debited to the expense account against the creditor account, and DATEV derives the
+ * input tax from the tax key. All invoices in a file must fall in one calendar year.
+ */
+class DatevProfile extends AccountingExportProfile {
+  readonly id = 'datev' as const;
+  readonly name = 'DATEV (Buchungsstapel)';
+  readonly extension = 'csv';
+  readonly contentType = 'text/csv; charset=windows-1252';
+
+  protected validateProfile(invoice: IInvoice, preferences: IAccountingPreferences): string[] {
+    const errors: string[] = [];
+    const account = getGlAccount(invoice, preferences);
+    const rates = new Set(getPostings(invoice).map(posting => posting.taxPercent || 0));
+
+    if (account && !/^\d+$/.test(account)) {
+      errors.push('"accounting.glAccount" must be a numeric DATEV account');
+    }
+    rates.forEach(taxPercent => {
+      if (DATEV_TAX_KEYS[taxPercent] === undefined) {
+        errors.push(`No DATEV tax key for a tax rate of ${taxPercent}%`);
+      }
+    });
+
+    return errors;
+  }
+
+  render(invoices: IInvoice[], preferences: IAccountingPreferences): Buffer {
+    const dates = invoices.map(invoice => invoice.invoice.date.replace(/-/g, '')).sort();
+    const accountLength = Math.max(4, ...invoices.map(invoice => (getGlAccount(invoice, preferences) || '').length));
+    const created = new Date().toISOString().replace(/\D/g, '').slice(0, 17);
+    const [firstDate, lastDate] = [dates[0] || '', dates[dates.length - 1] || ''];
+
+    const header = [
+      '"EXTF"', 700, 21, '"Buchungsstapel"', 13, created, '', '"RE"', '""', '""',
+      preferences.datevConsultantNumber, preferences.datevClientNumber,
+      `${firstDate.slice(0, 4)}0101`, accountLength, firstDate, lastDate,
+      '"Rechnungseingang"', '""', 1, 0, 0, '"EUR"', '', '""', '', '', '""', '', '', '', '""'
+    ];
+
+    const lines = [header.join(';'), DATEV_COLUMNS.join(';')];
+
+    for (const invoice of invoices) {
+      const { vendor, invoice: data } = invoice;
+      const [, , month, day] = data.date.match(DATE_PATTERN) || [];
+      const columns = new Array<string>(DATEV_COLUMNS.length).fill('');
+
+      for (const posting of getPostings(invoice)) {
+        const gross = round(posting.net + posting.tax);
+        columns[0] = Math.abs(gross).toFixed(2).replace('.', ',');
+        columns[1] = gross < 0 ? '"H"' : '"S"';
+        columns[2] = datevText(data.currency || 'EUR', 3);
+        columns[6] = getGlAccount(invoice, preferences) || '';
+        columns[7] = preferences.payablesAccount || '';
+        columns[8] = datevText(DATEV_TAX_KEYS[posting.taxPercent || 0], 4);
+        columns[9] = `${day}${month}`;
+        columns[10] = datevText(data.number.replace(/[^\w$%&*+\-./]/g, ''), 36);
+        columns[13] = datevText(`${vendor.name} ${posting.description}`.trim(), 60);
+        columns[36] = datevText(invoice.accounting?.costCenter, 36);
+        lines.push(columns.join(';'));
+      }
+    }
+
+    // DATEV reads ANSI files; characters outside Latin-1 do not survive the conversion
+    return Buffer.from(lines.join('\r\n') + '\r\n', 'latin1');
+  }
+
+  validateBatch(invoices: IInvoice[], preferences: IAccountingPreferences): string[] {
+    const errors: string[] = [];
+
+    if (!preferences.datevConsultantNumber || !preferences.datevClientNumber) {
+      errors.push('DATEV consultant and client numbers must be set in your preferences');
+    }
+    if (!/^\d+$/.test(preferences.payablesAccount || '')) {
+      errors.push('A numeric creditor account must be set as payables account in your preferences');
+    }
+    // A Buchungsstapel covers a single fiscal year
+    if (new Set(invoices.map(invoice => invoice.invoice.date?.slice(0, 4))).size > 1) {
+      errors.push('DATEV exports cannot mix invoices from different years');
+    }
+
+    return errors;
+  }
+}
+
+const PROFILES: Record<AccountingProfileId, IAccountingExportProfile> = {
+  'quickbooks-iif': new QuickBooksIifProfile(),
+  'xero-csv': new XeroCsvProfile(),
+  datev: new DatevProfile()
+};
+
+// Used until the user picks a default profile in their preferences
+export const DEFAULT_ACCOUNTING_PROFILE: AccountingProfileId = 'xero-csv';
+
+export function getAccountingProfile(id: AccountingProfileId): IAccountingExportProfile {
+  return PROFILES[id];
+}
+
+export function getAccountingProfiles(): IAccountingProfileInfo[] {
+  return Object.values(PROFILES).map(({ id, name, extension }) => ({ id, name, extension }));
+}
+
+/**
+ * Check a batch of invoices against a profile. Errors are prefixed with the invoice
+ * number when more than one invoice is exported.
+ */
+export function validateAccountingExport(
+  profile: IAccountingExportProfile,
+  invoices: IInvoice[],
+  preferences: IAccountingPreferences
+): string[] {
+  const invoiceErrors = invoices.flatMap(invoice => {
+    const errors = profile.validate(invoice, preferences);
+    return invoices.length > 1
+      ? errors.map(message => `${invoice._id} (${invoice.invoice.number || 'no number'}): ${message}`)
+      : errors;
+  });
+
+  return [...(profile.validateBatch?.(invoices, preferences) || []), ...invoiceErrors];
+}
+
+export { QuickBooksIifProfile, XeroCsvProfile, DatevProfile };
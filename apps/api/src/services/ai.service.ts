@@ -2,15 +2,51 @@ import { GoogleGenerativeAI } from '@google/generative-ai';
 import Groq from 'groq-sdk';
 import pdfParse from 'pdf-parse';
 import { getStorageService } from './fileStorage.service';
-import { IVendor, IInvoiceData } from '../types/invoice.types';
+import { parseInvoiceText } from '../utils/invoiceTextParser';
+import { parseEInvoice } from '../utils/eInvoice';
+import { getPdfAttachments, IPdfAttachment } from '../utils/pdfAttachments';
+import { getXmlSyntaxError } from '../utils/xml';
+import { validateExtractionResult, validateProvenance } from '../utils/validation';
+import { IVendor, IInvoiceData, IFieldProvenance, ExtractionModel, ExtractionSource, IExtractionModelInfo } from '../types/invoice.types';
 
 export interface IAIExtractionResult {
   vendor: IVendor;
   invoice: IInvoiceData;
+  provenance?: IFieldProvenance[];
+  source?: ExtractionSource;
+  // Text of each page of the document, kept for full-text search
+  pages?: string[];
+}
+
+interface IPdfText {
+  text: string;
+  pages: string[];
+}
+
+// Per-document additions to the extraction prompt
+export interface IExtractionContext {
+  // Hints for the document with this text, e.g. learned from corrections of the vendor's earlier invoices
+  getPromptHints?: (documentText: string) => Promise<string | undefined>;
 }
 
 export interface IAIService {
-  extractInvoiceData(fileId: string): Promise<IAIExtractionResult>;
+  extractInvoiceData(fileId: string, context?: IExtractionContext): Promise<IAIExtractionResult>;
+}
+
+interface IChatMessage {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+/**
+ * Thrown when a model's output still fails validation after every repair attempt.
+ * Retrying the same document will not help, so the extraction job fails right away.
+ */
+export class ExtractionValidationError extends Error {
+  constructor(message: string, public readonly details: string[]) {
+    super(message);
+    this.name = 'ExtractionValidationError';
+  }
 }
 
 // Base prompt for document data extraction
@@ -19,154 +55,316 @@ Extract document data from the following text and return a valid JSON object wit
 
 {
   "vendor": {
-    "name": "string (company/vendor name, or 'Unknown' if not found)",
+    "name": "string (company/vendor name)",
     "address": "string (optional)",
     "taxId": "string (optional)"
   },
   "invoice": {
-    "number": "string (invoice/document number, or 'N/A' if not found)",
-    "date": "string in YYYY-MM-DD format (document date, or current date if not found)",
+    "number": "string (invoice/document number)",
+    "date": "string in YYYY-MM-DD format (document date)",
     "currency": "string (optional, default USD)",
-    "subtotal": number (optional),
-    "taxPercent": number (optional),
+    "subtotal": number (optional, sum of the line totals),
+    "taxPercent": number (optional, the tax rate when only one applies),
     "total": number (optional),
     "poNumber": "string (optional)",
     "poDate": "string in YYYY-MM-DD format (optional)",
     "lineItems": [
       {
+        "code": "string (optional, item number or SKU as printed)",
         "description": "string (required)",
         "unitPrice": number (required),
         "quantity": number (required),
-        "total": number (required)"
+        "unit": "string (optional, unit of measure as printed, e.g. pcs, h, kg)",
+        "discount": number (optional, discount in percent),
+        "taxPercent": number (optional, tax rate of this line),
+        "total": number (required, net line amount after discount, before tax)
+      }
+    ],
+    "charges": [
+      {
+        "type": "shipping or other",
+        "description": "string (optional, as printed)",
+        "amount": number (net amount, negative for allowances),
+        "taxPercent": number (optional)
+      }
+    ],
+    "taxBreakdown": [
+      {
+        "taxPercent": number,
+        "taxableAmount": number,
+        "taxAmount": number
       }
     ]
-  }
+  },
+  "provenance": [
+    {
+      "path": "string (field path, e.g. vendor.name, invoice.total, invoice.lineItems.0.unitPrice)",
+      "confidence": number (0 to 1, how sure you are the value is correct),
+      "source": "string (short exact quote from the document the value was read from)",
+      "page": number (page number from the [Page N] markers)
+    }
+  ]
 }
 
 Rules:
 1. This can be any type of document (invoice, receipt, bill, contract, etc.)
-2. Extract any visible line items with their descriptions, unit prices, quantities, and totals
-3. If dates are in different formats, convert them to YYYY-MM-DD
-4. If dates are not found, use today's date: 2024-01-01
+2. Extract any visible line items in the order they are printed, with their item codes, descriptions, unit prices, quantities, units, and totals
+3. When the document lists more than one tax rate (e.g. 7% and 19%), give each line its taxPercent and copy the tax summary per rate into taxBreakdown. Shipping, freight, packaging and similar fees that are not line items go into charges
+4. If dates are in different formats, convert them to YYYY-MM-DD
 5. Extract numeric values without currency symbols or commas
-6. If vendor name is not found, use 'Unknown Vendor'
-7. If document number is not found, use 'DOC-' + random 4-digit number
-8. Always provide defaults for required fields rather than leaving them null
-9. Ensure the JSON is valid and parseable
-10. Only return the JSON object, no additional text or explanations
+6. Only use values that appear in the document. If a value is not present, use null; never invent names, numbers or dates
+7. Add one provenance entry for every value you extract. Use low confidence for values that are unclear, partially legible or inferred
+8. Ensure the JSON is valid and parseable
+9. Only return the JSON object, no additional text or explanations
+`;
+
+// Full prompt for one document, with the hints for its vendor before the text
+const buildExtractionPrompt = (documentText: string, hints?: string): string => {
+  return `${EXTRACTION_PROMPT}${hints ? `\n${hints}\n` : ''}\nDocument text:\n${documentText}`;
+};
+
+// Follow-up message asking the model to correct a reply that failed validation
+const buildRepairPrompt = (errors: string[]): string => `
+Your previous reply could not be accepted because of these problems:
+${errors.map(error => `- ${error}`).join('\n')}
 
-Document text:
+Return the corrected JSON object with the same structure. Keep using only values from the document:
+if a required value really does not appear in it, leave it null rather than guessing.
+Only return the JSON object, no additional text or explanations.
 `;
 
-class GeminiAIService implements IAIService {
-  private genAI: GoogleGenerativeAI;
-  private model: any;
+// Number of times a model is asked to fix output that failed validation
+const getMaxRepairAttempts = (): number => parseInt(process.env.EXTRACTION_REPAIR_ATTEMPTS || '2', 10);
 
-  constructor() {
-    const apiKey = process.env.GEMINI_API_KEY;
-    if (!apiKey) {
-      throw new Error('GEMINI_API_KEY environment variable is not set');
-    }
-    
-    this.genAI = new GoogleGenerativeAI(apiKey);
-    this.model = this.genAI.getGenerativeModel({ model: 'gemini-1.5-flash' });
+// Attachment names used by ZUGFeRD 1.x/2.x, Factur-X and XRechnung hybrid PDFs
+const E_INVOICE_ATTACHMENTS = ['factur-x.xml', 'zugferd-invoice.xml', 'xrechnung.xml'];
+
+// Locate the e-invoice XML: the file itself for XML uploads, or the attachment of a hybrid PDF
+async function findEInvoiceXml(fileId: string): Promise<IPdfAttachment | undefined> {
+  const storageService = getStorageService();
+  const buffer = await storageService.download(fileId);
+
+  if (!isPdf(buffer)) {
+    const fileInfo = await storageService.getFileInfo(fileId);
+    return getXmlSyntaxError(buffer) ? undefined : { filename: fileInfo.fileName, content: buffer };
   }
 
-  async extractInvoiceData(fileId: string): Promise<IAIExtractionResult> {
-    try {
-      // Download and parse PDF
-      const pdfText = await this.extractTextFromPDF(fileId);
-      
-      // Create prompt with PDF text
-      const prompt = EXTRACTION_PROMPT + pdfText;
-
-      // Generate response
-      const result = await this.model.generateContent(prompt);
-      const response = await result.response;
-      const extractedText = response.text();
-
-      // Parse JSON response
-      return this.parseAIResponse(extractedText);
-    } catch (error) {
-      console.error('Gemini extraction error:', error);
-      throw new Error(`Gemini AI extraction failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  const attachments = await getPdfAttachments(buffer);
+  return attachments.find(file => E_INVOICE_ATTACHMENTS.includes(file.filename.toLowerCase()));
+}
+
+/**
+ * Read an XML e-invoice, or the one embedded in a hybrid PDF. Returns undefined when there
+ * is none or its XML does not hold a complete invoice, so a model can take over.
+ */
+async function extractEInvoice(fileId: string): Promise<IAIExtractionResult | undefined> {
+  const xmlFile = await findEInvoiceXml(fileId);
+  if (!xmlFile) {
+    return undefined;
+  }
+
+  const parsed = parseEInvoice(xmlFile.content, xmlFile.filename);
+  if (!parsed) {
+    console.warn(`${xmlFile.filename} in file ${fileId} is not a CII or UBL invoice`);
+    return undefined;
+  }
+
+  const result = validateExtractionResult({ vendor: parsed.document.vendor, invoice: parsed.document.invoice });
+  if (!result.value) {
+    console.warn(`${xmlFile.filename} in file ${fileId} is incomplete:`, result.errors);
+    return undefined;
+  }
+
+  return { ...result.value, provenance: parsed.provenance, source: 'e-invoice' };
+}
+
+// Limit on the stored document text so very long PDFs cannot bloat the invoice document
+const MAX_DOCUMENT_TEXT_LENGTH = 200000;
+
+const isPdf = (buffer: Buffer): boolean => buffer.subarray(0, 1024).includes('%PDF-');
+
+// Download the stored PDF and return its plain text, overall and per page
+async function extractTextFromPDF(fileId: string): Promise<IPdfText> {
+  const storageService = getStorageService();
+  return parsePdfText(await storageService.download(fileId));
+}
+
+async function parsePdfText(pdfBuffer: Buffer): Promise<IPdfText> {
+  const pages: string[] = [];
+
+  // Same text layout as pdf-parse's default renderer, but also collected page by page
+  const renderPage = async (pageData: any): Promise<string> => {
+    const textContent = await pageData.getTextContent({ normalizeWhitespace: false, disableCombineTextItems: false });
+    let lastY: number | undefined;
+    let text = '';
+    for (const item of textContent.items) {
+      text += lastY === undefined || lastY === item.transform[5] ? item.str : `\n${item.str}`;
+      lastY = item.transform[5];
     }
+    pages.push(text);
+    return text;
+  };
+
+  const pdfData = await pdfParse(pdfBuffer, { pagerender: renderPage });
+  return { text: pdfData.text, pages };
+}
+
+/**
+ * Per-page text of a stored document for the search index, shortened to a fixed budget.
+ * Files that are not PDFs, such as XML e-invoices, have no pages.
+ */
+export async function extractDocumentText(fileId: string): Promise<string[]> {
+  const buffer = await getStorageService().download(fileId);
+  if (!isPdf(buffer)) {
+    return [];
   }
 
-  private async extractTextFromPDF(fileId: string): Promise<string> {
-    const storageService = getStorageService();
-    const pdfBuffer = await storageService.download(fileId);
-    const pdfData = await pdfParse(pdfBuffer);
-    return pdfData.text;
+  const { pages } = await parsePdfText(buffer);
+  return limitDocumentText(pages);
+}
+
+const limitDocumentText = (pages: string[]): string[] => {
+  let remaining = MAX_DOCUMENT_TEXT_LENGTH;
+  return pages.map(page => {
+    const text = page.slice(0, Math.max(remaining, 0));
+    remaining -= text.length;
+    return text;
+  });
+};
+
+// Label each page so models can report where a value was found
+const withPageMarkers = (pdfText: IPdfText): string => {
+  if (pdfText.pages.length === 0) {
+    return pdfText.text;
   }
+  return pdfText.pages.map((page, index) => `[Page ${index + 1}]\n${page}`).join('\n\n');
+};
 
-  private parseAIResponse(response: string): IAIExtractionResult {
-    try {
-      // Clean the response - remove markdown code blocks if present
-      const cleanResponse = response.replace(/```json\n?|\n?```/g, '').trim();
-      
-      const parsed = JSON.parse(cleanResponse);
-      
-      // Ensure basic structure exists
-      if (!parsed.vendor) {
-        parsed.vendor = {};
-      }
-      if (!parsed.invoice) {
-        parsed.invoice = {};
-      }
+// Parse a model's JSON reply and validate it against the invoice rules
+function parseAIResponse(response: string): { value?: IAIExtractionResult; errors: string[] } {
+  // Clean the response - remove markdown code blocks and any text around the JSON object
+  const cleanResponse = response.replace(/```json\n?|\n?```/g, '').trim();
+  const start = cleanResponse.indexOf('{');
+  const end = cleanResponse.lastIndexOf('}');
 
-      // Provide defaults for required fields if missing or null
-      if (!parsed.vendor.name || parsed.vendor.name === null) {
-        parsed.vendor.name = 'Unknown Vendor';
-      }
-      if (!parsed.invoice.number || parsed.invoice.number === null) {
-        parsed.invoice.number = `DOC-${Math.floor(1000 + Math.random() * 9000)}`;
-      }
-      if (!parsed.invoice.date || parsed.invoice.date === null) {
-        parsed.invoice.date = new Date().toISOString().split('T')[0]; // Current date in YYYY-MM-DD format
-      }
-      
-      // Ensure optional fields have reasonable defaults
-      if (!parsed.invoice.currency) {
-        parsed.invoice.currency = 'USD';
-      }
+  if (start < 0 || end < start) {
+    return { errors: ['Reply does not contain a JSON object'] };
+  }
+
+  let parsed: any;
+  try {
+    parsed = JSON.parse(cleanResponse.slice(start, end + 1));
+  } catch (error) {
+    return { errors: [`Reply is not valid JSON: ${error instanceof Error ? error.message : 'parse error'}`] };
+  }
+
+  const result = validateExtractionResult(parsed);
+  if (!result.value) {
+    return result;
+  }
+
+  return {
+    value: { ...result.value, provenance: validateProvenance(parsed?.provenance) },
+    errors: []
+  };
+}
+
+/**
+ * Shared extraction flow for chat-style LLMs: prompt with the PDF text, validate the
+ * reply and, when it is invalid, send the validation errors back for a bounded number
+ * of repair rounds before giving up.
+ */
+abstract class LLMAIService implements IAIService {
+  protected abstract readonly providerName: string;
+
+  protected abstract generate(messages: IChatMessage[]): Promise<string>;
 
-      // Ensure lineItems is an array
-      if (!Array.isArray(parsed.invoice.lineItems)) {
-        parsed.invoice.lineItems = [];
+  async extractInvoiceData(fileId: string, context?: IExtractionContext): Promise<IAIExtractionResult> {
+    // Download and parse PDF
+    const pdfText = await extractTextFromPDF(fileId);
+    const hints = await this.getPromptHints(pdfText, context);
+
+    // Create prompt with PDF text
+    const messages: IChatMessage[] = [{ role: 'user', content: buildExtractionPrompt(withPageMarkers(pdfText), hints) }];
+    const maxRepairAttempts = getMaxRepairAttempts();
+    let errors: string[] = [];
+
+    for (let attempt = 0; attempt <= maxRepairAttempts; attempt++) {
+      const extractedText = await this.generateResponse(messages);
+      const result = parseAIResponse(extractedText);
+
+      if (result.value) {
+        return { ...result.value, pages: limitDocumentText(pdfText.pages) };
       }
 
-      return parsed as IAIExtractionResult;
+      errors = result.errors;
+      console.warn(`${this.providerName} output failed validation (attempt ${attempt + 1}):`, errors);
+      messages.push(
+        { role: 'assistant', content: extractedText },
+        { role: 'user', content: buildRepairPrompt(errors) }
+      );
+    }
+
+    throw new ExtractionValidationError(
+      `${this.providerName} output failed validation after ${maxRepairAttempts} repair attempt(s)`,
+      errors
+    );
+  }
+
+  // Hints are an improvement, not a requirement: extraction goes ahead without them
+  private async getPromptHints(pdfText: IPdfText, context?: IExtractionContext): Promise<string | undefined> {
+    try {
+      return await context?.getPromptHints?.(pdfText.text);
+    } catch (error) {
+      console.warn(`${this.providerName} prompt hints unavailable:`, error instanceof Error ? error.message : error);
+      return undefined;
+    }
+  }
+
+  private async generateResponse(messages: IChatMessage[]): Promise<string> {
+    try {
+      return await this.generate(messages);
     } catch (error) {
-      console.error('Failed to parse AI response:', response);
-      
-      // If parsing fails completely, return a safe default structure
-      return {
-        vendor: {
-          name: 'Unknown Vendor',
-          address: undefined,
-          taxId: undefined
-        },
-        invoice: {
-          number: `DOC-${Math.floor(1000 + Math.random() * 9000)}`,
-          date: new Date().toISOString().split('T')[0],
-          currency: 'USD',
-          subtotal: undefined,
-          taxPercent: undefined,
-          total: undefined,
-          poNumber: undefined,
-          poDate: undefined,
-          lineItems: []
-        }
-      };
+      console.error(`${this.providerName} extraction error:`, error);
+      throw new Error(`${this.providerName} extraction failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
 }
 
-class GroqAIService implements IAIService {
+class GeminiAIService extends LLMAIService {
+  protected readonly providerName = 'Gemini AI';
+  private genAI: GoogleGenerativeAI;
+  private model: any;
+
+  constructor() {
+    super();
+    const apiKey = process.env.GEMINI_API_KEY;
+    if (!apiKey) {
+      throw new Error('GEMINI_API_KEY environment variable is not set');
+    }
+    
+    this.genAI = new GoogleGenerativeAI(apiKey);
+    this.model = this.genAI.getGenerativeModel({ model: 'gemini-1.5-flash' });
+  }
+
+  protected async generate(messages: IChatMessage[]): Promise<string> {
+    const result = await this.model.generateContent({
+      contents: messages.map(message => ({
+        role: message.role === 'assistant' ? 'model' : 'user',
+        parts: [{ text: message.content }]
+      }))
+    });
+    const response = await result.response;
+    return response.text();
+  }
+}
+
+class GroqAIService extends LLMAIService {
+  protected readonly providerName = 'Groq AI';
   private groq: Groq;
 
   constructor() {
+    super();
     const apiKey = process.env.GROQ_API_KEY;
     if (!apiKey) {
       throw new Error('GROQ_API_KEY environment variable is not set');
@@ -175,121 +373,232 @@ class GroqAIService implements IAIService {
     this.groq = new Groq({ apiKey });
   }
 
+  protected async generate(messages: IChatMessage[]): Promise<string> {
+    const chatCompletion = await this.groq.chat.completions.create({
+      messages,
+      model: 'llama-3.1-8b-instant', // or 'mixtral-8x7b-32768'
+      temperature: 0.1, // Low temperature for consistent extraction
+      max_tokens: 2048,
+    });
+
+    const extractedText = chatCompletion.choices[0]?.message?.content;
+    
+    if (!extractedText) {
+      throw new Error('No response received from Groq');
+    }
+
+    return extractedText;
+  }
+}
+
+/**
+ * Rule-based extractor that reads the PDF text with regular expressions.
+ * Needs no API key or network access, so it works offline and in tests.
+ */
+class HeuristicAIService implements IAIService {
   async extractInvoiceData(fileId: string): Promise<IAIExtractionResult> {
+    let pdfText: IPdfText;
     try {
-      // Download and parse PDF
-      const pdfText = await this.extractTextFromPDF(fileId);
-      
-      // Create prompt with PDF text
-      const prompt = EXTRACTION_PROMPT + pdfText;
-
-      // Generate response
-      const chatCompletion = await this.groq.chat.completions.create({
-        messages: [
-          {
-            role: 'user',
-            content: prompt,
-          },
-        ],
-        model: 'llama-3.1-8b-instant', // or 'mixtral-8x7b-32768'
+      pdfText = await extractTextFromPDF(fileId);
+    } catch (error) {
+      console.error('Heuristic extraction error:', error);
+      throw new Error(`Heuristic extraction failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+
+    const parsed = parseInvoiceText(pdfText.text, pdfText.pages);
+    const result = validateExtractionResult(parsed);
+    if (!result.value) {
+      throw new ExtractionValidationError('Heuristic extraction could not find all required fields', result.errors);
+    }
+
+    return { ...result.value, provenance: parsed.provenance, pages: limitDocumentText(pdfText.pages) };
+  }
+}
+
+/**
+ * Talks to any server implementing the OpenAI chat completions API
+ * (OpenAI, Ollama, llama.cpp, vLLM, LM Studio, ...)
+ */
+class OpenAICompatibleAIService extends LLMAIService {
+  protected readonly providerName = 'OpenAI-compatible';
+  private baseUrl: string;
+  private apiKey?: string;
+  private model?: string;
+  private timeoutMs: number;
+
+  constructor(model?: string) {
+    super();
+    const baseUrl = process.env.OPENAI_BASE_URL;
+    if (!baseUrl) {
+      throw new Error('OPENAI_BASE_URL environment variable is not set');
+    }
+
+    this.baseUrl = baseUrl.replace(/\/+$/, '');
+    this.apiKey = process.env.OPENAI_API_KEY;
+    this.model = model || process.env.OPENAI_MODEL;
+    this.timeoutMs = parseInt(process.env.OPENAI_TIMEOUT_MS || '120000', 10);
+  }
+
+  protected async generate(messages: IChatMessage[]): Promise<string> {
+    if (!this.model) {
+      throw new Error('No model given and OPENAI_MODEL environment variable is not set');
+    }
+
+    const response = await fetch(`${this.baseUrl}/chat/completions`, {
+      method: 'POST',
+      headers: this.getHeaders(),
+      body: JSON.stringify({
+        model: this.model,
+        messages,
         temperature: 0.1, // Low temperature for consistent extraction
         max_tokens: 2048,
-      });
+      }),
+      signal: AbortSignal.timeout(this.timeoutMs)
+    });
 
-      const extractedText = chatCompletion.choices[0]?.message?.content;
-      
-      if (!extractedText) {
-        throw new Error('No response received from Groq');
-      }
+    if (!response.ok) {
+      throw new Error(`Model server responded with ${response.status}: ${await response.text()}`);
+    }
 
-      // Parse JSON response
-      return this.parseAIResponse(extractedText);
-    } catch (error) {
-      console.error('Groq extraction error:', error);
-      throw new Error(`Groq AI extraction failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    const completion = await response.json() as { choices?: Array<{ message?: { content?: string } }> };
+    const extractedText = completion.choices?.[0]?.message?.content;
+
+    if (!extractedText) {
+      throw new Error('No response received from model server');
     }
+
+    return extractedText;
   }
 
-  private async extractTextFromPDF(fileId: string): Promise<string> {
-    const storageService = getStorageService();
-    const pdfBuffer = await storageService.download(fileId);
-    const pdfData = await pdfParse(pdfBuffer);
-    return pdfData.text;
+  /**
+   * List the model names the server offers via GET /models
+   */
+  async listModels(): Promise<string[]> {
+    const response = await fetch(`${this.baseUrl}/models`, {
+      headers: this.getHeaders(),
+      signal: AbortSignal.timeout(5000)
+    });
+
+    if (!response.ok) {
+      throw new Error(`Model server responded with ${response.status}`);
+    }
+
+    const body = await response.json() as { data?: Array<{ id?: string }> };
+    return (body.data || [])
+      .map(model => model.id)
+      .filter((id): id is string => !!id);
   }
 
-  private parseAIResponse(response: string): IAIExtractionResult {
-    try {
-      // Clean the response - remove markdown code blocks if present
-      const cleanResponse = response.replace(/```json\n?|\n?```/g, '').trim();
-      
-      const parsed = JSON.parse(cleanResponse);
-      
-      // Ensure basic structure exists
-      if (!parsed.vendor) {
-        parsed.vendor = {};
-      }
-      if (!parsed.invoice) {
-        parsed.invoice = {};
-      }
+  private getHeaders(): Record<string, string> {
+    return {
+      'Content-Type': 'application/json',
+      ...(this.apiKey ? { Authorization: `Bearer ${this.apiKey}` } : {})
+    };
+  }
+}
 
-      // Provide defaults for required fields if missing or null
-      if (!parsed.vendor.name || parsed.vendor.name === null) {
-        parsed.vendor.name = 'Unknown Vendor';
-      }
-      if (!parsed.invoice.number || parsed.invoice.number === null) {
-        parsed.invoice.number = `DOC-${Math.floor(1000 + Math.random() * 9000)}`;
-      }
-      if (!parsed.invoice.date || parsed.invoice.date === null) {
-        parsed.invoice.date = new Date().toISOString().split('T')[0]; // Current date in YYYY-MM-DD format
-      }
-      
-      // Ensure optional fields have reasonable defaults
-      if (!parsed.invoice.currency) {
-        parsed.invoice.currency = 'USD';
-      }
+/**
+ * Uses the structured invoice of XML e-invoices and ZUGFeRD / Factur-X PDFs when there
+ * is one and only hands the document to the selected model otherwise
+ */
+class EmbeddedInvoiceAIService implements IAIService {
+  constructor(private readonly fallback: IAIService) {}
 
-      // Ensure lineItems is an array
-      if (!Array.isArray(parsed.invoice.lineItems)) {
-        parsed.invoice.lineItems = [];
+  async extractInvoiceData(fileId: string, context?: IExtractionContext): Promise<IAIExtractionResult> {
+    try {
+      const eInvoice = await extractEInvoice(fileId);
+      if (eInvoice) {
+        // Hybrid PDFs still carry printed text worth indexing for search
+        const pages = await extractDocumentText(fileId).catch(() => []);
+        return { ...eInvoice, pages };
       }
-
-      return parsed as IAIExtractionResult;
     } catch (error) {
-      console.error('Failed to parse AI response:', response);
-      
-      // If parsing fails completely, return a safe default structure
-      return {
-        vendor: {
-          name: 'Unknown Vendor',
-          address: undefined,
-          taxId: undefined
-        },
-        invoice: {
-          number: `DOC-${Math.floor(1000 + Math.random() * 9000)}`,
-          date: new Date().toISOString().split('T')[0],
-          currency: 'USD',
-          subtotal: undefined,
-          taxPercent: undefined,
-          total: undefined,
-          poNumber: undefined,
-          poDate: undefined,
-          lineItems: []
-        }
-      };
+      console.warn(`Could not read e-invoice from file ${fileId}:`, error instanceof Error ? error.message : error);
     }
+
+    return this.fallback.extractInvoiceData(fileId, context);
   }
 }
 
 // Factory function to get the appropriate AI service
-export function getAIService(model: 'gemini' | 'groq'): IAIService {
+export function getAIService(model: ExtractionModel): IAIService {
+  return new EmbeddedInvoiceAIService(getModelService(model));
+}
+
+function getModelService(model: ExtractionModel): IAIService {
+  if (model === 'openai' || model.startsWith('openai:')) {
+    return new OpenAICompatibleAIService(model.slice('openai:'.length) || undefined);
+  }
+
   switch (model) {
     case 'gemini':
       return new GeminiAIService();
     case 'groq':
       return new GroqAIService();
+    case 'heuristic':
+      return new HeuristicAIService();
     default:
       throw new Error(`Unsupported AI model: ${model}`);
   }
 }
 
-export { GeminiAIService, GroqAIService };
+/**
+ * List the extraction models this server can use. Models served by the
+ * OpenAI-compatible endpoint are discovered from the server itself.
+ */
+export async function getExtractionModels(): Promise<IExtractionModelInfo[]> {
+  const models: IExtractionModelInfo[] = [
+    {
+      id: 'gemini',
+      name: 'Google Gemini',
+      provider: 'gemini',
+      description: 'Google\'s powerful multimodal AI with excellent document understanding',
+      available: !!process.env.GEMINI_API_KEY
+    },
+    {
+      id: 'groq',
+      name: 'Groq',
+      provider: 'groq',
+      description: 'Ultra-fast inference with Groq\'s specialized hardware',
+      available: !!process.env.GROQ_API_KEY
+    }
+  ];
+
+  if (process.env.OPENAI_BASE_URL) {
+    const configured = process.env.OPENAI_MODEL;
+    let served: string[] = [];
+    let reachable = true;
+
+    try {
+      served = await new OpenAICompatibleAIService().listModels();
+    } catch (error) {
+      console.warn('Could not list models from OpenAI-compatible endpoint:', error instanceof Error ? error.message : error);
+      reachable = false;
+    }
+
+    // Keep the configured default first even if the server does not list it
+    const names = configured ? [configured, ...served.filter(name => name !== configured)] : served;
+
+    for (const name of names) {
+      models.push({
+        id: `openai:${name}`,
+        name,
+        provider: 'openai',
+        description: name === configured ? 'Default model of the OpenAI-compatible model server' : 'Served by the OpenAI-compatible model server',
+        available: reachable
+      });
+    }
+  }
+
+  models.push({
+    id: 'heuristic',
+    name: 'Offline rules',
+    provider: 'heuristic',
+    description: 'Pattern-based extraction that runs on the server without any API key; best for clean, text-based PDFs',
+    available: true
+  });
+
+  return models;
+}
+
+export { GeminiAIService, GroqAIService, HeuristicAIService, OpenAICompatibleAIService, EmbeddedInvoiceAIService };
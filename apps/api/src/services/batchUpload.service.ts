@@ -0,0 +1,373 @@
+import fs from 'fs';
+import path from 'path';
+import { Readable } from 'stream';
+import UploadBatch from '../models/UploadBatch';
+import ExtractionJob from '../models/ExtractionJob';
+import User from '../models/User';
+import { AuthenticatedRequest } from '../middleware/auth.middleware';
+import { MAX_FILE_SIZE, MAX_BATCH_FILES } from '../middleware/upload.middleware';
+import { getStorageService } from './fileStorage.service';
+import { getExtractionQueue, getQueueConfig } from './extractionQueue.service';
+import { getInvoiceImportService, EInvoiceImportError } from './invoiceImport.service';
+import {
+  ExtractionJobStatus,
+  ExtractionModel,
+  IBatchUploadFile,
+  IBatchUploadResponse,
+  IBatchUploadResult,
+  IUploadBatch,
+  IUploadResponse
+} from '../types/invoice.types';
+import { getBatchMimeType, IBatchFile, readUploadFiles } from '../utils/batchUpload';
+
+type RequestUser = NonNullable<AuthenticatedRequest['user']>;
+
+// Files a worker imports from a batch before it looks for waiting extractions again
+const FILES_PER_TURN = 5;
+
+// The parts of an upload response a batch reports per file
+const pickResult = ({ invoiceId, fileId, format, duplicates }: IUploadResponse): Partial<IBatchUploadResult> => ({
+  invoiceId,
+  fileId,
+  ...(format ? { format } : {}),
+  ...(duplicates ? { duplicates } : {})
+});
+
+/**
+ * Shape a stored batch for API responses, with the status of the extractions it queued
+ */
+export const toBatchResponse = (
+  batch: IUploadBatch,
+  extractionStatuses: Map<string, ExtractionJobStatus> = new Map()
+): IBatchUploadResponse => {
+  const files = batch.files.map(({ fileName, status, results }) => ({
+    fileName,
+    status,
+    results: results.map(result => {
+      const extractionStatus = result.jobId ? extractionStatuses.get(result.jobId) : undefined;
+      return extractionStatus ? { ...result, extractionStatus } : result;
+    })
+  }));
+  const results = files.flatMap(file => file.results);
+  const created = results.filter(result => result.status === 'created').length;
+
+  return {
+    batchId: String(batch._id),
+    status: batch.status,
+    files,
+    created,
+    failed: results.length - created,
+    queued: results.filter(result => result.jobId).length,
+    ...(batch.error ? { error: batch.error } : {}),
+    createdAt: batch.createdAt,
+    ...(batch.completedAt ? { completedAt: batch.completedAt } : {})
+  };
+};
+
+class BatchUploadService {
+  /**
+   * Store the uploaded files and queue the batch for the worker. The files are streamed
+   * from their temporary copies on disk, so a batch is never held in memory.
+   */
+  async create(user: RequestUser, uploads: Express.Multer.File[], model?: ExtractionModel): Promise<IUploadBatch> {
+    const storageService = getStorageService();
+    const files: IBatchUploadFile[] = [];
+
+    try {
+      for (const upload of uploads) {
+        const stored = await storageService.upload(fs.createReadStream(upload.path), upload.originalname, upload.mimetype, user.id);
+        files.push({ fileName: upload.originalname, fileId: stored.fileId, status: 'queued', results: [] });
+      }
+
+      const batch = await UploadBatch.create({
+        owner: user.id,
+        aiModel: model,
+        status: 'queued',
+        files,
+        attempts: 0,
+        maxAttempts: getQueueConfig().maxAttempts,
+        createdAt: new Date().toISOString()
+      });
+
+      return batch.toObject() as unknown as IUploadBatch;
+    } catch (error) {
+      await this.discardFiles(files);
+      throw error;
+    }
+  }
+
+  /**
+   * The report of a batch the filter allows access to, or null
+   */
+  async getReport(batchId: string, filter: Record<string, string>): Promise<IBatchUploadResponse | null> {
+    const batch = await UploadBatch.findOne({ _id: batchId, ...filter }).lean() as unknown as IUploadBatch | null;
+    if (!batch) {
+      return null;
+    }
+
+    const jobIds = batch.files.flatMap(file => file.results.flatMap(result => result.jobId ? [result.jobId] : []));
+    const jobs = jobIds.length
+      ? await ExtractionJob.find({ _id: { $in: jobIds } }).select('status').lean()
+      : [];
+
+    return toBatchResponse(batch, new Map(jobs.map(job => [String(job._id), job.status])));
+  }
+
+  /**
+   * Atomically claim the oldest queued batch, or one whose previous worker let its lease
+   * expire while it still has attempts left
+   */
+  async claimNext(workerId: string): Promise<IUploadBatch | null> {
+    const now = new Date();
+    await this.failAbandoned(now);
+
+    const batch = await UploadBatch.findOneAndUpdate(
+      {
+        $or: [
+          { status: 'queued' },
+          { status: 'processing', leaseExpiresAt: { $lt: now }, $expr: { $lt: ['$attempts', '$maxAttempts'] } }
+        ]
+      },
+      {
+        $set: {
+          status: 'processing',
+          lockedBy: workerId,
+          leaseExpiresAt: new Date(now.getTime() + getQueueConfig().leaseMs),
+          updatedAt: now.toISOString()
+        },
+        $inc: { attempts: 1 }
+      },
+      {
+        sort: { createdAt: 1 },
+        new: true,
+        lean: true
+      }
+    );
+
+    return batch as unknown as IUploadBatch | null;
+  }
+
+  /**
+   * Extend the lease of a batch the worker is still processing
+   */
+  async renewLease(batchId: string, workerId: string): Promise<boolean> {
+    return this.write(batchId, workerId, {});
+  }
+
+  /**
+   * Import the next few files of a batch one at a time, recording the outcome of each as it
+   * goes, and hand the batch back to the queue while files are left. Uploads are streamed
+   * from storage; files already reported, by an earlier turn or a worker that stopped, are
+   * skipped.
+   */
+  async process(batch: IUploadBatch, workerId: string): Promise<void> {
+    const batchId = String(batch._id);
+    const owner = await User.findById(batch.owner).lean();
+    if (!owner) {
+      await this.fail(batch, workerId, 'The user who uploaded the batch no longer exists', { retryable: false });
+      return;
+    }
+
+    const user: RequestUser = { id: batch.owner, email: owner.email, role: owner.role };
+    const storageService = getStorageService();
+    let reported = batch.files.reduce((count, file) => count + file.results.length, 0);
+    let imported = 0;
+
+    for (let index = 0; index < batch.files.length; index++) {
+      const file = batch.files[index];
+      if (file.status === 'done') {
+        continue;
+      }
+
+      const { fileId } = file;
+      if (fileId) {
+        const seen = new Set(file.results.map(result => result.fileName));
+        const upload = {
+          fileName: file.fileName,
+          size: (await storageService.getFileInfo(fileId)).fileSize,
+          read: (start: number): Readable => storageService.downloadStream(fileId, start)
+        };
+
+        for await (const entry of readUploadFiles(upload, MAX_FILE_SIZE, fileName => seen.has(fileName))) {
+          const result = ++reported > MAX_BATCH_FILES
+            ? this.toResult(entry, `Too many files in one batch. Upload at most ${MAX_BATCH_FILES} at a time`)
+            : await this.importFile(user, entry, batch.aiModel);
+          if (!(await this.write(batchId, workerId, { $push: { [`files.${index}.results`]: result } }))) {
+            console.warn(`Upload batch ${batchId} lease was lost while processing`);
+            return;
+          }
+          if (++imported === FILES_PER_TURN) {
+            await this.release(batchId, workerId);
+            return;
+          }
+        }
+
+        await storageService.delete(fileId).catch(error => {
+          console.warn(`Could not delete uploaded file ${fileId}:`, error instanceof Error ? error.message : error);
+        });
+      }
+
+      if (!(await this.write(batchId, workerId, {
+        $set: { [`files.${index}.status`]: 'done' },
+        $unset: { [`files.${index}.fileId`]: '' }
+      }))) {
+        return;
+      }
+    }
+
+    const now = new Date().toISOString();
+    await UploadBatch.updateOne(
+      { _id: batchId, status: 'processing', lockedBy: workerId },
+      {
+        $set: { status: 'completed', completedAt: now, updatedAt: now },
+        $unset: { lockedBy: '', leaseExpiresAt: '', error: '' }
+      }
+    );
+  }
+
+  /**
+   * Record a failed attempt; the batch is queued again until attempts run out, then its
+   * remaining uploaded files are deleted
+   */
+  async fail(batch: IUploadBatch, workerId: string, error: string, options: { retryable?: boolean } = {}): Promise<void> {
+    const now = new Date().toISOString();
+    const willRetry = options.retryable !== false && batch.attempts < batch.maxAttempts;
+
+    const failed = await UploadBatch.findOneAndUpdate(
+      { _id: batch._id, status: 'processing', lockedBy: workerId },
+      {
+        $set: {
+          status: willRetry ? 'queued' : 'failed',
+          error,
+          updatedAt: now,
+          ...(willRetry ? {} : { completedAt: now })
+        },
+        $unset: { lockedBy: '', leaseExpiresAt: '' }
+      },
+      { new: true, lean: true }
+    ) as unknown as IUploadBatch | null;
+
+    if (failed && !willRetry) {
+      await this.discardFiles(failed.files);
+    }
+  }
+
+  // Queue a batch with files left again; a turn handed back this way does not count as an attempt
+  private async release(batchId: string, workerId: string): Promise<void> {
+    await UploadBatch.updateOne(
+      { _id: batchId, status: 'processing', lockedBy: workerId },
+      {
+        $set: { status: 'queued', updatedAt: new Date().toISOString() },
+        $unset: { lockedBy: '', leaseExpiresAt: '' },
+        $inc: { attempts: -1 }
+      }
+    );
+  }
+
+  // Import one file of a batch; a file that fails is reported instead of ending the batch
+  private async importFile(user: RequestUser, file: IBatchFile, model?: ExtractionModel): Promise<IBatchUploadResult> {
+    if (file.error || !file.type || !file.buffer) {
+      return this.toResult(file, file.error || 'File cannot be imported');
+    }
+
+    const upload = {
+      buffer: file.buffer,
+      originalname: path.posix.basename(file.fileName),
+      mimetype: getBatchMimeType(file.type)
+    };
+    const result = { fileName: file.fileName, ...(file.archive ? { archive: file.archive } : {}) };
+
+    try {
+      if (file.type === 'xml') {
+        const imported = await getInvoiceImportService().importEInvoice(user, upload);
+        return { ...result, status: 'created', ...pickResult(imported) };
+      }
+
+      // Extraction reads the text of the document itself
+      const created = await getInvoiceImportService().createDraft(user, upload, { readText: !model });
+      const job = model
+        ? await getExtractionQueue().enqueue({
+          owner: user.id,
+          fileId: created.fileId,
+          aiModel: model,
+          invoiceId: created.invoiceId,
+          invoiceVersion: created.version
+        })
+        : undefined;
+      return { ...result, status: 'created', ...pickResult(created), ...(job ? { jobId: String(job._id) } : {}) };
+    } catch (error) {
+      if (error instanceof EInvoiceImportError) {
+        return { ...this.toResult(file, error.message), ...(error.details ? { details: error.details } : {}) };
+      }
+      console.error(`Batch upload error for ${file.fileName}:`, error);
+      return this.toResult(file, 'Failed to import file');
+    }
+  }
+
+  private toResult(file: IBatchFile, error: string): IBatchUploadResult {
+    return { fileName: file.fileName, ...(file.archive ? { archive: file.archive } : {}), status: 'failed', error };
+  }
+
+  // Write to a batch this worker still holds, extending its lease
+  private async write(batchId: string, workerId: string, update: Record<string, Record<string, unknown>>): Promise<boolean> {
+    const result = await UploadBatch.updateOne(
+      { _id: batchId, status: 'processing', lockedBy: workerId },
+      {
+        ...update,
+        $set: {
+          ...update.$set,
+          leaseExpiresAt: new Date(Date.now() + getQueueConfig().leaseMs),
+          updatedAt: new Date().toISOString()
+        }
+      }
+    );
+
+    return result.modifiedCount > 0;
+  }
+
+  /**
+   * Fail batches whose worker stopped on every attempt instead of handing them on forever
+   */
+  private async failAbandoned(now: Date): Promise<void> {
+    const filter = { status: 'processing', leaseExpiresAt: { $lt: now }, $expr: { $gte: ['$attempts', '$maxAttempts'] } };
+    const abandoned = await UploadBatch.find(filter).lean() as unknown as IUploadBatch[];
+
+    for (const batch of abandoned) {
+      const result = await UploadBatch.updateOne(
+        { _id: batch._id, ...filter },
+        {
+          $set: {
+            status: 'failed',
+            error: 'The worker stopped responding on every attempt',
+            completedAt: now.toISOString(),
+            updatedAt: now.toISOString()
+          },
+          $unset: { lockedBy: '', leaseExpiresAt: '' }
+        }
+      );
+      if (result.modifiedCount > 0) {
+        await this.discardFiles(batch.files);
+      }
+    }
+  }
+
+  // Delete uploaded files that were never processed
+  private async discardFiles(files: IBatchUploadFile[]): Promise<void> {
+    const storageService = getStorageService();
+    await Promise.all(files.map(file => file.fileId
+      ? storageService.delete(file.fileId).catch(() => undefined)
+      : undefined));
+  }
+}
+
+let batchUploadInstance: BatchUploadService | null = null;
+
+// Factory function to get the shared batch upload service
+export function getBatchUploadService(): BatchUploadService {
+  if (!batchUploadInstance) {
+    batchUploadInstance = new BatchUploadService();
+  }
+  return batchUploadInstance;
+}
+
+export { BatchUploadService };
@@ -0,0 +1,107 @@
+import crypto from 'crypto';
+import Invoice from '../models/Invoice';
+import { ownerFilter } from '../utils/access';
+import { AuthenticatedRequest } from '../middleware/auth.middleware';
+import { IInvoice, IVendor, IInvoiceData, IDuplicateMatch, DuplicateMatchReason } from '../types/invoice.types';
+
+type RequestUser = NonNullable<AuthenticatedRequest['user']>;
+
+export interface IDuplicateQuery {
+  contentHash?: string;
+  fingerprint?: string;
+  // The invoice being checked, which always matches itself
+  excludeId?: string;
+}
+
+// Most likely duplicates reported per invoice
+const MAX_DUPLICATES = 5;
+
+/**
+ * Business key of an invoice: vendor, invoice number, total and date. Case, spacing and
+ * punctuation are ignored so the paper and emailed copy of an invoice agree.
+ * Returns undefined when the vendor name or invoice number is missing.
+ */
+export function getInvoiceFingerprint(vendor?: Partial<IVendor>, invoice?: Partial<IInvoiceData>): string | undefined {
+  const vendorKey = (vendor?.name || '').toLowerCase().replace(/[^\p{L}\p{N}]+/gu, '');
+  const numberKey = (invoice?.number || '').toUpperCase().replace(/[^\p{L}\p{N}]+/gu, '');
+  if (!vendorKey || !numberKey) {
+    return undefined;
+  }
+
+  const totalKey = typeof invoice?.total === 'number' ? invoice.total.toFixed(2) : '';
+  const key = [vendorKey, numberKey, totalKey, invoice?.date?.trim() || ''].join('|');
+  return crypto.createHash('sha256').update(key).digest('hex');
+}
+
+class DuplicateDetectionService {
+  /**
+   * Invoices the user can see that share the file content or the business key
+   */
+  async findDuplicates(user: RequestUser, query: IDuplicateQuery): Promise<IDuplicateMatch[]> {
+    const conditions: Record<string, string>[] = [];
+    if (query.contentHash) {
+      conditions.push({ contentHash: query.contentHash });
+    }
+    if (query.fingerprint) {
+      conditions.push({ fingerprint: query.fingerprint });
+    }
+    if (!conditions.length) {
+      return [];
+    }
+
+    const invoices = await Invoice.find({
+      $or: conditions,
+      ...ownerFilter(user),
+      ...(query.excludeId ? { _id: { $ne: query.excludeId } } : {})
+    })
+      .sort({ createdAt: 1 })
+      .limit(MAX_DUPLICATES)
+      .lean() as unknown as IInvoice[];
+
+    return invoices.map(invoice => this.toMatch(invoice, query));
+  }
+
+  /**
+   * Duplicates of a stored invoice, using its saved hashes
+   */
+  async findDuplicatesOf(user: RequestUser, invoice: IInvoice): Promise<IDuplicateMatch[]> {
+    return this.findDuplicates(user, {
+      contentHash: invoice.contentHash,
+      fingerprint: invoice.fingerprint,
+      excludeId: String(invoice._id)
+    });
+  }
+
+  private toMatch(invoice: IInvoice, query: IDuplicateQuery): IDuplicateMatch {
+    const matchedOn: DuplicateMatchReason[] = [];
+    if (query.contentHash && invoice.contentHash === query.contentHash) {
+      matchedOn.push('content');
+    }
+    if (query.fingerprint && invoice.fingerprint === query.fingerprint) {
+      matchedOn.push('fingerprint');
+    }
+
+    return {
+      invoiceId: String(invoice._id),
+      vendorName: invoice.vendor.name,
+      invoiceNumber: invoice.invoice.number,
+      total: invoice.invoice.total,
+      currency: invoice.invoice.currency,
+      status: invoice.status || 'draft',
+      createdAt: invoice.createdAt,
+      matchedOn
+    };
+  }
+}
+
+let duplicateDetectionInstance: DuplicateDetectionService | null = null;
+
+// Factory function to get the shared duplicate detection service
+export function getDuplicateDetectionService(): DuplicateDetectionService {
+  if (!duplicateDetectionInstance) {
+    duplicateDetectionInstance = new DuplicateDetectionService();
+  }
+  return duplicateDetectionInstance;
+}
+
+export { DuplicateDetectionService };
@@ -0,0 +1,387 @@
+import os from 'os';
+import crypto from 'crypto';
+import ExtractionJob from '../models/ExtractionJob';
+import Invoice from '../models/Invoice';
+import database from '../utils/database';
+import { getAIService, ExtractionValidationError } from './ai.service';
+import { getInvoiceFingerprint } from './duplicateDetection.service';
+import { checkInvoiceArithmetic } from '../utils/arithmeticChecks';
+import { normalizeLineItems } from '../utils/lineItems';
+import { getInvoiceVersion, versionFilter } from '../utils/invoiceVersion';
+import { getVendorMatchingService } from './vendorMatching.service';
+import { getExtractionTemplateService } from './extractionTemplate.service';
+import { getInvoiceRevisionService } from './invoiceRevision.service';
+import { getBatchUploadService } from './batchUpload.service';
+import { IExtractionJob, IExtractRequest, IInvoice, IUploadBatch } from '../types/invoice.types';
+
+const MAX_RETRY_DELAY_MS = 5 * 60 * 1000;
+
+// Read lazily so values from .env are available once dotenv has loaded
+export const getQueueConfig = (): { maxAttempts: number; leaseMs: number; retryDelayMs: number; pollIntervalMs: number } => ({
+  maxAttempts: parseInt(process.env.EXTRACTION_MAX_ATTEMPTS || '3', 10),
+  leaseMs: parseInt(process.env.EXTRACTION_LEASE_MS || '120000', 10), // 2 minutes
+  retryDelayMs: parseInt(process.env.EXTRACTION_RETRY_DELAY_MS || '5000', 10),
+  pollIntervalMs: parseInt(process.env.EXTRACTION_POLL_INTERVAL_MS || '2000', 10)
+});
+
+export interface IEnqueueOptions {
+  owner: string;
+  requestedBy?: string;
+  fileId: string;
+  aiModel: IExtractRequest['model'];
+  invoiceId?: string;
+  invoiceVersion?: number;
+}
+
+// Statuses an invoice may be in for extraction results to be written into it
+const EXTRACTABLE_INVOICE_STATUSES = ['draft', 'extracted', 'in_review', null];
+
+class ExtractionQueueService {
+  async enqueue(options: IEnqueueOptions): Promise<IExtractionJob> {
+    const job = await ExtractionJob.create({
+      ...options,
+      status: 'queued',
+      attempts: 0,
+      maxAttempts: getQueueConfig().maxAttempts,
+      runAt: new Date(),
+      createdAt: new Date().toISOString()
+    });
+
+    return job.toObject() as unknown as IExtractionJob;
+  }
+
+  async findForOwner(jobId: string, filter: Record<string, string>): Promise<IExtractionJob | null> {
+    const job = await ExtractionJob.findOne({ _id: jobId, ...filter }).lean();
+    return job as unknown as IExtractionJob | null;
+  }
+
+  /**
+   * Atomically claim the next due job, or a job whose previous worker let its lease expire
+   * while it still has attempts left
+   */
+  async claimNext(workerId: string): Promise<IExtractionJob | null> {
+    const now = new Date();
+    await this.failAbandoned(now);
+
+    const job = await ExtractionJob.findOneAndUpdate(
+      {
+        $or: [
+          { status: 'queued', runAt: { $lte: now } },
+          { status: 'processing', leaseExpiresAt: { $lt: now }, $expr: { $lt: ['$attempts', '$maxAttempts'] } }
+        ]
+      },
+      {
+        $set: {
+          status: 'processing',
+          lockedBy: workerId,
+          leaseExpiresAt: new Date(now.getTime() + getQueueConfig().leaseMs),
+          updatedAt: now.toISOString()
+        },
+        $inc: { attempts: 1 }
+      },
+      {
+        sort: { runAt: 1 },
+        new: true,
+        lean: true
+      }
+    );
+
+    return job as unknown as IExtractionJob | null;
+  }
+
+  /**
+   * Fail jobs whose worker stopped on every attempt, e.g. because the document crashes it,
+   * instead of handing them to the next worker forever
+   */
+  private async failAbandoned(now: Date): Promise<void> {
+    await ExtractionJob.updateMany(
+      { status: 'processing', leaseExpiresAt: { $lt: now }, $expr: { $gte: ['$attempts', '$maxAttempts'] } },
+      {
+        $set: {
+          status: 'failed',
+          error: 'The extraction worker stopped responding on every attempt',
+          completedAt: now.toISOString(),
+          updatedAt: now.toISOString()
+        },
+        $unset: { lockedBy: '', leaseExpiresAt: '' }
+      }
+    );
+  }
+
+  /**
+   * Extend the lease of a job the worker is still processing
+   */
+  async renewLease(jobId: string, workerId: string): Promise<boolean> {
+    const result = await ExtractionJob.updateOne(
+      { _id: jobId, status: 'processing', lockedBy: workerId },
+      { $set: { leaseExpiresAt: new Date(Date.now() + getQueueConfig().leaseMs) } }
+    );
+
+    return result.modifiedCount > 0;
+  }
+
+  async complete(
+    job: IExtractionJob,
+    workerId: string,
+    result: IExtractionJob['result'],
+    processingTime: number,
+    documentText: string[] = []
+  ): Promise<void> {
+    const now = new Date().toISOString();
+
+    // Make sure the lease is still ours before touching the invoice
+    if (!(await this.renewLease(job._id!, workerId))) {
+      console.warn(`Extraction job ${job._id} lease was lost before completion`);
+      return;
+    }
+
+    // Save into the invoice first so pollers see it as soon as the job reports completed
+    const notSaved = job.invoiceId && result
+      ? await this.applyToInvoice(job, result, documentText, now)
+      : undefined;
+
+    // A result that could not be saved fails the job, but is kept for the caller to look at
+    await ExtractionJob.updateOne(
+      { _id: job._id, status: 'processing', lockedBy: workerId },
+      {
+        $set: {
+          status: notSaved ? 'failed' : 'completed',
+          result,
+          processingTime,
+          completedAt: now,
+          updatedAt: now,
+          ...(notSaved ? { error: notSaved } : {})
+        },
+        $unset: { lockedBy: '', leaseExpiresAt: '', errorDetails: '', ...(notSaved ? {} : { error: '' }) }
+      }
+    );
+  }
+
+  /**
+   * Record a failed attempt, scheduling a retry with exponential backoff until attempts run out.
+   * Non-retryable failures (output that could not be repaired) fail the job immediately.
+   */
+  async fail(job: IExtractionJob, workerId: string, error: string, options: { retryable?: boolean; details?: string[] } = {}): Promise<void> {
+    const now = new Date();
+    const willRetry = options.retryable !== false && job.attempts < job.maxAttempts;
+    const delay = Math.min(getQueueConfig().retryDelayMs * Math.pow(2, job.attempts - 1), MAX_RETRY_DELAY_MS);
+
+    await ExtractionJob.updateOne(
+      { _id: job._id, status: 'processing', lockedBy: workerId },
+      {
+        $set: {
+          status: willRetry ? 'queued' : 'failed',
+          runAt: new Date(now.getTime() + (willRetry ? delay : 0)),
+          error,
+          updatedAt: now.toISOString(),
+          ...(options.details ? { errorDetails: options.details } : {}),
+          ...(willRetry ? {} : { completedAt: now.toISOString() })
+        },
+        $unset: { lockedBy: '', leaseExpiresAt: '', ...(options.details ? {} : { errorDetails: '' }) }
+      }
+    );
+  }
+
+  /**
+   * Save the result into the job's invoice, unless the invoice was changed after the job was
+   * queued: edits made while the model was working are kept. Returns why nothing was saved.
+   */
+  private async applyToInvoice(
+    job: IExtractionJob,
+    result: NonNullable<IExtractionJob['result']>,
+    documentText: string[],
+    now: string
+  ): Promise<string | undefined> {
+    const invoice = await Invoice.findById(job.invoiceId).lean();
+    if (!invoice || !EXTRACTABLE_INVOICE_STATUSES.includes(invoice.status ?? null)) {
+      console.warn(`Extraction job ${job._id} result not applied: invoice ${job.invoiceId} is missing or no longer editable`);
+      return 'The invoice was deleted or is no longer editable, so the result was not saved';
+    }
+    const changed = 'The invoice was changed while the extraction ran, so the result was not saved. Extract again to replace the changes';
+    if (job.invoiceVersion !== undefined && getInvoiceVersion(invoice) !== job.invoiceVersion) {
+      console.warn(`Extraction job ${job._id} result not applied: invoice ${job.invoiceId} changed since the job was queued`);
+      return changed;
+    }
+
+    const isDraft = !invoice.status || invoice.status === 'draft';
+    const vendorMatch = await getVendorMatchingService().findMatch(invoice.owner || job.owner, result.vendor);
+
+    const reason = result.source === 'e-invoice' ? 'Read from embedded e-invoice' : `Extracted with ${job.aiModel}`;
+    const invoiceData = { ...result.invoice, lineItems: normalizeLineItems(result.invoice.lineItems) };
+    const updated = await Invoice.findOneAndUpdate(
+      { _id: job.invoiceId, status: invoice.status ?? null, ...versionFilter(invoice) },
+      {
+        $set: {
+          vendor: result.vendor,
+          invoice: invoiceData,
+          extraction: {
+            model: job.aiModel,
+            source: result.source || 'model',
+            extractedAt: now,
+            fields: result.provenance || [],
+            values: result.source === 'e-invoice' ? undefined : { vendor: result.vendor, invoice: result.invoice }
+          },
+          documentText,
+          fingerprint: getInvoiceFingerprint(result.vendor, result.invoice) ?? null,
+          validationWarnings: checkInvoiceArithmetic(result.invoice),
+          vendorMatch: vendorMatch ?? null,
+          updatedAt: now,
+          ...(isDraft ? { status: 'extracted' } : {})
+        },
+        $inc: { version: 1 },
+        ...(isDraft ? {
+          $push: {
+            statusHistory: {
+              from: 'draft',
+              to: 'extracted',
+              changedBy: job.requestedBy || job.owner,
+              changedAt: now,
+              reason
+            }
+          }
+        } : {})
+      },
+      { new: true, runValidators: true, lean: true }
+    );
+
+    // Changed between reading and writing
+    if (!updated) {
+      return changed;
+    }
+
+    // The extracted values stay in the history, however they are corrected later
+    await getInvoiceRevisionService()
+      .record(updated as unknown as IInvoice, { source: 'extraction', actor: { id: job.requestedBy || job.owner }, note: reason }, invoice as unknown as IInvoice)
+      .catch(error => {
+        console.warn(`Could not record revision of invoice ${job.invoiceId}:`, error instanceof Error ? error.message : error);
+      });
+    return undefined;
+  }
+}
+
+class ExtractionWorker {
+  private readonly workerId = `${os.hostname()}-${process.pid}-${crypto.randomBytes(3).toString('hex')}`;
+  private timer?: NodeJS.Timeout;
+  private running = false;
+  private current?: Promise<void>;
+
+  constructor(private readonly queue: ExtractionQueueService = getExtractionQueue()) {}
+
+  start(): void {
+    if (this.running) {
+      return;
+    }
+
+    this.running = true;
+    console.log(`🛠️  Extraction worker ${this.workerId} started`);
+    this.schedule(0);
+  }
+
+  /**
+   * Stop polling and wait for the job in progress (if any) to finish
+   */
+  async stop(): Promise<void> {
+    this.running = false;
+    if (this.timer) {
+      clearTimeout(this.timer);
+    }
+    await this.current;
+    console.log(`🛑 Extraction worker ${this.workerId} stopped`);
+  }
+
+  private schedule(delay: number): void {
+    if (!this.running) {
+      return;
+    }
+    this.timer = setTimeout(() => {
+      this.current = this.tick();
+    }, delay);
+  }
+
+  private async tick(): Promise<void> {
+    if (!database.isConnectedToDatabase()) {
+      this.schedule(getQueueConfig().pollIntervalMs);
+      return;
+    }
+
+    try {
+      const job = await this.queue.claimNext(this.workerId);
+      if (job) {
+        await this.process(job);
+        this.schedule(0);
+        return;
+      }
+
+      // Batch uploads take a few files per turn while no extraction is waiting, so extractions,
+      // including the ones a batch queues, wait for at most one turn of a batch
+      const batch = await getBatchUploadService().claimNext(this.workerId);
+      if (batch) {
+        await this.processBatch(batch);
+        this.schedule(0);
+        return;
+      }
+
+      this.schedule(getQueueConfig().pollIntervalMs);
+    } catch (error) {
+      console.error('Extraction worker error:', error);
+      this.schedule(getQueueConfig().pollIntervalMs);
+    }
+  }
+
+  private async process(job: IExtractionJob): Promise<void> {
+    // Keep the lease alive while the model is working
+    const heartbeat = setInterval(() => {
+      this.queue.renewLease(job._id!, this.workerId).catch((error) => {
+        console.error(`Failed to renew lease for extraction job ${job._id}:`, error);
+      });
+    }, Math.floor(getQueueConfig().leaseMs / 3));
+
+    try {
+      const startTime = Date.now();
+      // The page text goes into the invoice for search but is too bulky for the job result
+      const { pages, ...extracted } = await getAIService(job.aiModel).extractInvoiceData(job.fileId, {
+        getPromptHints: documentText => getExtractionTemplateService().getPromptHints(job.owner, documentText, job.invoiceId)
+      });
+      await this.queue.complete(job, this.workerId, extracted, Date.now() - startTime, pages);
+    } catch (error) {
+      console.error(`Extraction job ${job._id} attempt ${job.attempts} failed:`, error);
+      if (error instanceof ExtractionValidationError) {
+        await this.queue.fail(job, this.workerId, error.message, { retryable: false, details: error.details });
+      } else {
+        await this.queue.fail(job, this.workerId, error instanceof Error ? error.message : 'Extraction failed');
+      }
+    } finally {
+      clearInterval(heartbeat);
+    }
+  }
+
+  private async processBatch(batch: IUploadBatch): Promise<void> {
+    const batchService = getBatchUploadService();
+    const heartbeat = setInterval(() => {
+      batchService.renewLease(String(batch._id), this.workerId).catch((error) => {
+        console.error(`Failed to renew lease for upload batch ${batch._id}:`, error);
+      });
+    }, Math.floor(getQueueConfig().leaseMs / 3));
+
+    try {
+      await batchService.process(batch, this.workerId);
+    } catch (error) {
+      console.error(`Upload batch ${batch._id} attempt ${batch.attempts} failed:`, error);
+      await batchService.fail(batch, this.workerId, error instanceof Error ? error.message : 'Batch upload failed');
+    } finally {
+      clearInterval(heartbeat);
+    }
+  }
+}
+
+let queueInstance: ExtractionQueueService | null = null;
+
+// Factory function to get the shared extraction queue
+export function getExtractionQueue(): ExtractionQueueService {
+  if (!queueInstance) {
+    queueInstance = new ExtractionQueueService();
+  }
+  return queueInstance;
+}
+
+export { ExtractionQueueService, ExtractionWorker };
@@ -0,0 +1,250 @@
+import ExtractionTemplate from '../models/ExtractionTemplate';
+import Invoice from '../models/Invoice';
+import Vendor from '../models/Vendor';
+import { IExtractionTemplate, IInvoice, ITemplateField, IVendorRecord } from '../types/invoice.types';
+import { normalizeVendorName, normalizeTaxId } from '../utils/vendorNames';
+import { versionFilter } from '../utils/invoiceVersion';
+
+// Fields learned per vendor. Vendor details are left out: they come from the vendor master data.
+const TEMPLATE_FIELDS = [
+  'invoice.number',
+  'invoice.date',
+  'invoice.currency',
+  'invoice.subtotal',
+  'invoice.taxPercent',
+  'invoice.total',
+  'invoice.poNumber',
+  'invoice.poDate'
+];
+
+// A field gets a hint once reviewers corrected it this often; a one-off typo fix does not count
+export const MIN_CORRECTIONS = 2;
+
+// Characters of printed text kept as the label in front of a corrected value
+const MAX_LABEL_LENGTH = 40;
+// Shortest tax ID trusted to identify a vendor in the document text
+const MIN_TAX_ID_LENGTH = 6;
+
+export interface IFieldCorrection {
+  path: string;
+  extracted: string;
+  corrected: string;
+}
+
+type VendorKeys = Pick<IVendorRecord, '_id' | 'nameKeys' | 'taxIdKey'>;
+
+const readPath = (source: unknown, path: string): unknown => {
+  return path.split('.').reduce<unknown>(
+    (value, key) => (value && typeof value === 'object' ? (value as Record<string, unknown>)[key] : undefined),
+    source
+  );
+};
+
+const toText = (value: unknown): string => {
+  return value === undefined || value === null ? '' : String(value).trim();
+};
+
+const isSameValue = (extracted: unknown, corrected: unknown): boolean => {
+  if (typeof extracted === 'number' && typeof corrected === 'number') {
+    return Math.abs(extracted - corrected) < 0.005;
+  }
+  return toText(extracted) === toText(corrected);
+};
+
+/**
+ * Fields whose extracted value the reviewer changed before approving the invoice
+ */
+export const getFieldCorrections = (extracted: unknown, approved: unknown): IFieldCorrection[] => {
+  return TEMPLATE_FIELDS
+    .filter(path => !isSameValue(readPath(extracted, path), readPath(approved, path)))
+    .map(path => ({
+      path,
+      extracted: toText(readPath(extracted, path)),
+      corrected: toText(readPath(approved, path))
+    }));
+};
+
+// Ways a stored value may be printed: amounts with either decimal separator, ISO dates in local formats
+const printedForms = (value: string): string[] => {
+  const date = value.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  if (date) {
+    const [, year, month, day] = date;
+    return [value, `${day}.${month}.${year}`, `${day}/${month}/${year}`, `${month}/${day}/${year}`];
+  }
+  const amount = parseFloat(value);
+  if (/^-?\d+(\.\d+)?$/.test(value) && !isNaN(amount)) {
+    return [amount.toFixed(2), amount.toFixed(2).replace('.', ','), value];
+  }
+  return [value];
+};
+
+/**
+ * Page and preceding label of a value in the document text, e.g. { page: 1, label: 'Rechnung Nr.:' }
+ */
+export const findValueLocation = (pages: string[], value: string): Pick<ITemplateField, 'page' | 'label'> => {
+  if (!value) {
+    return {};
+  }
+
+  for (const form of printedForms(value)) {
+    for (let index = 0; index < pages.length; index++) {
+      const position = pages[index].toLowerCase().indexOf(form.toLowerCase());
+      if (position < 0) {
+        continue;
+      }
+      const lineStart = pages[index].lastIndexOf('\n', position) + 1;
+      const label = pages[index].slice(lineStart, position).replace(/\s+/g, ' ').trim().slice(-MAX_LABEL_LENGTH);
+      return { page: index + 1, label: label || undefined };
+    }
+  }
+  return {};
+};
+
+/**
+ * Prompt section telling the model how reviewers corrected this vendor's documents.
+ * Returns undefined while no field was corrected often enough.
+ */
+export const buildPromptHints = (template: IExtractionTemplate): string | undefined => {
+  const fields = template.fields.filter(field => field.corrections >= MIN_CORRECTIONS);
+  if (!fields.length) {
+    return undefined;
+  }
+
+  const lines = fields.map(field => {
+    const location = field.label
+      ? `, printed after "${field.label}"${field.page ? ` on page ${field.page}` : ''}`
+      : field.page ? `, printed on page ${field.page}` : '';
+    const values = !field.corrected
+      ? `Last time "${field.extracted}" was extracted but the document has no such value; use null.`
+      : field.extracted
+        ? `Last time "${field.extracted}" was extracted but the correct value was "${field.corrected}"${location}.`
+        : `Last time it was missed; the correct value was "${field.corrected}"${location}.`;
+    return `- ${field.path}: corrected by reviewers on ${field.corrections} of ${template.invoiceCount} documents. ${values}`;
+  });
+
+  return [
+    `Notes for documents from ${template.vendorName}, learned from reviewer corrections of earlier extractions:`,
+    ...lines,
+    'Apply these notes where the document matches them.'
+  ].join('\n');
+};
+
+class ExtractionTemplateService {
+  /**
+   * Hints for extracting a document: from the template of the invoice's vendor when the
+   * extraction goes into an existing invoice, otherwise of the vendor whose tax ID or
+   * name appears in the document text
+   */
+  async getPromptHints(ownerId: string, documentText: string, invoiceId?: string): Promise<string | undefined> {
+    let template: IExtractionTemplate | null = null;
+
+    if (invoiceId) {
+      // Another user's invoice would hint with their vendor, so it is looked up by owner too
+      const invoice = await Invoice.findOne({ _id: invoiceId, owner: ownerId }).select('vendorMatch').lean();
+      if (invoice?.vendorMatch) {
+        template = await ExtractionTemplate.findOne({ owner: ownerId, vendorId: invoice.vendorMatch.vendorId })
+          .lean() as unknown as IExtractionTemplate | null;
+      }
+    }
+    if (!template) {
+      template = await this.findTemplateInText(ownerId, documentText);
+    }
+
+    const hints = template ? buildPromptHints(template) : undefined;
+    if (template && hints) {
+      await ExtractionTemplate.updateOne(
+        { _id: template._id },
+        { $inc: { appliedCount: 1 }, $set: { lastAppliedAt: new Date().toISOString() } }
+      );
+    }
+    return hints;
+  }
+
+  /**
+   * Fold the corrections of an approved invoice into its vendor's template. Only invoices
+   * extracted by a model and matched to a master vendor teach anything, each of them once
+   * and only as they were approved.
+   */
+  async learnFromInvoice(invoice: IInvoice): Promise<void> {
+    const extraction = invoice.extraction;
+    const match = invoice.vendorMatch;
+    if (!extraction?.values || extraction.source === 'e-invoice' || extraction.learnedAt || !invoice.owner) {
+      return;
+    }
+    // Unconfirmed similar-name matches may be the wrong vendor
+    if (!match || (!match.confirmed && match.method === 'similarity')) {
+      return;
+    }
+
+    // Claimed once, and only while the invoice is still the version that was approved: a
+    // later edit may have changed its data or matched it to another vendor
+    const now = new Date().toISOString();
+    const stored = await Invoice.findOneAndUpdate(
+      { _id: invoice._id, owner: invoice.owner, ...versionFilter(invoice), 'extraction.learnedAt': { $exists: false } },
+      { $set: { 'extraction.learnedAt': now } },
+      { new: true, lean: true }
+    ).select('+documentText');
+    if (!stored) {
+      return;
+    }
+
+    const corrections = getFieldCorrections(extraction.values, invoice);
+    const pages = stored.documentText || [];
+
+    const template = await ExtractionTemplate.findOne({ owner: invoice.owner, vendorId: match.vendorId })
+      || new ExtractionTemplate({ owner: invoice.owner, vendorId: match.vendorId, vendorName: match.name });
+
+    template.vendorName = match.name;
+    template.invoiceCount += 1;
+    corrections.forEach(correction => {
+      let field = template.fields.find(existing => existing.path === correction.path);
+      if (!field) {
+        template.fields.push({ path: correction.path, corrections: 0, updatedAt: now });
+        field = template.fields[template.fields.length - 1];
+      }
+      const location = findValueLocation(pages, correction.corrected);
+      field.corrections += 1;
+      field.extracted = correction.extracted.slice(0, 500);
+      field.corrected = correction.corrected.slice(0, 500);
+      field.page = location.page;
+      field.label = location.label;
+      field.updatedAt = now;
+    });
+    template.updatedAt = now;
+    await template.save();
+  }
+
+  private async findTemplateInText(ownerId: string, documentText: string): Promise<IExtractionTemplate | null> {
+    const templates = await ExtractionTemplate.find({
+      owner: ownerId,
+      'fields.corrections': { $gte: MIN_CORRECTIONS }
+    }).lean() as unknown as IExtractionTemplate[];
+    if (!templates.length) {
+      return null;
+    }
+
+    const vendors = await Vendor.find({ _id: { $in: templates.map(template => template.vendorId) } })
+      .select('+nameKeys +taxIdKey')
+      .lean() as unknown as VendorKeys[];
+    const taxIdText = normalizeTaxId(documentText);
+    const nameText = ` ${normalizeVendorName(documentText)} `;
+
+    // Tax IDs identify a vendor more reliably than names, so they are checked across all vendors first
+    const vendor = vendors.find(candidate => (candidate.taxIdKey?.length || 0) >= MIN_TAX_ID_LENGTH && taxIdText.includes(candidate.taxIdKey!))
+      || vendors.find(candidate => candidate.nameKeys?.some(key => nameText.includes(` ${key} `)));
+
+    return vendor ? templates.find(template => template.vendorId === String(vendor._id)) || null : null;
+  }
+}
+
+let extractionTemplateInstance: ExtractionTemplateService | null = null;
+
+// Factory function to get the shared extraction template service
+export function getExtractionTemplateService(): ExtractionTemplateService {
+  if (!extractionTemplateInstance) {
+    extractionTemplateInstance = new ExtractionTemplateService();
+  }
+  return extractionTemplateInstance;
+}
+
+export { ExtractionTemplateService };
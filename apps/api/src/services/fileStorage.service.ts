@@ -10,18 +10,27 @@ export interface IFileMetadata {
   fileSize: number;
   mimeType: string;
   uploadedAt: string;
+  ownerId?: string;
   url?: string;
+  // SHA-256 of the file content, for spotting the same document uploaded twice
+  contentHash?: string;
 }
 
 export interface IStorageService {
-  upload(file: Buffer | Readable, fileName: string, mimeType: string): Promise<IFileMetadata>;
+  upload(file: Buffer | Readable, fileName: string, mimeType: string, ownerId?: string): Promise<IFileMetadata>;
   download(fileId: string): Promise<Buffer>;
+  // Stream a stored file from a byte offset to its end, for reading parts of large files
+  downloadStream(fileId: string, start?: number): Readable;
   delete(fileId: string): Promise<void>;
   getFileInfo(fileId: string): Promise<IFileMetadata>;
 }
 
+export const computeContentHash = (content: Buffer): string => {
+  return crypto.createHash('sha256').update(content).digest('hex');
+};
+
 class VercelBlobStorageService implements IStorageService {
-  async upload(file: Buffer, fileName: string, mimeType: string): Promise<IFileMetadata> {
+  async upload(file: Buffer, fileName: string, mimeType: string, ownerId?: string): Promise<IFileMetadata> {
     try {
       if (!process.env.VERCEL_BLOB_READ_WRITE_TOKEN) {
         throw new Error('VERCEL_BLOB_READ_WRITE_TOKEN is not configured');
@@ -39,7 +48,9 @@ class VercelBlobStorageService implements IStorageService {
         fileSize: file.length,
         mimeType,
         uploadedAt: new Date().toISOString(),
-        url: blob.url
+        ownerId,
+        url: blob.url,
+        contentHash: computeContentHash(file)
       };
     } catch (error) {
       console.error('Vercel Blob upload error:', error);
@@ -58,6 +69,10 @@ class VercelBlobStorageService implements IStorageService {
     }
   }
 
+  downloadStream(): Readable {
+    throw new Error('Download from Vercel Blob not implemented in this demo');
+  }
+
   async delete(_fileId: string): Promise<void> {
     try {
       // For Vercel Blob, we would need to store the URL and delete it
@@ -84,21 +99,29 @@ class GridFSStorageService implements IStorageService {
     });
   }
 
-  async upload(file: Buffer | Readable, fileName: string, mimeType: string): Promise<IFileMetadata> {
+  async upload(file: Buffer | Readable, fileName: string, mimeType: string, ownerId?: string): Promise<IFileMetadata> {
     try {
       const fileId = crypto.randomUUID();
       const bucket = this.getBucket();
       
+      const objectId = new ObjectId(fileId.replace(/-/g, '').substring(0, 24).padEnd(24, '0'));
+
       return new Promise((resolve, reject) => {
+        // Buffers are hashed up front; streams as they are read, stored once they are written
+        const contentHash = Buffer.isBuffer(file) ? computeContentHash(file) : undefined;
+        const hash = crypto.createHash('sha256');
+
         const uploadStream = bucket.openUploadStreamWithId(
-          new ObjectId(fileId.replace(/-/g, '').substring(0, 24).padEnd(24, '0')),
+          objectId,
           fileName,
           {
             contentType: mimeType,
             metadata: {
               fileId,
               originalName: fileName,
-              uploadedAt: new Date().toISOString()
+              uploadedAt: new Date().toISOString(),
+              ownerId,
+              contentHash
             }
           }
         );
@@ -112,6 +135,7 @@ class GridFSStorageService implements IStorageService {
         } else {
           file.on('data', (chunk) => {
             fileSize += chunk.length;
+            hash.update(chunk);
           });
           file.pipe(uploadStream);
         }
@@ -121,14 +145,29 @@ class GridFSStorageService implements IStorageService {
           reject(new Error(`Failed to upload file: ${error.message}`));
         });
 
-        uploadStream.on('finish', () => {
-          resolve({
+        uploadStream.on('finish', async () => {
+          const metadata: IFileMetadata = {
             fileId,
             fileName,
             fileSize,
             mimeType,
-            uploadedAt: new Date().toISOString()
-          });
+            uploadedAt: new Date().toISOString(),
+            ownerId,
+            contentHash: contentHash || hash.digest('hex')
+          };
+
+          if (!contentHash) {
+            try {
+              await mongoose.connection.db!.collection('uploads.files').updateOne(
+                { _id: objectId },
+                { $set: { 'metadata.contentHash': metadata.contentHash } }
+              );
+            } catch (error) {
+              reject(new Error(`Failed to store file hash: ${error instanceof Error ? error.message : 'Unknown error'}`));
+              return;
+            }
+          }
+          resolve(metadata);
         });
       });
     } catch (error) {
@@ -165,6 +204,11 @@ class GridFSStorageService implements IStorageService {
     }
   }
 
+  downloadStream(fileId: string, start = 0): Readable {
+    const objectId = new ObjectId(fileId.replace(/-/g, '').substring(0, 24).padEnd(24, '0'));
+    return this.getBucket().openDownloadStream(objectId, { start });
+  }
+
   async delete(fileId: string): Promise<void> {
     try {
       const objectId = new ObjectId(fileId.replace(/-/g, '').substring(0, 24).padEnd(24, '0'));
@@ -192,7 +236,9 @@ class GridFSStorageService implements IStorageService {
         fileName: file.filename,
         fileSize: file.length,
         mimeType: file.contentType || 'application/octet-stream',
-        uploadedAt: file.metadata?.uploadedAt || file.uploadDate.toISOString()
+        uploadedAt: file.metadata?.uploadedAt || file.uploadDate.toISOString(),
+        ownerId: file.metadata?.ownerId,
+        contentHash: file.metadata?.contentHash
       };
     } catch (error) {
       console.error('GridFS get file info error:', error);
@@ -0,0 +1,194 @@
+import Invoice from '../models/Invoice';
+import { AuthenticatedRequest } from '../middleware/auth.middleware';
+import { getStorageService } from './fileStorage.service';
+import { getDuplicateDetectionService, getInvoiceFingerprint } from './duplicateDetection.service';
+import { getVendorMatchingService } from './vendorMatching.service';
+import { getInvoiceRevisionService } from './invoiceRevision.service';
+import { extractDocumentText } from './ai.service';
+import { IInvoice, IUploadResponse } from '../types/invoice.types';
+import { parseEInvoice } from '../utils/eInvoice';
+import { getXmlSyntaxError } from '../utils/xml';
+import { validateExtractionResult } from '../utils/validation';
+import { checkInvoiceArithmetic } from '../utils/arithmeticChecks';
+import { normalizeLineItems } from '../utils/lineItems';
+import { getInvoiceVersion } from '../utils/invoiceVersion';
+
+type RequestUser = NonNullable<AuthenticatedRequest['user']>;
+
+export interface IImportFile {
+  buffer: Buffer;
+  originalname: string;
+  mimetype: string;
+}
+
+/**
+ * Thrown when an XML e-invoice cannot be imported, with the validation problems if any
+ */
+export class EInvoiceImportError extends Error {
+  constructor(message: string, readonly details?: string[]) {
+    super(message);
+    this.name = 'EInvoiceImportError';
+  }
+}
+
+class InvoiceImportService {
+  /**
+   * Store an XML e-invoice and create its invoice from the parsed document.
+   * Malformed, unsupported or incomplete XML is rejected before anything is stored.
+   */
+  async importEInvoice(user: RequestUser, file: IImportFile): Promise<IUploadResponse> {
+    const syntaxError = getXmlSyntaxError(file.buffer);
+    if (syntaxError) {
+      throw new EInvoiceImportError(`Invalid XML: ${syntaxError}`);
+    }
+
+    const parsed = parseEInvoice(file.buffer, file.originalname);
+    if (!parsed) {
+      throw new EInvoiceImportError('Unsupported XML document. Upload a UBL 2.1 or CII (ZUGFeRD, Factur-X, XRechnung) invoice');
+    }
+
+    const { value, errors } = validateExtractionResult({ vendor: parsed.document.vendor, invoice: parsed.document.invoice });
+    if (!value) {
+      throw new EInvoiceImportError('E-invoice is missing required fields', errors);
+    }
+
+    const storageService = getStorageService();
+    const fileMetadata = await storageService.upload(file.buffer, file.originalname, file.mimetype, user.id);
+    const now = new Date().toISOString();
+    const format = parsed.document.format;
+    const fingerprint = getInvoiceFingerprint(value.vendor, value.invoice);
+    const vendorMatch = await getVendorMatchingService().findMatch(user.id, value.vendor);
+
+    let invoice: InstanceType<typeof Invoice>;
+    try {
+      invoice = await Invoice.create({
+        owner: user.id,
+        fileId: fileMetadata.fileId,
+        fileName: fileMetadata.fileName,
+        vendor: value.vendor,
+        invoice: { ...value.invoice, lineItems: normalizeLineItems(value.invoice.lineItems) },
+        status: 'extracted',
+        statusHistory: [{
+          from: 'draft',
+          to: 'extracted',
+          changedBy: user.id,
+          changedAt: now,
+          reason: `Imported from ${format.toUpperCase()} e-invoice`
+        }],
+        extraction: {
+          model: format,
+          source: 'e-invoice',
+          extractedAt: now,
+          fields: parsed.provenance
+        },
+        contentHash: fileMetadata.contentHash,
+        fingerprint,
+        validationWarnings: checkInvoiceArithmetic(value.invoice),
+        vendorMatch,
+        createdAt: now
+      });
+    } catch (error) {
+      // Do not leave an orphaned file behind
+      await storageService.delete(fileMetadata.fileId).catch(() => undefined);
+      throw error;
+    }
+
+    const invoiceId = String(invoice._id);
+    await getInvoiceRevisionService()
+      .record(
+        invoice.toObject() as unknown as IInvoice,
+        { source: 'import', actor: { id: user.id, email: user.email }, note: `Imported from ${format.toUpperCase()} e-invoice` }
+      )
+      .catch(error => {
+        console.warn(`Could not record revision of invoice ${invoiceId}:`, error instanceof Error ? error.message : error);
+      });
+
+    const duplicates = await getDuplicateDetectionService().findDuplicates(user, {
+      contentHash: fileMetadata.contentHash,
+      fingerprint,
+      excludeId: invoiceId
+    });
+
+    return {
+      fileId: fileMetadata.fileId,
+      fileName: fileMetadata.fileName,
+      fileSize: fileMetadata.fileSize,
+      uploadedAt: fileMetadata.uploadedAt,
+      invoiceId,
+      format,
+      ...(duplicates.length ? { duplicates } : {})
+    };
+  }
+
+  /**
+   * Store a PDF and create a draft invoice for it, to be filled in by extraction or by hand.
+   * Until then the vendor, number and date are left empty rather than guessed. The text
+   * for search is read here unless an extraction, which reads it anyway, follows.
+   * Returns the version of the new invoice, for an extraction to be queued against.
+   */
+  async createDraft(
+    user: RequestUser,
+    file: IImportFile,
+    { readText = true }: { readText?: boolean } = {}
+  ): Promise<IUploadResponse & { version: number }> {
+    const storageService = getStorageService();
+    const fileMetadata = await storageService.upload(file.buffer, file.originalname, file.mimetype, user.id);
+    const now = new Date().toISOString();
+
+    let invoice: InstanceType<typeof Invoice>;
+    try {
+      invoice = await Invoice.create({
+        owner: user.id,
+        fileId: fileMetadata.fileId,
+        fileName: fileMetadata.fileName,
+        vendor: { name: '' },
+        invoice: {
+          number: '',
+          date: '',
+          lineItems: []
+        },
+        contentHash: fileMetadata.contentHash,
+        // An unreadable document is still saved, just not searchable by content
+        ...(readText ? { documentText: await extractDocumentText(fileMetadata.fileId).catch(() => []) } : {}),
+        createdAt: now
+      });
+    } catch (error) {
+      await storageService.delete(fileMetadata.fileId).catch(() => undefined);
+      throw error;
+    }
+
+    const invoiceId = String(invoice._id);
+    await getInvoiceRevisionService()
+      .record(invoice.toObject() as unknown as IInvoice, { source: 'create', actor: { id: user.id, email: user.email } })
+      .catch(error => {
+        console.warn(`Could not record revision of invoice ${invoiceId}:`, error instanceof Error ? error.message : error);
+      });
+
+    const duplicates = await getDuplicateDetectionService().findDuplicates(user, {
+      contentHash: fileMetadata.contentHash,
+      excludeId: invoiceId
+    });
+
+    return {
+      fileId: fileMetadata.fileId,
+      fileName: fileMetadata.fileName,
+      fileSize: fileMetadata.fileSize,
+      uploadedAt: fileMetadata.uploadedAt,
+      invoiceId,
+      version: getInvoiceVersion(invoice),
+      ...(duplicates.length ? { duplicates } : {})
+    };
+  }
+}
+
+let invoiceImportInstance: InvoiceImportService | null = null;
+
+// Factory function to get the shared invoice import service
+export function getInvoiceImportService(): InvoiceImportService {
+  if (!invoiceImportInstance) {
+    invoiceImportInstance = new InvoiceImportService();
+  }
+  return invoiceImportInstance;
+}
+
+export { InvoiceImportService };
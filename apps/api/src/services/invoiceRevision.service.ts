@@ -0,0 +1,121 @@
+import InvoiceRevision from '../models/InvoiceRevision';
+import { IInvoice, IInvoiceRevision, IRevisionDiff, RevisionSource } from '../types/invoice.types';
+import { diffSnapshots, getInvoiceSnapshot } from '../utils/revisionDiff';
+
+// Attempts to take the next revision number when another write got there first
+const MAX_RECORD_ATTEMPTS = 3;
+
+export interface IRevisionContext {
+  source: RevisionSource;
+  // The user behind the write; extraction jobs act for the user who queued them
+  actor?: { id: string; email?: string };
+  note?: string;
+  restoredFrom?: number;
+  // Record the write even if no snapshot field changed, e.g. when only the vendor match did
+  always?: boolean;
+}
+
+const isDuplicateKeyError = (error: unknown): boolean => {
+  return error instanceof Error && error.message.includes('duplicate key');
+};
+
+class InvoiceRevisionService {
+  /**
+   * Record the state of an invoice after a write, with the fields that changed since the
+   * previous revision. before is the state the write started from: for invoices created
+   * before revision history existed it is kept as an 'initial' revision, so the first
+   * change can be undone too. Writes that change none of the snapshot fields are skipped
+   * unless context.always is set.
+   */
+  async record(invoice: IInvoice, context: IRevisionContext, before?: IInvoice): Promise<IInvoiceRevision | null> {
+    const invoiceId = String(invoice._id);
+    const snapshot = getInvoiceSnapshot(invoice);
+
+    for (let attempt = 1; ; attempt++) {
+      try {
+        let latest = await InvoiceRevision.findOne({ invoiceId }).sort({ revision: -1 }).lean() as unknown as IInvoiceRevision | null;
+        if (!latest && before) {
+          latest = (await InvoiceRevision.create({
+            invoiceId,
+            owner: invoice.owner,
+            revision: 1,
+            source: 'initial',
+            snapshot: getInvoiceSnapshot(before),
+            changes: [],
+            createdAt: before.updatedAt || before.createdAt
+          })).toObject() as unknown as IInvoiceRevision;
+        }
+
+        const changes = diffSnapshots(latest?.snapshot, snapshot);
+        if (latest && !changes.length && !context.always) {
+          return null;
+        }
+
+        const revision = await InvoiceRevision.create({
+          invoiceId,
+          owner: invoice.owner,
+          revision: (latest?.revision || 0) + 1,
+          source: context.source,
+          actor: context.actor?.id,
+          actorEmail: context.actor?.email,
+          note: context.note,
+          restoredFrom: context.restoredFrom,
+          snapshot,
+          changes
+        });
+        return revision.toObject() as unknown as IInvoiceRevision;
+      } catch (error) {
+        if (!isDuplicateKeyError(error) || attempt >= MAX_RECORD_ATTEMPTS) {
+          throw error;
+        }
+      }
+    }
+  }
+
+  /**
+   * Revisions of an invoice, newest first, without their snapshots
+   */
+  async list(invoiceId: string): Promise<IInvoiceRevision[]> {
+    return await InvoiceRevision.find({ invoiceId })
+      .select('-snapshot')
+      .sort({ revision: -1 })
+      .lean() as unknown as IInvoiceRevision[];
+  }
+
+  async get(invoiceId: string, revision: number): Promise<IInvoiceRevision | null> {
+    return await InvoiceRevision.findOne({ invoiceId, revision }).lean() as unknown as IInvoiceRevision | null;
+  }
+
+  /**
+   * Changes from one revision to another; from may be later than to to see what undoing
+   * the changes in between would do. Returns null when either revision does not exist.
+   */
+  async diff(invoiceId: string, from: number, to: number): Promise<IRevisionDiff | null> {
+    const [fromRevision, toRevision] = await Promise.all([this.get(invoiceId, from), this.get(invoiceId, to)]);
+    if (!fromRevision || !toRevision) {
+      return null;
+    }
+    return { from, to, changes: diffSnapshots(fromRevision.snapshot, toRevision.snapshot) };
+  }
+
+  async latestRevision(invoiceId: string): Promise<number | undefined> {
+    const latest = await InvoiceRevision.findOne({ invoiceId }).sort({ revision: -1 }).select('revision').lean();
+    return latest?.revision;
+  }
+
+  async deleteForInvoice(invoiceId: string): Promise<void> {
+    await InvoiceRevision.deleteMany({ invoiceId });
+  }
+}
+
+let invoiceRevisionInstance: InvoiceRevisionService | null = null;
+
+// Factory function to get the shared invoice revision service
+export function getInvoiceRevisionService(): InvoiceRevisionService {
+  if (!invoiceRevisionInstance) {
+    invoiceRevisionInstance = new InvoiceRevisionService();
+  }
+  return invoiceRevisionInstance;
+}
+
+export { InvoiceRevisionService };
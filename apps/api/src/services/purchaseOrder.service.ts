@@ -0,0 +1,109 @@
+import PurchaseOrder from '../models/PurchaseOrder';
+import Invoice from '../models/Invoice';
+import { getVendorMatchingService } from './vendorMatching.service';
+import { IInvoice, IPoMatchReport, IPoMatchTolerances, IPurchaseOrder } from '../types/invoice.types';
+import { getInvoicedQuantities, matchPurchaseOrder, normalizePoNumber, poNumberPattern } from '../utils/poMatching';
+
+// Read lazily so values from .env are available once dotenv has loaded
+const getDefaultTolerances = (): IPoMatchTolerances => ({
+  pricePercent: parseFloat(process.env.PO_PRICE_TOLERANCE_PERCENT || '2'),
+  quantityPercent: parseFloat(process.env.PO_QUANTITY_TOLERANCE_PERCENT || '0')
+});
+
+export interface IPurchaseOrderImportResult {
+  created: number;
+  updated: number;
+  purchaseOrders: IPurchaseOrder[];
+}
+
+class PurchaseOrderService {
+  /**
+   * Tolerances a PO is matched with: its own where set, the configured defaults otherwise
+   */
+  getTolerances(po: Pick<IPurchaseOrder, 'tolerances'>): IPoMatchTolerances {
+    const defaults = getDefaultTolerances();
+    return {
+      pricePercent: po.tolerances?.pricePercent ?? defaults.pricePercent,
+      quantityPercent: po.tolerances?.quantityPercent ?? defaults.quantityPercent
+    };
+  }
+
+  /**
+   * Create or replace purchase orders by PO number. Replaced POs get the imported header and
+   * lines but keep their goods receipts. The PO vendor is linked to a master vendor when its
+   * tax ID, name or alias matches one exactly.
+   */
+  async importPurchaseOrders(ownerId: string, orders: Array<Partial<IPurchaseOrder>>): Promise<IPurchaseOrderImportResult> {
+    const result: IPurchaseOrderImportResult = { created: 0, updated: 0, purchaseOrders: [] };
+
+    for (const order of orders) {
+      const match = await getVendorMatchingService().findMatch(ownerId, { name: order.vendorName, taxId: order.vendorTaxId });
+      const existing = await PurchaseOrder.findOne({ owner: ownerId, poNumberKey: normalizePoNumber(order.poNumber || '') });
+      const po = existing || new PurchaseOrder({ owner: ownerId });
+
+      po.set({
+        poNumber: order.poNumber,
+        poDate: order.poDate,
+        vendorName: order.vendorName,
+        vendorTaxId: order.vendorTaxId || undefined,
+        vendorId: match && match.method !== 'similarity' ? match.vendorId : undefined,
+        currency: order.currency,
+        receiptRequired: order.receiptRequired || false,
+        tolerances: order.tolerances,
+        lines: order.lines
+      });
+      await po.save();
+
+      result[existing ? 'updated' : 'created'] += 1;
+      const data = po.toObject() as unknown as IPurchaseOrder;
+      delete data.poNumberKey;
+      result.purchaseOrders.push(data);
+    }
+    return result;
+  }
+
+  /**
+   * Match an invoice against the owner's PO with the invoice's PO number. Quantities already
+   * billed on the owner's other, not rejected invoices against the same PO count towards the
+   * ordered and received quantities.
+   */
+  async matchInvoice(invoice: IInvoice): Promise<IPoMatchReport> {
+    const key = normalizePoNumber(invoice.invoice?.poNumber || '');
+    if (!key) {
+      return { status: 'no_po_number', lines: [], variances: [], otherInvoices: 0 };
+    }
+
+    const po = await PurchaseOrder.findOne({ owner: invoice.owner, poNumberKey: key })
+      .lean() as unknown as IPurchaseOrder | null;
+    if (!po) {
+      return { status: 'po_not_found', poNumber: invoice.invoice.poNumber, lines: [], variances: [], otherInvoices: 0 };
+    }
+
+    const others = await Invoice.find({
+      owner: invoice.owner,
+      _id: { $ne: invoice._id },
+      status: { $ne: 'rejected' },
+      'invoice.poNumber': poNumberPattern(key)
+    }).select('invoice.lineItems').lean() as unknown as Array<Pick<IInvoice, 'invoice'>>;
+
+    return matchPurchaseOrder({
+      invoice,
+      purchaseOrder: po,
+      tolerances: this.getTolerances(po),
+      previouslyInvoiced: getInvoicedQuantities(others, po.lines),
+      otherInvoices: others.length
+    });
+  }
+}
+
+let purchaseOrderInstance: PurchaseOrderService | null = null;
+
+// Factory function to get the shared purchase order service
+export function getPurchaseOrderService(): PurchaseOrderService {
+  if (!purchaseOrderInstance) {
+    purchaseOrderInstance = new PurchaseOrderService();
+  }
+  return purchaseOrderInstance;
+}
+
+export { PurchaseOrderService };
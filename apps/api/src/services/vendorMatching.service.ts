@@ -0,0 +1,175 @@
+import Vendor from '../models/Vendor';
+import Invoice from '../models/Invoice';
+import { getInvoiceRevisionService, IRevisionContext } from './invoiceRevision.service';
+import { IVendor, IVendorMatch, IVendorRecord, IInvoice, IAccountingCoding } from '../types/invoice.types';
+import { normalizeVendorName, normalizeTaxId, nameSimilarity } from '../utils/vendorNames';
+
+// Less similar names are not suggested. A typo scores around 0.8; "Acme Industries" and
+// "Apex Industries" score 0.69. Similar names are only suggested, a reviewer confirms them.
+const MIN_NAME_SIMILARITY = 0.75;
+
+type MatchCandidate = Pick<IVendorRecord, '_id' | 'name' | 'nameKeys'>;
+
+class VendorMatchingService {
+  /**
+   * Find the master record of an extracted vendor among the owner's vendors: by tax ID first,
+   * then by exact normalized name or alias, then by the most similar name.
+   */
+  async findMatch(ownerId: string, vendor?: Partial<IVendor>): Promise<IVendorMatch | undefined> {
+    const taxIdKey = vendor?.taxId ? normalizeTaxId(vendor.taxId) : '';
+    if (taxIdKey) {
+      const byTaxId = await Vendor.findOne({ owner: ownerId, taxIdKey })
+        .select('name')
+        .lean() as unknown as MatchCandidate | null;
+      if (byTaxId) {
+        return this.toMatch(byTaxId, 'taxId', 1);
+      }
+    }
+
+    const nameKey = vendor?.name ? normalizeVendorName(vendor.name) : '';
+    if (!nameKey) {
+      return undefined;
+    }
+
+    const candidates = await Vendor.find({ owner: ownerId })
+      .select('name +nameKeys')
+      .lean() as unknown as MatchCandidate[];
+
+    const exact = candidates.find(candidate => candidate.nameKeys?.includes(nameKey));
+    if (exact) {
+      const method = normalizeVendorName(exact.name) === nameKey ? 'name' : 'alias';
+      return this.toMatch(exact, method, 1);
+    }
+
+    let best: { candidate: MatchCandidate; score: number } | undefined;
+    for (const candidate of candidates) {
+      for (const key of candidate.nameKeys || []) {
+        const score = nameSimilarity(nameKey, key);
+        if (score >= MIN_NAME_SIMILARITY && (!best || score > best.score)) {
+          best = { candidate, score };
+        }
+      }
+    }
+    return best ? this.toMatch(best.candidate, 'similarity', Math.round(best.score * 100) / 100) : undefined;
+  }
+
+  /**
+   * Match for an invoice whose vendor was saved: a confirmed link survives while the name and
+   * tax ID are unchanged or still match the same master record
+   */
+  async rematch(
+    ownerId: string,
+    vendor: Partial<IVendor>,
+    previous: Partial<IVendor>,
+    current?: IVendorMatch
+  ): Promise<IVendorMatch | undefined> {
+    const unchanged = vendor.name === previous.name && (vendor.taxId || '') === (previous.taxId || '');
+    if (current?.confirmed && unchanged) {
+      return current;
+    }
+
+    const match = await this.findMatch(ownerId, vendor);
+    if (match && current?.confirmed && current.vendorId === match.vendorId) {
+      return current;
+    }
+    return match;
+  }
+
+  /**
+   * Remember the vendor name printed on an invoice as an alias of its master record,
+   * so the next invoice with that spelling matches exactly
+   */
+  async learnAlias(vendorId: string, name?: string): Promise<void> {
+    const key = name ? normalizeVendorName(name) : '';
+    if (!key) {
+      return;
+    }
+    const vendor = await Vendor.findById(vendorId).select('+nameKeys');
+    if (vendor && !vendor.nameKeys?.includes(key)) {
+      vendor.aliases.push(name!.trim());
+      await vendor.save();
+    }
+  }
+
+  /**
+   * Invoice fields a confirmed vendor sets: its canonical name, tax ID and address, and its
+   * default currency and accounting codes where the invoice has none
+   */
+  getLinkedInvoiceFields(vendor: IVendorRecord, invoice: IInvoice): Record<string, unknown> {
+    const fields: Record<string, unknown> = {
+      'vendor.name': vendor.name
+    };
+    if (vendor.taxId) {
+      fields['vendor.taxId'] = vendor.taxId;
+    }
+    if (vendor.address) {
+      fields['vendor.address'] = vendor.address;
+    }
+    if (vendor.defaultCurrency && !invoice.invoice.currency) {
+      fields['invoice.currency'] = vendor.defaultCurrency;
+    }
+
+    const accounting: IAccountingCoding = invoice.accounting || {};
+    if (vendor.defaultGlAccount && !accounting.glAccount) {
+      fields['accounting.glAccount'] = vendor.defaultGlAccount;
+    }
+    if (vendor.defaultCostCenter && !accounting.costCenter) {
+      fields['accounting.costCenter'] = vendor.defaultCostCenter;
+    }
+    return fields;
+  }
+
+  /**
+   * Change the match of every invoice matched to a vendor, e.g. when the vendor is renamed
+   * or deleted. Each invoice gets a new version and a revision, as with any other write.
+   */
+  async updateMatchedInvoices(
+    vendorId: string,
+    update: { $set?: Record<string, unknown>; $unset?: Record<string, ''> },
+    context: IRevisionContext
+  ): Promise<void> {
+    const filter = { 'vendorMatch.vendorId': vendorId };
+    const matched = await Invoice.find(filter).select('-documentText').lean() as unknown as IInvoice[];
+
+    for (const before of matched) {
+      const invoice = await Invoice.findOneAndUpdate(
+        { _id: before._id, ...filter },
+        { ...update, $set: { ...update.$set, updatedAt: new Date().toISOString() }, $inc: { version: 1 } },
+        { new: true, lean: true }
+      ) as unknown as IInvoice | null;
+
+      // Gone or matched to another vendor since it was found
+      if (!invoice) {
+        continue;
+      }
+
+      await getInvoiceRevisionService()
+        .record(invoice, { ...context, always: true }, before)
+        .catch(error => {
+          console.warn(`Could not record revision of invoice ${invoice._id}:`, error instanceof Error ? error.message : error);
+        });
+    }
+  }
+
+  private toMatch(vendor: Pick<IVendorRecord, '_id' | 'name'>, method: IVendorMatch['method'], score: number): IVendorMatch {
+    return {
+      vendorId: String(vendor._id),
+      name: vendor.name,
+      method,
+      score,
+      confirmed: false
+    };
+  }
+}
+
+let vendorMatchingInstance: VendorMatchingService | null = null;
+
+// Factory function to get the shared vendor matching service
+export function getVendorMatchingService(): VendorMatchingService {
+  if (!vendorMatchingInstance) {
+    vendorMatchingInstance = new VendorMatchingService();
+  }
+  return vendorMatchingInstance;
+}
+
+export { VendorMatchingService };
@@ -4,45 +4,476 @@ export interface IVendor {
   taxId?: string;
 }
 
+// A vendor in the master data. Invoices keep their own IVendor copy and link to the
+// master record once a reviewer confirms the match.
+export interface IVendorRecord {
+  _id?: string;
+  owner?: string;
+  name: string;
+  aliases: string[]; // other spellings seen on invoices, e.g. "Acme Limited" for "ACME Ltd"
+  taxId?: string;
+  address?: string;
+  defaultCurrency?: string;
+  defaultGlAccount?: string;
+  defaultCostCenter?: string;
+  // Normalized name, aliases and tax ID used for matching; not returned by the API
+  nameKeys?: string[];
+  taxIdKey?: string;
+  createdAt: string;
+  updatedAt?: string;
+}
+
+// 'manual' when a reviewer picked or created the vendor
+export type VendorMatchMethod = 'taxId' | 'name' | 'alias' | 'similarity' | 'manual';
+
+// The master vendor an invoice's vendor was matched to
+export interface IVendorMatch {
+  vendorId: string;
+  name: string;
+  method: VendorMatchMethod;
+  score: number; // 0 to 1; 1 for tax ID and exact name matches
+  confirmed: boolean;
+  confirmedBy?: string;
+  confirmedAt?: string;
+}
+
 export interface ILineItem {
+  id?: string; // unique within the invoice and kept across edits; addresses the line in a JSON Patch
+  position?: number; // 1-based order of the line on the invoice
+  code?: string; // item number or SKU
   description: string;
   unitPrice: number;
   quantity: number;
-  total: number;
+  unit?: string; // unit of measure of the quantity, e.g. "h" or a UN/ECE code such as "KGM"
+  discount?: number; // percent off quantity × unit price
+  taxPercent?: number; // tax rate of the line; the invoice's taxPercent applies when missing
+  total: number; // net: quantity × unit price less discount, before tax
+}
+
+export type InvoiceChargeType = 'shipping' | 'other';
+
+// Amounts billed besides the line items, e.g. freight or packaging; negative for allowances
+export interface IInvoiceCharge {
+  type: InvoiceChargeType;
+  description?: string;
+  amount: number; // net, before tax
+  taxPercent?: number; // the invoice's taxPercent applies when missing
+}
+
+// Tax of one rate, as in the VAT summary printed on invoices
+export interface ITaxBreakdownEntry {
+  taxPercent: number;
+  taxableAmount: number;
+  taxAmount: number;
 }
 
 export interface IInvoiceData {
   number: string;
   date: string;
   currency?: string;
-  subtotal?: number;
-  taxPercent?: number;
+  subtotal?: number; // sum of the line totals
+  taxPercent?: number; // the single tax rate, or the default of lines and charges without their own
   total?: number;
   poNumber?: string;
   poDate?: string;
   lineItems: ILineItem[];
+  charges?: IInvoiceCharge[];
+  taxBreakdown?: ITaxBreakdownEntry[];
+}
+
+// How sure the extractor was about one field and where in the PDF it was read
+export interface IFieldProvenance {
+  path: string; // e.g. 'vendor.name', 'invoice.lineItems.0.total'
+  confidence: number; // 0 to 1
+  source?: string; // text snippet the value was taken from
+  page?: number; // 1-based PDF page
+}
+
+// 'e-invoice' when the data was read from structured XML instead of being extracted by a model
+export type ExtractionSource = 'model' | 'e-invoice';
+
+export interface IExtractionMetadata {
+  model: string;
+  source?: ExtractionSource;
+  extractedAt: string;
+  fields: IFieldProvenance[];
+  // The values as extracted, compared with the approved invoice to learn the vendor's template
+  values?: { vendor: IVendor; invoice: IInvoiceData };
+  learnedAt?: string;
+}
+
+// A field the reviewers keep correcting on invoices from one vendor
+export interface ITemplateField {
+  path: string; // e.g. 'invoice.number'
+  corrections: number; // approved invoices on which the extracted value was changed
+  extracted?: string; // last value the extractor read
+  corrected?: string; // what the reviewer changed it to
+  page?: number; // where the corrected value is printed, when it could be found
+  label?: string; // text printed just before the corrected value
+  updatedAt: string;
+}
+
+// Per-vendor extraction hints learned from reviewer corrections
+export interface IExtractionTemplate {
+  _id?: string;
+  owner: string;
+  vendorId: string;
+  vendorName: string;
+  invoiceCount: number; // approved invoices learned from
+  appliedCount: number; // extractions the hints were added to
+  lastAppliedAt?: string;
+  fields: ITemplateField[];
+  createdAt: string;
+  updatedAt?: string;
+}
+
+export type EInvoiceFormat = 'ubl' | 'cii';
+
+// An e-invoice as read from its XML (UBL 2.1 or UN/CEFACT CII)
+export interface IEInvoiceDocument {
+  format: EInvoiceFormat;
+  documentType: 'invoice' | 'credit-note';
+  specification?: string; // customization / guideline ID, e.g. XRechnung or Peppol BIS
+  vendor: IVendor;
+  buyer?: IVendor;
+  invoice: IInvoiceData;
+  dueDate?: string;
+  taxTotal?: number;
+  paymentTerms?: string;
+  notes: string[];
+}
+
+export interface IParsedEInvoice {
+  document: IEInvoiceDocument;
+  provenance: IFieldProvenance[];
+}
+
+export type InvoiceStatus = 'draft' | 'extracted' | 'in_review' | 'approved' | 'rejected' | 'paid';
+
+export interface IStatusChange {
+  from?: InvoiceStatus;
+  to: InvoiceStatus;
+  changedBy: string;
+  changedAt: string;
+  reason?: string;
+}
+
+// Bookkeeping codes used when the invoice is posted in an accounting package
+export interface IAccountingCoding {
+  glAccount?: string; // expense account the invoice is booked to
+  costCenter?: string; // QuickBooks class, Xero tracking option, DATEV KOST1
 }
 
 export interface IInvoice {
   _id?: string;
+  owner?: string;
   fileId: string;
   fileName: string;
   vendor: IVendor;
   invoice: IInvoiceData;
+  status: InvoiceStatus;
+  statusHistory?: IStatusChange[];
+  reviewedBy?: string;
+  reviewedAt?: string;
+  rejectionReason?: string;
+  extraction?: IExtractionMetadata;
+  accounting?: IAccountingCoding;
+  // Text of each page of the document; not returned by the API
+  documentText?: string[];
+  // SHA-256 of the uploaded file and hash of vendor, number, total and date, for duplicate detection
+  contentHash?: string;
+  fingerprint?: string;
+  // Suggested by matching after extraction, confirmed by a reviewer
+  vendorMatch?: IVendorMatch;
+  // Amounts that do not add up; recomputed whenever the invoice data changes
+  validationWarnings?: IValidationWarning[];
+  // Set on results of a full-text search
+  search?: IInvoiceSearchMatch;
+  // Set when other invoices look like the same document
+  duplicates?: IDuplicateMatch[];
+  // Raised by every change; sent as the ETag and checked against If-Match to reject stale writes
+  version?: number;
+  createdAt: string;
+  updatedAt?: string;
+}
+
+export type ValidationWarningCode =
+  | 'line_total_mismatch'
+  | 'subtotal_mismatch'
+  | 'tax_amount_mismatch'
+  | 'total_mismatch';
+
+// An amount that differs from what the other amounts imply by more than the rounding tolerance
+export interface IValidationWarning {
+  code: ValidationWarningCode;
+  path: string; // field the warning is about, e.g. 'invoice.lineItems.0.total'
+  message: string;
+  expected: number;
+  actual: number;
+  difference: number; // actual - expected
+}
+
+// Same file content, or the same vendor, number, total and date
+export type DuplicateMatchReason = 'content' | 'fingerprint';
+
+export interface IDuplicateMatch {
+  invoiceId: string;
+  vendorName: string;
+  invoiceNumber: string;
+  total?: number;
+  currency?: string;
+  status: InvoiceStatus;
+  createdAt: string;
+  matchedOn: DuplicateMatchReason[];
+}
+
+// What wrote a revision: how the invoice was created, extracted or changed
+export type RevisionSource =
+  | 'create'
+  | 'import'
+  | 'extraction'
+  | 'edit'
+  | 'status'
+  | 'vendor'
+  | 'restore'
+  | 'initial'; // state found when an invoice from before revision history was first changed
+
+// The reviewable fields of an invoice at one point in time
+export interface IInvoiceSnapshot {
+  vendor: IVendor;
+  invoice: IInvoiceData;
+  status: InvoiceStatus;
+  accounting?: IAccountingCoding;
+}
+
+// RFC 6902 operation accepted by PATCH /invoices/:id
+export interface IJsonPatchOperation {
+  op: 'add' | 'replace' | 'remove' | 'test';
+  path: string; // JSON Pointer, e.g. '/vendor/name' or '/invoice/lineItems/{id}/quantity'
+  value?: unknown;
+}
+
+// One changed field; from is missing when the field was added, to when it was removed
+export interface IFieldChange {
+  path: string; // e.g. 'invoice.total', 'invoice.lineItems.0.unitPrice'
+  from?: unknown;
+  to?: unknown;
+}
+
+export interface IInvoiceRevision {
+  _id?: string;
+  invoiceId: string;
+  owner?: string;
+  revision: number; // 1 for the first revision of an invoice
+  source: RevisionSource;
+  actor?: string; // user ID
+  actorEmail?: string;
+  note?: string;
+  restoredFrom?: number;
+  snapshot: IInvoiceSnapshot;
+  changes: IFieldChange[]; // against the previous revision
+  createdAt: string;
+}
+
+export interface IRevisionDiff {
+  from: number;
+  to: number;
+  changes: IFieldChange[];
+}
+
+export interface IPurchaseOrderLine {
+  lineNumber: number; // position on the PO, referenced by goods receipts
+  sku?: string;
+  description: string;
+  quantity: number;
+  unitPrice: number;
+}
+
+export interface IGoodsReceiptLine {
+  lineNumber: number;
+  quantity: number;
+}
+
+export interface IGoodsReceipt {
+  _id?: string;
+  receiptNumber?: string;
+  receivedAt: string; // ISO date
+  lines: IGoodsReceiptLine[];
+  createdBy?: string;
+  createdAt: string;
+}
+
+// Allowed deviation of invoiced from ordered or received values, in percent
+export interface IPoMatchTolerances {
+  pricePercent: number;
+  quantityPercent: number;
+}
+
+export interface IPurchaseOrder {
+  _id?: string;
+  owner?: string;
+  poNumber: string;
+  poDate?: string;
+  vendorName?: string;
+  vendorTaxId?: string;
+  vendorId?: string; // master vendor, when the PO vendor matched one
+  currency?: string;
+  receiptRequired: boolean; // invoices are matched 3-way even before goods are received
+  tolerances?: Partial<IPoMatchTolerances>; // overrides of the configured defaults
+  lines: IPurchaseOrderLine[];
+  receipts: IGoodsReceipt[];
+  // Matching key of poNumber, never returned by the API
+  poNumberKey?: string;
   createdAt: string;
   updatedAt?: string;
 }
 
+// 2-way compares invoice and PO; 3-way also compares with the goods received
+export type PoMatchType = 'two-way' | 'three-way';
+
+export type PoMatchStatus = 'matched' | 'variance' | 'no_po_number' | 'po_not_found';
+
+export type PoVarianceCode =
+  | 'price_variance'
+  | 'quantity_over_ordered'
+  | 'quantity_over_received'
+  | 'unordered_line'
+  | 'currency_mismatch'
+  | 'vendor_mismatch';
+
+export interface IPoVariance {
+  code: PoVarianceCode;
+  path: string; // invoice field the variance is about, e.g. 'invoice.lineItems.0.unitPrice'
+  message: string;
+  lineNumber?: number; // PO line
+  expected?: number;
+  actual?: number;
+}
+
+// One invoice line with the PO line it was paired to
+export interface IPoLineMatch {
+  invoiceLine?: number; // index into invoice.lineItems; missing for PO lines not on the invoice
+  lineNumber?: number; // missing for invoice lines not on the PO
+  description: string;
+  invoicedQuantity?: number;
+  invoicedUnitPrice?: number;
+  orderedQuantity?: number;
+  orderedUnitPrice?: number;
+  receivedQuantity?: number;
+  previouslyInvoiced?: number; // quantity of the PO line on other invoices
+  priceVariancePercent?: number;
+  status: 'matched' | 'variance' | 'unordered' | 'not_invoiced';
+}
+
+export interface IPoMatchReport {
+  status: PoMatchStatus;
+  poNumber?: string;
+  purchaseOrderId?: string;
+  matchType?: PoMatchType;
+  tolerances?: IPoMatchTolerances;
+  lines: IPoLineMatch[];
+  variances: IPoVariance[];
+  otherInvoices: number; // invoices against the same PO counted in previouslyInvoiced
+}
+
+// A passage of the document around search terms; highlights are offsets into text
+export interface ISearchSnippet {
+  page: number;
+  text: string;
+  highlights: Array<{ start: number; end: number }>;
+}
+
+export interface IInvoiceSearchMatch {
+  score: number;
+  snippets: ISearchSnippet[];
+}
+
 export interface IUploadResponse {
   fileId: string;
   fileName: string;
   fileSize: number;
   uploadedAt: string;
+  // Set for XML e-invoices, which are imported into an invoice on upload, and for draft uploads
+  invoiceId?: string;
+  format?: EInvoiceFormat;
+  // Existing invoices for the same file, or for the same invoice data of an imported e-invoice
+  duplicates?: IDuplicateMatch[];
+}
+
+// Outcome for one file of a batch upload; files from a ZIP archive name the archive
+export interface IBatchUploadResult {
+  fileName: string;
+  archive?: string;
+  status: 'created' | 'failed';
+  error?: string;
+  details?: string[];
+  invoiceId?: string;
+  fileId?: string;
+  format?: EInvoiceFormat; // set for XML e-invoices
+  jobId?: string; // set when extraction was queued for the invoice
+  extractionStatus?: ExtractionJobStatus; // status of that job when the report was read
+  duplicates?: IDuplicateMatch[];
+}
+
+export type BatchUploadStatus = 'queued' | 'processing' | 'completed' | 'failed';
+
+// A file as it was uploaded in a batch; an archive has one result per file in it
+export interface IBatchUploadFile {
+  fileName: string;
+  fileId?: string; // stored copy awaiting processing, removed once processed
+  status: 'queued' | 'done';
+  results: IBatchUploadResult[];
+}
+
+/**
+ * A batch upload stored for the worker, which imports its files one at a time
+ */
+export interface IUploadBatch {
+  _id?: string;
+  owner: string;
+  aiModel?: ExtractionModel; // extraction is queued for every PDF when set
+  status: BatchUploadStatus;
+  files: IBatchUploadFile[];
+  attempts: number;
+  maxAttempts: number;
+  leaseExpiresAt?: Date;
+  lockedBy?: string;
+  error?: string;
+  createdAt: string;
+  updatedAt?: string;
+  completedAt?: string;
+}
+
+// Per-file report of a batch upload, polled until the batch is completed
+export interface IBatchUploadResponse {
+  batchId: string;
+  status: BatchUploadStatus;
+  files: Omit<IBatchUploadFile, 'fileId'>[];
+  created: number;
+  failed: number;
+  queued: number;
+  error?: string;
+  createdAt: string;
+  completedAt?: string;
+}
+
+// 'openai' uses OPENAI_MODEL; 'openai:<name>' picks a model served by the OpenAI-compatible endpoint
+export type ExtractionModel = 'gemini' | 'groq' | 'heuristic' | 'openai' | `openai:${string}`;
+
+export type ExtractionProvider = 'gemini' | 'groq' | 'heuristic' | 'openai';
+
+export interface IExtractionModelInfo {
+  id: ExtractionModel;
+  name: string;
+  provider: ExtractionProvider;
+  description: string;
+  available: boolean;
 }
 
 export interface IExtractRequest {
   fileId: string;
-  model: 'gemini' | 'groq';
+  model: ExtractionModel;
+  invoiceId?: string;
 }
 
 export interface IExtractResponse {
@@ -51,14 +482,109 @@ export interface IExtractResponse {
   model: string;
 }
 
-export interface ISearchQuery {
+export type ExtractionJobStatus = 'queued' | 'processing' | 'completed' | 'failed';
+
+export interface IExtractionJob {
+  _id?: string;
+  owner: string; // owner of the file and invoice, whose templates and vendors are used
+  requestedBy?: string; // user who queued the job, e.g. an admin extracting another user's invoice
+  fileId: string;
+  aiModel: ExtractionModel;
+  invoiceId?: string;
+  // Version of the invoice when the job was queued; the result is only saved while it is unchanged
+  invoiceVersion?: number;
+  status: ExtractionJobStatus;
+  attempts: number;
+  maxAttempts: number;
+  runAt: Date;
+  leaseExpiresAt?: Date;
+  lockedBy?: string;
+  result?: {
+    vendor: IVendor;
+    invoice: IInvoiceData;
+    provenance?: IFieldProvenance[];
+    source?: ExtractionSource;
+  };
+  processingTime?: number;
+  error?: string;
+  errorDetails?: string[];
+  createdAt: string;
+  updatedAt?: string;
+  completedAt?: string;
+}
+
+export interface IExtractionJobResponse {
+  jobId: string;
+  status: ExtractionJobStatus;
+  fileId: string;
+  model: string;
+  invoiceId?: string;
+  attempts: number;
+  maxAttempts: number;
+  error?: string;
+  errorDetails?: string[];
+  result?: IExtractResponse;
+  createdAt: string;
+  completedAt?: string;
+}
+
+// Filters shared by the invoice list and its exports. Dates are inclusive YYYY-MM-DD bounds.
+export interface ISearchFilters {
   q?: string;
+  status?: InvoiceStatus[];
+  dateFrom?: string;
+  dateTo?: string;
+  createdFrom?: string;
+  createdTo?: string;
+  totalMin?: number;
+  totalMax?: number;
+  currency?: string[];
+  vendor?: string;
+  hasPoNumber?: boolean;
+}
+
+export type SearchSortField =
+  | 'relevance'
+  | 'createdAt'
+  | 'updatedAt'
+  | 'vendor.name'
+  | 'invoice.number'
+  | 'invoice.date'
+  | 'invoice.total';
+
+export interface ISearchQuery extends ISearchFilters {
   page?: number;
   limit?: number;
-  sortBy?: 'createdAt' | 'updatedAt' | 'vendor.name' | 'invoice.number';
+  sortBy?: SearchSortField;
   sortOrder?: 'asc' | 'desc';
 }
 
+export type TableExportFormat = 'csv' | 'xlsx';
+
+export type ExportFormat = 'ubl' | 'accounting' | TableExportFormat;
+
+// One row per invoice, or one row per line item
+export type ExportLayout = 'header' | 'lines';
+
+export type AccountingProfileId = 'quickbooks-iif' | 'xero-csv' | 'datev';
+
+// Per-user settings for accounting exports, stored in User.preferences.accounting
+export interface IAccountingPreferences {
+  defaultGlAccount?: string; // used when an invoice has no GL account of its own
+  payablesAccount?: string; // accounts payable / creditor account
+  taxAccount?: string; // input tax account, QuickBooks only
+  datevConsultantNumber?: string; // DATEV Beraternummer
+  datevClientNumber?: string; // DATEV Mandantennummer
+}
+
+// Exports cover every matching invoice, so there is no paging
+export interface IExportQuery extends Omit<ISearchQuery, 'page' | 'limit'> {
+  format: ExportFormat;
+  layout: ExportLayout;
+  profile?: AccountingProfileId;
+  ids?: string[];
+}
+
 export interface IApiResponse<T = any> {
   success: boolean;
   data?: T;
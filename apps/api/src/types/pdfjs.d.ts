@@ -0,0 +1,14 @@
+// pdf-parse ships this pdf.js build without type declarations; only what the API uses is declared
+declare module 'pdf-parse/lib/pdf.js/v1.10.100/build/pdf.js' {
+  interface IPdfJsDocument {
+    getAttachments(): Promise<Record<string, { filename: string; content: Uint8Array }> | null>;
+    destroy(): void;
+  }
+
+  const PDFJS: {
+    disableWorker: boolean;
+    getDocument(data: Uint8Array): Promise<IPdfJsDocument>;
+  };
+
+  export = PDFJS;
+}
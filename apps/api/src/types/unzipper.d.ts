@@ -0,0 +1,24 @@
+// unzipper ships without type declarations; only what the API uses is declared
+declare module 'unzipper' {
+  import { Readable } from 'stream';
+
+  interface IZipSource {
+    size(): Promise<number>;
+    stream(offset: number, length?: number): Readable;
+  }
+
+  export interface IZipEntry {
+    path: string;
+    type: 'Directory' | 'File';
+    uncompressedSize: number;
+    stream(password?: string): Readable;
+  }
+
+  interface IZipDirectory {
+    files: IZipEntry[];
+  }
+
+  export const Open: {
+    custom(source: IZipSource): Promise<IZipDirectory>;
+  };
+}
@@ -0,0 +1,81 @@
+import { checkInvoiceArithmetic } from '../arithmeticChecks';
+import { IInvoiceData } from '../../types/invoice.types';
+
+const invoice: IInvoiceData = {
+  number: 'INV-1',
+  date: '2024-05-01',
+  taxPercent: 19,
+  subtotal: 117.99,
+  total: 140.41,
+  lineItems: [
+    { description: 'Consulting', quantity: 2, unitPrice: 50, total: 100 },
+    { description: 'Licence', quantity: 1, unitPrice: 19.99, discount: 10, total: 17.99 }
+  ]
+};
+
+describe('checkInvoiceArithmetic', () => {
+  it('accepts an invoice whose amounts add up, discounts and rounding included', () => {
+    expect(checkInvoiceArithmetic(invoice)).toEqual([]);
+  });
+
+  it('flags a line total that is not quantity × unit price', () => {
+    const warnings = checkInvoiceArithmetic({
+      ...invoice,
+      subtotal: undefined,
+      total: undefined,
+      lineItems: [{ description: 'Consulting', quantity: 2, unitPrice: 50, total: 90 }]
+    });
+
+    expect(warnings).toEqual([expect.objectContaining({
+      code: 'line_total_mismatch',
+      path: 'invoice.lineItems.0.total',
+      expected: 100,
+      actual: 90,
+      difference: -10
+    })]);
+  });
+
+  it('flags a subtotal that is not the sum of the lines', () => {
+    const warnings = checkInvoiceArithmetic({ ...invoice, subtotal: 127.99, total: undefined });
+
+    expect(warnings.map(warning => [warning.code, warning.expected])).toEqual([['subtotal_mismatch', 117.99]]);
+  });
+
+  it('flags a total that is not subtotal, charges and tax', () => {
+    const warnings = checkInvoiceArithmetic({
+      ...invoice,
+      charges: [{ type: 'shipping', amount: 10 }],
+      total: 140.41
+    });
+
+    // 117.99 + 10 shipping + 19% tax of 127.99
+    expect(warnings).toEqual([expect.objectContaining({ code: 'total_mismatch', expected: 152.31, actual: 140.41 })]);
+  });
+
+  it('checks each rate of a printed tax summary', () => {
+    const warnings = checkInvoiceArithmetic({
+      ...invoice,
+      taxPercent: undefined,
+      total: 138.61,
+      taxBreakdown: [
+        { taxPercent: 19, taxableAmount: 100, taxAmount: 19 },
+        { taxPercent: 7, taxableAmount: 17.99, taxAmount: 1.62 }
+      ]
+    });
+
+    expect(warnings).toEqual([expect.objectContaining({
+      code: 'tax_amount_mismatch',
+      path: 'invoice.taxBreakdown.1.taxAmount',
+      expected: 1.26
+    })]);
+  });
+
+  it('skips checks whose amounts are missing', () => {
+    expect(checkInvoiceArithmetic({
+      number: 'INV-1',
+      date: '2024-05-01',
+      total: 500,
+      lineItems: [{ description: 'Consulting', quantity: 2, unitPrice: 50, total: 100 }]
+    })).toEqual([]);
+  });
+});
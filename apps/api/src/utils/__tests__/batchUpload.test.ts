@@ -0,0 +1,85 @@
+import { Readable } from 'stream';
+import JSZip from 'jszip';
+import { IBatchFile, readUploadFiles } from '../batchUpload';
+
+const MAX_SIZE = 1024 * 1024;
+const pdf = Buffer.from('%PDF-1.7\n%…');
+
+const readAll = async (
+  { fileName, buffer }: { fileName: string; buffer: Buffer },
+  skip?: (fileName: string) => boolean
+): Promise<IBatchFile[]> => {
+  const upload = { fileName, size: buffer.length, read: (start: number) => Readable.from([buffer.subarray(start)]) };
+  const files: IBatchFile[] = [];
+  for await (const file of readUploadFiles(upload, MAX_SIZE, skip)) {
+    files.push(file);
+  }
+  return files;
+};
+
+const zip = async (entries: Record<string, Buffer | string>): Promise<Buffer> => {
+  const archive = new JSZip();
+  Object.entries(entries).forEach(([name, content]) => archive.file(name, content));
+  return archive.generateAsync({ type: 'nodebuffer', compression: 'DEFLATE' });
+};
+
+describe('readUploadFiles', () => {
+  it('checks a single file by its content', async () => {
+    expect(await readAll({ fileName: 'invoice.pdf', buffer: pdf })).toEqual([
+      { fileName: 'invoice.pdf', type: 'pdf', buffer: pdf }
+    ]);
+    expect(await readAll({ fileName: 'invoice.pdf', buffer: Buffer.from('<html>') })).toEqual([
+      { fileName: 'invoice.pdf', error: 'File is not a valid PDF' }
+    ]);
+    expect(await readAll({ fileName: 'invoice.docx', buffer: pdf })).toEqual([
+      { fileName: 'invoice.docx', error: 'Only PDF files, XML e-invoices and ZIP archives are allowed' }
+    ]);
+  });
+
+  it('unpacks every file of an archive, skipping folders and hidden files', async () => {
+    const buffer = await zip({
+      'march/invoice.pdf': pdf,
+      'march/invoice.xml': '<Invoice/>',
+      'march/.DS_Store': 'x',
+      '__MACOSX/march/._invoice.pdf': 'x',
+      'nested.zip': 'PK'
+    });
+
+    const files = await readAll({ fileName: 'march.zip', buffer });
+
+    expect(files.map(({ fileName, type, error }) => ({ fileName, type, error }))).toEqual([
+      { fileName: 'march/invoice.pdf', type: 'pdf', error: undefined },
+      { fileName: 'march/invoice.xml', type: 'xml', error: undefined },
+      { fileName: 'nested.zip', type: undefined, error: 'Archives inside archives are not unpacked' }
+    ]);
+    expect(files.every(file => file.archive === 'march.zip')).toBe(true);
+  });
+
+  it('rejects a single file over the size limit', async () => {
+    expect(await readAll({ fileName: 'large.pdf', buffer: Buffer.concat([pdf, Buffer.alloc(MAX_SIZE)]) })).toEqual([
+      { fileName: 'large.pdf', error: 'File too large. Maximum size allowed is 1MB' }
+    ]);
+  });
+
+  it('skips files that were already reported', async () => {
+    const buffer = await zip({ 'a.pdf': pdf, 'b.pdf': pdf, 'c.pdf': pdf });
+
+    const files = await readAll({ fileName: 'march.zip', buffer }, fileName => fileName !== 'b.pdf');
+
+    expect(files.map(file => file.fileName)).toEqual(['b.pdf']);
+  });
+
+  it('rejects archive entries over the size limit without unpacking them whole', async () => {
+    const buffer = await zip({ 'large.pdf': Buffer.concat([pdf, Buffer.alloc(MAX_SIZE)]) });
+
+    expect(await readAll({ fileName: 'large.zip', buffer })).toEqual([
+      { fileName: 'large.pdf', archive: 'large.zip', error: 'File too large. Maximum size allowed is 1MB' }
+    ]);
+  });
+
+  it('reports an archive that cannot be read', async () => {
+    expect(await readAll({ fileName: 'broken.zip', buffer: Buffer.from('not a zip') })).toEqual([
+      { fileName: 'broken.zip', error: 'File is not a valid ZIP archive' }
+    ]);
+  });
+});
@@ -0,0 +1,119 @@
+import { parseCiiInvoice } from '../ciiInvoice';
+import { parseEInvoice } from '../eInvoice';
+
+const cii = `<?xml version="1.0" encoding="UTF-8"?>
+<rsm:CrossIndustryInvoice xmlns:rsm="urn:un:unece:uncefact:data:standard:CrossIndustryInvoice:100"
+  xmlns:ram="urn:un:unece:uncefact:data:standard:ReusableAggregateBusinessInformationEntity:100"
+  xmlns:udt="urn:un:unece:uncefact:data:standard:UnqualifiedDataType:100">
+  <rsm:ExchangedDocumentContext>
+    <ram:GuidelineSpecifiedDocumentContextParameter><ram:ID>urn:cen.eu:en16931:2017</ram:ID></ram:GuidelineSpecifiedDocumentContextParameter>
+  </rsm:ExchangedDocumentContext>
+  <rsm:ExchangedDocument>
+    <ram:ID>FX-0042</ram:ID>
+    <ram:TypeCode>380</ram:TypeCode>
+    <ram:IssueDateTime><udt:DateTimeString format="102">20240501</udt:DateTimeString></ram:IssueDateTime>
+    <ram:IncludedNote><ram:Content>Thank you for your order</ram:Content></ram:IncludedNote>
+  </rsm:ExchangedDocument>
+  <rsm:SupplyChainTradeTransaction>
+    <ram:IncludedSupplyChainTradeLineItem>
+      <ram:SpecifiedTradeProduct><ram:SellerAssignedID>TNR-1</ram:SellerAssignedID><ram:Name>Toner</ram:Name></ram:SpecifiedTradeProduct>
+      <ram:SpecifiedLineTradeAgreement>
+        <ram:GrossPriceProductTradePrice><ram:ChargeAmount>40.00</ram:ChargeAmount></ram:GrossPriceProductTradePrice>
+        <ram:NetPriceProductTradePrice><ram:ChargeAmount>36.00</ram:ChargeAmount></ram:NetPriceProductTradePrice>
+      </ram:SpecifiedLineTradeAgreement>
+      <ram:SpecifiedLineTradeDelivery><ram:BilledQuantity unitCode="C62">2</ram:BilledQuantity></ram:SpecifiedLineTradeDelivery>
+      <ram:SpecifiedLineTradeSettlement>
+        <ram:ApplicableTradeTax><ram:RateApplicablePercent>20</ram:RateApplicablePercent></ram:ApplicableTradeTax>
+        <ram:SpecifiedTradeSettlementLineMonetarySummation><ram:LineTotalAmount>72.00</ram:LineTotalAmount></ram:SpecifiedTradeSettlementLineMonetarySummation>
+      </ram:SpecifiedLineTradeSettlement>
+    </ram:IncludedSupplyChainTradeLineItem>
+    <ram:ApplicableHeaderTradeAgreement>
+      <ram:SellerTradeParty>
+        <ram:Name>Bureau Dupont SARL</ram:Name>
+        <ram:PostalTradeAddress>
+          <ram:PostcodeCode>75001</ram:PostcodeCode>
+          <ram:LineOne>1 rue de Rivoli</ram:LineOne>
+          <ram:CityName>Paris</ram:CityName>
+          <ram:CountryID>FR</ram:CountryID>
+        </ram:PostalTradeAddress>
+        <ram:SpecifiedTaxRegistration><ram:ID schemeID="FC">123 456 789</ram:ID></ram:SpecifiedTaxRegistration>
+        <ram:SpecifiedTaxRegistration><ram:ID schemeID="VA">FR12345678901</ram:ID></ram:SpecifiedTaxRegistration>
+      </ram:SellerTradeParty>
+      <ram:BuyerTradeParty><ram:Name>Globex Ltd</ram:Name></ram:BuyerTradeParty>
+      <ram:BuyerOrderReferencedDocument><ram:IssuerAssignedID>PO-4471</ram:IssuerAssignedID></ram:BuyerOrderReferencedDocument>
+    </ram:ApplicableHeaderTradeAgreement>
+    <ram:ApplicableHeaderTradeSettlement>
+      <ram:InvoiceCurrencyCode>EUR</ram:InvoiceCurrencyCode>
+      <ram:ApplicableTradeTax>
+        <ram:CalculatedAmount>13.40</ram:CalculatedAmount>
+        <ram:BasisAmount>67.00</ram:BasisAmount>
+        <ram:RateApplicablePercent>20</ram:RateApplicablePercent>
+      </ram:ApplicableTradeTax>
+      <ram:SpecifiedTradeAllowanceCharge>
+        <ram:ChargeIndicator><udt:Indicator>false</udt:Indicator></ram:ChargeIndicator>
+        <ram:ActualAmount>5.00</ram:ActualAmount>
+        <ram:Reason>Loyalty discount</ram:Reason>
+      </ram:SpecifiedTradeAllowanceCharge>
+      <ram:SpecifiedTradePaymentTerms>
+        <ram:Description>30 days net</ram:Description>
+        <ram:DueDateDateTime><udt:DateTimeString format="102">20240531</udt:DateTimeString></ram:DueDateDateTime>
+      </ram:SpecifiedTradePaymentTerms>
+      <ram:SpecifiedTradeSettlementHeaderMonetarySummation>
+        <ram:LineTotalAmount>72.00</ram:LineTotalAmount>
+        <ram:TaxTotalAmount currencyID="EUR">13.40</ram:TaxTotalAmount>
+        <ram:GrandTotalAmount>80.40</ram:GrandTotalAmount>
+      </ram:SpecifiedTradeSettlementHeaderMonetarySummation>
+    </ram:ApplicableHeaderTradeSettlement>
+  </rsm:SupplyChainTradeTransaction>
+</rsm:CrossIndustryInvoice>`;
+
+describe('parseCiiInvoice', () => {
+  it('maps the header, seller, buyer and payment terms', () => {
+    const { document } = parseCiiInvoice(cii, 'factur-x.xml')!;
+
+    expect(document).toMatchObject({
+      format: 'cii',
+      documentType: 'invoice',
+      specification: 'urn:cen.eu:en16931:2017',
+      vendor: { name: 'Bureau Dupont SARL', taxId: 'FR12345678901', address: '1 rue de Rivoli, 75001 Paris, FR' },
+      buyer: { name: 'Globex Ltd' },
+      dueDate: '2024-05-31',
+      taxTotal: 13.4,
+      paymentTerms: '30 days net',
+      notes: ['Thank you for your order']
+    });
+    expect(document.invoice).toMatchObject({
+      number: 'FX-0042',
+      date: '2024-05-01',
+      currency: 'EUR',
+      poNumber: 'PO-4471',
+      subtotal: 72,
+      taxPercent: 20,
+      total: 80.4,
+      charges: [{ type: 'other', description: 'Loyalty discount', amount: -5 }],
+      taxBreakdown: [{ taxPercent: 20, taxableAmount: 67, taxAmount: 13.4 }]
+    });
+  });
+
+  it('reads a discount taken off the gross price', () => {
+    const { document } = parseCiiInvoice(cii)!;
+
+    expect(document.invoice.lineItems).toEqual([
+      { code: 'TNR-1', description: 'Toner', quantity: 2, unit: 'C62', unitPrice: 40, discount: 10, taxPercent: 20, total: 72 }
+    ]);
+  });
+
+  it('tells credit notes by their type code', () => {
+    const { document } = parseCiiInvoice(cii.replace('<ram:TypeCode>380', '<ram:TypeCode>381'))!;
+
+    expect(document.documentType).toBe('credit-note');
+  });
+});
+
+describe('parseEInvoice', () => {
+  it('reads CII as well as UBL, and nothing else', () => {
+    expect(parseEInvoice(Buffer.from(cii))?.document.format).toBe('cii');
+    expect(parseEInvoice('<Invoice><ID>1</ID></Invoice>')?.document.format).toBe('ubl');
+    expect(parseEInvoice('<html><body /></html>')).toBeUndefined();
+  });
+});
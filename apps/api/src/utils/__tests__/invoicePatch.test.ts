@@ -0,0 +1,90 @@
+import { applyInvoicePatch, InvoicePatchError, InvoicePatchTestError, InvoiceEdits } from '../invoicePatch';
+import { normalizeLineItems } from '../lineItems';
+
+const line = (id: string, position: number, description: string) => ({
+  id,
+  position,
+  description,
+  quantity: 1,
+  unitPrice: 10,
+  total: 10
+});
+
+const invoice: InvoiceEdits = {
+  vendor: { name: 'Acme GmbH' },
+  invoice: {
+    number: 'INV-1',
+    date: '2024-05-01',
+    poNumber: 'PO-1001',
+    lineItems: [line('a', 1, 'Consulting'), line('b', 2, 'Travel'), line('c', 3, 'Hosting')]
+  }
+};
+
+// Descriptions in the order the invoice will store them
+const storedOrder = (edits: InvoiceEdits) =>
+  normalizeLineItems(edits.invoice.lineItems).map(item => item.description);
+
+describe('applyInvoicePatch', () => {
+  it('changes only the fields the patch names', () => {
+    const { edits, changed } = applyInvoicePatch(invoice, [
+      { op: 'replace', path: '/invoice/poNumber', value: 'PO-1002' }
+    ]);
+
+    expect(edits.invoice.poNumber).toBe('PO-1002');
+    expect(changed).toEqual(['invoice']);
+    expect(invoice.invoice.poNumber).toBe('PO-1001');
+  });
+
+  it('inserts a line before the one it is added at', () => {
+    const { edits } = applyInvoicePatch(invoice, [
+      { op: 'add', path: '/invoice/lineItems/b', value: { description: 'Freight', quantity: 1, unitPrice: 5, total: 5 } }
+    ]);
+
+    expect(storedOrder(edits)).toEqual(['Consulting', 'Freight', 'Travel', 'Hosting']);
+    expect(edits.invoice.lineItems.map(item => item.position)).toEqual([1, 2, 3, 4]);
+  });
+
+  it('keeps the place and ID of a line replaced without a position', () => {
+    const { edits } = applyInvoicePatch(invoice, [
+      { op: 'replace', path: '/invoice/lineItems/b', value: { description: 'Train fare', quantity: 2, unitPrice: 40, total: 80 } }
+    ]);
+
+    expect(storedOrder(edits)).toEqual(['Consulting', 'Train fare', 'Hosting']);
+    expect(edits.invoice.lineItems[1]).toMatchObject({ id: 'b', position: 2 });
+  });
+
+  it('appends a line with -', () => {
+    const { edits } = applyInvoicePatch(invoice, [
+      { op: 'add', path: '/invoice/lineItems/-', value: { description: 'Support', quantity: 1, unitPrice: 15, total: 15 } }
+    ]);
+
+    expect(storedOrder(edits)).toEqual(['Consulting', 'Travel', 'Hosting', 'Support']);
+  });
+
+  it('renumbers the lines after one is removed', () => {
+    const { edits } = applyInvoicePatch(invoice, [{ op: 'remove', path: '/invoice/lineItems/a' }]);
+
+    expect(edits.invoice.lineItems.map(item => [item.id, item.position])).toEqual([['b', 1], ['c', 2]]);
+  });
+
+  it('rejects patching a line position', () => {
+    expect(() => applyInvoicePatch(invoice, [
+      { op: 'replace', path: '/invoice/lineItems/c/position', value: 1 }
+    ])).toThrow(InvoicePatchError);
+  });
+
+  it('rejects paths that do not exist or may not be patched', () => {
+    expect(() => applyInvoicePatch(invoice, [{ op: 'remove', path: '/invoice/lineItems/z' }])).toThrow(InvoicePatchError);
+    expect(() => applyInvoicePatch(invoice, [{ op: 'replace', path: '/status', value: 'paid' }])).toThrow(InvoicePatchError);
+    expect(() => applyInvoicePatch(invoice, [{ op: 'add', path: '/vendor/__proto__', value: {} }])).toThrow(InvoicePatchError);
+  });
+
+  it('fails a test on a changed or deleted value', () => {
+    expect(() => applyInvoicePatch(invoice, [
+      { op: 'test', path: '/invoice/poNumber', value: 'PO-9999' }
+    ])).toThrow(InvoicePatchTestError);
+    expect(() => applyInvoicePatch(invoice, [
+      { op: 'test', path: '/invoice/lineItems/z/quantity', value: 1 }
+    ])).toThrow(InvoicePatchTestError);
+  });
+});
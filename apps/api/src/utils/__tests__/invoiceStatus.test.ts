@@ -0,0 +1,31 @@
+import { canTransition, getAllowedTransitions, isEditable } from '../invoiceStatus';
+
+describe('canTransition', () => {
+  it('only approves invoices in review', () => {
+    expect(canTransition('draft', 'approved')).toBe(false);
+    expect(canTransition('extracted', 'approved')).toBe(false);
+    expect(canTransition('rejected', 'approved')).toBe(false);
+    expect(canTransition('in_review', 'approved')).toBe(true);
+  });
+
+  it('reopens approved invoices for review', () => {
+    expect(getAllowedTransitions('approved')).toEqual(['paid', 'in_review']);
+  });
+
+  it('ends at paid', () => {
+    expect(getAllowedTransitions('paid')).toEqual([]);
+  });
+});
+
+describe('isEditable', () => {
+  it('locks approved and paid invoices', () => {
+    expect(isEditable('approved')).toBe(false);
+    expect(isEditable('paid')).toBe(false);
+  });
+
+  it('allows editing before approval, also without a status', () => {
+    expect(isEditable('in_review')).toBe(true);
+    expect(isEditable('rejected')).toBe(true);
+    expect(isEditable(undefined)).toBe(true);
+  });
+});
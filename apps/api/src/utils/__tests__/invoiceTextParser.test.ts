@@ -0,0 +1,84 @@
+import { parseAmount, parseDate, parseInvoiceText } from '../invoiceTextParser';
+
+describe('parseAmount', () => {
+  it('reads the decimal separator from the number', () => {
+    expect(parseAmount('1,234.56')).toBe(1234.56);
+    expect(parseAmount('1.234,56')).toBe(1234.56);
+    expect(parseAmount('12,5')).toBe(12.5);
+    expect(parseAmount('1.234.567')).toBe(1234567);
+  });
+
+  it('reads currency symbols and negative amounts', () => {
+    expect(parseAmount('$ 99')).toBe(99);
+    expect(parseAmount('(12.00)')).toBe(-12);
+    expect(parseAmount('-5,00 €')).toBe(-5);
+  });
+
+  it('rejects what is not a number', () => {
+    expect(parseAmount('n/a')).toBeUndefined();
+  });
+});
+
+describe('parseDate', () => {
+  it('normalizes the supported layouts to YYYY-MM-DD', () => {
+    expect(parseDate('2024-05-01')).toBe('2024-05-01');
+    expect(parseDate('01.05.2024')).toBe('2024-05-01');
+    expect(parseDate('05/01/2024')).toBe('2024-05-01');
+    expect(parseDate('25/12/24')).toBe('2024-12-25');
+    expect(parseDate('1st May 2024')).toBe('2024-05-01');
+    expect(parseDate('Sept 3, 2024')).toBe('2024-09-03');
+  });
+
+  it('rejects dates that do not exist', () => {
+    expect(parseDate('31.02.2024')).toBeUndefined();
+    expect(parseDate('someday')).toBeUndefined();
+  });
+});
+
+describe('parseInvoiceText', () => {
+  const text = [
+    'From: Acme Supplies Ltd',
+    'VAT No: GB123456789',
+    'Invoice No: INV-2024-017',
+    'Invoice Date: 01.05.2024',
+    'PO Number: PO-4471',
+    'Description Qty Unit Price Total',
+    'Printer paper 10 4.50 45.00',
+    'Toner cartridge 2 35.00 70.00',
+    'Subtotal 115.00',
+    'VAT 20% 23.00',
+    'Total Due £138.00'
+  ].join('\n');
+
+  it('reads the labelled fields and table rows', () => {
+    const { vendor, invoice } = parseInvoiceText(text);
+
+    expect(vendor).toMatchObject({ name: 'Acme Supplies Ltd', taxId: 'GB123456789' });
+    expect(invoice).toMatchObject({
+      number: 'INV-2024-017',
+      date: '2024-05-01',
+      poNumber: 'PO-4471',
+      currency: 'GBP',
+      subtotal: 115,
+      taxPercent: 20,
+      total: 138
+    });
+    expect(invoice.lineItems).toEqual([
+      expect.objectContaining({ description: 'Printer paper', quantity: 10, unitPrice: 4.5, total: 45 }),
+      expect.objectContaining({ description: 'Toner cartridge', quantity: 2, unitPrice: 35, total: 70 })
+    ]);
+  });
+
+  it('records the page and confidence of each value', () => {
+    const { provenance } = parseInvoiceText(text, ['Acme Supplies Ltd', text]);
+
+    expect(provenance).toContainEqual(expect.objectContaining({ path: 'invoice.number', confidence: 0.9, page: 2 }));
+  });
+
+  it('leaves fields empty rather than guessing', () => {
+    const { invoice } = parseInvoiceText('Thank you for your business');
+
+    expect(invoice).toMatchObject({ number: '', date: '', lineItems: [] });
+    expect(invoice.total).toBeUndefined();
+  });
+});
@@ -0,0 +1,53 @@
+import { computeTaxBreakdown, getChargeLabel, getChargeType, getLineNet } from '../invoiceTotals';
+
+describe('getLineNet', () => {
+  it('takes the discount off quantity × unit price', () => {
+    expect(getLineNet({ quantity: 4, unitPrice: 25, discount: 10 })).toBe(90);
+  });
+});
+
+describe('computeTaxBreakdown', () => {
+  it('sums lines and charges per rate, falling back to the invoice rate', () => {
+    expect(computeTaxBreakdown({
+      number: 'INV-1',
+      date: '2024-05-01',
+      taxPercent: 19,
+      lineItems: [
+        { description: 'Consulting', quantity: 1, unitPrice: 100, total: 100 },
+        { description: 'Books', quantity: 1, unitPrice: 50, taxPercent: 7, total: 50 }
+      ],
+      charges: [{ type: 'shipping', amount: 10 }]
+    })).toEqual([
+      { taxPercent: 7, taxableAmount: 50, taxAmount: 3.5 },
+      { taxPercent: 19, taxableAmount: 110, taxAmount: 20.9 }
+    ]);
+  });
+
+  it('taxes the subtotal of an invoice without lines', () => {
+    expect(computeTaxBreakdown({ number: 'INV-1', date: '', taxPercent: 10, subtotal: 200, lineItems: [] }))
+      .toEqual([{ taxPercent: 10, taxableAmount: 200, taxAmount: 20 }]);
+  });
+
+  it('cannot tell the tax when an amount has no rate', () => {
+    expect(computeTaxBreakdown({
+      number: 'INV-1',
+      date: '',
+      lineItems: [{ description: 'Consulting', quantity: 1, unitPrice: 100, total: 100 }]
+    })).toBeUndefined();
+  });
+});
+
+describe('getChargeType', () => {
+  it('recognizes shipping by reason code or text', () => {
+    expect(getChargeType('FC')).toBe('shipping');
+    expect(getChargeType(undefined, 'Versandkosten')).toBe('shipping');
+    expect(getChargeType('ABL', 'Packaging')).toBe('other');
+  });
+});
+
+describe('getChargeLabel', () => {
+  it('names a charge without a description after its type', () => {
+    expect(getChargeLabel({ type: 'shipping', amount: 5 })).toBe('Shipping');
+    expect(getChargeLabel({ type: 'other', description: 'Packaging', amount: 5 })).toBe('Packaging');
+  });
+});
@@ -0,0 +1,31 @@
+import { getInvoiceETag, matchesIfMatch, versionFilter } from '../invoiceVersion';
+
+describe('getInvoiceETag', () => {
+  it('counts invoices stored without a version as version 0', () => {
+    expect(getInvoiceETag({ version: 3 })).toBe('"3"');
+    expect(getInvoiceETag({})).toBe('"0"');
+  });
+});
+
+describe('versionFilter', () => {
+  it('also matches a missing version at version 0', () => {
+    expect(versionFilter({ version: 3 })).toEqual({ version: 3 });
+    expect(versionFilter({})).toEqual({ version: null });
+  });
+});
+
+describe('matchesIfMatch', () => {
+  it('matches without a header or with *', () => {
+    expect(matchesIfMatch(undefined, { version: 3 })).toBe(true);
+    expect(matchesIfMatch(' * ', { version: 3 })).toBe(true);
+  });
+
+  it('matches when one of the listed ETags is the current one', () => {
+    expect(matchesIfMatch('"2", "3"', { version: 3 })).toBe(true);
+    expect(matchesIfMatch('"2"', { version: 3 })).toBe(false);
+  });
+
+  it('never matches weak ETags', () => {
+    expect(matchesIfMatch('W/"3"', { version: 3 })).toBe(false);
+  });
+});
@@ -0,0 +1,95 @@
+import Invoice, { FULL_TEXT_INDEX } from '../../models/Invoice';
+import User from '../../models/User';
+import { backfillOwners, replaceLegacyTextIndexes } from '../migrations';
+
+describe('replaceLegacyTextIndexes', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('drops the old text index and builds the full-text index', async () => {
+    jest.spyOn(Invoice.collection, 'indexes').mockResolvedValue([
+      { name: '_id_', key: { _id: 1 } },
+      { name: 'vendor.name_text_invoice.number_text', key: { _fts: 'text', _ftsx: 1 } },
+      { name: 'createdAt_-1', key: { createdAt: -1 } }
+    ]);
+    const dropIndex = jest.spyOn(Invoice.collection, 'dropIndex').mockResolvedValue({});
+    const createIndexes = jest.spyOn(Invoice, 'createIndexes').mockResolvedValue(undefined);
+
+    await replaceLegacyTextIndexes();
+
+    expect(dropIndex).toHaveBeenCalledTimes(1);
+    expect(dropIndex).toHaveBeenCalledWith('vendor.name_text_invoice.number_text');
+    expect(createIndexes).toHaveBeenCalled();
+  });
+
+  it('leaves a database that already has the full-text index alone', async () => {
+    jest.spyOn(Invoice.collection, 'indexes').mockResolvedValue([
+      { name: '_id_', key: { _id: 1 } },
+      { name: FULL_TEXT_INDEX, key: { _fts: 'text', _ftsx: 1 } }
+    ]);
+    const dropIndex = jest.spyOn(Invoice.collection, 'dropIndex');
+    const createIndexes = jest.spyOn(Invoice, 'createIndexes');
+
+    await replaceLegacyTextIndexes();
+
+    expect(dropIndex).not.toHaveBeenCalled();
+    expect(createIndexes).not.toHaveBeenCalled();
+  });
+});
+
+describe('backfillOwners', () => {
+  // Stands in for the query User.findOne builds, resolving to `user`
+  const mockUserQuery = (user: { _id: string } | null) => {
+    const query = { sort: () => query, select: () => query, lean: () => Promise.resolve(user) };
+    return jest.spyOn(User, 'findOne').mockReturnValue(query as unknown as ReturnType<typeof User.findOne>);
+  };
+
+  afterEach(() => {
+    delete process.env.LEGACY_OWNER_EMAIL;
+    jest.restoreAllMocks();
+  });
+
+  it('assigns invoices without an owner to the first admin', async () => {
+    jest.spyOn(Invoice, 'countDocuments').mockResolvedValue(2 as never);
+    const findOne = mockUserQuery({ _id: 'admin-1' });
+    const updateMany = jest.spyOn(Invoice, 'updateMany').mockResolvedValue({} as never);
+
+    await backfillOwners();
+
+    expect(findOne).toHaveBeenCalledWith({ role: 'admin' });
+    expect(updateMany).toHaveBeenCalledWith({ owner: { $in: [null, ''] } }, { $set: { owner: 'admin-1' } });
+  });
+
+  it('assigns them to LEGACY_OWNER_EMAIL when set', async () => {
+    process.env.LEGACY_OWNER_EMAIL = 'Owner@Example.com';
+    jest.spyOn(Invoice, 'countDocuments').mockResolvedValue(1 as never);
+    const findOne = mockUserQuery({ _id: 'user-7' });
+    const updateMany = jest.spyOn(Invoice, 'updateMany').mockResolvedValue({} as never);
+
+    await backfillOwners();
+
+    expect(findOne).toHaveBeenCalledWith({ email: 'owner@example.com' });
+    expect(updateMany).toHaveBeenCalledWith({ owner: { $in: [null, ''] } }, { $set: { owner: 'user-7' } });
+  });
+
+  it('leaves invoices alone when there is nobody to assign them to', async () => {
+    jest.spyOn(Invoice, 'countDocuments').mockResolvedValue(1 as never);
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    mockUserQuery(null);
+    const updateMany = jest.spyOn(Invoice, 'updateMany');
+
+    await backfillOwners();
+
+    expect(updateMany).not.toHaveBeenCalled();
+  });
+
+  it('does nothing once every invoice has an owner', async () => {
+    jest.spyOn(Invoice, 'countDocuments').mockResolvedValue(0 as never);
+    const findOne = jest.spyOn(User, 'findOne');
+
+    await backfillOwners();
+
+    expect(findOne).not.toHaveBeenCalled();
+  });
+});
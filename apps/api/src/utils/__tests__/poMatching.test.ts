@@ -0,0 +1,118 @@
+import {
+  getInvoicedQuantities,
+  matchPurchaseOrder,
+  normalizePoNumber,
+  pairLineItems,
+  poNumberPattern
+} from '../poMatching';
+import { ILineItem, IPurchaseOrder } from '../../types/invoice.types';
+
+const purchaseOrder: IPurchaseOrder = {
+  poNumber: 'PO-4500-123',
+  currency: 'EUR',
+  receiptRequired: false,
+  lines: [
+    { lineNumber: 10, sku: 'TNR-1', description: 'Toner cartridge black', quantity: 10, unitPrice: 40 },
+    { lineNumber: 20, description: 'Printer paper A4, 500 sheets', quantity: 50, unitPrice: 4.5 }
+  ],
+  receipts: [],
+  createdAt: '2024-04-01T00:00:00.000Z'
+};
+
+const line = (description: string, quantity: number, unitPrice: number, code?: string): ILineItem => ({
+  code,
+  description,
+  quantity,
+  unitPrice,
+  total: quantity * unitPrice
+});
+
+const tolerances = { pricePercent: 2, quantityPercent: 0 };
+
+const match = (lineItems: ILineItem[], po = purchaseOrder, previouslyInvoiced = new Map<number, number>()) =>
+  matchPurchaseOrder({
+    invoice: { invoice: { number: 'INV-1', date: '2024-05-01', currency: 'EUR', lineItems } },
+    purchaseOrder: po,
+    tolerances,
+    previouslyInvoiced,
+    otherInvoices: previouslyInvoiced.size
+  });
+
+describe('PO numbers', () => {
+  it('match however they were printed', () => {
+    const key = normalizePoNumber('po 4500-123');
+
+    expect(key).toBe('PO4500123');
+    expect(poNumberPattern(key).test('PO-4500 123')).toBe(true);
+    expect(poNumberPattern(key).test('PO-4500-1234')).toBe(false);
+  });
+});
+
+describe('pairLineItems', () => {
+  it('pairs lines by SKU or similar description', () => {
+    const pairs = pairLineItems([
+      line('Paper A4 500 sheets', 20, 4.5),
+      line('Black toner', 2, 40, 'tnr-1'),
+      line('Stapler', 1, 12)
+    ], purchaseOrder.lines);
+
+    expect(Array.from(pairs.entries())).toEqual([[1, 10], [0, 20]]);
+  });
+});
+
+describe('matchPurchaseOrder', () => {
+  it('matches an invoice within the PO, leaving the rest of the order open', () => {
+    const report = match([line('Toner cartridge black', 4, 40.5, 'TNR-1')]);
+
+    expect(report).toMatchObject({ status: 'matched', matchType: 'two-way', variances: [] });
+    expect(report.lines).toEqual([
+      expect.objectContaining({ lineNumber: 10, status: 'matched', priceVariancePercent: 1.25 }),
+      expect.objectContaining({ lineNumber: 20, status: 'not_invoiced' })
+    ]);
+  });
+
+  it('flags prices beyond the tolerance and lines that were not ordered', () => {
+    const report = match([line('Toner cartridge black', 4, 45, 'TNR-1'), line('Stapler', 1, 12)]);
+
+    expect(report.status).toBe('variance');
+    expect(report.variances.map(variance => [variance.code, variance.path])).toEqual([
+      ['price_variance', 'invoice.lineItems.0.unitPrice'],
+      ['unordered_line', 'invoice.lineItems.1.description']
+    ]);
+  });
+
+  it('counts quantities billed on other invoices against the order', () => {
+    const previouslyInvoiced = getInvoicedQuantities(
+      [{ invoice: { number: 'INV-0', date: '', lineItems: [line('Toner cartridge black', 8, 40, 'TNR-1')] } }],
+      purchaseOrder.lines
+    );
+    const report = match([line('Toner cartridge black', 4, 40, 'TNR-1')], purchaseOrder, previouslyInvoiced);
+
+    expect(report.variances).toEqual([expect.objectContaining({
+      code: 'quantity_over_ordered',
+      lineNumber: 10,
+      expected: 2,
+      actual: 4
+    })]);
+  });
+
+  it('matches three ways against the goods received', () => {
+    const report = match([line('Toner cartridge black', 6, 40, 'TNR-1')], {
+      ...purchaseOrder,
+      receipts: [
+        { receivedAt: '2024-04-10', lines: [{ lineNumber: 10, quantity: 3 }], createdAt: '' },
+        { receivedAt: '2024-04-20', lines: [{ lineNumber: 10, quantity: 2 }], createdAt: '' }
+      ]
+    });
+
+    expect(report.matchType).toBe('three-way');
+    expect(report.lines[0]).toMatchObject({ receivedQuantity: 5, status: 'variance' });
+    expect(report.variances).toEqual([expect.objectContaining({ code: 'quantity_over_received', expected: 5 })]);
+  });
+
+  it('flags an invoice in another currency', () => {
+    const report = match([line('Toner cartridge black', 1, 40, 'TNR-1')], { ...purchaseOrder, currency: 'USD' });
+
+    expect(report.variances.map(variance => variance.code)).toEqual(['currency_mismatch']);
+  });
+});
@@ -0,0 +1,56 @@
+import { parseCsv, parsePurchaseOrderCsv } from '../purchaseOrderCsv';
+
+describe('parseCsv', () => {
+  it('reads quoted cells with delimiters, quotes and line breaks', () => {
+    expect(parseCsv('a,b\n"x, y","say ""hi""\nthere"\r\n\n')).toEqual([
+      ['a', 'b'],
+      ['x, y', 'say "hi"\nthere']
+    ]);
+  });
+
+  it('takes semicolons as the delimiter when the header uses them', () => {
+    expect(parseCsv('\uFEFFpo;price\nPO-1;1.234,50')).toEqual([['po', 'price'], ['PO-1', '1.234,50']]);
+  });
+});
+
+describe('parsePurchaseOrderCsv', () => {
+  it('groups the rows of a PO and numbers its lines', () => {
+    const { purchaseOrders, errors } = parsePurchaseOrderCsv([
+      'PO Number;Vendor;Currency;Receipt required;SKU;Description;Qty;Unit price',
+      'PO-1;Acme GmbH;EUR;yes;TNR-1;Toner;10;40,00',
+      'PO-1;;;;;Paper;50;4,50',
+      'PO-2;Globex;USD;;;Chairs;4;1.299,00'
+    ].join('\n'));
+
+    expect(errors).toEqual([]);
+    expect(purchaseOrders).toEqual([
+      {
+        poNumber: 'PO-1',
+        vendorName: 'Acme GmbH',
+        currency: 'EUR',
+        receiptRequired: true,
+        lines: [
+          { lineNumber: 1, sku: 'TNR-1', description: 'Toner', quantity: 10, unitPrice: 40 },
+          { lineNumber: 2, description: 'Paper', quantity: 50, unitPrice: 4.5 }
+        ]
+      },
+      {
+        poNumber: 'PO-2',
+        vendorName: 'Globex',
+        currency: 'USD',
+        lines: [{ lineNumber: 1, description: 'Chairs', quantity: 4, unitPrice: 1299 }]
+      }
+    ]);
+  });
+
+  it('reports missing columns', () => {
+    expect(parsePurchaseOrderCsv('po,description,qty\nPO-1,Toner,1').errors).toEqual(['Missing column "unitPrice"']);
+  });
+
+  it('reports rows it cannot read by row number', () => {
+    const { purchaseOrders, errors } = parsePurchaseOrderCsv('po,description,qty,price\n,Toner,1,40\nPO-1,Paper,ten,4.50');
+
+    expect(errors).toEqual(['Row 2: PO number is missing', 'Row 3: "ten" is not a valid quantity']);
+    expect(purchaseOrders).toEqual([{ poNumber: 'PO-1', lines: [] }]);
+  });
+});
@@ -0,0 +1,52 @@
+import { diffSnapshots, getInvoiceSnapshot } from '../revisionDiff';
+import { IInvoiceSnapshot } from '../../types/invoice.types';
+
+const snapshot: IInvoiceSnapshot = {
+  vendor: { name: 'Acme GmbH', taxId: 'DE123456789' },
+  invoice: {
+    number: 'INV-1',
+    date: '2024-05-01',
+    total: 119,
+    lineItems: [{ description: 'Consulting', quantity: 1, unitPrice: 100, total: 100 }]
+  },
+  status: 'in_review'
+};
+
+describe('getInvoiceSnapshot', () => {
+  it('keeps the edited fields without undefined values', () => {
+    const result = getInvoiceSnapshot({ vendor: { name: 'Acme GmbH', address: undefined }, invoice: snapshot.invoice } as never);
+
+    expect(result).toEqual({ vendor: { name: 'Acme GmbH' }, invoice: snapshot.invoice, status: 'draft' });
+  });
+});
+
+describe('diffSnapshots', () => {
+  it('lists changed, added and removed fields', () => {
+    const changes = diffSnapshots(snapshot, {
+      ...snapshot,
+      vendor: { name: 'Acme GmbH', address: 'Berlin' },
+      invoice: { ...snapshot.invoice, total: 120, lineItems: [{ ...snapshot.invoice.lineItems[0], quantity: 2 }] }
+    });
+
+    expect(changes).toEqual([
+      { path: 'vendor.address', to: 'Berlin' },
+      { path: 'invoice.total', from: 119, to: 120 },
+      { path: 'invoice.lineItems.0.quantity', from: 1, to: 2 },
+      { path: 'vendor.taxId', from: 'DE123456789' }
+    ]);
+  });
+
+  it('treats empty values as missing and ignores line item IDs of the database', () => {
+    const before = { ...snapshot, vendor: { ...snapshot.vendor, address: '' } };
+    const after = {
+      ...snapshot,
+      invoice: { ...snapshot.invoice, lineItems: [{ ...snapshot.invoice.lineItems[0], _id: 'x' }] }
+    } as unknown as IInvoiceSnapshot;
+
+    expect(diffSnapshots(before, after)).toEqual([]);
+  });
+
+  it('lists every field of the first revision as added', () => {
+    expect(diffSnapshots(undefined, { status: 'draft' })).toEqual([{ path: 'status', to: 'draft' }]);
+  });
+});
@@ -0,0 +1,65 @@
+import { PassThrough } from 'stream';
+import { createTableWriter, toCsvRow, toExportRows } from '../tableExport';
+import { IInvoice } from '../../types/invoice.types';
+
+const invoice = {
+  _id: '6561f1c2a4b5c6d7e8f90123',
+  fileId: 'file-1',
+  fileName: 'invoice.pdf',
+  status: 'approved',
+  createdAt: '2024-05-02T08:30:00.000Z',
+  vendor: { name: 'Acme GmbH', taxId: 'DE123456789' },
+  invoice: {
+    number: 'RE-2024-0042',
+    date: '2024-05-01',
+    currency: 'EUR',
+    taxPercent: 19,
+    subtotal: 150,
+    total: 174,
+    lineItems: [
+      { code: 'SVC-1', description: 'Consulting', quantity: 2, unit: 'h', unitPrice: 50, total: 100 },
+      { description: 'Books', quantity: 1, unitPrice: 50, taxPercent: 7, total: 50 }
+    ]
+  }
+} as unknown as IInvoice;
+
+describe('toExportRows', () => {
+  it('writes one summary row per invoice', () => {
+    expect(toExportRows(invoice, 'header')).toEqual([[
+      '6561f1c2a4b5c6d7e8f90123', 'approved', 'Acme GmbH', 'DE123456789', 'RE-2024-0042', '2024-05-01', 'EUR',
+      150, undefined, '7 / 19', 22.5, 174, undefined, undefined, 2, 'invoice.pdf', new Date('2024-05-02T08:30:00.000Z')
+    ]]);
+  });
+
+  it('writes one row per line item with the rate that applies to it', () => {
+    const rows = toExportRows(invoice, 'lines');
+
+    expect(rows).toHaveLength(2);
+    expect(rows[0].slice(5)).toEqual([1, 'SVC-1', 'Consulting', 2, 'h', 50, undefined, 19, 100]);
+    expect(rows[1].slice(5)).toEqual([2, undefined, 'Books', 1, undefined, 50, undefined, 7, 50]);
+  });
+});
+
+describe('toCsvRow', () => {
+  it('quotes cells and defuses formulas', () => {
+    expect(toCsvRow(['Acme, Inc.', 'say "hi"', '=SUM(A1:A2)', -5, undefined, new Date('2024-05-01T00:00:00.000Z')]))
+      .toBe('"Acme, Inc.","say ""hi""",\'=SUM(A1:A2),-5,,2024-05-01T00:00:00.000Z');
+  });
+});
+
+describe('createTableWriter', () => {
+  it('streams a CSV with a byte order mark and header row', async () => {
+    const stream = new PassThrough();
+    const chunks: Buffer[] = [];
+    stream.on('data', chunk => chunks.push(chunk));
+
+    const writer = await createTableWriter('csv', 'header', stream);
+    await writer.writeRow(toExportRows(invoice, 'header')[0]);
+    await writer.finish();
+
+    const lines = Buffer.concat(chunks).toString('utf8').split('\r\n');
+    expect(lines[0]).toMatch(/^\uFEFFInvoice ID,Status,Vendor,/);
+    expect(lines[1]).toMatch(/^6561f1c2a4b5c6d7e8f90123,approved,Acme GmbH,/);
+    expect(lines[2]).toBe('');
+  });
+});
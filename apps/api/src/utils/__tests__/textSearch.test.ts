@@ -0,0 +1,41 @@
+import { buildSearchSnippets, escapeRegex, getSearchTerms } from '../textSearch';
+
+describe('getSearchTerms', () => {
+  it('takes the words of terms and phrases but not of negated ones', () => {
+    expect(getSearchTerms('Toner "black cartridge" -paper -"A4 sheets" toner')).toEqual(['toner', 'black', 'cartridge']);
+  });
+});
+
+describe('escapeRegex', () => {
+  it('escapes regular expression syntax', () => {
+    expect(new RegExp(escapeRegex('PO (4500).1*')).test('PO (4500).1*')).toBe(true);
+  });
+});
+
+describe('buildSearchSnippets', () => {
+  it('highlights whole words with the text around them', () => {
+    const [snippet] = buildSearchSnippets(['Delivery of  toner\nand paper; no toners returned'], 'toner');
+
+    expect(snippet).toEqual({
+      page: 1,
+      text: 'Delivery of toner and paper; no toners returned',
+      highlights: [{ start: 12, end: 17 }]
+    });
+  });
+
+  it('shortens long pages to the words around the match', () => {
+    const filler = 'lorem ipsum dolor sit amet '.repeat(5);
+    const [snippet] = buildSearchSnippets(['', `${filler}invoice total ${filler}`], 'total');
+    const { start, end } = snippet.highlights[0];
+
+    expect(snippet.page).toBe(2);
+    expect(snippet.text.startsWith('…')).toBe(true);
+    expect(snippet.text.endsWith('…')).toBe(true);
+    expect(snippet.text.slice(start, end)).toBe('total');
+  });
+
+  it('stops at the maximum number of snippets', () => {
+    expect(buildSearchSnippets(['toner', 'toner', 'toner'], 'toner', 2)).toHaveLength(2);
+    expect(buildSearchSnippets(['toner'], '-toner')).toEqual([]);
+  });
+});
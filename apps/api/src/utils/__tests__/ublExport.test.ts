@@ -0,0 +1,79 @@
+import { buildUblInvoice, validateUblExport } from '../ublExport';
+import { parseUblInvoice } from '../ublInvoice';
+import { IInvoice } from '../../types/invoice.types';
+
+const invoice = {
+  fileId: 'file-1',
+  fileName: 'invoice.pdf',
+  status: 'approved',
+  vendor: { name: 'Acme GmbH', address: 'Hauptstraße 1, Berlin', taxId: 'DE123456789' },
+  invoice: {
+    number: 'RE-2024-0042',
+    date: '2024-05-01',
+    currency: 'EUR',
+    poNumber: 'PO-4471',
+    taxPercent: 19,
+    subtotal: 160,
+    total: 202.3,
+    lineItems: [
+      { description: 'Consulting', quantity: 2, unitPrice: 50, discount: 10, unit: 'HUR', total: 90 },
+      { description: 'Cable', quantity: 10, unitPrice: 7, total: 70 }
+    ],
+    charges: [{ type: 'shipping', amount: 10 }]
+  }
+} as unknown as IInvoice;
+
+describe('UBL export', () => {
+  const env = process.env;
+
+  beforeEach(() => {
+    process.env = { ...env, EXPORT_BUYER_NAME: 'Globex Ltd', EXPORT_BUYER_VAT_ID: 'GB123456789' };
+  });
+
+  afterEach(() => {
+    process.env = env;
+  });
+
+  it('accepts a complete approved invoice', () => {
+    expect(validateUblExport(invoice)).toEqual([]);
+  });
+
+  it('lists everything that keeps an invoice from being exported', () => {
+    delete process.env.EXPORT_BUYER_NAME;
+    const errors = validateUblExport({
+      ...invoice,
+      status: 'in_review',
+      vendor: { name: 'Acme GmbH', taxId: '123456789' },
+      invoice: { ...invoice.invoice, total: 200 }
+    });
+
+    expect(errors).toEqual([
+      "Only approved or paid invoices can be exported (status is 'in_review')",
+      '"vendor.taxId" must be a VAT ID starting with the country code, e.g. DE123456789',
+      'Buyer name is not configured (EXPORT_BUYER_NAME)',
+      '"invoice.total" (200) does not match line items, charges and tax (202.30)'
+    ]);
+  });
+
+  it('writes XML that reads back as the same invoice', () => {
+    const { document } = parseUblInvoice(buildUblInvoice(invoice))!;
+
+    expect(document.vendor).toMatchObject({ name: 'Acme GmbH', taxId: 'DE123456789' });
+    expect(document.buyer).toMatchObject({ name: 'Globex Ltd', taxId: 'GB123456789' });
+    expect(document.invoice).toMatchObject({
+      number: 'RE-2024-0042',
+      date: '2024-05-01',
+      currency: 'EUR',
+      poNumber: 'PO-4471',
+      subtotal: 160,
+      taxPercent: 19,
+      total: 202.3,
+      charges: [{ type: 'shipping', amount: 10 }],
+      taxBreakdown: [{ taxPercent: 19, taxableAmount: 170, taxAmount: 32.3 }]
+    });
+    expect(document.invoice.lineItems).toEqual([
+      expect.objectContaining({ description: 'Consulting', quantity: 2, unit: 'HUR', unitPrice: 50, discount: 10, total: 90 }),
+      expect.objectContaining({ description: 'Cable', quantity: 10, unit: 'C62', unitPrice: 7, total: 70 })
+    ]);
+  });
+});
@@ -0,0 +1,136 @@
+import { parseUblInvoice } from '../ublInvoice';
+
+const ubl = `<?xml version="1.0" encoding="UTF-8"?>
+<Invoice xmlns="urn:oasis:names:specification:ubl:schema:xsd:Invoice-2"
+  xmlns:cac="urn:oasis:names:specification:ubl:schema:xsd:CommonAggregateComponents-2"
+  xmlns:cbc="urn:oasis:names:specification:ubl:schema:xsd:CommonBasicComponents-2">
+  <cbc:CustomizationID>urn:cen.eu:en16931:2017#compliant#urn:xeinkauf.de:kosit:xrechnung_3.0</cbc:CustomizationID>
+  <cbc:ID>RE-2024-0042</cbc:ID>
+  <cbc:IssueDate>2024-05-01</cbc:IssueDate>
+  <cbc:DueDate>2024-05-31</cbc:DueDate>
+  <cbc:DocumentCurrencyCode>EUR</cbc:DocumentCurrencyCode>
+  <cac:OrderReference><cbc:ID>PO-4471</cbc:ID></cac:OrderReference>
+  <cac:AccountingSupplierParty>
+    <cac:Party>
+      <cac:PostalAddress>
+        <cbc:StreetName>Hauptstraße 1</cbc:StreetName>
+        <cbc:CityName>Berlin</cbc:CityName>
+        <cbc:PostalZone>10115</cbc:PostalZone>
+        <cac:Country><cbc:IdentificationCode>DE</cbc:IdentificationCode></cac:Country>
+      </cac:PostalAddress>
+      <cac:PartyTaxScheme>
+        <cbc:CompanyID>12/345/67890</cbc:CompanyID>
+        <cac:TaxScheme><cbc:ID>FC</cbc:ID></cac:TaxScheme>
+      </cac:PartyTaxScheme>
+      <cac:PartyTaxScheme>
+        <cbc:CompanyID>DE123456789</cbc:CompanyID>
+        <cac:TaxScheme><cbc:ID>VAT</cbc:ID></cac:TaxScheme>
+      </cac:PartyTaxScheme>
+      <cac:PartyLegalEntity><cbc:RegistrationName>Acme GmbH</cbc:RegistrationName></cac:PartyLegalEntity>
+    </cac:Party>
+  </cac:AccountingSupplierParty>
+  <cac:AllowanceCharge>
+    <cbc:ChargeIndicator>true</cbc:ChargeIndicator>
+    <cbc:AllowanceChargeReasonCode>FC</cbc:AllowanceChargeReasonCode>
+    <cbc:AllowanceChargeReason>Freight</cbc:AllowanceChargeReason>
+    <cbc:Amount currencyID="EUR">10.00</cbc:Amount>
+    <cac:TaxCategory><cbc:Percent>19</cbc:Percent></cac:TaxCategory>
+  </cac:AllowanceCharge>
+  <cac:TaxTotal>
+    <cbc:TaxAmount currencyID="EUR">32.30</cbc:TaxAmount>
+    <cac:TaxSubtotal>
+      <cbc:TaxableAmount currencyID="EUR">170.00</cbc:TaxableAmount>
+      <cbc:TaxAmount currencyID="EUR">32.30</cbc:TaxAmount>
+      <cac:TaxCategory><cbc:ID>S</cbc:ID><cbc:Percent>19</cbc:Percent></cac:TaxCategory>
+    </cac:TaxSubtotal>
+  </cac:TaxTotal>
+  <cac:LegalMonetaryTotal>
+    <cbc:LineExtensionAmount currencyID="EUR">160.00</cbc:LineExtensionAmount>
+    <cbc:TaxInclusiveAmount currencyID="EUR">202.30</cbc:TaxInclusiveAmount>
+    <cbc:PayableAmount currencyID="EUR">202.30</cbc:PayableAmount>
+  </cac:LegalMonetaryTotal>
+  <cac:InvoiceLine>
+    <cbc:ID>1</cbc:ID>
+    <cbc:InvoicedQuantity unitCode="HUR">2</cbc:InvoicedQuantity>
+    <cbc:LineExtensionAmount currencyID="EUR">90.00</cbc:LineExtensionAmount>
+    <cac:AllowanceCharge>
+      <cbc:ChargeIndicator>false</cbc:ChargeIndicator>
+      <cbc:MultiplierFactorNumeric>10</cbc:MultiplierFactorNumeric>
+      <cbc:Amount currencyID="EUR">10.00</cbc:Amount>
+    </cac:AllowanceCharge>
+    <cac:Item>
+      <cbc:Name>Consulting</cbc:Name>
+      <cac:SellersItemIdentification><cbc:ID>SVC-1</cbc:ID></cac:SellersItemIdentification>
+      <cac:ClassifiedTaxCategory><cbc:Percent>19</cbc:Percent></cac:ClassifiedTaxCategory>
+    </cac:Item>
+    <cac:Price><cbc:PriceAmount currencyID="EUR">50.00</cbc:PriceAmount></cac:Price>
+  </cac:InvoiceLine>
+  <cac:InvoiceLine>
+    <cbc:ID>2</cbc:ID>
+    <cbc:InvoicedQuantity unitCode="C62">10</cbc:InvoicedQuantity>
+    <cbc:LineExtensionAmount currencyID="EUR">70.00</cbc:LineExtensionAmount>
+    <cac:Item><cbc:Name>Cable</cbc:Name></cac:Item>
+    <cac:Price>
+      <cbc:PriceAmount currencyID="EUR">70.00</cbc:PriceAmount>
+      <cbc:BaseQuantity>10</cbc:BaseQuantity>
+    </cac:Price>
+  </cac:InvoiceLine>
+</Invoice>`;
+
+describe('parseUblInvoice', () => {
+  it('maps the header, supplier and totals', () => {
+    const { document } = parseUblInvoice(ubl, 'invoice.xml')!;
+
+    expect(document).toMatchObject({
+      format: 'ubl',
+      documentType: 'invoice',
+      dueDate: '2024-05-31',
+      taxTotal: 32.3,
+      vendor: { name: 'Acme GmbH', taxId: 'DE123456789', address: 'Hauptstraße 1, 10115 Berlin, DE' }
+    });
+    expect(document.invoice).toMatchObject({
+      number: 'RE-2024-0042',
+      date: '2024-05-01',
+      currency: 'EUR',
+      poNumber: 'PO-4471',
+      subtotal: 160,
+      taxPercent: 19,
+      total: 202.3,
+      charges: [{ type: 'shipping', description: 'Freight', amount: 10, taxPercent: 19 }],
+      taxBreakdown: [{ taxPercent: 19, taxableAmount: 170, taxAmount: 32.3 }]
+    });
+  });
+
+  it('reads line discounts, units and prices per base quantity', () => {
+    const { document } = parseUblInvoice(ubl)!;
+
+    expect(document.invoice.lineItems).toEqual([
+      { code: 'SVC-1', description: 'Consulting', quantity: 2, unit: 'HUR', unitPrice: 50, discount: 10, taxPercent: 19, total: 90 },
+      expect.objectContaining({ description: 'Cable', quantity: 10, unit: 'C62', unitPrice: 7, total: 70 })
+    ]);
+  });
+
+  it('records where every value was read', () => {
+    const { provenance } = parseUblInvoice(ubl, 'invoice.xml')!;
+
+    expect(provenance).toContainEqual({ path: 'invoice.number', confidence: 1, source: 'invoice.xml: ID' });
+    expect(provenance.some(entry => entry.path === 'invoice.lineItems.1.discount')).toBe(false);
+  });
+
+  it('reads credit notes', () => {
+    const creditNote = ubl
+      .replace(/<Invoice xmlns="[^"]+"/, '<CreditNote xmlns="urn:oasis:names:specification:ubl:schema:xsd:CreditNote-2"')
+      .replace('</Invoice>', '</CreditNote>')
+      .replace(/InvoiceLine>/g, 'CreditNoteLine>')
+      .replace(/InvoicedQuantity/g, 'CreditedQuantity');
+
+    const { document } = parseUblInvoice(creditNote)!;
+
+    expect(document.documentType).toBe('credit-note');
+    expect(document.invoice.lineItems).toHaveLength(2);
+  });
+
+  it('ignores XML that is not a UBL invoice', () => {
+    expect(parseUblInvoice('<Order><ID>1</ID></Order>')).toBeUndefined();
+  });
+});
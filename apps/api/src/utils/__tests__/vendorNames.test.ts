@@ -0,0 +1,27 @@
+import { nameSimilarity, normalizeTaxId, normalizeVendorName } from '../vendorNames';
+
+describe('normalizeVendorName', () => {
+  it('drops accents, punctuation and trailing legal forms', () => {
+    expect(normalizeVendorName('Müller & Söhne GmbH & Co. KG')).toBe('muller and sohne');
+    expect(normalizeVendorName('ACME Ltd.')).toBe(normalizeVendorName('Acme Limited'));
+    expect(normalizeVendorName('Dupont S.A.')).toBe('dupont');
+  });
+
+  it('keeps legal form words that are part of the name', () => {
+    expect(normalizeVendorName('Company Shop Ltd')).toBe('company shop');
+  });
+});
+
+describe('normalizeTaxId', () => {
+  it('keeps letters and digits only', () => {
+    expect(normalizeTaxId('de 123-456 789')).toBe('DE123456789');
+  });
+});
+
+describe('nameSimilarity', () => {
+  it('scores typos close to and different names far from a match', () => {
+    expect(nameSimilarity('acme supplies', 'acme supplies')).toBe(1);
+    expect(nameSimilarity('acme supplies', 'acme suplies')).toBeGreaterThan(0.85);
+    expect(nameSimilarity('acme supplies', 'globex')).toBeLessThan(0.2);
+  });
+});
@@ -0,0 +1,29 @@
+import { AuthenticatedRequest } from '../middleware/auth.middleware';
+
+type RequestUser = NonNullable<AuthenticatedRequest['user']>;
+
+/**
+ * Check whether the user may see every document regardless of owner
+ */
+export const isAdmin = (user?: RequestUser): boolean => user?.role === 'admin';
+
+/**
+ * Build the MongoDB filter that limits a query to documents the user owns.
+ * Admins get an empty filter and therefore see everything.
+ */
+export const ownerFilter = (user: RequestUser): Record<string, string> => {
+  return isAdmin(user) ? {} : { owner: user.id };
+};
+
+/**
+ * Check whether the user may access a resource owned by `ownerId`
+ */
+export const canAccess = (user: RequestUser, ownerId?: string): boolean => {
+  return isAdmin(user) || (!!ownerId && ownerId === user.id);
+};
+
+export default {
+  isAdmin,
+  ownerFilter,
+  canAccess,
+};
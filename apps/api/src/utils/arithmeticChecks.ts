@@ -0,0 +1,126 @@
+import { IInvoiceData, IValidationWarning, ValidationWarningCode } from '../types/invoice.types';
+import { computeTaxBreakdown, getChargesTotal, getLineNet } from './invoiceTotals';
+
+// Every code checkInvoiceArithmetic can raise; the invoice model only stores these
+export const VALIDATION_WARNING_CODES: ValidationWarningCode[] = [
+  'line_total_mismatch',
+  'subtotal_mismatch',
+  'tax_amount_mismatch',
+  'total_mismatch'
+];
+
+// Printed amounts may be off by a cent from rounding on the source document
+const AMOUNT_TOLERANCE = 0.01;
+// Tax rounded per line instead of on the subtotal drifts by up to half a cent per line
+const LINE_TAX_ROUNDING = 0.005;
+
+const round = (value: number): number => Math.round(value * 100) / 100;
+
+const isAmount = (value: unknown): value is number => typeof value === 'number' && isFinite(value);
+
+const mismatch = (
+  code: IValidationWarning['code'],
+  path: string,
+  message: string,
+  expected: number,
+  actual: number
+): IValidationWarning => ({
+  code,
+  path,
+  message,
+  expected: round(expected),
+  actual,
+  difference: round(actual - expected)
+});
+
+/**
+ * Check that the amounts of an invoice add up: each line total is quantity × unit price less
+ * discount, the line totals sum to the subtotal, each rate of the tax summary is applied
+ * correctly and the subtotal plus charges and tax gives the total. Checks whose amounts are
+ * missing are skipped. Returns one warning per mismatch.
+ */
+export const checkInvoiceArithmetic = (data: IInvoiceData): IValidationWarning[] => {
+  const warnings: IValidationWarning[] = [];
+  const lineItems = data.lineItems || [];
+
+  lineItems.forEach((item, index) => {
+    if (!isAmount(item.quantity) || !isAmount(item.unitPrice) || !isAmount(item.total)) {
+      return;
+    }
+    const expected = getLineNet(item);
+    const formula = item.discount ? `quantity × unit price less ${item.discount}% discount` : 'quantity × unit price';
+    if (Math.abs(item.total - expected) > AMOUNT_TOLERANCE) {
+      warnings.push(mismatch(
+        'line_total_mismatch',
+        `invoice.lineItems.${index}.total`,
+        `Line ${index + 1}: total ${item.total} does not equal ${formula} (${round(expected).toFixed(2)})`,
+        expected,
+        item.total
+      ));
+    }
+  });
+
+  if (isAmount(data.subtotal) && lineItems.length && lineItems.every(item => isAmount(item.total))) {
+    const expected = lineItems.reduce((sum, item) => sum + item.total, 0);
+    if (Math.abs(data.subtotal - expected) > AMOUNT_TOLERANCE) {
+      warnings.push(mismatch(
+        'subtotal_mismatch',
+        'invoice.subtotal',
+        `Subtotal ${data.subtotal} does not equal the sum of line totals (${round(expected).toFixed(2)})`,
+        expected,
+        data.subtotal
+      ));
+    }
+  }
+
+  (data.taxBreakdown || []).forEach((entry, index) => {
+    const expected = entry.taxableAmount * entry.taxPercent / 100;
+    if (Math.abs(entry.taxAmount - expected) > AMOUNT_TOLERANCE) {
+      warnings.push(mismatch(
+        'tax_amount_mismatch',
+        `invoice.taxBreakdown.${index}.taxAmount`,
+        `Tax at ${entry.taxPercent}%: ${entry.taxAmount} does not equal ${entry.taxPercent}% of ${entry.taxableAmount} (${round(expected).toFixed(2)})`,
+        expected,
+        entry.taxAmount
+      ));
+    }
+  });
+
+  const net = isAmount(data.subtotal)
+    ? data.subtotal
+    : lineItems.length && lineItems.every(item => isAmount(item.total))
+      ? lineItems.reduce((sum, item) => sum + item.total, 0)
+      : undefined;
+  // The printed tax summary, or the tax of the rates on the invoice
+  const breakdown = data.taxBreakdown?.length ? data.taxBreakdown : computeTaxBreakdown(data);
+
+  if (net !== undefined && breakdown && isAmount(data.total)) {
+    const charges = getChargesTotal(data);
+    const singleRate = !data.taxBreakdown?.length && breakdown.length === 1 ? breakdown[0].taxPercent : undefined;
+    // A single rate applies to the subtotal as printed, even where the line items do not add up to it
+    const tax = singleRate !== undefined
+      ? round((net + charges) * singleRate / 100)
+      : breakdown.reduce((sum, entry) => sum + entry.taxAmount, 0);
+    const expected = net + charges + tax;
+    const amountCount = lineItems.length + (data.charges?.length || 0);
+    const tolerance = Math.max(AMOUNT_TOLERANCE, amountCount * LINE_TAX_ROUNDING);
+    const parts = ['subtotal', charges ? 'charges' : '', singleRate !== undefined ? `${singleRate}% tax` : 'tax'].filter(Boolean);
+
+    if (Math.abs(data.total - expected) > tolerance) {
+      warnings.push(mismatch(
+        'total_mismatch',
+        'invoice.total',
+        `Total ${data.total} does not equal ${parts.slice(0, -1).join(', ')} plus ${parts[parts.length - 1]} (${round(expected).toFixed(2)})`,
+        expected,
+        data.total
+      ));
+    }
+  }
+
+  return warnings;
+};
+
+export default {
+  VALIDATION_WARNING_CODES,
+  checkInvoiceArithmetic
+};
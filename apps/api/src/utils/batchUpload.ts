@@ -0,0 +1,181 @@
+import path from 'path';
+import { Readable } from 'stream';
+import { IZipEntry, Open } from 'unzipper';
+
+export type BatchFileType = 'pdf' | 'xml';
+
+/**
+ * One file of a batch upload, either uploaded as is or unpacked from a ZIP archive.
+ * Files that cannot be imported carry the reason instead of their content.
+ */
+export interface IBatchFile {
+  fileName: string; // path inside the archive for unpacked files
+  archive?: string;
+  type?: BatchFileType;
+  buffer?: Buffer;
+  error?: string;
+}
+
+/**
+ * An uploaded file as stored, read from a byte offset on demand so an archive is never
+ * held in memory whole
+ */
+export interface IUploadSource {
+  fileName: string;
+  size: number;
+  read(start: number): Readable;
+}
+
+const MIME_TYPES: Record<BatchFileType | 'zip', string> = {
+  pdf: 'application/pdf',
+  xml: 'application/xml',
+  zip: 'application/zip'
+};
+
+const PDF_SIGNATURE = Buffer.from('%PDF-');
+
+// Folders, macOS resource forks and hidden files such as .DS_Store are not invoices
+const isIgnoredEntry = (entry: IZipEntry): boolean => {
+  return entry.type === 'Directory' || entry.path.split('/').some(segment => segment === '__MACOSX' || segment.startsWith('.'));
+};
+
+const getExtension = (fileName: string): string => path.extname(fileName).toLowerCase();
+
+export const isZipFileName = (fileName: string): boolean => getExtension(fileName) === '.zip';
+
+export const getBatchMimeType = (type: BatchFileType | 'zip'): string => MIME_TYPES[type];
+
+const tooLarge = (maxSize: number): string => `File too large. Maximum size allowed is ${Math.round(maxSize / (1024 * 1024))}MB`;
+
+// A file or archive entry holds more than the size limit
+class FileTooLargeError extends Error {}
+
+// Read a file or archive entry, stopping as soon as it exceeds the size limit so a ZIP bomb cannot fill memory
+const readStream = (stream: Readable, maxSize: number): Promise<Buffer> => {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+
+    stream.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > maxSize) {
+        stream.destroy();
+        reject(new FileTooLargeError());
+        return;
+      }
+      chunks.push(chunk);
+    });
+    stream.on('end', () => resolve(Buffer.concat(chunks)));
+    stream.on('error', reject);
+  });
+};
+
+// Check a file's type and content; PDFs are recognised by their signature, not their name
+const checkFile = (file: Omit<IBatchFile, 'type'>, maxSize: number): IBatchFile => {
+  const { buffer } = file;
+  const extension = getExtension(file.fileName);
+  const type = extension === '.pdf' ? 'pdf' : extension === '.xml' ? 'xml' : undefined;
+
+  if (!type) {
+    return { ...file, buffer: undefined, error: 'Only PDF files, XML e-invoices and ZIP archives are allowed' };
+  }
+  if (!buffer || buffer.length === 0) {
+    return { ...file, buffer: undefined, error: 'File is empty' };
+  }
+  if (buffer.length > maxSize) {
+    return { ...file, buffer: undefined, error: tooLarge(maxSize) };
+  }
+  if (type === 'pdf' && !buffer.subarray(0, 1024).includes(PDF_SIGNATURE)) {
+    return { ...file, buffer: undefined, error: 'File is not a valid PDF' };
+  }
+  return { ...file, type };
+};
+
+async function* unpackArchive(
+  upload: IUploadSource,
+  maxSize: number,
+  skip: (fileName: string) => boolean
+): AsyncGenerator<IBatchFile> {
+  const archive = upload.fileName;
+  // unzipper only lets go of a read when the entry it belongs to ends, so every read is closed here
+  const reads = new Set<Readable>();
+  const source = {
+    size: async (): Promise<number> => upload.size,
+    stream: (offset: number): Readable => {
+      const stream = upload.read(offset);
+      reads.add(stream);
+      stream.once('close', () => reads.delete(stream));
+      return stream;
+    }
+  };
+
+  try {
+    let entries: IZipEntry[];
+    try {
+      entries = (await Open.custom(source)).files.filter(entry => !isIgnoredEntry(entry));
+    } catch {
+      yield { fileName: archive, error: 'File is not a valid ZIP archive' };
+      return;
+    }
+
+    if (!entries.length) {
+      yield { fileName: archive, error: 'The archive contains no files' };
+      return;
+    }
+
+    for (const entry of entries) {
+      if (skip(entry.path)) {
+        continue;
+      }
+      if (isZipFileName(entry.path)) {
+        yield { fileName: entry.path, archive, error: 'Archives inside archives are not unpacked' };
+        continue;
+      }
+      let file: IBatchFile;
+      try {
+        if (entry.uncompressedSize > maxSize) {
+          throw new FileTooLargeError();
+        }
+        file = checkFile({ fileName: entry.path, archive, buffer: await readStream(entry.stream(), maxSize) }, maxSize);
+      } catch (error) {
+        file = error instanceof FileTooLargeError
+          ? { fileName: entry.path, archive, error: tooLarge(maxSize) }
+          : { fileName: entry.path, archive, error: `Could not unpack file: ${error instanceof Error ? error.message : error}` };
+      }
+      yield file;
+    }
+  } finally {
+    reads.forEach(stream => stream.destroy());
+  }
+}
+
+/**
+ * The files of one upload of a batch: the file itself, or every file of a ZIP archive,
+ * unpacked one at a time so only the file being imported is held in memory. Every file
+ * is checked on its own against the size limit. Files the skip check matches, such as
+ * ones an earlier run already reported, are not read.
+ */
+export async function* readUploadFiles(
+  upload: IUploadSource,
+  maxSize: number,
+  skip: (fileName: string) => boolean = () => false
+): AsyncGenerator<IBatchFile> {
+  if (isZipFileName(upload.fileName)) {
+    yield* unpackArchive(upload, maxSize, skip);
+    return;
+  }
+  if (skip(upload.fileName)) {
+    return;
+  }
+  if (upload.size > maxSize) {
+    yield { fileName: upload.fileName, error: tooLarge(maxSize) };
+    return;
+  }
+  yield checkFile({ fileName: upload.fileName, buffer: await readStream(upload.read(0), maxSize) }, maxSize);
+}
+
+export default {
+  isZipFileName,
+  getBatchMimeType,
+  readUploadFiles
+};
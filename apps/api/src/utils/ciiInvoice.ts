@@ -0,0 +1,217 @@
+import {
+  IVendor,
+  IInvoiceData,
+  ILineItem,
+  IInvoiceCharge,
+  ITaxBreakdownEntry,
+  IFieldProvenance,
+  IParsedEInvoice
+} from '../types/invoice.types';
+import { createXmlParser, xmlText as text, xmlAmount as amount, xmlAttribute, toArray } from './xml';
+import { getChargeType } from './invoiceTotals';
+
+// Elements that may repeat in a UN/CEFACT Cross Industry Invoice
+const parser = createXmlParser([
+  'IncludedSupplyChainTradeLineItem',
+  'ApplicableTradeTax',
+  'SpecifiedTradeAllowanceCharge',
+  'SpecifiedTaxRegistration',
+  'SpecifiedTradePaymentTerms',
+  'IncludedNote'
+]);
+
+// Document type codes for credit notes (UNTDID 1001)
+const CREDIT_NOTE_TYPE_CODES = ['381', '396', '532'];
+
+/**
+ * CII dates use format 102 (YYYYMMDD); anything else is passed through as written
+ */
+const ciiDate = (node: any): string | undefined => {
+  const value = text(node?.DateTimeString);
+  if (!value) {
+    return undefined;
+  }
+
+  const match = value.match(/^(\d{4})(\d{2})(\d{2})$/);
+  return match ? `${match[1]}-${match[2]}-${match[3]}` : value;
+};
+
+const formatAddress = (address: any): string | undefined => {
+  if (!address) {
+    return undefined;
+  }
+
+  const city = [text(address.PostcodeCode), text(address.CityName)].filter(Boolean).join(' ');
+  const parts = [text(address.LineOne), text(address.LineTwo), text(address.LineThree), city, text(address.CountryID)];
+  return parts.filter(Boolean).join(', ') || undefined;
+};
+
+// Prefer the VAT ID (scheme VA) over the local tax number (scheme FC)
+const partyTaxId = (party: any): string | undefined => {
+  const registrations = toArray<any>(party?.SpecifiedTaxRegistration).map(registration => registration.ID);
+  const vat = registrations.find(id => xmlAttribute(id, 'schemeID') === 'VA');
+  return text(vat ?? registrations[0]);
+};
+
+const parseParty = (party: any): IVendor | undefined => {
+  const name = text(party?.Name);
+  return name ? { name, address: formatAddress(party.PostalTradeAddress), taxId: partyTaxId(party) } : undefined;
+};
+
+/**
+ * Header tax rate: the VAT rate when only one applies
+ */
+const headerTaxPercent = (settlement: any): number | undefined => {
+  const rates = Array.from(new Set(
+    toArray<any>(settlement?.ApplicableTradeTax)
+      .map(tax => amount(tax.RateApplicablePercent))
+      .filter((rate): rate is number => rate !== undefined)
+  ));
+  return rates.length === 1 ? rates[0] : undefined;
+};
+
+const parseTaxBreakdown = (settlement: any): ITaxBreakdownEntry[] => {
+  return toArray<any>(settlement?.ApplicableTradeTax)
+    .map(tax => ({
+      taxPercent: amount(tax.RateApplicablePercent) ?? 0,
+      taxableAmount: amount(tax.BasisAmount),
+      taxAmount: amount(tax.CalculatedAmount)
+    }))
+    .filter((entry): entry is ITaxBreakdownEntry => entry.taxableAmount !== undefined && entry.taxAmount !== undefined);
+};
+
+const isCharge = (allowanceCharge: any): boolean => text(allowanceCharge.ChargeIndicator?.Indicator) === 'true';
+
+// Document level charges, with allowances as negative amounts
+const parseCharges = (allowanceCharges: any[]): IInvoiceCharge[] => {
+  return allowanceCharges
+    .filter(allowanceCharge => amount(allowanceCharge.ActualAmount) !== undefined)
+    .map(allowanceCharge => {
+      const value = amount(allowanceCharge.ActualAmount)!;
+      const reason = text(allowanceCharge.Reason);
+      return {
+        type: isCharge(allowanceCharge) ? getChargeType(text(allowanceCharge.ReasonCode), reason) : 'other',
+        description: reason,
+        amount: isCharge(allowanceCharge) ? value : -value,
+        taxPercent: amount(toArray<any>(allowanceCharge.CategoryTradeTax)[0]?.RateApplicablePercent)
+      };
+    });
+};
+
+const parseLineItem = (item: any): Partial<ILineItem> => {
+  const agreement = item.SpecifiedLineTradeAgreement || {};
+  const settlement = item.SpecifiedLineTradeSettlement || {};
+  const netPrice = agreement.NetPriceProductTradePrice;
+  const grossPrice = agreement.GrossPriceProductTradePrice;
+  const netAmount = amount(netPrice?.ChargeAmount);
+  const grossAmount = amount(grossPrice?.ChargeAmount);
+  const billedQuantity = item.SpecifiedLineTradeDelivery?.BilledQuantity;
+  const quantity = amount(billedQuantity);
+  const total = amount(settlement.SpecifiedTradeSettlementLineMonetarySummation?.LineTotalAmount);
+
+  // The discount is either taken off the gross price or given as line allowances
+  const unitAmount = grossAmount !== undefined && netAmount !== undefined && grossAmount > netAmount ? grossAmount : netAmount;
+  const unitPrice = unitAmount === undefined
+    ? undefined
+    : unitAmount / (amount((unitAmount === grossAmount ? grossPrice : netPrice)?.BasisQuantity) || 1);
+  const allowances = toArray<any>(settlement.SpecifiedTradeAllowanceCharge).filter(allowanceCharge => !isCharge(allowanceCharge));
+  const gross = (quantity || 0) * (unitPrice || 0);
+  const discount = unitAmount !== netAmount || allowances.length
+    ? total !== undefined && gross ? Math.round((1 - total / gross) * 10000) / 100 : undefined
+    : undefined;
+
+  return {
+    code: text(item.SpecifiedTradeProduct?.SellerAssignedID),
+    description: [text(item.SpecifiedTradeProduct?.Name), text(item.SpecifiedTradeProduct?.Description)]
+      .filter(Boolean)
+      .join(' - '),
+    quantity,
+    unit: xmlAttribute(billedQuantity, 'unitCode'),
+    unitPrice,
+    discount,
+    taxPercent: amount(toArray<any>(settlement.ApplicableTradeTax)[0]?.RateApplicablePercent),
+    total
+  };
+};
+
+/**
+ * Map a ZUGFeRD / Factur-X / XRechnung CII document onto vendor and invoice data.
+ * Values are read from the structured XML, so every field gets full confidence.
+ * Returns undefined when the XML is not a Cross Industry Invoice.
+ */
+export const parseCiiInvoice = (xml: string | Buffer, sourceName = 'e-invoice'): IParsedEInvoice | undefined => {
+  const root = parser.parse(xml)?.CrossIndustryInvoice;
+  if (!root) {
+    return undefined;
+  }
+
+  const header = root.ExchangedDocument || {};
+  const transaction = root.SupplyChainTradeTransaction || {};
+  const agreement = transaction.ApplicableHeaderTradeAgreement || {};
+  const settlement = transaction.ApplicableHeaderTradeSettlement || {};
+  const summation = settlement.SpecifiedTradeSettlementHeaderMonetarySummation || {};
+  const seller = agreement.SellerTradeParty || {};
+  const paymentTerms = toArray<any>(settlement.SpecifiedTradePaymentTerms);
+  const provenance: IFieldProvenance[] = [];
+
+  // Record a field read from the given element, skipping values the XML does not contain
+  const read = <T>(path: string, element: string, value: T | undefined): T | undefined => {
+    if (value !== undefined && value !== '') {
+      provenance.push({ path, confidence: 1, source: `${sourceName}: ${element}` });
+    }
+    return value;
+  };
+
+  const vendor: IVendor = {
+    name: read('vendor.name', 'SellerTradeParty/Name', text(seller.Name)) || '',
+    address: read('vendor.address', 'SellerTradeParty/PostalTradeAddress', formatAddress(seller.PostalTradeAddress)),
+    taxId: read('vendor.taxId', 'SellerTradeParty/SpecifiedTaxRegistration', partyTaxId(seller))
+  };
+
+  const lineItems = toArray<any>(transaction.IncludedSupplyChainTradeLineItem).map((item, index) => {
+    const lineItem = parseLineItem(item);
+    for (const field of ['code', 'description', 'quantity', 'unit', 'unitPrice', 'discount', 'taxPercent', 'total'] as const) {
+      read(`invoice.lineItems.${index}.${field}`, 'IncludedSupplyChainTradeLineItem', lineItem[field]);
+    }
+    return lineItem;
+  });
+
+  const charges = parseCharges(toArray<any>(settlement.SpecifiedTradeAllowanceCharge));
+  charges.forEach((charge, index) => read(`invoice.charges.${index}.amount`, 'SpecifiedTradeAllowanceCharge', charge.amount));
+  const taxBreakdown = parseTaxBreakdown(settlement);
+  taxBreakdown.forEach((entry, index) => read(`invoice.taxBreakdown.${index}.taxAmount`, 'ApplicableTradeTax', entry.taxAmount));
+
+  const invoice: IInvoiceData = {
+    number: read('invoice.number', 'ExchangedDocument/ID', text(header.ID)) || '',
+    date: read('invoice.date', 'ExchangedDocument/IssueDateTime', ciiDate(header.IssueDateTime)) || '',
+    currency: read('invoice.currency', 'InvoiceCurrencyCode', text(settlement.InvoiceCurrencyCode)),
+    subtotal: read('invoice.subtotal', 'LineTotalAmount', amount(summation.LineTotalAmount)),
+    taxPercent: read('invoice.taxPercent', 'ApplicableTradeTax/RateApplicablePercent', headerTaxPercent(settlement)),
+    total: read('invoice.total', 'GrandTotalAmount', amount(summation.GrandTotalAmount)),
+    poNumber: read('invoice.poNumber', 'BuyerOrderReferencedDocument/IssuerAssignedID', text(agreement.BuyerOrderReferencedDocument?.IssuerAssignedID)),
+    poDate: read('invoice.poDate', 'BuyerOrderReferencedDocument/FormattedIssueDateTime', ciiDate(agreement.BuyerOrderReferencedDocument?.FormattedIssueDateTime)),
+    lineItems: lineItems as ILineItem[], // incomplete lines are caught by extraction validation
+    charges: charges.length ? charges : undefined,
+    taxBreakdown: taxBreakdown.length ? taxBreakdown : undefined
+  };
+
+  return {
+    document: {
+      format: 'cii',
+      documentType: CREDIT_NOTE_TYPE_CODES.includes(text(header.TypeCode) || '') ? 'credit-note' : 'invoice',
+      specification: text(root.ExchangedDocumentContext?.GuidelineSpecifiedDocumentContextParameter?.ID),
+      vendor,
+      buyer: parseParty(agreement.BuyerTradeParty),
+      invoice,
+      dueDate: paymentTerms.map(terms => ciiDate(terms.DueDateDateTime)).find(Boolean),
+      taxTotal: amount(summation.TaxTotalAmount),
+      paymentTerms: paymentTerms.map(terms => text(terms.Description)).filter(Boolean).join('\n') || undefined,
+      notes: toArray<any>(header.IncludedNote).map(note => text(note.Content)).filter((note): note is string => !!note)
+    },
+    provenance
+  };
+};
+
+export default {
+  parseCiiInvoice
+};
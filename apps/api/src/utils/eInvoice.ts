@@ -0,0 +1,15 @@
+import { IParsedEInvoice } from '../types/invoice.types';
+import { parseCiiInvoice } from './ciiInvoice';
+import { parseUblInvoice } from './ublInvoice';
+
+/**
+ * Parse a UBL 2.1 (XRechnung UBL, Peppol BIS) or UN/CEFACT CII (ZUGFeRD, Factur-X,
+ * XRechnung CII) e-invoice. Returns undefined when the XML is in neither format.
+ */
+export const parseEInvoice = (xml: string | Buffer, sourceName?: string): IParsedEInvoice | undefined => {
+  return parseUblInvoice(xml, sourceName) ?? parseCiiInvoice(xml, sourceName);
+};
+
+export default {
+  parseEInvoice
+};
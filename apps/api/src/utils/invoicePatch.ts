@@ -0,0 +1,196 @@
+import { IInvoice, IJsonPatchOperation } from '../types/invoice.types';
+
+// The parts of an invoice a JSON Patch may change; status, files and review data have their own endpoints
+export type InvoiceEdits = Pick<IInvoice, 'vendor' | 'invoice' | 'accounting'>;
+export type PatchableField = keyof InvoiceEdits;
+
+const PATCHABLE_FIELDS: PatchableField[] = ['vendor', 'invoice', 'accounting'];
+
+// Keys that would reach the object prototype instead of a field
+const FORBIDDEN_KEYS = ['__proto__', 'constructor', 'prototype'];
+
+/**
+ * Thrown when a patch operation cannot be applied, e.g. because its path does not exist.
+ * Patches are atomic (RFC 6902): nothing is changed when any operation fails.
+ */
+export class InvoicePatchError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InvoicePatchError';
+  }
+}
+
+/**
+ * Thrown when a test operation finds another value than expected, i.e. the field was
+ * changed since the client read it
+ */
+export class InvoicePatchTestError extends InvoicePatchError {
+  constructor(path: string) {
+    super(`${path} has changed`);
+    this.name = 'InvoicePatchTestError';
+  }
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> => {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+};
+
+const hasOwn = (object: object, key: string) => Object.prototype.hasOwnProperty.call(object, key);
+
+// JSON equality as RFC 6902 defines it for test: member order does not matter, array order does
+const isEqual = (a: unknown, b: unknown): boolean => {
+  if (Array.isArray(a) || Array.isArray(b)) {
+    return Array.isArray(a) && Array.isArray(b) && a.length === b.length && a.every((item, index) => isEqual(item, b[index]));
+  }
+  if (isObject(a) && isObject(b)) {
+    const keys = Object.keys(a);
+    return keys.length === Object.keys(b).length && keys.every(key => hasOwn(b, key) && isEqual(a[key], b[key]));
+  }
+  return a === b;
+};
+
+// JSON Pointer segments (RFC 6901), where ~1 stands for / and ~0 for ~
+const parsePointer = (path: string): string[] => {
+  return path.slice(1).split('/').map(segment => segment.replace(/~1/g, '/').replace(/~0/g, '~'));
+};
+
+// Line items are addressed by ID: /invoice/lineItems/{id}
+const isLineItemSegment = (segments: string[], position: number) => {
+  return position === 2 && segments[0] === 'invoice' && segments[1] === 'lineItems';
+};
+
+/**
+ * Position of the array member a segment names, or -1. Line items are found by ID,
+ * other arrays such as the charges by index as in RFC 6902.
+ */
+const findIndex = (array: unknown[], segment: string, byId: boolean): number => {
+  if (byId) {
+    return array.findIndex(item => isObject(item) && item.id === segment);
+  }
+  const index = /^(0|[1-9]\d*)$/.test(segment) ? Number(segment) : -1;
+  return index < array.length ? index : -1;
+};
+
+// The value a pointer names, if it exists
+const resolve = (doc: Record<string, unknown>, segments: string[]): { found: boolean; value?: unknown } => {
+  let target: unknown = doc;
+  for (let position = 0; position < segments.length; position++) {
+    const segment = segments[position];
+    if (Array.isArray(target)) {
+      const index = findIndex(target, segment, isLineItemSegment(segments, position));
+      if (index < 0) return { found: false };
+      target = target[index];
+    } else if (isObject(target) && hasOwn(target, segment)) {
+      target = target[segment];
+    } else {
+      return { found: false };
+    }
+  }
+  return { found: true, value: target };
+};
+
+const applyOperation = (doc: Record<string, unknown>, { op, path, value }: IJsonPatchOperation): PatchableField | null => {
+  const segments = parsePointer(path);
+  const [field] = segments;
+
+  if (!PATCHABLE_FIELDS.includes(field as PatchableField)) {
+    throw new InvoicePatchError(`${path} cannot be patched; only /vendor, /invoice and /accounting can`);
+  }
+  if (segments.length === 1 && op === 'remove') {
+    throw new InvoicePatchError(`${path} cannot be removed`);
+  }
+  if (segments.some(segment => FORBIDDEN_KEYS.includes(segment))) {
+    throw new InvoicePatchError(`${path} is not a valid path`);
+  }
+  if (op !== 'test' && isLineItemSegment(segments, 2) && segments[3] === 'position') {
+    throw new InvoicePatchError(`${path} cannot be patched; lines are numbered in their order, so remove a line and add it before another to move it`);
+  }
+
+  if (op === 'test') {
+    // A value that no longer exists fails the test too, e.g. on a line item someone deleted
+    const target = resolve(doc, segments);
+    if (!target.found || !isEqual(target.value, value)) {
+      throw new InvoicePatchTestError(path);
+    }
+    return null;
+  }
+
+  const notFound = () => new InvoicePatchError(`${path} does not exist`);
+  const { found, value: parent } = resolve(doc, segments.slice(0, -1));
+  if (!found) throw notFound();
+  const key = segments[segments.length - 1];
+
+  if (Array.isArray(parent)) {
+    const byId = isLineItemSegment(segments, segments.length - 1);
+    if (byId && op !== 'remove' && !isObject(value)) {
+      throw new InvoicePatchError(`${path} must be set to a line item object`);
+    }
+
+    if (op === 'add') {
+      // Inserts before the member named; - or, by index, the length appends
+      const appends = key === '-' || (!byId && key === String(parent.length));
+      const index = appends ? parent.length : findIndex(parent, key, byId);
+      if (index < 0) throw notFound();
+      parent.splice(index, 0, value);
+    } else {
+      const index = findIndex(parent, key, byId);
+      if (index < 0) throw notFound();
+      if (op === 'remove') {
+        parent.splice(index, 1);
+      } else {
+        // A replaced line keeps its ID
+        parent[index] = byId ? { ...(value as object), id: key } : value;
+      }
+    }
+  } else if (isObject(parent)) {
+    if (op !== 'add' && !hasOwn(parent, key)) throw notFound();
+    if (op === 'remove') {
+      delete parent[key];
+    } else {
+      parent[key] = value;
+    }
+  } else {
+    throw notFound();
+  }
+
+  return field as PatchableField;
+};
+
+/**
+ * Apply a JSON Patch to a copy of the vendor, invoice data and accounting coding of an
+ * invoice. Returns the patched copy and which of the three the patch changed. Line items
+ * are numbered in the order the patch left them, so an insert lands where it was added.
+ * The result still has to be validated. Throws InvoicePatchTestError when a test operation fails.
+ */
+export const applyInvoicePatch = (
+  invoice: InvoiceEdits,
+  operations: IJsonPatchOperation[]
+): { edits: InvoiceEdits; changed: PatchableField[] } => {
+  const doc: Record<string, unknown> = JSON.parse(JSON.stringify({
+    vendor: invoice.vendor,
+    invoice: invoice.invoice,
+    accounting: invoice.accounting
+  }));
+  const changed = new Set<PatchableField>();
+  operations.forEach(operation => {
+    const field = applyOperation(doc, operation);
+    if (field) {
+      changed.add(field);
+    }
+  });
+
+  const lineItems = (doc.invoice as Record<string, unknown> | undefined)?.lineItems;
+  if (changed.has('invoice') && Array.isArray(lineItems)) {
+    lineItems.forEach((item, index) => {
+      if (isObject(item)) {
+        item.position = index + 1;
+      }
+    });
+  }
+
+  return { edits: doc as unknown as InvoiceEdits, changed: Array.from(changed) };
+};
+
+export default {
+  applyInvoicePatch
+};
@@ -0,0 +1,57 @@
+import { InvoiceStatus } from '../types/invoice.types';
+
+export const INVOICE_STATUSES: InvoiceStatus[] = [
+  'draft',
+  'extracted',
+  'in_review',
+  'approved',
+  'rejected',
+  'paid'
+];
+
+// Only reviewed invoices are handed to downstream systems
+export const EXPORTABLE_STATUSES: InvoiceStatus[] = ['approved', 'paid'];
+
+// Signed off: the data of these invoices only changes after they are sent back to review
+export const LOCKED_STATUSES: InvoiceStatus[] = ['approved', 'paid'];
+
+// Allowed status transitions: current status -> statuses it may move to.
+// Invoices are only approved from review.
+const STATUS_TRANSITIONS: Record<InvoiceStatus, InvoiceStatus[]> = {
+  draft: ['extracted', 'in_review', 'rejected'],
+  extracted: ['in_review', 'rejected'],
+  in_review: ['approved', 'rejected'],
+  approved: ['paid', 'in_review'],
+  rejected: ['in_review'],
+  paid: []
+};
+
+/**
+ * Check whether an invoice may move from one status to another
+ */
+export const canTransition = (from: InvoiceStatus, to: InvoiceStatus): boolean => {
+  return STATUS_TRANSITIONS[from].includes(to);
+};
+
+/**
+ * Check whether an invoice's data may be edited in its status
+ */
+export const isEditable = (status?: InvoiceStatus): boolean => {
+  return !LOCKED_STATUSES.includes(status || 'draft');
+};
+
+/**
+ * Get the statuses an invoice may move to from its current status
+ */
+export const getAllowedTransitions = (from: InvoiceStatus): InvoiceStatus[] => {
+  return STATUS_TRANSITIONS[from];
+};
+
+export default {
+  INVOICE_STATUSES,
+  EXPORTABLE_STATUSES,
+  LOCKED_STATUSES,
+  canTransition,
+  isEditable,
+  getAllowedTransitions,
+};
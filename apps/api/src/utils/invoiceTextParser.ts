@@ -0,0 +1,449 @@
+import { IVendor, IInvoiceData, ILineItem, IFieldProvenance } from '../types/invoice.types';
+
+export interface IParsedInvoiceText {
+  vendor: IVendor;
+  invoice: IInvoiceData;
+  provenance: IFieldProvenance[];
+}
+
+// Provenance before the source line has been located on a page
+interface IPendingProvenance {
+  path: string;
+  confidence: number;
+  line?: string;
+}
+
+const MONTHS: Record<string, number> = {
+  jan: 1, feb: 2, mar: 3, apr: 4, may: 5, jun: 6,
+  jul: 7, aug: 8, sep: 9, sept: 9, oct: 10, nov: 11, dec: 12
+};
+
+const CURRENCY_SYMBOLS: Record<string, string> = {
+  '$': 'USD',
+  '€': 'EUR',
+  '£': 'GBP',
+  '₹': 'INR',
+  '¥': 'JPY'
+};
+
+const CURRENCY_CODES = ['USD', 'EUR', 'GBP', 'INR', 'CAD', 'AUD', 'NZD', 'JPY', 'CNY', 'CHF', 'SEK', 'NOK', 'DKK', 'PLN', 'SGD', 'HKD', 'ZAR', 'AED', 'MXN', 'BRL'];
+
+const MONTH_NAME = '(?:jan|feb|mar|apr|may|jun|jul|aug|sept?|oct|nov|dec)[a-z]*\\.?';
+
+// Every date layout we know how to read, most specific first
+const DATE_PATTERN = new RegExp([
+  '\\d{4}[-/.]\\d{1,2}[-/.]\\d{1,2}',
+  '\\d{1,2}[-/.]\\d{1,2}[-/.]\\d{2,4}',
+  `\\d{1,2}(?:st|nd|rd|th)?[\\s-]+${MONTH_NAME}[\\s,-]+\\d{4}`,
+  `${MONTH_NAME}\\s+\\d{1,2}(?:st|nd|rd|th)?,?\\s+\\d{4}`
+].join('|'), 'i');
+
+const AMOUNT_PATTERN = /\(?-?(?:[$€£₹¥]\s?)?\d[\d,.']*\d(?:\s?[$€£₹¥])?\)?|\(?-?(?:[$€£₹¥]\s?)?\d(?:\s?[$€£₹¥])?\)?/g;
+
+const INVOICE_NUMBER_LABEL = /\b(?:invoice|inv|bill|receipt|document|doc|credit\s+note)\s*(?:no\.?|number|num\.?|nr\.?|#|id)\s*[:#.]?\s*([A-Z0-9][A-Z0-9\-_/.]*)/i;
+const PO_NUMBER_LABEL = /\b(?:p\.?\s?o\.?|purchase\s+order)\s*(?:no\.?|number|nr\.?|#)?\s*[:#.]?\s*([A-Z0-9][A-Z0-9\-_/.]*\d[A-Z0-9\-_/.]*)/i;
+const TAX_ID_LABEL = /\b(?:tax\s*id|vat\s*(?:id|no\.?|number|reg(?:istration)?\.?(?:\s*no\.?)?)|gstin|tin|ein|abn|ust-?id(?:nr)?\.?)\s*[:#.]?\s*([A-Z]{0,3}[0-9][A-Z0-9\- ]{3,}[A-Z0-9])/i;
+const VENDOR_LABEL = /^(?:from|vendor|seller|supplier|bill\s+from|sold\s+by|issued\s+by)\s*[:-]\s*(.+)$/i;
+
+const SUBTOTAL_LABEL = /\b(?:sub\s*-?\s*total|net\s+(?:total|amount)|total\s+(?:before|excl(?:uding|\.)?)\s+tax)\b/i;
+const TAX_LABEL = /\b(?:tax|vat|gst|hst|mwst|sales\s+tax)\b/i;
+const TOTAL_LABEL = /\b(?:grand\s+total|total\s+(?:due|amount|payable)|amount\s+(?:due|payable)|balance\s+due|total)\b/i;
+
+/**
+ * Parse a localized number ("1,234.56", "1.234,56", "(12.00)", "$ 99") into a float
+ */
+export const parseAmount = (value: string): number | undefined => {
+  let cleaned = value.replace(/[$€£₹¥'\s]/g, '').replace(/[A-Z]{3}$/i, '');
+  const negative = /^\(.*\)$/.test(cleaned) || cleaned.startsWith('-');
+  cleaned = cleaned.replace(/[()-]/g, '');
+
+  if (!/^\d[\d,.]*$/.test(cleaned)) {
+    return undefined;
+  }
+
+  const lastComma = cleaned.lastIndexOf(',');
+  const lastDot = cleaned.lastIndexOf('.');
+
+  if (lastComma >= 0 && lastDot >= 0) {
+    // Whichever separator comes last is the decimal separator
+    cleaned = lastComma > lastDot
+      ? cleaned.replace(/\./g, '').replace(',', '.')
+      : cleaned.replace(/,/g, '');
+  } else if (lastComma >= 0) {
+    cleaned = /,\d{1,2}$/.test(cleaned) && cleaned.split(',').length === 2
+      ? cleaned.replace(',', '.')
+      : cleaned.replace(/,/g, '');
+  } else if (lastDot >= 0 && /^\d{1,3}(\.\d{3})+$/.test(cleaned) && cleaned.split('.').length > 2) {
+    cleaned = cleaned.replace(/\./g, '');
+  }
+
+  const amount = parseFloat(cleaned);
+  if (isNaN(amount)) {
+    return undefined;
+  }
+
+  return negative ? -amount : amount;
+};
+
+const pad = (value: number): string => String(value).padStart(2, '0');
+
+const toIsoDate = (year: number, month: number, day: number): string | undefined => {
+  if (year < 100) {
+    year += year < 70 ? 2000 : 1900;
+  }
+  if (month < 1 || month > 12 || day < 1 || day > 31) {
+    return undefined;
+  }
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCMonth() !== month - 1) {
+    return undefined;
+  }
+  return `${year}-${pad(month)}-${pad(day)}`;
+};
+
+const monthFromName = (name: string): number | undefined => MONTHS[name.slice(0, 4)] || MONTHS[name.slice(0, 3)];
+
+/**
+ * Normalize a date in any of the supported layouts to YYYY-MM-DD.
+ * Numeric dates are read as day-first when separated by dots, otherwise month-first
+ * unless the first part cannot be a month.
+ */
+export const parseDate = (value: string): string | undefined => {
+  const text = value.trim().toLowerCase();
+
+  let match = text.match(/^(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})$/);
+  if (match) {
+    return toIsoDate(+match[1], +match[2], +match[3]);
+  }
+
+  match = text.match(/^(\d{1,2})([-/.])(\d{1,2})[-/.](\d{2,4})$/);
+  if (match) {
+    const first = +match[1];
+    const second = +match[3];
+    const dayFirst = match[2] === '.' || first > 12;
+    return dayFirst
+      ? toIsoDate(+match[4], second, first)
+      : toIsoDate(+match[4], first, second);
+  }
+
+  match = text.match(/^(\d{1,2})(?:st|nd|rd|th)?[\s-]+([a-z]+)\.?[\s,-]+(\d{4})$/);
+  if (match && monthFromName(match[2])) {
+    return toIsoDate(+match[3], monthFromName(match[2])!, +match[1]);
+  }
+
+  match = text.match(/^([a-z]+)\.?\s+(\d{1,2})(?:st|nd|rd|th)?,?\s+(\d{4})$/);
+  if (match && monthFromName(match[1])) {
+    return toIsoDate(+match[3], monthFromName(match[1])!, +match[2]);
+  }
+
+  return undefined;
+};
+
+const findDate = (text: string): string | undefined => {
+  const match = text.match(DATE_PATTERN);
+  return match ? parseDate(match[0]) : undefined;
+};
+
+const findAmounts = (line: string): number[] => {
+  return (line.match(AMOUNT_PATTERN) || [])
+    .map(token => parseAmount(token))
+    .filter((amount): amount is number => amount !== undefined);
+};
+
+// A value read from the text together with the line it came from
+interface ITextMatch<T> {
+  value: T;
+  line: string;
+}
+
+/**
+ * Find the value for a label on the same line, or on the next line when the
+ * PDF text puts labels and values in separate rows
+ */
+const findLabelledValue = <T>(lines: string[], label: RegExp, read: (text: string) => T | undefined): ITextMatch<T> | undefined => {
+  for (let i = 0; i < lines.length; i++) {
+    const match = lines[i].match(label);
+    if (!match) {
+      continue;
+    }
+
+    const rest = lines[i].slice((match.index || 0) + match[0].length);
+    const sameLine = read(rest);
+    if (sameLine !== undefined) {
+      return { value: sameLine, line: lines[i] };
+    }
+
+    const nextLine = i + 1 < lines.length ? read(lines[i + 1]) : undefined;
+    if (nextLine !== undefined) {
+      return { value: nextLine, line: `${lines[i]} ${lines[i + 1]}` };
+    }
+  }
+  return undefined;
+};
+
+const firstCapture = (lines: string[], pattern: RegExp): ITextMatch<string> | undefined => {
+  for (const line of lines) {
+    const match = line.match(pattern);
+    if (match) {
+      return { value: match[1], line };
+    }
+  }
+  return undefined;
+};
+
+const lastAmount = (text: string): number | undefined => {
+  const amounts = findAmounts(text);
+  return amounts.length > 0 ? amounts[amounts.length - 1] : undefined;
+};
+
+/**
+ * Scan bottom-up so the grand total wins over "Total" column headers in the item table
+ */
+const findTotal = (lines: string[]): ITextMatch<number> | undefined => {
+  for (let i = lines.length - 1; i >= 0; i--) {
+    const match = lines[i].match(TOTAL_LABEL);
+    if (!match || SUBTOTAL_LABEL.test(lines[i])) {
+      continue;
+    }
+
+    const rest = lines[i].slice((match.index || 0) + match[0].length);
+    const sameLine = lastAmount(rest);
+    if (sameLine !== undefined) {
+      return { value: sameLine, line: lines[i] };
+    }
+
+    const nextLine = i + 1 < lines.length ? lastAmount(lines[i + 1]) : undefined;
+    if (nextLine !== undefined) {
+      return { value: nextLine, line: `${lines[i]} ${lines[i + 1]}` };
+    }
+  }
+  return undefined;
+};
+
+const detectCurrency = (lines: string[]): (ITextMatch<string> & { fromSymbol: boolean }) | undefined => {
+  const codePattern = new RegExp(`\\b(${CURRENCY_CODES.join('|')})\\b`);
+  const codeLine = lines.find(line => codePattern.test(line));
+  if (codeLine) {
+    return { value: codeLine.match(codePattern)![1], line: codeLine, fromSymbol: false };
+  }
+
+  for (const line of lines) {
+    const symbol = Object.keys(CURRENCY_SYMBOLS).find(sym => line.includes(sym));
+    if (symbol) {
+      return { value: CURRENCY_SYMBOLS[symbol], line, fromSymbol: true };
+    }
+  }
+  return undefined;
+};
+
+const isClose = (a: number, b: number): boolean => Math.abs(a - b) <= Math.max(0.01, Math.abs(b) * 0.005);
+
+/**
+ * Read a table row that ends in three numbers: description, then quantity, unit price
+ * and line total in either quantity-first or price-first order. Rows are only accepted
+ * when quantity × unit price matches the line total, which filters out addresses and dates.
+ */
+const parseLineItem = (line: string): ILineItem | undefined => {
+  if (SUBTOTAL_LABEL.test(line) || TOTAL_LABEL.test(line) || TAX_LABEL.test(line)) {
+    return undefined;
+  }
+
+  const tokens = line.trim().split(/\s+/);
+  const numbers: number[] = [];
+
+  while (tokens.length > 0 && numbers.length < 3) {
+    const token = tokens[tokens.length - 1].replace(/^[x@×]$/i, '');
+    if (token === '' || /^[$€£₹¥]$/.test(token) || CURRENCY_CODES.includes(token)) {
+      tokens.pop();
+      continue;
+    }
+    const amount = /\d/.test(token) ? parseAmount(token) : undefined;
+    if (amount === undefined) {
+      break;
+    }
+    numbers.unshift(amount);
+    tokens.pop();
+  }
+
+  const description = tokens.join(' ').replace(/[\s:\-|]+$/, '').trim();
+  if (numbers.length < 3 || !/[a-z]/i.test(description)) {
+    return undefined;
+  }
+
+  const [first, second, total] = numbers;
+  if (!isClose(first * second, total) || total === 0) {
+    return undefined;
+  }
+
+  // Prefer the whole number as the quantity when the order is ambiguous
+  const firstIsQuantity = Number.isInteger(first) || !Number.isInteger(second);
+  return {
+    description,
+    quantity: firstIsQuantity ? first : second,
+    unitPrice: firstIsQuantity ? second : first,
+    total
+  };
+};
+
+const findVendor = (lines: string[]): { vendor: IVendor; pending: IPendingProvenance[] } => {
+  const pending: IPendingProvenance[] = [];
+  const taxId = firstCapture(lines, TAX_ID_LABEL);
+  if (taxId) {
+    pending.push({ path: 'vendor.taxId', confidence: 0.8, line: taxId.line });
+  }
+
+  let nameIndex = lines.findIndex(line => VENDOR_LABEL.test(line));
+  let name = nameIndex >= 0 ? lines[nameIndex].match(VENDOR_LABEL)![1].trim() : undefined;
+  const labelled = !!name;
+
+  if (!name) {
+    // Otherwise the issuer is usually the first line that is not a title, label or number
+    nameIndex = lines.findIndex(line =>
+      /[a-z]{2}/i.test(line) &&
+      !/^(?:tax\s+)?invoice\b|^receipt\b|^bill\b|^page\b/i.test(line) &&
+      !INVOICE_NUMBER_LABEL.test(line) &&
+      !DATE_PATTERN.test(line) &&
+      !/:/.test(line)
+    );
+    name = nameIndex >= 0 ? lines[nameIndex] : undefined;
+  }
+
+  if (name) {
+    pending.push({ path: 'vendor.name', confidence: labelled ? 0.8 : 0.4, line: lines[nameIndex] });
+  }
+
+  const addressLines: string[] = [];
+  for (let i = nameIndex + 1; nameIndex >= 0 && i < lines.length && addressLines.length < 3; i++) {
+    const line = lines[i];
+    if (/:/.test(line) || INVOICE_NUMBER_LABEL.test(line) || TAX_ID_LABEL.test(line) || /^(?:tax\s+)?invoice\b/i.test(line)) {
+      break;
+    }
+    addressLines.push(line);
+  }
+
+  if (addressLines.length > 0) {
+    pending.push({ path: 'vendor.address', confidence: labelled ? 0.6 : 0.4, line: addressLines.join(' ') });
+  }
+
+  return {
+    vendor: {
+      name: name || '',
+      address: addressLines.length > 0 ? addressLines.join(', ') : undefined,
+      taxId: taxId?.value.trim()
+    },
+    pending
+  };
+};
+
+const normalize = (text: string): string => text.replace(/\s+/g, ' ').trim();
+
+// Attach the 1-based page number on which each source line appears
+const resolvePages = (pending: IPendingProvenance[], pages: string[]): IFieldProvenance[] => {
+  const normalizedPages = pages.map(normalize);
+
+  return pending.map(({ path, confidence, line }) => {
+    const pageIndex = line ? normalizedPages.findIndex(page => page.includes(line)) : -1;
+    return {
+      path,
+      confidence,
+      ...(line ? { source: line.slice(0, 500) } : {}),
+      ...(pageIndex >= 0 ? { page: pageIndex + 1 } : {})
+    };
+  });
+};
+
+/**
+ * Extract invoice fields from plain PDF text using regular expressions only.
+ * Deterministic and offline: the same text always produces the same result.
+ * Fields that cannot be found are left empty rather than guessed. Each value
+ * comes with a confidence that reflects how it was found (an explicit label
+ * scores higher than a positional guess) and the line it was read from.
+ * Pass the per-page texts to have page numbers recorded too.
+ */
+export const parseInvoiceText = (text: string, pages: string[] = []): IParsedInvoiceText => {
+  const lines = text
+    .split(/\r?\n/)
+    .map(line => line.replace(/\s+/g, ' ').trim())
+    .filter(line => line.length > 0);
+
+  const { vendor, pending } = findVendor(lines);
+  const track = <T>(path: string, match: ITextMatch<T> | undefined, confidence: number): T | undefined => {
+    if (match) {
+      pending.push({ path, confidence, line: match.line });
+    }
+    return match?.value;
+  };
+
+  const number = track('invoice.number', firstCapture(lines, INVOICE_NUMBER_LABEL), 0.9);
+
+  const labelledDate =
+    findLabelledValue(lines, /\b(?:invoice|issue|bill(?:ing)?|document)\s+date\b\s*[:.]?/i, findDate) ??
+    findLabelledValue(lines, /^date\b\s*[:.]?/i, findDate);
+  const firstDateLine = lines.find(line => findDate(line) !== undefined);
+  const date = labelledDate
+    ? track('invoice.date', labelledDate, 0.85)
+    : track('invoice.date', firstDateLine ? { value: findDate(firstDateLine)!, line: firstDateLine } : undefined, 0.5);
+
+  const poNumber = track('invoice.poNumber', firstCapture(lines, PO_NUMBER_LABEL), 0.8);
+  const poDate = track('invoice.poDate', findLabelledValue(lines, /\b(?:p\.?\s?o\.?|purchase\s+order)\s+date\b\s*[:.]?/i, findDate), 0.8);
+
+  const currency = detectCurrency(lines);
+  track('invoice.currency', currency, currency?.fromSymbol ? 0.6 : 0.8);
+
+  let subtotal = track('invoice.subtotal', findLabelledValue(lines, SUBTOTAL_LABEL, lastAmount), 0.85);
+
+  const total = track('invoice.total', findTotal(lines), 0.85);
+
+  const taxLine = lines.find(line => TAX_LABEL.test(line) && !TAX_ID_LABEL.test(line) && !TOTAL_LABEL.test(line));
+  let taxPercent: number | undefined;
+  const rate = taxLine?.match(/(\d+(?:[.,]\d+)?)\s*%/);
+  if (taxLine && rate) {
+    taxPercent = track('invoice.taxPercent', { value: parseAmount(rate[1])!, line: taxLine }, 0.85);
+  } else if (taxLine && subtotal) {
+    const taxAmount = lastAmount(taxLine);
+    if (taxAmount !== undefined) {
+      // Derived from the tax amount, so less certain than a printed rate
+      taxPercent = track('invoice.taxPercent', { value: Math.round((taxAmount / subtotal) * 10000) / 100, line: taxLine }, 0.6);
+    }
+  }
+
+  const lineItems: ILineItem[] = [];
+  for (const line of lines) {
+    const item = parseLineItem(line);
+    if (!item) {
+      continue;
+    }
+    // Rows only match when quantity × unit price equals the total, so they are fairly reliable
+    for (const field of ['description', 'quantity', 'unitPrice', 'total']) {
+      pending.push({ path: `invoice.lineItems.${lineItems.length}.${field}`, confidence: 0.8, line });
+    }
+    lineItems.push(item);
+  }
+
+  if (subtotal === undefined && lineItems.length > 0) {
+    subtotal = Math.round(lineItems.reduce((sum, item) => sum + item.total, 0) * 100) / 100;
+    pending.push({ path: 'invoice.subtotal', confidence: 0.6 });
+  }
+
+  return {
+    vendor,
+    invoice: {
+      number: number || '',
+      date: date || '',
+      currency: currency?.value,
+      subtotal,
+      taxPercent,
+      total,
+      poNumber,
+      poDate,
+      lineItems
+    },
+    provenance: resolvePages(pending, pages)
+  };
+};
+
+export default {
+  parseAmount,
+  parseDate,
+  parseInvoiceText,
+};
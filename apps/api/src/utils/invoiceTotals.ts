@@ -0,0 +1,83 @@
+import { IInvoiceCharge, IInvoiceData, ILineItem, InvoiceChargeType, ITaxBreakdownEntry } from '../types/invoice.types';
+
+const round = (value: number): number => Math.round(value * 100) / 100;
+
+const isRate = (value: unknown): value is number => typeof value === 'number' && isFinite(value);
+
+/**
+ * Net amount of a line: quantity × unit price less the line discount
+ */
+export const getLineNet = (item: Pick<ILineItem, 'quantity' | 'unitPrice' | 'discount'>): number => {
+  return item.quantity * item.unitPrice * (1 - (item.discount || 0) / 100);
+};
+
+/**
+ * Tax rate of a line or charge: its own, or the invoice's rate
+ */
+export const getTaxRate = (entry: { taxPercent?: number }, data: Pick<IInvoiceData, 'taxPercent'>): number | undefined => {
+  return isRate(entry.taxPercent) ? entry.taxPercent : isRate(data.taxPercent) ? data.taxPercent : undefined;
+};
+
+export const getChargesTotal = (data: Pick<IInvoiceData, 'charges'>): number => {
+  return round((data.charges || []).reduce((sum, charge) => sum + charge.amount, 0));
+};
+
+/**
+ * Tax per rate over line totals and charges, rounded per rate as on EN 16931 invoices.
+ * Without line items the subtotal is taxed at the invoice's rate. Returns undefined
+ * when an amount has no rate, so the tax cannot be known.
+ */
+export const computeTaxBreakdown = (data: IInvoiceData): ITaxBreakdownEntry[] | undefined => {
+  const lineItems = data.lineItems || [];
+  const amounts: Array<{ taxPercent?: number; amount: number }> = [
+    ...lineItems.map(item => ({ taxPercent: getTaxRate(item, data), amount: item.total })),
+    ...(data.charges || []).map(charge => ({ taxPercent: getTaxRate(charge, data), amount: charge.amount }))
+  ];
+  if (!lineItems.length && isRate(data.subtotal)) {
+    amounts.push({ taxPercent: getTaxRate({}, data), amount: data.subtotal });
+  }
+  if (!amounts.length || amounts.some(entry => entry.taxPercent === undefined)) {
+    return undefined;
+  }
+
+  const taxable = new Map<number, number>();
+  amounts.forEach(({ taxPercent, amount }) => taxable.set(taxPercent!, (taxable.get(taxPercent!) || 0) + amount));
+
+  return Array.from(taxable.entries())
+    .sort(([a], [b]) => a - b)
+    .map(([taxPercent, amount]) => ({
+      taxPercent,
+      taxableAmount: round(amount),
+      taxAmount: round(round(amount) * taxPercent / 100)
+    }));
+};
+
+// Reason codes (UNCL 7161) and words that mark a charge as shipping
+const SHIPPING_REASON_CODES = ['FC', 'DL', 'ABK'];
+const SHIPPING_REASON = /freight|shipping|delivery|carriage|postage|porto|versand|fracht|transport|livraison/i;
+
+/**
+ * Classify an e-invoice charge by its reason code or text
+ */
+export const getChargeType = (reasonCode?: string, reason?: string): InvoiceChargeType => {
+  return SHIPPING_REASON_CODES.includes((reasonCode || '').toUpperCase()) || SHIPPING_REASON.test(reason || '')
+    ? 'shipping'
+    : 'other';
+};
+
+export const CHARGE_TYPE_LABELS: Record<InvoiceChargeType, string> = {
+  shipping: 'Shipping',
+  other: 'Other charges'
+};
+
+// Label of a charge on exports: its own description, or what kind of charge it is
+export const getChargeLabel = (charge: IInvoiceCharge): string => charge.description || CHARGE_TYPE_LABELS[charge.type];
+
+export default {
+  getLineNet,
+  getTaxRate,
+  getChargesTotal,
+  computeTaxBreakdown,
+  getChargeType,
+  getChargeLabel
+};
@@ -0,0 +1,41 @@
+import { IInvoice } from '../types/invoice.types';
+
+/**
+ * The version of an invoice, raised by every change. Invoices stored before versions
+ * were kept have none and count as version 0.
+ */
+export const getInvoiceVersion = (invoice: Pick<IInvoice, 'version'>): number => invoice.version || 0;
+
+/**
+ * Strong ETag for an invoice, e.g. "3"
+ */
+export const getInvoiceETag = (invoice: Pick<IInvoice, 'version'>): string => `"${getInvoiceVersion(invoice)}"`;
+
+/**
+ * Filter that only matches the invoice while it is still at the given version
+ */
+export const versionFilter = (invoice: Pick<IInvoice, 'version'>): Record<string, number | null> => {
+  const version = getInvoiceVersion(invoice);
+  // null also matches a missing field
+  return { version: version || null };
+};
+
+/**
+ * Check an If-Match header against an invoice. A missing header or * always matches;
+ * otherwise one of the listed ETags must be the invoice's. Weak ETags never match,
+ * as If-Match uses strong comparison (RFC 9110).
+ */
+export const matchesIfMatch = (header: string | undefined, invoice: Pick<IInvoice, 'version'>): boolean => {
+  if (!header || header.trim() === '*') {
+    return true;
+  }
+  const etag = getInvoiceETag(invoice);
+  return header.split(',').some(tag => tag.trim() === etag);
+};
+
+export default {
+  getInvoiceVersion,
+  getInvoiceETag,
+  versionFilter,
+  matchesIfMatch
+};
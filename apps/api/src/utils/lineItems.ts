@@ -0,0 +1,24 @@
+import crypto from 'crypto';
+import { ILineItem } from '../types/invoice.types';
+
+/**
+ * Put line items in the order of their positions and number them 1, 2, 3, … again. Lines
+ * without a position, such as ones just appended, keep their place after the others.
+ * Every line also gets an ID that is unique within the invoice. IDs the lines already have
+ * are kept, so a line stays addressable however the others change.
+ */
+export const normalizeLineItems = <T extends Pick<ILineItem, 'id' | 'position'>>(lineItems: T[] = []): T[] => {
+  const seen = new Set<string>();
+  return lineItems
+    .map((item, index) => ({ item, index }))
+    .sort((a, b) => (a.item.position ?? Infinity) - (b.item.position ?? Infinity) || a.index - b.index)
+    .map(({ item }, index) => {
+      const id = item.id && !seen.has(item.id) ? item.id : crypto.randomUUID();
+      seen.add(id);
+      return { ...item, id, position: index + 1 };
+    });
+};
+
+export default {
+  normalizeLineItems
+};
@@ -0,0 +1,84 @@
+import mongoose from 'mongoose';
+import Invoice, { FULL_TEXT_INDEX } from '../models/Invoice';
+import User from '../models/User';
+
+// Records from before invoices and files had owners
+const NO_OWNER = { $in: [null, ''] };
+
+/**
+ * Drop text indexes on invoices other than FULL_TEXT_INDEX, then build the schema's indexes.
+ * MongoDB allows one text index per collection, so the one databases created by earlier
+ * versions have (auto-named `vendor.name_text_invoice.number_text`) keeps the full-text
+ * index from being built.
+ */
+export const replaceLegacyTextIndexes = async (): Promise<void> => {
+  const indexes = await Invoice.collection.indexes();
+  const legacy = indexes.filter(index => index.key._fts === 'text' && index.name !== FULL_TEXT_INDEX);
+
+  if (!legacy.length) {
+    return;
+  }
+
+  for (const index of legacy) {
+    console.log(`🔧 Dropping text index ${index.name} on invoices`);
+    await Invoice.collection.dropIndex(index.name!);
+  }
+  await Invoice.createIndexes();
+};
+
+// LEGACY_OWNER_EMAIL, or else the first admin
+const findLegacyOwner = async (): Promise<string | undefined> => {
+  const email = process.env.LEGACY_OWNER_EMAIL;
+  const user = email
+    ? await User.findOne({ email: email.toLowerCase() }).select('_id').lean()
+    : await User.findOne({ role: 'admin' }).sort({ createdAt: 1 }).select('_id').lean();
+
+  return user ? String(user._id) : undefined;
+};
+
+/**
+ * Assign invoices and uploaded files without an owner to the legacy owner. Until they are
+ * assigned, only admins see them, and the invoices cannot be saved.
+ */
+export const backfillOwners = async (): Promise<void> => {
+  // Files without an owner only exist in GridFS; the blob store has no metadata to fill in
+  const files = mongoose.connection.db?.collection('uploads.files');
+  const [invoiceCount, fileCount] = await Promise.all([
+    Invoice.countDocuments({ owner: NO_OWNER }),
+    files ? files.countDocuments({ 'metadata.ownerId': NO_OWNER }) : 0
+  ]);
+
+  if (!invoiceCount && !fileCount) {
+    return;
+  }
+
+  const owner = await findLegacyOwner();
+  if (!owner) {
+    console.warn(
+      `⚠️  ${invoiceCount} invoices and ${fileCount} files have no owner. ` +
+      'Create an admin user or set LEGACY_OWNER_EMAIL, then run the migrations again'
+    );
+    return;
+  }
+
+  console.log(`🔧 Assigning ${invoiceCount} invoices and ${fileCount} files without an owner to user ${owner}`);
+  await Invoice.updateMany({ owner: NO_OWNER }, { $set: { owner } });
+  if (files) {
+    await files.updateMany({ 'metadata.ownerId': NO_OWNER }, { $set: { 'metadata.ownerId': owner } });
+  }
+};
+
+/**
+ * Bring the database up to date with the current schema. Every step checks what it needs
+ * to do first, so this runs on every start.
+ */
+export const runMigrations = async (): Promise<void> => {
+  await replaceLegacyTextIndexes();
+  await backfillOwners();
+};
+
+export default {
+  replaceLegacyTextIndexes,
+  backfillOwners,
+  runMigrations
+};
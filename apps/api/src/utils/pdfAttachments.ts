@@ -0,0 +1,28 @@
+import PDFJS from 'pdf-parse/lib/pdf.js/v1.10.100/build/pdf.js';
+
+export interface IPdfAttachment {
+  filename: string;
+  content: Buffer;
+}
+
+/**
+ * List the files embedded in a PDF (the document-level EmbeddedFiles name tree)
+ */
+export async function getPdfAttachments(pdfBuffer: Buffer): Promise<IPdfAttachment[]> {
+  PDFJS.disableWorker = true;
+  const doc = await PDFJS.getDocument(new Uint8Array(pdfBuffer));
+
+  try {
+    const attachments = await doc.getAttachments();
+    return Object.values(attachments || {}).map(attachment => ({
+      filename: attachment.filename,
+      content: Buffer.from(attachment.content)
+    }));
+  } finally {
+    doc.destroy();
+  }
+}
+
+export default {
+  getPdfAttachments
+};
@@ -0,0 +1,261 @@
+import {
+  IInvoice,
+  ILineItem,
+  IPoLineMatch,
+  IPoMatchReport,
+  IPoMatchTolerances,
+  IPoVariance,
+  IPurchaseOrder,
+  IPurchaseOrderLine
+} from '../types/invoice.types';
+import { nameSimilarity } from './vendorNames';
+
+// Descriptions this similar are taken to be the same article, e.g. "Widget blue 10mm" and "Widget, blue, 10 mm"
+const MIN_LINE_SIMILARITY = 0.5;
+// Cents of rounding on either document are never a price variance
+const AMOUNT_TOLERANCE = 0.005;
+
+const round = (value: number): number => Math.round(value * 100) / 100;
+
+/**
+ * Matching key of a PO number: upper case letters and digits only, e.g. "po 4500-123" -> "PO4500123"
+ */
+export const normalizePoNumber = (poNumber: string): string => poNumber.toUpperCase().replace(/[^A-Z0-9]/g, '');
+
+/**
+ * Pattern finding PO numbers with the given key however they were printed, e.g. "PO-4500 123"
+ */
+export const poNumberPattern = (key: string): RegExp => {
+  return new RegExp(`^[^A-Za-z0-9]*${key.split('').join('[^A-Za-z0-9]*')}[^A-Za-z0-9]*$`, 'i');
+};
+
+const normalizeDescription = (text: string): string => {
+  return text
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, ' ')
+    .trim();
+};
+
+const lineSimilarity = (item: ILineItem, line: IPurchaseOrderLine): number => {
+  const description = ` ${normalizeDescription(item.description || '')} `;
+  const sku = line.sku ? normalizeDescription(line.sku) : '';
+  if (sku && (normalizeDescription(item.code || '') === sku || description.includes(` ${sku} `))) {
+    return 1;
+  }
+  return nameSimilarity(description.trim(), normalizeDescription(line.description));
+};
+
+/**
+ * Pair invoice lines with PO lines by SKU or description, most similar pairs first.
+ * Returns a map from invoice line index to PO line number.
+ */
+export const pairLineItems = (lineItems: ILineItem[], poLines: IPurchaseOrderLine[]): Map<number, number> => {
+  const pairs = new Map<number, number>();
+
+  // A single-line invoice against a single-line PO is the same article whatever it is called
+  if (lineItems.length === 1 && poLines.length === 1) {
+    pairs.set(0, poLines[0].lineNumber);
+    return pairs;
+  }
+
+  const candidates = lineItems.flatMap((item, index) => poLines.map(line => ({
+    index,
+    lineNumber: line.lineNumber,
+    score: lineSimilarity(item, line)
+  }))).filter(candidate => candidate.score >= MIN_LINE_SIMILARITY)
+    .sort((a, b) => b.score - a.score);
+
+  const pairedLines = new Set<number>();
+  candidates.forEach(candidate => {
+    if (!pairs.has(candidate.index) && !pairedLines.has(candidate.lineNumber)) {
+      pairs.set(candidate.index, candidate.lineNumber);
+      pairedLines.add(candidate.lineNumber);
+    }
+  });
+  return pairs;
+};
+
+/**
+ * Quantity received per PO line over all goods receipts
+ */
+export const getReceivedQuantities = (po: Pick<IPurchaseOrder, 'receipts'>): Map<number, number> => {
+  const received = new Map<number, number>();
+  (po.receipts || []).forEach(receipt => receipt.lines.forEach(line => {
+    received.set(line.lineNumber, (received.get(line.lineNumber) || 0) + line.quantity);
+  }));
+  return received;
+};
+
+/**
+ * Quantity per PO line billed on other invoices against the same PO
+ */
+export const getInvoicedQuantities = (
+  invoices: Array<Pick<IInvoice, 'invoice'>>,
+  poLines: IPurchaseOrderLine[]
+): Map<number, number> => {
+  const invoiced = new Map<number, number>();
+  invoices.forEach(other => {
+    const lineItems = other.invoice?.lineItems || [];
+    pairLineItems(lineItems, poLines).forEach((lineNumber, index) => {
+      invoiced.set(lineNumber, (invoiced.get(lineNumber) || 0) + (lineItems[index].quantity || 0));
+    });
+  });
+  return invoiced;
+};
+
+export interface IPoMatchInput {
+  invoice: Pick<IInvoice, 'invoice' | 'vendorMatch'>;
+  purchaseOrder: IPurchaseOrder;
+  tolerances: IPoMatchTolerances;
+  previouslyInvoiced: Map<number, number>;
+  otherInvoices: number;
+}
+
+/**
+ * Compare an invoice with its purchase order: unit prices with the ordered prices, and
+ * quantities (including those already billed on other invoices) with the ordered and,
+ * for 3-way matching, the received quantities. Quantities below the PO are partial
+ * deliveries and not a variance; prices are flagged in both directions.
+ */
+export const matchPurchaseOrder = ({
+  invoice,
+  purchaseOrder: po,
+  tolerances,
+  previouslyInvoiced,
+  otherInvoices
+}: IPoMatchInput): IPoMatchReport => {
+  const lineItems = invoice.invoice?.lineItems || [];
+  const matchType = po.receiptRequired || po.receipts.length ? 'three-way' : 'two-way';
+  const received = getReceivedQuantities(po);
+  const pairs = pairLineItems(lineItems, po.lines);
+  const variances: IPoVariance[] = [];
+  const quantityFactor = 1 + tolerances.quantityPercent / 100;
+
+  const lines: IPoLineMatch[] = lineItems.map((item, index) => {
+    const lineNumber = pairs.get(index);
+    const line = po.lines.find(candidate => candidate.lineNumber === lineNumber);
+    if (!line) {
+      variances.push({
+        code: 'unordered_line',
+        path: `invoice.lineItems.${index}.description`,
+        message: `Line ${index + 1}: "${item.description}" is not on PO ${po.poNumber}`
+      });
+      return {
+        invoiceLine: index,
+        description: item.description,
+        invoicedQuantity: item.quantity,
+        invoicedUnitPrice: item.unitPrice,
+        status: 'unordered'
+      };
+    }
+
+    const lineVariances: IPoVariance[] = [];
+    const priceDifference = item.unitPrice - line.unitPrice;
+    if (Math.abs(priceDifference) > line.unitPrice * tolerances.pricePercent / 100 + AMOUNT_TOLERANCE) {
+      lineVariances.push({
+        code: 'price_variance',
+        path: `invoice.lineItems.${index}.unitPrice`,
+        message: `Line ${index + 1}: unit price ${item.unitPrice.toFixed(2)} differs from the ordered ${line.unitPrice.toFixed(2)}`,
+        lineNumber: line.lineNumber,
+        expected: line.unitPrice,
+        actual: item.unitPrice
+      });
+    }
+
+    const before = previouslyInvoiced.get(line.lineNumber) || 0;
+    const billed = before + item.quantity;
+    if (billed > line.quantity * quantityFactor) {
+      lineVariances.push({
+        code: 'quantity_over_ordered',
+        path: `invoice.lineItems.${index}.quantity`,
+        message: before
+          ? `Line ${index + 1}: ${billed} billed in total (${before} on other invoices), but ${line.quantity} ordered`
+          : `Line ${index + 1}: quantity ${item.quantity} exceeds the ordered ${line.quantity}`,
+        lineNumber: line.lineNumber,
+        expected: Math.max(line.quantity - before, 0),
+        actual: item.quantity
+      });
+    }
+
+    const receivedQuantity = matchType === 'three-way' ? received.get(line.lineNumber) || 0 : undefined;
+    if (receivedQuantity !== undefined && billed > receivedQuantity * quantityFactor) {
+      lineVariances.push({
+        code: 'quantity_over_received',
+        path: `invoice.lineItems.${index}.quantity`,
+        message: before
+          ? `Line ${index + 1}: ${billed} billed in total (${before} on other invoices), but ${receivedQuantity} received`
+          : `Line ${index + 1}: quantity ${item.quantity} exceeds the received ${receivedQuantity}`,
+        lineNumber: line.lineNumber,
+        expected: Math.max(receivedQuantity - before, 0),
+        actual: item.quantity
+      });
+    }
+
+    variances.push(...lineVariances);
+    return {
+      invoiceLine: index,
+      lineNumber: line.lineNumber,
+      description: item.description,
+      invoicedQuantity: item.quantity,
+      invoicedUnitPrice: item.unitPrice,
+      orderedQuantity: line.quantity,
+      orderedUnitPrice: line.unitPrice,
+      receivedQuantity,
+      previouslyInvoiced: before || undefined,
+      priceVariancePercent: line.unitPrice ? round(priceDifference / line.unitPrice * 100) : undefined,
+      status: lineVariances.length ? 'variance' : 'matched'
+    };
+  });
+
+  const pairedLines = new Set(pairs.values());
+  po.lines.filter(line => !pairedLines.has(line.lineNumber)).forEach(line => {
+    lines.push({
+      lineNumber: line.lineNumber,
+      description: line.description,
+      orderedQuantity: line.quantity,
+      orderedUnitPrice: line.unitPrice,
+      receivedQuantity: matchType === 'three-way' ? received.get(line.lineNumber) || 0 : undefined,
+      previouslyInvoiced: previouslyInvoiced.get(line.lineNumber),
+      status: 'not_invoiced'
+    });
+  });
+
+  const currency = invoice.invoice?.currency;
+  if (currency && po.currency && currency.toUpperCase() !== po.currency.toUpperCase()) {
+    variances.push({
+      code: 'currency_mismatch',
+      path: 'invoice.currency',
+      message: `Invoice currency ${currency} differs from the PO currency ${po.currency}`
+    });
+  }
+
+  if (po.vendorId && invoice.vendorMatch && invoice.vendorMatch.vendorId !== po.vendorId) {
+    variances.push({
+      code: 'vendor_mismatch',
+      path: 'vendor.name',
+      message: `PO ${po.poNumber} was issued to ${po.vendorName || 'another vendor'}, not ${invoice.vendorMatch.name}`
+    });
+  }
+
+  return {
+    status: variances.length ? 'variance' : 'matched',
+    poNumber: po.poNumber,
+    purchaseOrderId: po._id ? String(po._id) : undefined,
+    matchType,
+    tolerances,
+    lines,
+    variances,
+    otherInvoices
+  };
+};
+
+export default {
+  normalizePoNumber,
+  poNumberPattern,
+  pairLineItems,
+  getReceivedQuantities,
+  getInvoicedQuantities,
+  matchPurchaseOrder
+};
@@ -0,0 +1,160 @@
+// Accepted header spellings, compared in lower case without spaces, dashes or underscores
+const COLUMN_ALIASES: Record<string, string> = {
+  ponumber: 'poNumber',
+  po: 'poNumber',
+  podate: 'poDate',
+  vendor: 'vendorName',
+  vendorname: 'vendorName',
+  vendortaxid: 'vendorTaxId',
+  taxid: 'vendorTaxId',
+  currency: 'currency',
+  receiptrequired: 'receiptRequired',
+  line: 'lineNumber',
+  linenumber: 'lineNumber',
+  sku: 'sku',
+  description: 'description',
+  quantity: 'quantity',
+  qty: 'quantity',
+  unitprice: 'unitPrice',
+  price: 'unitPrice'
+};
+
+const HEADER_FIELDS = ['poDate', 'vendorName', 'vendorTaxId', 'currency', 'receiptRequired'];
+
+export interface IParsedPurchaseOrderCsv {
+  purchaseOrders: Array<Record<string, unknown>>;
+  errors: string[];
+}
+
+/**
+ * Split CSV text into rows of cells. Handles quoted cells with delimiters, quotes and line
+ * breaks, and takes semicolons as the delimiter when the header has more of them than commas,
+ * as spreadsheet apps write in locales with a decimal comma.
+ */
+export const parseCsv = (text: string): string[][] => {
+  const content = text.replace(/^\uFEFF/, '');
+  const headerLine = content.slice(0, content.search(/\r?\n|$/));
+  const delimiter = (headerLine.match(/;/g) || []).length > (headerLine.match(/,/g) || []).length ? ';' : ',';
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+
+  for (let index = 0; index < content.length; index++) {
+    const char = content[index];
+    if (quoted) {
+      if (char === '"' && content[index + 1] === '"') {
+        cell += '"';
+        index++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[index + 1] === '\n') {
+        index++;
+      }
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  if (cell || row.length) {
+    row.push(cell);
+    rows.push(row);
+  }
+
+  return rows.filter(cells => cells.some(value => value.trim()));
+};
+
+// "1.234,56", "1,234.56" and "1234.5" are all read as numbers
+const parseNumber = (value: string): number | undefined => {
+  const text = value.replace(/\s/g, '');
+  const normalized = text.lastIndexOf(',') > text.lastIndexOf('.')
+    ? text.replace(/\./g, '').replace(',', '.')
+    : text.replace(/,/g, '');
+  return /^-?\d+(\.\d+)?$/.test(normalized) ? parseFloat(normalized) : undefined;
+};
+
+/**
+ * Read purchase orders from CSV with one row per PO line. Rows with the same PO number
+ * form one PO; its date, vendor and currency are taken from the first of them. Lines
+ * without a line number are numbered in the order of the rows.
+ */
+export const parsePurchaseOrderCsv = (text: string): IParsedPurchaseOrderCsv => {
+  const [header, ...rows] = parseCsv(text);
+  const errors: string[] = [];
+  if (!header) {
+    return { purchaseOrders: [], errors: ['The CSV file is empty'] };
+  }
+
+  const columns = header.map(name => COLUMN_ALIASES[name.toLowerCase().replace(/[\s_-]/g, '')]);
+  ['poNumber', 'description', 'quantity', 'unitPrice']
+    .filter(field => !columns.includes(field))
+    .forEach(field => errors.push(`Missing column "${field}"`));
+  if (errors.length) {
+    return { purchaseOrders: [], errors };
+  }
+
+  const orders = new Map<string, Record<string, unknown> & { lines: Array<Record<string, unknown>> }>();
+  rows.forEach((cells, rowIndex) => {
+    const rowNumber = rowIndex + 2;
+    const values: Record<string, string> = {};
+    columns.forEach((field, index) => {
+      if (field && cells[index]?.trim()) {
+        values[field] = cells[index].trim();
+      }
+    });
+
+    if (!values.poNumber) {
+      errors.push(`Row ${rowNumber}: PO number is missing`);
+      return;
+    }
+
+    let order = orders.get(values.poNumber);
+    if (!order) {
+      order = { poNumber: values.poNumber, lines: [] };
+      HEADER_FIELDS.filter(field => values[field] !== undefined).forEach(field => {
+        order![field] = field === 'receiptRequired' ? /^(true|yes|y|1|x)$/i.test(values[field]) : values[field];
+      });
+      orders.set(values.poNumber, order);
+    }
+
+    const line: Record<string, unknown> = {
+      lineNumber: order.lines.length + 1,
+      description: values.description
+    };
+    if (values.sku) {
+      line.sku = values.sku;
+    }
+    for (const field of ['lineNumber', 'quantity', 'unitPrice']) {
+      if (values[field] === undefined) {
+        continue;
+      }
+      const number = parseNumber(values[field]);
+      if (number === undefined) {
+        errors.push(`Row ${rowNumber}: "${values[field]}" is not a valid ${field}`);
+        return;
+      }
+      line[field] = number;
+    }
+    order.lines.push(line);
+  });
+
+  return { purchaseOrders: [...orders.values()], errors };
+};
+
+export default {
+  parseCsv,
+  parsePurchaseOrderCsv
+};
@@ -0,0 +1,56 @@
+import { IFieldChange, IInvoice, IInvoiceSnapshot } from '../types/invoice.types';
+
+type SnapshotSource = Pick<IInvoice, 'vendor' | 'invoice' | 'status' | 'accounting'>;
+
+/**
+ * The fields of an invoice kept in its revisions. Data derived from them, such as
+ * arithmetic warnings, hashes and the vendor match, is recomputed instead.
+ */
+export const getInvoiceSnapshot = (invoice: SnapshotSource): IInvoiceSnapshot => {
+  // Round trip through JSON drops undefined values and database types such as ObjectIds
+  return JSON.parse(JSON.stringify({
+    vendor: invoice.vendor,
+    invoice: invoice.invoice,
+    status: invoice.status || 'draft',
+    accounting: invoice.accounting
+  }));
+};
+
+// Leaf values by path, e.g. 'invoice.lineItems.0.total'; empty values count as missing
+const flatten = (value: unknown, path: string, into: Map<string, unknown>): Map<string, unknown> => {
+  if (Array.isArray(value)) {
+    value.forEach((item, index) => flatten(item, `${path}.${index}`, into));
+  } else if (value && typeof value === 'object') {
+    Object.entries(value).forEach(([key, child]) => {
+      if (key !== '_id') {
+        flatten(child, path ? `${path}.${key}` : key, into);
+      }
+    });
+  } else if (value !== undefined && value !== null && value !== '') {
+    into.set(path, value);
+  }
+  return into;
+};
+
+/**
+ * Field level changes between two snapshots, in the order the fields appear in the newer one
+ * followed by removed fields. Line items are compared by position.
+ */
+export const diffSnapshots = (before: Partial<IInvoiceSnapshot> | undefined, after: Partial<IInvoiceSnapshot>): IFieldChange[] => {
+  const from = flatten(before || {}, '', new Map());
+  const to = flatten(after, '', new Map());
+  const paths = [...Array.from(to.keys()), ...Array.from(from.keys()).filter(path => !to.has(path))];
+
+  return paths
+    .filter(path => from.get(path) !== to.get(path))
+    .map(path => ({
+      path,
+      ...(from.has(path) ? { from: from.get(path) } : {}),
+      ...(to.has(path) ? { to: to.get(path) } : {})
+    }));
+};
+
+export default {
+  getInvoiceSnapshot,
+  diffSnapshots
+};
@@ -0,0 +1,209 @@
+import { Writable } from 'stream';
+import { once } from 'events';
+import ExcelJS from 'exceljs';
+import { IInvoice, IInvoiceData, ExportLayout, TableExportFormat } from '../types/invoice.types';
+import { computeTaxBreakdown, getChargesTotal, getTaxRate } from './invoiceTotals';
+
+export type CellValue = string | number | Date | undefined;
+
+interface IExportColumn {
+  header: string;
+  width: number;
+  // Excel number format for amounts and dates
+  numFmt?: string;
+}
+
+export interface ITableWriter {
+  writeRow(values: CellValue[]): Promise<void>;
+  finish(): Promise<void>;
+}
+
+const AMOUNT_FORMAT = '#,##0.00';
+const DATE_TIME_FORMAT = 'yyyy-mm-dd hh:mm';
+
+const HEADER_COLUMNS: IExportColumn[] = [
+  { header: 'Invoice ID', width: 26 },
+  { header: 'Status', width: 12 },
+  { header: 'Vendor', width: 30 },
+  { header: 'Vendor Tax ID', width: 18 },
+  { header: 'Invoice Number', width: 18 },
+  { header: 'Invoice Date', width: 12 },
+  { header: 'Currency', width: 9 },
+  { header: 'Subtotal', width: 12, numFmt: AMOUNT_FORMAT },
+  { header: 'Charges', width: 12, numFmt: AMOUNT_FORMAT },
+  { header: 'Tax %', width: 8 },
+  { header: 'Tax Amount', width: 12, numFmt: AMOUNT_FORMAT },
+  { header: 'Total', width: 12, numFmt: AMOUNT_FORMAT },
+  { header: 'PO Number', width: 16 },
+  { header: 'PO Date', width: 12 },
+  { header: 'Line Items', width: 10 },
+  { header: 'File Name', width: 30 },
+  { header: 'Created At', width: 17, numFmt: DATE_TIME_FORMAT }
+];
+
+const LINE_COLUMNS: IExportColumn[] = [
+  { header: 'Invoice ID', width: 26 },
+  { header: 'Invoice Number', width: 18 },
+  { header: 'Invoice Date', width: 12 },
+  { header: 'Vendor', width: 30 },
+  { header: 'Currency', width: 9 },
+  { header: 'Line', width: 6 },
+  { header: 'Item Code', width: 14 },
+  { header: 'Description', width: 40 },
+  { header: 'Quantity', width: 10 },
+  { header: 'Unit', width: 8 },
+  { header: 'Unit Price', width: 12, numFmt: AMOUNT_FORMAT },
+  { header: 'Discount %', width: 10 },
+  { header: 'Tax %', width: 8 },
+  { header: 'Line Total', width: 12, numFmt: AMOUNT_FORMAT }
+];
+
+export const EXPORT_CONTENT_TYPES: Record<TableExportFormat, string> = {
+  csv: 'text/csv; charset=utf-8',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
+};
+
+export const getExportColumns = (layout: ExportLayout): IExportColumn[] => {
+  return layout === 'lines' ? LINE_COLUMNS : HEADER_COLUMNS;
+};
+
+// All rates of an invoice taxed at several, e.g. "7 / 19"
+const formatTaxRates = (data: IInvoiceData): CellValue => {
+  const rates = (data.taxBreakdown || computeTaxBreakdown(data) || []).map(entry => entry.taxPercent);
+  return rates.length > 1 ? rates.join(' / ') : data.taxPercent;
+};
+
+// The printed tax summary when there is one, the tax computed from the rates otherwise
+const getTaxAmount = (data: IInvoiceData): number | undefined => {
+  const breakdown = data.taxBreakdown?.length ? data.taxBreakdown : computeTaxBreakdown(data);
+  return breakdown ? Math.round(breakdown.reduce((sum, entry) => sum + entry.taxAmount, 0) * 100) / 100 : undefined;
+};
+
+/**
+ * Rows for one invoice: a single summary row, or one row per line item.
+ * An invoice without line items produces no rows in the line layout.
+ */
+export const toExportRows = (invoice: IInvoice, layout: ExportLayout): CellValue[][] => {
+  const { vendor, invoice: data } = invoice;
+  const id = String(invoice._id);
+
+  if (layout === 'lines') {
+    return data.lineItems.map((item, index) => [
+      id,
+      data.number,
+      data.date,
+      vendor.name,
+      data.currency,
+      index + 1,
+      item.code,
+      item.description,
+      item.quantity,
+      item.unit,
+      item.unitPrice,
+      item.discount,
+      getTaxRate(item, data),
+      item.total
+    ]);
+  }
+
+  return [[
+    id,
+    invoice.status || 'draft',
+    vendor.name,
+    vendor.taxId,
+    data.number,
+    data.date,
+    data.currency,
+    data.subtotal,
+    data.charges?.length ? getChargesTotal(data) : undefined,
+    formatTaxRates(data),
+    getTaxAmount(data),
+    data.total,
+    data.poNumber,
+    data.poDate,
+    data.lineItems.length,
+    invoice.fileName,
+    invoice.createdAt ? new Date(invoice.createdAt) : undefined
+  ]];
+};
+
+// Spreadsheet apps run cells starting with these characters as formulas
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+const toCsvCell = (value: CellValue): string => {
+  if (value === undefined || value === null) {
+    return '';
+  }
+  if (value instanceof Date) {
+    return value.toISOString();
+  }
+  if (typeof value === 'number') {
+    return String(value);
+  }
+
+  const text = FORMULA_PREFIX.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const toCsvRow = (values: CellValue[]): string => values.map(toCsvCell).join(',');
+
+const createCsvWriter = async (stream: Writable, columns: IExportColumn[]): Promise<ITableWriter> => {
+  // Respect backpressure so large exports are not buffered in memory
+  const write = async (line: string): Promise<void> => {
+    if (!stream.write(line)) {
+      await once(stream, 'drain');
+    }
+  };
+
+  // The byte order mark makes Excel read the file as UTF-8
+  await write('\uFEFF' + toCsvRow(columns.map(column => column.header)) + '\r\n');
+
+  return {
+    writeRow: (values): Promise<void> => write(toCsvRow(values) + '\r\n'),
+    finish: async (): Promise<void> => {
+      stream.end();
+    }
+  };
+};
+
+const createXlsxWriter = async (stream: Writable, columns: IExportColumn[]): Promise<ITableWriter> => {
+  const workbook = new ExcelJS.stream.xlsx.WorkbookWriter({ stream, useStyles: true });
+  const worksheet = workbook.addWorksheet('Invoices', { views: [{ state: 'frozen', ySplit: 1 }] });
+  worksheet.columns = columns.map(column => ({
+    header: column.header,
+    width: column.width,
+    style: column.numFmt ? { numFmt: column.numFmt } : {}
+  }));
+  worksheet.getRow(1).font = { bold: true };
+  worksheet.getRow(1).commit();
+
+  return {
+    writeRow: async (values): Promise<void> => {
+      worksheet.addRow(values).commit();
+    },
+    finish: async (): Promise<void> => {
+      worksheet.commit();
+      await workbook.commit();
+    }
+  };
+};
+
+/**
+ * Start a CSV or XLSX table on the given stream, writing the header row for the layout
+ */
+export const createTableWriter = (
+  format: TableExportFormat,
+  layout: ExportLayout,
+  stream: Writable
+): Promise<ITableWriter> => {
+  const columns = getExportColumns(layout);
+  return format === 'xlsx' ? createXlsxWriter(stream, columns) : createCsvWriter(stream, columns);
+};
+
+export default {
+  EXPORT_CONTENT_TYPES,
+  getExportColumns,
+  toExportRows,
+  toCsvRow,
+  createTableWriter
+};
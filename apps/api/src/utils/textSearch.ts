@@ -0,0 +1,78 @@
+import { ISearchSnippet } from '../types/invoice.types';
+
+// Characters of context shown on each side of a match
+const SNIPPET_CONTEXT = 60;
+const MAX_SNIPPETS = 3;
+const ELLIPSIS = '…';
+
+export const escapeRegex = (value: string): string => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Words of a MongoDB $text search string. Negated terms ("-word", -"a phrase") only exclude
+ * documents, so they are left out; phrases contribute their words.
+ */
+export const getSearchTerms = (q: string): string[] => {
+  const positive = q.replace(/(^|\s)-("[^"]*"|\S+)/g, ' ');
+  const words = positive.toLowerCase().match(/[\p{L}\p{N}]+/gu) || [];
+  return Array.from(new Set(words));
+};
+
+/**
+ * Passages of the document text around the search terms, in page order. Only whole words
+ * are highlighted, matching the unstemmed text index.
+ */
+export const buildSearchSnippets = (pages: string[], q: string, maxSnippets = MAX_SNIPPETS): ISearchSnippet[] => {
+  const terms = getSearchTerms(q);
+  if (!terms.length) {
+    return [];
+  }
+
+  const pattern = new RegExp(`(?<![\\p{L}\\p{N}])(?:${terms.map(escapeRegex).join('|')})(?![\\p{L}\\p{N}])`, 'giu');
+  const snippets: ISearchSnippet[] = [];
+
+  for (let index = 0; index < pages.length && snippets.length < maxSnippets; index++) {
+    const text = pages[index].replace(/\s+/g, ' ').trim();
+    const matches: ISearchSnippet['highlights'] = [];
+    pattern.lastIndex = 0;
+    for (let match = pattern.exec(text); match; match = pattern.exec(text)) {
+      matches.push({ start: match.index, end: match.index + match[0].length });
+    }
+
+    let next = 0;
+    while (next < matches.length && snippets.length < maxSnippets) {
+      // Widen the window to the surrounding word boundaries
+      let start = Math.max(matches[next].start - SNIPPET_CONTEXT, 0);
+      let end = Math.min(matches[next].end + SNIPPET_CONTEXT, text.length);
+      const firstSpace = text.indexOf(' ', start);
+      const lastSpace = text.lastIndexOf(' ', end);
+      start = start > 0 && firstSpace >= 0 && firstSpace < matches[next].start ? firstSpace + 1 : start;
+      end = end < text.length && lastSpace > matches[next].end ? lastSpace : end;
+
+      // Matches inside the window share the snippet
+      const highlights: ISearchSnippet['highlights'] = [];
+      while (next < matches.length && matches[next].end <= end) {
+        highlights.push(matches[next]);
+        next++;
+      }
+
+      const prefix = start > 0 ? ELLIPSIS : '';
+      const suffix = end < text.length ? ELLIPSIS : '';
+      snippets.push({
+        page: index + 1,
+        text: prefix + text.slice(start, end) + suffix,
+        highlights: highlights.map(match => ({
+          start: match.start - start + prefix.length,
+          end: match.end - start + prefix.length
+        }))
+      });
+    }
+  }
+
+  return snippets;
+};
+
+export default {
+  escapeRegex,
+  getSearchTerms,
+  buildSearchSnippets
+};
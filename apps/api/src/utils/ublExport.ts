@@ -0,0 +1,279 @@
+import { XMLBuilder } from 'fast-xml-parser';
+import { IInvoice, IInvoiceCharge, ILineItem } from '../types/invoice.types';
+import { EXPORTABLE_STATUSES } from './invoiceStatus';
+import { computeTaxBreakdown, getChargeLabel, getChargesTotal, getLineNet, getTaxRate } from './invoiceTotals';
+
+// EN 16931 core invoice in UBL 2.1 syntax; Peppol BIS Billing 3.0 and XRechnung build on it
+const CUSTOMIZATION_ID = 'urn:cen.eu:en16931:2017';
+
+// UN/ECE Recommendation 20 code for "one" (unit), for lines without a unit of measure in that code list
+const DEFAULT_UNIT_CODE = 'C62';
+const UNIT_CODE = /^[A-Z0-9]{2,3}$/;
+
+// Amounts may differ by a cent from rounding on the source document
+const AMOUNT_TOLERANCE = 0.01;
+
+// Allowance and charge reason codes (UNCL 5189 / 7161)
+const DISCOUNT_REASON_CODE = 95;
+const FREIGHT_REASON_CODE = 'FC';
+
+interface IBuyerConfig {
+  name?: string;
+  address?: string;
+  country?: string;
+  vatId?: string;
+  reference?: string;
+}
+
+// The buyer is our own company, which invoices do not store. Read lazily so .env values are loaded.
+const getBuyerConfig = (): IBuyerConfig => ({
+  name: process.env.EXPORT_BUYER_NAME,
+  address: process.env.EXPORT_BUYER_ADDRESS,
+  country: process.env.EXPORT_BUYER_COUNTRY,
+  vatId: process.env.EXPORT_BUYER_VAT_ID,
+  reference: process.env.EXPORT_BUYER_REFERENCE
+});
+
+const builder = new XMLBuilder({
+  ignoreAttributes: false,
+  attributeNamePrefix: '@_',
+  format: true,
+  suppressEmptyNode: true
+});
+
+const round = (value: number): number => Math.round(value * 100) / 100;
+
+const money = (value: number, currency: string): Record<string, string> => ({
+  '#text': round(value).toFixed(2),
+  '@_currencyID': currency
+});
+
+// EU VAT IDs start with the ISO country code of the issuing state (Greece uses EL)
+const countryFromVatId = (vatId?: string): string | undefined => {
+  const prefix = vatId?.trim().slice(0, 2).toUpperCase();
+  if (!prefix || !/^[A-Z]{2}$/.test(prefix)) {
+    return undefined;
+  }
+  return prefix === 'EL' ? 'GR' : prefix;
+};
+
+// Standard rate when tax applies, zero rated otherwise (UNCL 5305)
+const taxCategory = (taxPercent: number): Record<string, unknown> => ({
+  'cbc:ID': taxPercent > 0 ? 'S' : 'Z',
+  'cbc:Percent': taxPercent,
+  'cac:TaxScheme': { 'cbc:ID': 'VAT' }
+});
+
+const party = (name: string, country: string, address?: string, vatId?: string): Record<string, unknown> => ({
+  'cac:Party': {
+    'cac:PostalAddress': {
+      'cbc:StreetName': address,
+      'cac:Country': { 'cbc:IdentificationCode': country }
+    },
+    ...(vatId ? {
+      'cac:PartyTaxScheme': {
+        'cbc:CompanyID': vatId,
+        'cac:TaxScheme': { 'cbc:ID': 'VAT' }
+      }
+    } : {}),
+    'cac:PartyLegalEntity': { 'cbc:RegistrationName': name }
+  }
+});
+
+const lineNetAmount = (invoice: IInvoice): number => {
+  return round(invoice.invoice.lineItems.reduce((sum, item) => sum + item.total, 0));
+};
+
+// Document level charge, or allowance when the amount is negative
+const allowanceCharge = (charge: IInvoiceCharge, taxPercent: number, currency: string): Record<string, unknown> => ({
+  'cbc:ChargeIndicator': charge.amount >= 0,
+  'cbc:AllowanceChargeReasonCode': charge.amount >= 0
+    ? (charge.type === 'shipping' ? FREIGHT_REASON_CODE : undefined)
+    : DISCOUNT_REASON_CODE,
+  'cbc:AllowanceChargeReason': getChargeLabel(charge),
+  'cbc:Amount': money(Math.abs(charge.amount), currency),
+  'cac:TaxCategory': taxCategory(taxPercent)
+});
+
+// Line discount, taken off quantity × unit price
+const lineDiscount = (item: ILineItem, currency: string): Record<string, unknown> | undefined => {
+  if (!item.discount) {
+    return undefined;
+  }
+
+  const base = item.quantity * item.unitPrice;
+  return {
+    'cbc:ChargeIndicator': false,
+    'cbc:AllowanceChargeReasonCode': DISCOUNT_REASON_CODE,
+    'cbc:MultiplierFactorNumeric': item.discount,
+    'cbc:Amount': money(base - getLineNet(item), currency),
+    'cbc:BaseAmount': money(base, currency)
+  };
+};
+
+/**
+ * List what keeps an invoice from being exported as an EN 16931 UBL invoice.
+ * An empty list means the invoice can be exported.
+ */
+export const validateUblExport = (invoice: IInvoice): string[] => {
+  const errors: string[] = [];
+  const { vendor, invoice: data } = invoice;
+  const buyer = getBuyerConfig();
+  const status = invoice.status || 'draft';
+
+  if (!EXPORTABLE_STATUSES.includes(status)) {
+    errors.push(`Only approved or paid invoices can be exported (status is '${status}')`);
+  }
+
+  if (!vendor.name?.trim()) {
+    errors.push('"vendor.name" is required');
+  }
+  if (!vendor.taxId?.trim()) {
+    errors.push('"vendor.taxId" is required');
+  } else if (!countryFromVatId(vendor.taxId)) {
+    errors.push('"vendor.taxId" must be a VAT ID starting with the country code, e.g. DE123456789');
+  }
+  if (!buyer.name) {
+    errors.push('Buyer name is not configured (EXPORT_BUYER_NAME)');
+  }
+  if (!buyer.country && !countryFromVatId(buyer.vatId)) {
+    errors.push('Buyer country is not configured (EXPORT_BUYER_COUNTRY or EXPORT_BUYER_VAT_ID)');
+  }
+
+  if (!data.poNumber && !buyer.reference) {
+    errors.push('"invoice.poNumber" is required unless a buyer reference is configured (EXPORT_BUYER_REFERENCE)');
+  }
+
+  if (!data.number?.trim()) {
+    errors.push('"invoice.number" is required');
+  }
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(data.date || '')) {
+    errors.push('"invoice.date" must be a date in YYYY-MM-DD format');
+  }
+  if (!/^[A-Z]{3}$/.test(data.currency || '')) {
+    errors.push('"invoice.currency" must be an ISO 4217 currency code, e.g. EUR');
+  }
+  if (!computeTaxBreakdown(data)) {
+    errors.push('"invoice.taxPercent" is required unless every line item and charge has its own tax rate');
+  }
+  if (data.poDate && !/^\d{4}-\d{2}-\d{2}$/.test(data.poDate)) {
+    errors.push('"invoice.poDate" must be a date in YYYY-MM-DD format');
+  }
+
+  if (!data.lineItems.length) {
+    errors.push('At least one line item is required');
+  }
+  data.lineItems.forEach((item, index) => {
+    if (!item.description?.trim()) {
+      errors.push(`"invoice.lineItems[${index}].description" is required`);
+    }
+    if (Math.abs(getLineNet(item) - item.total) > AMOUNT_TOLERANCE) {
+      errors.push(`"invoice.lineItems[${index}].total" must equal quantity × unitPrice${item.discount ? ' less discount' : ''}`);
+    }
+  });
+
+  // The document totals are derived from the lines, so they must agree with what was stored
+  const taxBreakdown = computeTaxBreakdown(data);
+  if (data.lineItems.length && taxBreakdown) {
+    const net = lineNetAmount(invoice);
+    const tax = taxBreakdown.reduce((sum, entry) => sum + entry.taxAmount, 0);
+    const gross = round(net + getChargesTotal(data) + tax);
+
+    if (data.subtotal !== undefined && Math.abs(data.subtotal - net) > AMOUNT_TOLERANCE) {
+      errors.push(`"invoice.subtotal" (${data.subtotal}) does not match the sum of line items (${net.toFixed(2)})`);
+    }
+    if (data.total !== undefined && Math.abs(data.total - gross) > AMOUNT_TOLERANCE) {
+      errors.push(`"invoice.total" (${data.total}) does not match line items, charges and tax (${gross.toFixed(2)})`);
+    }
+  }
+
+  return errors;
+};
+
+/**
+ * Serialise an invoice as UBL 2.1 XML. Call validateUblExport first; the output
+ * of an invoice with validation errors is not a valid e-invoice.
+ */
+export const buildUblInvoice = (invoice: IInvoice): string => {
+  const { vendor, invoice: data } = invoice;
+  const buyer = getBuyerConfig();
+  const currency = data.currency || '';
+  const charges = data.charges || [];
+  const net = lineNetAmount(invoice);
+  const taxBreakdown = computeTaxBreakdown(data) || [];
+  const tax = round(taxBreakdown.reduce((sum, entry) => sum + entry.taxAmount, 0));
+  const allowanceTotal = -charges.filter(charge => charge.amount < 0).reduce((sum, charge) => sum + charge.amount, 0);
+  const chargeTotal = charges.filter(charge => charge.amount >= 0).reduce((sum, charge) => sum + charge.amount, 0);
+  const taxExclusive = round(net + chargeTotal - allowanceTotal);
+
+  const document = {
+    '?xml': { '@_version': '1.0', '@_encoding': 'UTF-8' },
+    Invoice: {
+      '@_xmlns': 'urn:oasis:names:specification:ubl:schema:xsd:Invoice-2',
+      '@_xmlns:cac': 'urn:oasis:names:specification:ubl:schema:xsd:CommonAggregateComponents-2',
+      '@_xmlns:cbc': 'urn:oasis:names:specification:ubl:schema:xsd:CommonBasicComponents-2',
+      'cbc:CustomizationID': CUSTOMIZATION_ID,
+      'cbc:ID': data.number,
+      'cbc:IssueDate': data.date,
+      'cbc:InvoiceTypeCode': 380, // commercial invoice
+      'cbc:DocumentCurrencyCode': currency,
+      // Peppol needs a buyer reference or an order reference to route the invoice
+      'cbc:BuyerReference': data.poNumber ? undefined : buyer.reference,
+      ...(data.poNumber ? {
+        'cac:OrderReference': {
+          'cbc:ID': data.poNumber,
+          'cbc:IssueDate': data.poDate || undefined
+        }
+      } : {}),
+      'cac:AccountingSupplierParty': party(vendor.name, countryFromVatId(vendor.taxId) || '', vendor.address, vendor.taxId),
+      'cac:AccountingCustomerParty': party(
+        buyer.name || '',
+        buyer.country || countryFromVatId(buyer.vatId) || '',
+        buyer.address,
+        buyer.vatId
+      ),
+      'cac:AllowanceCharge': charges.map(charge => allowanceCharge(charge, getTaxRate(charge, data) || 0, currency)),
+      'cac:TaxTotal': {
+        'cbc:TaxAmount': money(tax, currency),
+        // One subtotal per tax rate
+        'cac:TaxSubtotal': taxBreakdown.map(entry => ({
+          'cbc:TaxableAmount': money(entry.taxableAmount, currency),
+          'cbc:TaxAmount': money(entry.taxAmount, currency),
+          'cac:TaxCategory': taxCategory(entry.taxPercent)
+        }))
+      },
+      'cac:LegalMonetaryTotal': {
+        'cbc:LineExtensionAmount': money(net, currency),
+        'cbc:TaxExclusiveAmount': money(taxExclusive, currency),
+        'cbc:TaxInclusiveAmount': money(taxExclusive + tax, currency),
+        'cbc:AllowanceTotalAmount': allowanceTotal ? money(allowanceTotal, currency) : undefined,
+        'cbc:ChargeTotalAmount': chargeTotal ? money(chargeTotal, currency) : undefined,
+        'cbc:PayableAmount': money(taxExclusive + tax, currency)
+      },
+      'cac:InvoiceLine': data.lineItems.map((item, index) => ({
+        'cbc:ID': index + 1,
+        'cbc:InvoicedQuantity': {
+          '#text': item.quantity,
+          '@_unitCode': item.unit && UNIT_CODE.test(item.unit) ? item.unit : DEFAULT_UNIT_CODE
+        },
+        'cbc:LineExtensionAmount': money(item.total, currency),
+        'cac:AllowanceCharge': lineDiscount(item, currency),
+        'cac:Item': {
+          'cbc:Name': item.description,
+          'cac:SellersItemIdentification': item.code ? { 'cbc:ID': item.code } : undefined,
+          'cac:ClassifiedTaxCategory': taxCategory(getTaxRate(item, data) || 0)
+        },
+        'cac:Price': {
+          'cbc:PriceAmount': { '#text': item.unitPrice, '@_currencyID': currency }
+        }
+      }))
+    }
+  };
+
+  return builder.build(document);
+};
+
+export default {
+  validateUblExport,
+  buildUblInvoice
+};
@@ -0,0 +1,215 @@
+import {
+  IVendor,
+  IInvoiceData,
+  ILineItem,
+  IInvoiceCharge,
+  ITaxBreakdownEntry,
+  IFieldProvenance,
+  IParsedEInvoice
+} from '../types/invoice.types';
+import { createXmlParser, xmlText as text, xmlAmount as amount, xmlAttribute, toArray } from './xml';
+import { getChargeType } from './invoiceTotals';
+
+// Elements that may repeat in a UBL 2.1 Invoice or CreditNote
+const parser = createXmlParser([
+  'InvoiceLine',
+  'CreditNoteLine',
+  'TaxTotal',
+  'TaxSubtotal',
+  'AllowanceCharge',
+  'PartyTaxScheme',
+  'PartyName',
+  'AddressLine',
+  'PaymentTerms',
+  'PaymentMeans',
+  'Note'
+]);
+
+const formatAddress = (address: any): string | undefined => {
+  if (!address) {
+    return undefined;
+  }
+
+  const city = [text(address.PostalZone), text(address.CityName)].filter(Boolean).join(' ');
+  const parts = [
+    text(address.StreetName),
+    text(address.AdditionalStreetName),
+    ...toArray<any>(address.AddressLine).map(line => text(line.Line)),
+    city,
+    text(address.CountrySubentity),
+    text(address.Country?.IdentificationCode)
+  ];
+  return parts.filter(Boolean).join(', ') || undefined;
+};
+
+const partyName = (party: any): string | undefined => {
+  return toArray<any>(party?.PartyName).map(name => text(name.Name)).find(Boolean)
+    ?? text(party?.PartyLegalEntity?.RegistrationName);
+};
+
+// Prefer the VAT registration over other tax schemes
+const partyTaxId = (party: any): string | undefined => {
+  const schemes = toArray<any>(party?.PartyTaxScheme);
+  const vat = schemes.find(scheme => text(scheme.TaxScheme?.ID) === 'VAT');
+  return text((vat ?? schemes[0])?.CompanyID) ?? text(party?.PartyLegalEntity?.CompanyID);
+};
+
+const parseParty = (party: any): IVendor | undefined => {
+  const name = partyName(party);
+  return name ? { name, address: formatAddress(party.PostalAddress), taxId: partyTaxId(party) } : undefined;
+};
+
+/**
+ * Header tax rate: the rate of all tax subtotals when there is only one
+ */
+const headerTaxPercent = (taxTotal: any): number | undefined => {
+  const rates = Array.from(new Set(
+    toArray<any>(taxTotal?.TaxSubtotal)
+      .map(taxSubtotal => amount(taxSubtotal.TaxCategory?.Percent))
+      .filter((rate): rate is number => rate !== undefined)
+  ));
+  return rates.length === 1 ? rates[0] : undefined;
+};
+
+const parseTaxBreakdown = (taxTotal: any): ITaxBreakdownEntry[] => {
+  return toArray<any>(taxTotal?.TaxSubtotal)
+    .map(taxSubtotal => ({
+      taxPercent: amount(taxSubtotal.TaxCategory?.Percent) ?? 0,
+      taxableAmount: amount(taxSubtotal.TaxableAmount),
+      taxAmount: amount(taxSubtotal.TaxAmount)
+    }))
+    .filter((entry): entry is ITaxBreakdownEntry => entry.taxableAmount !== undefined && entry.taxAmount !== undefined);
+};
+
+const isCharge = (allowanceCharge: any): boolean => text(allowanceCharge.ChargeIndicator) === 'true';
+
+// Document level charges, with allowances as negative amounts
+const parseCharges = (allowanceCharges: any[]): IInvoiceCharge[] => {
+  return allowanceCharges
+    .filter(allowanceCharge => amount(allowanceCharge.Amount) !== undefined)
+    .map(allowanceCharge => {
+      const value = amount(allowanceCharge.Amount)!;
+      const reason = text(allowanceCharge.AllowanceChargeReason);
+      return {
+        type: isCharge(allowanceCharge) ? getChargeType(text(allowanceCharge.AllowanceChargeReasonCode), reason) : 'other',
+        description: reason,
+        amount: isCharge(allowanceCharge) ? value : -value,
+        taxPercent: amount(allowanceCharge.TaxCategory?.Percent)
+      };
+    });
+};
+
+const parseLineItem = (line: any): Partial<ILineItem> => {
+  const baseQuantity = amount(line.Price?.BaseQuantity) || 1;
+  const priceAmount = amount(line.Price?.PriceAmount);
+  const quantityElement = line.InvoicedQuantity ?? line.CreditedQuantity;
+  const quantity = amount(quantityElement);
+  const unitPrice = priceAmount === undefined ? undefined : priceAmount / baseQuantity;
+
+  // Line allowances are a discount on quantity × price
+  const allowances = toArray<any>(line.AllowanceCharge).filter(allowanceCharge => !isCharge(allowanceCharge));
+  const allowanceAmount = allowances.reduce((sum, allowance) => sum + (amount(allowance.Amount) || 0), 0);
+  const gross = (quantity || 0) * (unitPrice || 0);
+  const discount = allowances.length === 1 && amount(allowances[0].MultiplierFactorNumeric) !== undefined
+    ? amount(allowances[0].MultiplierFactorNumeric)
+    : allowanceAmount && gross ? Math.round(allowanceAmount / gross * 10000) / 100 : undefined;
+
+  return {
+    code: text(line.Item?.SellersItemIdentification?.ID),
+    description: [text(line.Item?.Name), text(line.Item?.Description)].filter(Boolean).join(' - '),
+    quantity,
+    unit: xmlAttribute(quantityElement, 'unitCode'),
+    unitPrice,
+    discount,
+    taxPercent: amount(line.Item?.ClassifiedTaxCategory?.Percent),
+    total: amount(line.LineExtensionAmount)
+  };
+};
+
+/**
+ * Map a UBL 2.1 Invoice or CreditNote (including the XRechnung UBL syntax and Peppol BIS
+ * Billing 3.0) onto vendor and invoice data. Every field gets full confidence.
+ * Returns undefined when the XML is not a UBL invoice document.
+ */
+export const parseUblInvoice = (xml: string | Buffer, sourceName = 'e-invoice'): IParsedEInvoice | undefined => {
+  const parsed = parser.parse(xml);
+  const isCreditNote = !parsed?.Invoice && !!parsed?.CreditNote;
+  const root = parsed?.Invoice ?? parsed?.CreditNote;
+  if (!root) {
+    return undefined;
+  }
+
+  const supplier = root.AccountingSupplierParty?.Party || {};
+  const monetaryTotal = root.LegalMonetaryTotal || {};
+  // Only the tax total in document currency carries the subtotals
+  const taxTotals = toArray<any>(root.TaxTotal);
+  const taxTotal = taxTotals.find(total => toArray(total.TaxSubtotal).length > 0) ?? taxTotals[0];
+  const lines = toArray<any>(isCreditNote ? root.CreditNoteLine : root.InvoiceLine);
+  const lineElement = isCreditNote ? 'CreditNoteLine' : 'InvoiceLine';
+  const provenance: IFieldProvenance[] = [];
+
+  // Record a field read from the given element, skipping values the XML does not contain
+  const read = <T>(path: string, element: string, value: T | undefined): T | undefined => {
+    if (value !== undefined && value !== '') {
+      provenance.push({ path, confidence: 1, source: `${sourceName}: ${element}` });
+    }
+    return value;
+  };
+
+  const vendor: IVendor = {
+    name: read('vendor.name', 'AccountingSupplierParty/PartyName', partyName(supplier)) || '',
+    address: read('vendor.address', 'AccountingSupplierParty/PostalAddress', formatAddress(supplier.PostalAddress)),
+    taxId: read('vendor.taxId', 'AccountingSupplierParty/PartyTaxScheme', partyTaxId(supplier))
+  };
+
+  const lineItems = lines.map((line, index) => {
+    const lineItem = parseLineItem(line);
+    for (const field of ['code', 'description', 'quantity', 'unit', 'unitPrice', 'discount', 'taxPercent', 'total'] as const) {
+      read(`invoice.lineItems.${index}.${field}`, lineElement, lineItem[field]);
+    }
+    return lineItem;
+  });
+
+  const charges = parseCharges(toArray<any>(root.AllowanceCharge));
+  charges.forEach((charge, index) => read(`invoice.charges.${index}.amount`, 'AllowanceCharge', charge.amount));
+  const taxBreakdown = parseTaxBreakdown(taxTotal);
+  taxBreakdown.forEach((entry, index) => read(`invoice.taxBreakdown.${index}.taxAmount`, 'TaxTotal/TaxSubtotal', entry.taxAmount));
+
+  const invoice: IInvoiceData = {
+    number: read('invoice.number', 'ID', text(root.ID)) || '',
+    date: read('invoice.date', 'IssueDate', text(root.IssueDate)) || '',
+    currency: read('invoice.currency', 'DocumentCurrencyCode', text(root.DocumentCurrencyCode)),
+    subtotal: read('invoice.subtotal', 'LineExtensionAmount', amount(monetaryTotal.LineExtensionAmount)),
+    taxPercent: read('invoice.taxPercent', 'TaxTotal/TaxSubtotal/TaxCategory/Percent', headerTaxPercent(taxTotal)),
+    total: read('invoice.total', 'TaxInclusiveAmount', amount(monetaryTotal.TaxInclusiveAmount))
+      ?? read('invoice.total', 'PayableAmount', amount(monetaryTotal.PayableAmount)),
+    poNumber: read('invoice.poNumber', 'OrderReference/ID', text(root.OrderReference?.ID)),
+    poDate: read('invoice.poDate', 'OrderReference/IssueDate', text(root.OrderReference?.IssueDate)),
+    lineItems: lineItems as ILineItem[], // incomplete lines are caught by extraction validation
+    charges: charges.length ? charges : undefined,
+    taxBreakdown: taxBreakdown.length ? taxBreakdown : undefined
+  };
+
+  return {
+    document: {
+      format: 'ubl',
+      documentType: isCreditNote ? 'credit-note' : 'invoice',
+      specification: text(root.CustomizationID),
+      vendor,
+      buyer: parseParty(root.AccountingCustomerParty?.Party),
+      invoice,
+      dueDate: text(root.DueDate) ?? toArray<any>(root.PaymentMeans).map(means => text(means.PaymentDueDate)).find(Boolean),
+      taxTotal: amount(taxTotal?.TaxAmount),
+      paymentTerms: toArray<any>(root.PaymentTerms)
+        .flatMap(terms => toArray<any>(terms.Note).map(note => text(note)))
+        .filter(Boolean)
+        .join('\n') || undefined,
+      notes: toArray<any>(root.Note).map(note => text(note)).filter((note): note is string => !!note)
+    },
+    provenance
+  };
+};
+
+export default {
+  parseUblInvoice
+};
@@ -1,4 +1,6 @@
 import Joi from 'joi';
+import { INVOICE_STATUSES } from './invoiceStatus';
+import { IVendor, IInvoiceData, IFieldProvenance, IJsonPatchOperation, AccountingProfileId } from '../types/invoice.types';
 
 // Vendor validation schema
 const vendorSchema = Joi.object({
@@ -9,12 +11,32 @@ const vendorSchema = Joi.object({
 
 // Line item validation schema
 const lineItemSchema = Joi.object({
+  id: Joi.string().optional().trim().max(64),
+  position: Joi.number().integer().optional().min(1),
+  code: Joi.string().allow('').optional().trim().max(100),
   description: Joi.string().required().trim().max(500),
   unitPrice: Joi.number().required().min(0),
   quantity: Joi.number().required().min(0),
+  unit: Joi.string().allow('').optional().trim().max(20),
+  discount: Joi.number().optional().min(0).max(100),
+  taxPercent: Joi.number().optional().min(0).max(100),
   total: Joi.number().required().min(0)
 });
 
+// Charges besides the line items; allowances have a negative amount
+const chargeSchema = Joi.object({
+  type: Joi.string().valid('shipping', 'other').default('other'),
+  description: Joi.string().allow('').optional().trim().max(200),
+  amount: Joi.number().required(),
+  taxPercent: Joi.number().optional().min(0).max(100)
+});
+
+const taxBreakdownEntrySchema = Joi.object({
+  taxPercent: Joi.number().required().min(0).max(100),
+  taxableAmount: Joi.number().required(),
+  taxAmount: Joi.number().required()
+});
+
 // Invoice data validation schema
 const invoiceDataSchema = Joi.object({
   number: Joi.string().required().trim().max(100),
@@ -25,7 +47,30 @@ const invoiceDataSchema = Joi.object({
   total: Joi.number().optional().min(0),
   poNumber: Joi.string().allow('').optional().trim().max(100),
   poDate: Joi.string().allow('').optional().trim(),
-  lineItems: Joi.array().items(lineItemSchema).default([])
+  lineItems: Joi.array().items(lineItemSchema).default([]),
+  charges: Joi.array().items(chargeSchema).max(50).optional(),
+  taxBreakdown: Joi.array().items(taxBreakdownEntrySchema).max(20).unique('taxPercent').optional()
+});
+
+// Extraction provenance validation schemas
+const fieldProvenanceSchema = Joi.object({
+  path: Joi.string().required().trim().max(200),
+  confidence: Joi.number().required().min(0).max(1),
+  source: Joi.string().allow('').optional().max(500),
+  page: Joi.number().integer().min(1).optional()
+});
+
+const extractionMetadataSchema = Joi.object({
+  model: Joi.string().required().trim().max(100),
+  source: Joi.string().valid('model', 'e-invoice').optional(),
+  extractedAt: Joi.string().optional().trim(),
+  fields: Joi.array().items(fieldProvenanceSchema).default([])
+});
+
+// Accounting coding validation schema
+const accountingCodingSchema = Joi.object({
+  glAccount: Joi.string().allow('').optional().trim().max(50),
+  costCenter: Joi.string().allow('').optional().trim().max(50)
 });
 
 // Full invoice validation schema
@@ -33,7 +78,12 @@ export const createInvoiceSchema = Joi.object({
   fileId: Joi.string().required().trim(),
   fileName: Joi.string().required().trim().max(255),
   vendor: vendorSchema.required(),
-  invoice: invoiceDataSchema.required()
+  invoice: invoiceDataSchema.required(),
+  status: Joi.string().valid('draft', 'extracted').optional(),
+  extraction: extractionMetadataSchema.optional(),
+  accounting: accountingCodingSchema.optional(),
+  // Extraction job the data came from; its result is what templates learn corrections against
+  jobId: Joi.string().pattern(/^[0-9a-fA-F]{24}$/).optional()
 });
 
 // Update invoice validation schema (all fields optional except id)
@@ -41,24 +91,284 @@ export const updateInvoiceSchema = Joi.object({
   fileId: Joi.string().optional().trim(),
   fileName: Joi.string().optional().trim().max(255),
   vendor: vendorSchema.optional(),
-  invoice: invoiceDataSchema.optional()
+  invoice: invoiceDataSchema.optional(),
+  accounting: accountingCodingSchema.optional()
+});
+
+// RFC 6902 operations; paths are checked when the patch is applied
+const jsonPatchOperationSchema = Joi.object({
+  op: Joi.string().valid('add', 'replace', 'remove', 'test').required(),
+  path: Joi.string().required().pattern(/^\//).max(300),
+  value: Joi.any().when('op', { is: 'remove', then: Joi.forbidden(), otherwise: Joi.required() })
+});
+
+const jsonPatchSchema = Joi.array().items(jsonPatchOperationSchema).min(1).max(500).required();
+
+export const revisionDiffQuerySchema = Joi.object({
+  from: Joi.number().integer().min(1).required(),
+  to: Joi.number().integer().min(1).optional()
 });
 
+// Status transition validation schemas
+export const rejectInvoiceSchema = Joi.object({
+  reason: Joi.string().required().trim().max(500)
+});
+
+export const statusChangeSchema = Joi.object({
+  status: Joi.string().valid(...INVOICE_STATUSES).required(),
+  reason: Joi.string().allow('').optional().trim().max(500)
+});
+
+// Built-in providers, or a model served by the OpenAI-compatible endpoint
+export const EXTRACTION_MODEL_PATTERN = /^(?:gemini|groq|heuristic|openai(?::\S+)?)$/;
+
 // Extract request validation schema
 export const extractRequestSchema = Joi.object({
   fileId: Joi.string().required().trim(),
-  model: Joi.string().valid('gemini', 'groq').required()
+  model: Joi.string().pattern(EXTRACTION_MODEL_PATTERN).required()
+    .messages({ 'string.pattern.base': '"model" must be gemini, groq, heuristic, openai or openai:<model name>' }),
+  invoiceId: Joi.string().pattern(/^[0-9a-fA-F]{24}$/).optional()
+});
+
+// Options sent with a single upload as form fields; "draft" creates an empty invoice for a PDF
+export const uploadSchema = Joi.object({
+  draft: Joi.boolean().default(false)
+});
+
+// Options sent with a batch upload as form fields; a model is needed to queue extraction
+export const batchUploadSchema = Joi.object({
+  extract: Joi.boolean().default(false),
+  model: Joi.string().pattern(EXTRACTION_MODEL_PATTERN)
+    .when('extract', { is: true, then: Joi.required(), otherwise: Joi.optional() })
+    .messages({ 'string.pattern.base': '"model" must be gemini, groq, heuristic, openai or openai:<model name>' })
 });
 
+// Search and sort parameters shared by the invoice list and its export
+// Dates are kept as sent so they compare with the stored date strings
+const searchDate = Joi.date().iso().raw();
+
+const searchFilterKeys = {
+  q: Joi.string().optional().trim().max(200),
+  status: Joi.array().items(Joi.string().valid(...INVOICE_STATUSES)).single().optional(),
+  dateFrom: searchDate.optional(),
+  dateTo: searchDate.optional()
+    .when('dateFrom', {
+      is: Joi.exist(),
+      then: Joi.date().min(Joi.ref('dateFrom')).messages({ 'date.min': '"dateTo" cannot be before "dateFrom"' })
+    }),
+  createdFrom: searchDate.optional(),
+  createdTo: searchDate.optional()
+    .when('createdFrom', {
+      is: Joi.exist(),
+      then: Joi.date().min(Joi.ref('createdFrom')).messages({ 'date.min': '"createdTo" cannot be before "createdFrom"' })
+    }),
+  totalMin: Joi.number().min(0).optional(),
+  totalMax: Joi.number().min(0).optional()
+    .when('totalMin', {
+      is: Joi.exist(),
+      then: Joi.number().min(Joi.ref('totalMin')).messages({ 'number.min': '"totalMax" cannot be less than "totalMin"' })
+    }),
+  currency: Joi.array().items(Joi.string().trim().uppercase().pattern(/^[A-Z]{3}$/)).single().optional()
+    .messages({ 'string.pattern.base': '"currency" must contain ISO 4217 currency codes' }),
+  vendor: Joi.string().optional().trim().max(200),
+  hasPoNumber: Joi.boolean().optional(),
+  // Without sortBy, text searches are ranked by relevance and everything else is newest first
+  sortBy: Joi.string()
+    .valid('relevance', 'createdAt', 'updatedAt', 'vendor.name', 'invoice.number', 'invoice.date', 'invoice.total')
+    .optional(),
+  sortOrder: Joi.string().valid('asc', 'desc').default('desc')
+};
+
 // Search query validation schema
 export const searchQuerySchema = Joi.object({
+  ...searchFilterKeys,
+  page: Joi.number().integer().min(1).default(1),
+  limit: Joi.number().integer().min(1).max(100).default(10)
+});
+
+// Invoice export formats
+export const TABLE_EXPORT_FORMATS = ['csv', 'xlsx'] as const;
+export const EXPORT_LAYOUTS = ['header', 'lines'] as const;
+export const ACCOUNTING_PROFILE_IDS: AccountingProfileId[] = ['quickbooks-iif', 'xero-csv', 'datev'];
+
+// Without a profile, accounting exports use the user's default profile
+export const exportQuerySchema = Joi.object({
+  format: Joi.string().valid('ubl', 'accounting').default('ubl'),
+  profile: Joi.string().valid(...ACCOUNTING_PROFILE_IDS).optional()
+});
+
+// UBL exports the listed invoices; CSV, XLSX and accounting exports cover the search results,
+// optionally narrowed to the listed IDs
+export const bulkExportQuerySchema = Joi.object({
+  ...searchFilterKeys,
+  format: Joi.string().valid('ubl', 'accounting', ...TABLE_EXPORT_FORMATS).default('ubl'),
+  layout: Joi.string().valid(...EXPORT_LAYOUTS).default('header'),
+  profile: Joi.string().valid(...ACCOUNTING_PROFILE_IDS).optional(),
+  ids: Joi.array().items(Joi.string().pattern(/^[0-9a-fA-F]{24}$/)).single().min(1).max(100)
+    .when('format', { is: 'ubl', then: Joi.required() })
+    .messages({ 'string.pattern.base': '"ids" must contain invoice IDs' })
+});
+
+// Vendor master data; aliases are other spellings of the name found on invoices
+const vendorRecordKeys = {
+  name: Joi.string().trim().max(200),
+  aliases: Joi.array().items(Joi.string().trim().max(200)).max(50),
+  taxId: Joi.string().allow('').trim().max(50),
+  address: Joi.string().allow('').trim().max(500),
+  defaultCurrency: Joi.string().allow('').trim().uppercase().pattern(/^[A-Z]{3}$/)
+    .messages({ 'string.pattern.base': '"defaultCurrency" must be an ISO 4217 currency code, e.g. EUR' }),
+  defaultGlAccount: Joi.string().allow('').trim().max(50),
+  defaultCostCenter: Joi.string().allow('').trim().max(50)
+};
+
+export const createVendorSchema = Joi.object({
+  ...vendorRecordKeys,
+  name: vendorRecordKeys.name.required(),
+  aliases: vendorRecordKeys.aliases.default([])
+});
+
+export const updateVendorSchema = Joi.object(vendorRecordKeys).min(1);
+
+export const vendorQuerySchema = Joi.object({
   q: Joi.string().optional().trim().max(200),
   page: Joi.number().integer().min(1).default(1),
-  limit: Joi.number().integer().min(1).max(100).default(10),
-  sortBy: Joi.string().valid('createdAt', 'updatedAt', 'vendor.name', 'invoice.number').default('createdAt'),
-  sortOrder: Joi.string().valid('asc', 'desc').default('desc')
+  limit: Joi.number().integer().min(1).max(100).default(20)
+});
+
+// Link an invoice to an existing master vendor, or create one from the invoice's vendor
+export const linkVendorSchema = Joi.object({
+  vendorId: Joi.string().pattern(/^[0-9a-fA-F]{24}$/)
+    .messages({ 'string.pattern.base': '"vendorId" must be a vendor ID' }),
+  create: Joi.boolean().valid(true)
+}).xor('vendorId', 'create');
+
+// Purchase orders; line numbers are what goods receipts refer to
+const purchaseOrderLineSchema = Joi.object({
+  lineNumber: Joi.number().integer().min(1).required(),
+  sku: Joi.string().allow('').trim().max(100).optional(),
+  description: Joi.string().required().trim().max(500),
+  quantity: Joi.number().required().min(0),
+  unitPrice: Joi.number().required().min(0)
+});
+
+export const purchaseOrderSchema = Joi.object({
+  poNumber: Joi.string().required().trim().max(100),
+  poDate: Joi.string().optional().isoDate(),
+  vendorName: Joi.string().optional().trim().max(200),
+  vendorTaxId: Joi.string().allow('').trim().max(50).optional(),
+  currency: Joi.string().optional().trim().uppercase().pattern(/^[A-Z]{3}$/)
+    .messages({ 'string.pattern.base': '"currency" must be an ISO 4217 currency code, e.g. EUR' }),
+  receiptRequired: Joi.boolean().default(false),
+  tolerances: Joi.object({
+    pricePercent: Joi.number().min(0).max(100),
+    quantityPercent: Joi.number().min(0).max(100)
+  }).optional(),
+  lines: Joi.array().items(purchaseOrderLineSchema).min(1).max(500).unique('lineNumber').required()
+});
+
+export const importPurchaseOrdersSchema = Joi.object({
+  purchaseOrders: Joi.array().items(purchaseOrderSchema).min(1).max(500).required()
+});
+
+export const purchaseOrderQuerySchema = Joi.object({
+  q: Joi.string().optional().trim().max(200),
+  page: Joi.number().integer().min(1).default(1),
+  limit: Joi.number().integer().min(1).max(100).default(20)
 });
 
+// A delivery against a PO, with the quantity received per PO line
+export const goodsReceiptSchema = Joi.object({
+  receiptNumber: Joi.string().optional().trim().max(100),
+  receivedAt: Joi.string().optional().isoDate(),
+  lines: Joi.array().items(Joi.object({
+    lineNumber: Joi.number().integer().min(1).required(),
+    quantity: Joi.number().required().min(0)
+  })).min(1).max(500).unique('lineNumber').required()
+});
+
+// Extraction output uses the same vendor and invoice rules as createInvoiceSchema
+export const extractionResultSchema = Joi.object({
+  vendor: vendorSchema.required(),
+  invoice: invoiceDataSchema.required()
+});
+
+// Models report missing values as null; treat them as absent so optional fields pass
+const stripNulls = (value: unknown): unknown => {
+  if (Array.isArray(value)) {
+    return value.map(stripNulls);
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value)
+        .filter(([, entry]) => entry !== null)
+        .map(([key, entry]) => [key, stripNulls(entry)])
+    );
+  }
+  return value;
+};
+
+/**
+ * Validate a JSON Patch document. Not done by the validate middleware, which would drop
+ * malformed operations from the array instead of rejecting them.
+ */
+export function validateJsonPatch(data: unknown): { value?: IJsonPatchOperation[]; errors: string[] } {
+  const { error, value } = jsonPatchSchema.validate(data, { abortEarly: false });
+
+  if (error) {
+    return { errors: error.details.map(detail => detail.message) };
+  }
+
+  return { value, errors: [] };
+}
+
+/**
+ * Validate the parts of an invoice a JSON Patch changed, as PUT /invoices/:id would
+ */
+export function validateInvoiceEdits(data: Record<string, unknown>): { value?: Record<string, unknown>; errors: string[] } {
+  const { error, value } = updateInvoiceSchema.validate(data, {
+    abortEarly: false,
+    stripUnknown: true
+  });
+
+  if (error) {
+    return { errors: error.details.map(detail => detail.message) };
+  }
+
+  return { value, errors: [] };
+}
+
+/**
+ * Validate extracted vendor and invoice data. Returns the cleaned value when valid,
+ * otherwise the list of validation messages.
+ */
+export function validateExtractionResult(data: unknown): { value?: { vendor: IVendor; invoice: IInvoiceData }; errors: string[] } {
+  const { error, value } = extractionResultSchema.validate(stripNulls(data), {
+    abortEarly: false,
+    stripUnknown: true
+  });
+
+  if (error) {
+    return { errors: error.details.map(detail => detail.message) };
+  }
+
+  return { value, errors: [] };
+}
+
+/**
+ * Keep the well-formed provenance entries a model reported. Confidence is advisory,
+ * so malformed entries are dropped instead of failing the extraction.
+ */
+export function validateProvenance(data: unknown): IFieldProvenance[] {
+  if (!Array.isArray(data)) {
+    return [];
+  }
+
+  return data.flatMap((entry) => {
+    const { error, value } = fieldProvenanceSchema.validate(stripNulls(entry), { stripUnknown: true });
+    return error ? [] : [value as IFieldProvenance];
+  });
+}
+
 // MongoDB ObjectId validation
 export const mongoIdSchema = Joi.string().pattern(/^[0-9a-fA-F]{24}$/);
 
@@ -0,0 +1,75 @@
+// Legal form suffixes that do not tell vendors apart: "ACME Ltd" and "Acme Limited" are the same company
+const LEGAL_FORMS = new Set([
+  'ab', 'ag', 'as', 'bv', 'co', 'company', 'corp', 'corporation', 'ev', 'gbr', 'gmbh', 'inc',
+  'incorporated', 'kg', 'kgaa', 'limited', 'llc', 'llp', 'lp', 'ltd', 'mbh', 'nv', 'oy', 'plc',
+  'pty', 'sa', 'sarl', 'sas', 'se', 'spa', 'srl', 'ug'
+]);
+
+/**
+ * Matching key of a vendor name: lower case without accents, punctuation and legal form,
+ * e.g. "Müller & Söhne GmbH & Co. KG" -> "muller and sohne"
+ */
+export const normalizeVendorName = (name: string): string => {
+  const words = name
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/&/g, ' and ')
+    // Dotted abbreviations such as "S.A." or "e.V." are one word
+    .replace(/\b(\p{L})\.(?=\p{L}\b)/gu, '$1')
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(Boolean);
+
+  // Strip legal forms from the end only, so "Company Shop Ltd" keeps its first word
+  while (words.length > 1 && (LEGAL_FORMS.has(words[words.length - 1]) || words[words.length - 1] === 'and')) {
+    words.pop();
+  }
+  return words.join(' ');
+};
+
+/**
+ * Matching key of a VAT or tax ID: upper case letters and digits only, e.g. "DE 123 456 789" -> "DE123456789"
+ */
+export const normalizeTaxId = (taxId: string): string => taxId.toUpperCase().replace(/[^A-Z0-9]/g, '');
+
+const bigrams = (value: string): string[] => {
+  const compact = value.replace(/ /g, '');
+  const pairs: string[] = [];
+  for (let index = 0; index < compact.length - 1; index++) {
+    pairs.push(compact.slice(index, index + 2));
+  }
+  return pairs;
+};
+
+/**
+ * Similarity of two normalized names from 0 to 1 (Sørensen–Dice coefficient over letter pairs).
+ * Tolerates typos, OCR errors and dropped words better than an exact comparison.
+ */
+export const nameSimilarity = (a: string, b: string): number => {
+  if (a === b) {
+    return 1;
+  }
+  const pairsA = bigrams(a);
+  const pairsB = bigrams(b);
+  if (!pairsA.length || !pairsB.length) {
+    return 0;
+  }
+
+  const counts = new Map<string, number>();
+  pairsA.forEach(pair => counts.set(pair, (counts.get(pair) || 0) + 1));
+  let shared = 0;
+  pairsB.forEach(pair => {
+    const count = counts.get(pair) || 0;
+    if (count > 0) {
+      shared++;
+      counts.set(pair, count - 1);
+    }
+  });
+  return (2 * shared) / (pairsA.length + pairsB.length);
+};
+
+export default {
+  normalizeVendorName,
+  normalizeTaxId,
+  nameSimilarity
+};
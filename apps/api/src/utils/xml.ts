@@ -0,0 +1,56 @@
+import { XMLParser, XMLValidator } from 'fast-xml-parser';
+
+/**
+ * Namespace-agnostic XML parser for e-invoices. Values stay strings so identifiers
+ * such as "0042" are kept as written, and the given elements always parse as arrays.
+ */
+export const createXmlParser = (repeatedElements: string[]): XMLParser => {
+  const repeated = new Set(repeatedElements);
+
+  return new XMLParser({
+    ignoreAttributes: false,
+    attributeNamePrefix: '@_',
+    removeNSPrefix: true,
+    parseTagValue: false,
+    trimValues: true,
+    isArray: (name: string): boolean => repeated.has(name)
+  });
+};
+
+/**
+ * Check that a document is well-formed XML. Returns the syntax error, if any.
+ */
+export const getXmlSyntaxError = (xml: string | Buffer): string | undefined => {
+  const result = XMLValidator.validate(xml.toString());
+  return result === true ? undefined : `${result.err.msg} (line ${result.err.line})`;
+};
+
+// Text content of an element, whether or not it carries attributes
+export const xmlText = (node: any): string | undefined => {
+  const value = node && typeof node === 'object' ? node['#text'] : node;
+  return value === undefined || value === null || value === '' ? undefined : String(value).trim();
+};
+
+export const xmlAmount = (node: any): number | undefined => {
+  const value = xmlText(node);
+  if (value === undefined) {
+    return undefined;
+  }
+  const parsed = parseFloat(value);
+  return isNaN(parsed) ? undefined : parsed;
+};
+
+export const xmlAttribute = (node: any, name: string): string | undefined => {
+  return node && typeof node === 'object' ? node[`@_${name}`] : undefined;
+};
+
+export const toArray = <T>(value: T | T[] | undefined): T[] => (value === undefined ? [] : Array.isArray(value) ? value : [value]);
+
+export default {
+  createXmlParser,
+  getXmlSyntaxError,
+  xmlText,
+  xmlAmount,
+  xmlAttribute,
+  toArray
+};
@@ -0,0 +1,36 @@
+import dotenv from 'dotenv';
+import database from './utils/database';
+import { runMigrations } from './utils/migrations';
+import { ExtractionWorker } from './services/extractionQueue.service';
+
+// Load environment variables
+dotenv.config();
+
+/**
+ * Standalone extraction worker for production deployments where the API
+ * runs serverless and cannot process jobs in the background.
+ */
+const startWorker = async (): Promise<void> => {
+  try {
+    await database.connect();
+    await runMigrations();
+
+    const worker = new ExtractionWorker();
+    worker.start();
+
+    const shutdown = async (signal: string): Promise<void> => {
+      console.log(`📥 Received ${signal}, shutting down extraction worker...`);
+      await worker.stop();
+      await database.disconnect();
+      process.exit(0);
+    };
+
+    process.on('SIGINT', () => shutdown('SIGINT'));
+    process.on('SIGTERM', () => shutdown('SIGTERM'));
+  } catch (error) {
+    console.error('❌ Failed to start extraction worker:', error);
+    process.exit(1);
+  }
+};
+
+startWorker();
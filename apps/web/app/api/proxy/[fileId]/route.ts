@@ -19,10 +19,13 @@ export async function GET(
     
     console.log('Proxying PDF request:', backendUrl);
 
+    // Files are only served to their owner, so pass on the caller's session
     const response = await fetch(backendUrl, {
       method: 'GET',
       headers: {
         'Accept': 'application/pdf',
+        ...(request.headers.get('cookie') ? { 'Cookie': request.headers.get('cookie')! } : {}),
+        ...(request.headers.get('authorization') ? { 'Authorization': request.headers.get('authorization')! } : {}),
       },
     });
 
@@ -44,11 +47,8 @@ export async function GET(
       'Content-Type': 'application/pdf',
       'Content-Length': pdfBuffer.byteLength.toString(),
       'Content-Disposition': 'inline; filename="document.pdf"',
-      'Cache-Control': 'public, max-age=3600',
+      'Cache-Control': 'private, max-age=3600',
       // Explicitly DO NOT set X-Frame-Options to allow iframe embedding
-      'Access-Control-Allow-Origin': '*',
-      'Access-Control-Allow-Methods': 'GET, HEAD, OPTIONS',
-      'Access-Control-Allow-Headers': 'Content-Type',
     });
 
     return new NextResponse(pdfBuffer, {
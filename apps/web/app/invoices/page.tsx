@@ -6,6 +6,15 @@ import ProtectedRoute from '../../components/auth/ProtectedRoute';
 import { Button } from '../../components/ui/button';
 import { Input } from '../../components/ui/input';
 import { Card, CardContent, CardHeader, CardTitle } from '../../components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../../components/ui/select';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger
+} from '../../components/ui/dropdown-menu';
 import { 
   FileText, 
   Search, 
@@ -15,32 +24,66 @@ import {
   Trash2,
   Download,
   Loader2,
-  RefreshCw
+  RefreshCw,
+  FileSpreadsheet,
+  SlidersHorizontal
 } from 'lucide-react';
 import { toast } from 'sonner';
-import { fetchInvoices, deleteInvoice, getFileDownloadUrl } from '../../lib/api';
-import type { IInvoice } from '../../lib/types';
+import { fetchInvoices, deleteInvoice, getFileDownloadUrl, getInvoiceExportUrl, exportInvoicesAccounting } from '../../lib/api';
+import type {
+  IInvoice,
+  InvoiceStatus,
+  ISearchQuery,
+  ISearchFilters,
+  TableExportFormat,
+  ExportLayout,
+  AccountingProfileId
+} from '../../lib/types';
+import { INVOICE_STATUSES, STATUS_LABELS, STATUS_BADGE_CLASSES } from '../../lib/invoice-status';
+import { useAccountingProfiles } from '../../lib/use-accounting-profiles';
+import { saveFile } from '../../lib/utils';
+import { InvoiceFilters, countActiveFilters } from '../../components/invoice-filters';
+import { SearchSnippet } from '../../components/search-snippet';
 
 export default function InvoicesPage() {
   const router = useRouter();
   const [invoices, setInvoices] = useState<IInvoice[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [searchQuery, setSearchQuery] = useState('');
+  const [statusFilter, setStatusFilter] = useState<InvoiceStatus | 'all'>('all');
+  const [filters, setFilters] = useState<ISearchFilters>({});
+  const [showFilters, setShowFilters] = useState(false);
   const [currentPage, setCurrentPage] = useState(1);
   const [totalPages, setTotalPages] = useState(1);
   const [isDeleting, setIsDeleting] = useState<string | null>(null);
+  // Filters of the list as last loaded, so exports match what is shown rather than unsubmitted input
+  const [currentView, setCurrentView] = useState<ISearchQuery>({});
+  const [isExporting, setIsExporting] = useState(false);
+  const { profiles: accountingProfiles, defaultProfile } = useAccountingProfiles();
 
-  const loadInvoices = async (search?: string, page = 1) => {
+  const loadInvoices = async (
+    search?: string,
+    page = 1,
+    status: InvoiceStatus | 'all' = statusFilter,
+    structuredFilters: ISearchFilters = filters
+  ) => {
     try {
       setIsLoading(true);
-      const { invoices: fetchedInvoices, pagination } = await fetchInvoices({
+      const view: ISearchQuery = {
+        ...structuredFilters,
         q: search,
-        page,
-        limit: 10,
-        sortBy: 'createdAt',
+        status: status === 'all' ? undefined : [status],
+        // Searches come back ranked by relevance
+        sortBy: search?.trim() ? undefined : 'createdAt',
         sortOrder: 'desc'
+      };
+      const { invoices: fetchedInvoices, pagination } = await fetchInvoices({
+        ...view,
+        page,
+        limit: 10
       });
       
+      setCurrentView(view);
       setInvoices(fetchedInvoices);
       if (pagination) {
         setTotalPages(pagination.pages);
@@ -64,6 +107,18 @@ export default function InvoicesPage() {
     loadInvoices(searchQuery, 1);
   };
 
+  const handleStatusChange = (value: InvoiceStatus | 'all') => {
+    setStatusFilter(value);
+    setCurrentPage(1);
+    loadInvoices(searchQuery, 1, value);
+  };
+
+  const handleApplyFilters = (value: ISearchFilters) => {
+    setFilters(value);
+    setCurrentPage(1);
+    loadInvoices(searchQuery, 1, statusFilter, value);
+  };
+
   const handleRefresh = () => {
     loadInvoices(searchQuery, currentPage);
   };
@@ -80,12 +135,31 @@ export default function InvoicesPage() {
       toast.success('Invoice deleted successfully');
     } catch (error) {
       console.error('Error deleting invoice:', error);
-      toast.error('Failed to delete invoice');
+      toast.error(error instanceof Error ? error.message : 'Failed to delete invoice');
     } finally {
       setIsDeleting(null);
     }
   };
 
+  const handleExport = (format: TableExportFormat, layout: ExportLayout) => {
+    // The API sends the file as an attachment, so the page stays open while it downloads
+    window.location.href = getInvoiceExportUrl(currentView, format, layout);
+  };
+
+  // Only approved and paid invoices in the current view are exported
+  const handleAccountingExport = async (profile: AccountingProfileId) => {
+    try {
+      setIsExporting(true);
+      const { blob, fileName } = await exportInvoicesAccounting(currentView, profile);
+      saveFile(blob, fileName);
+    } catch (error) {
+      console.error('Error exporting invoices:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to export invoices');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
   const handlePageChange = (page: number) => {
     setCurrentPage(page);
     loadInvoices(searchQuery, page);
@@ -108,17 +182,18 @@ export default function InvoicesPage() {
     }).format(amount);
   };
 
+  const activeFilterCount = countActiveFilters(filters);
+  const vendorSuggestions = Array.from(new Set(invoices.map(invoice => invoice.vendor.name).filter(Boolean))).sort();
+
   const getStatusBadge = (invoice: IInvoice) => {
-    const status = (invoice as any).status || 'pending';
-    const colorClasses = {
-      approved: 'bg-green-100 text-green-800',
-      rejected: 'bg-red-100 text-red-800',
-      pending: 'bg-yellow-100 text-yellow-800'
-    };
+    const status = invoice.status || 'draft';
 
     return (
-      <span className={`px-2 py-1 rounded-full text-xs font-medium ${colorClasses[status as keyof typeof colorClasses] || colorClasses.pending}`}>
-        {status.charAt(0).toUpperCase() + status.slice(1)}
+      <span
+        className={`px-2 py-1 rounded-full text-xs font-medium ${STATUS_BADGE_CLASSES[status]}`}
+        title={invoice.rejectionReason}
+      >
+        {STATUS_LABELS[status]}
       </span>
     );
   };
@@ -144,6 +219,35 @@ export default function InvoicesPage() {
                 <RefreshCw className={`h-4 w-4 mr-2 ${isLoading ? 'animate-spin' : ''}`} />
                 Refresh
               </Button>
+              <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                  <Button variant="outline" size="sm" disabled={invoices.length === 0 || isExporting}>
+                    <FileSpreadsheet className="h-4 w-4 mr-2" />
+                    {isExporting ? 'Exporting...' : 'Export'}
+                  </Button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent align="end">
+                  <DropdownMenuLabel>One row per invoice</DropdownMenuLabel>
+                  <DropdownMenuItem onClick={() => handleExport('csv', 'header')}>CSV</DropdownMenuItem>
+                  <DropdownMenuItem onClick={() => handleExport('xlsx', 'header')}>Excel (XLSX)</DropdownMenuItem>
+                  <DropdownMenuSeparator />
+                  <DropdownMenuLabel>One row per line item</DropdownMenuLabel>
+                  <DropdownMenuItem onClick={() => handleExport('csv', 'lines')}>CSV</DropdownMenuItem>
+                  <DropdownMenuItem onClick={() => handleExport('xlsx', 'lines')}>Excel (XLSX)</DropdownMenuItem>
+                  {accountingProfiles.length > 0 && (
+                    <>
+                      <DropdownMenuSeparator />
+                      <DropdownMenuLabel>Approved invoices for accounting</DropdownMenuLabel>
+                      {accountingProfiles.map(profile => (
+                        <DropdownMenuItem key={profile.id} onClick={() => handleAccountingExport(profile.id)}>
+                          {profile.name}
+                          {profile.id === defaultProfile && <span className="ml-auto pl-2 text-xs text-gray-400">default</span>}
+                        </DropdownMenuItem>
+                      ))}
+                    </>
+                  )}
+                </DropdownMenuContent>
+              </DropdownMenu>
               <Button 
                 onClick={() => router.push('/upload')}
                 size="sm"
@@ -160,16 +264,49 @@ export default function InvoicesPage() {
               <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-gray-400" />
               <Input
                 type="text"
-                placeholder="Search by invoice number, vendor name..."
+                placeholder="Search by vendor, invoice number or any text on the invoice..."
                 value={searchQuery}
                 onChange={(e) => setSearchQuery(e.target.value)}
                 className="pl-10"
               />
             </div>
+            <Select value={statusFilter} onValueChange={handleStatusChange}>
+              <SelectTrigger className="w-40">
+                <SelectValue placeholder="All statuses" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All statuses</SelectItem>
+                {INVOICE_STATUSES.map(status => (
+                  <SelectItem key={status} value={status}>{STATUS_LABELS[status]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => setShowFilters(prev => !prev)}
+            >
+              <SlidersHorizontal className="h-4 w-4 mr-2" />
+              Filters
+              {activeFilterCount > 0 && (
+                <span className="ml-2 rounded-full bg-blue-100 px-2 text-xs font-medium text-blue-800">
+                  {activeFilterCount}
+                </span>
+              )}
+            </Button>
             <Button type="submit" disabled={isLoading}>
               Search
             </Button>
           </form>
+
+          {showFilters && (
+            <InvoiceFilters
+              filters={filters}
+              onApply={handleApplyFilters}
+              vendorSuggestions={vendorSuggestions}
+              disabled={isLoading}
+            />
+          )}
         </div>
 
         {/* Invoice Table */}
@@ -191,7 +328,9 @@ export default function InvoicesPage() {
                 <FileText className="h-16 w-16 text-gray-400 mx-auto mb-4" />
                 <h3 className="text-lg font-medium text-gray-900 mb-2">No invoices found</h3>
                 <p className="text-gray-500 mb-4">
-                  {searchQuery ? 'Try adjusting your search terms.' : 'Start by uploading your first invoice.'}
+                  {searchQuery || activeFilterCount > 0 || statusFilter !== 'all'
+                    ? 'Try adjusting your search terms or filters.'
+                    : 'Start by uploading your first invoice.'}
                 </p>
                 <Button onClick={() => router.push('/upload')}>
                   <Plus className="h-4 w-4 mr-2" />
@@ -223,6 +362,13 @@ export default function InvoicesPage() {
                             <div className="text-sm text-gray-500">
                               {invoice.fileName}
                             </div>
+                            {invoice.search?.snippets.length ? (
+                              <div className="mt-2 max-w-md space-y-1">
+                                {invoice.search.snippets.map((snippet, index) => (
+                                  <SearchSnippet key={index} snippet={snippet} />
+                                ))}
+                              </div>
+                            ) : null}
                           </div>
                         </td>
                         <td className="py-3 px-4">
@@ -17,7 +17,9 @@ import {
   Trash2,
   Plus,
   Sparkles,
-  Calculator
+  Calculator,
+  AlertTriangle,
+  Send
 } from "lucide-react";
 import { Button } from "../components/ui/button";
 import { Input } from "../components/ui/input";
@@ -30,17 +32,35 @@ import {
   extractInvoice, 
   fetchInvoices, 
   fetchInvoice, 
-  updateInvoice,
   deleteInvoice,
   getFileDownloadUrl,
   getFileViewUrl,
   checkApiHealth,
-  createInvoice
+  approveInvoice,
+  rejectInvoice,
+  changeInvoiceStatus,
+  InvoiceConflictError
 } from "../lib/api";
-import type { IInvoice, IExtractResponse, ILineItem } from "../lib/types";
+import { STATUS_LABELS, REVIEWABLE_STATUSES, APPROVABLE_STATUSES } from "../lib/invoice-status";
+import type { IInvoice, IInvoiceCharge, ILineItem, ExtractionModel } from "../lib/types";
+import { calculateInvoiceTotals, getLineNet, CHARGE_TYPE_LABELS } from "../lib/invoice-totals";
+import { newLineItemId, withLineItemIds } from "../lib/line-items";
 import { useAuth } from "../lib/auth-context";
+import { useExtractionModels } from "../lib/use-extraction-models";
+import { warnAboutDuplicates } from "../lib/duplicates";
+import { useInvoiceSave } from "../lib/use-invoice-save";
+import { getInvoiceEdits, InvoiceEdits } from "../lib/invoice-merge";
+
+const openInvoice = (id: string) => {
+  window.location.href = `/invoice-viewer/${id}`;
+};
+import { getFieldProvenance, getLowConfidenceFields, isLowConfidence, LOW_CONFIDENCE_INPUT_CLASSES } from "../lib/extraction";
+import { ConfidenceHint } from "../components/confidence-hint";
 import ProtectedRoute from "../components/auth/ProtectedRoute";
 import ProxiedPdfViewer from "../components/ProxiedPdfViewer";
+import { EInvoicePreview } from "../components/invoice-viewer/EInvoicePreview";
+import { InvoiceConflictDialog } from "../components/invoice-viewer/InvoiceConflictDialog";
+import { isSupportedUpload, isXmlFileName, UPLOAD_ACCEPT } from "../lib/e-invoice";
 
 export default function DocumentReviewPage() {
   const { user } = useAuth();
@@ -52,9 +72,11 @@ export default function DocumentReviewPage() {
   const [isExtracting, setIsExtracting] = useState<boolean>(false);
   const [zoomLevel, setZoomLevel] = useState<number>(1);
   const [isDragging, setIsDragging] = useState<boolean>(false);
-  const [selectedModel, setSelectedModel] = useState<'gemini' | 'groq'>('gemini');
+  const { models, selectedModel, setSelectedModel } = useExtractionModels();
   const fileInputRef = useRef<HTMLInputElement>(null);
   const [editingLineItem, setEditingLineItem] = useState<string | null>(null);
+  // Saves only apply while nobody else changed the invoice since it was loaded here
+  const { save, conflict, resolveConflict } = useInvoiceSave(currentInvoice);
 
   // Zoom controls
   const handleZoomIn = () => setZoomLevel(prev => Math.min(prev + 0.1, 2));
@@ -92,8 +114,8 @@ export default function DocumentReviewPage() {
 
   // Handle file upload and extraction
   const handleFileUpload = async (file: File) => {
-    if (!file.type.includes('pdf')) {
-      toast.error('Please upload a PDF file');
+    if (!isSupportedUpload(file)) {
+      toast.error('Please upload a PDF file or XML e-invoice');
       return;
     }
 
@@ -105,39 +127,19 @@ export default function DocumentReviewPage() {
     try {
       setIsLoading(true);
       
-      // 1. Upload the file
-      const uploadResponse = await uploadPdf(file);
-      
-      // 2. Create a basic invoice object in backend
-      const now = new Date().toISOString().split('T')[0]; // YYYY-MM-DD format
-      const invoiceData = {
-        fileId: uploadResponse.fileId,
-        fileName: file.name,
-        vendor: {
-          name: 'Unknown Vendor', // Required field with default value
-          address: '',
-          taxId: ''
-        },
-        invoice: {
-          number: `INV-${Date.now()}`, // Required field with unique default value
-          date: now, // Required field with current date
-          currency: 'USD',
-          subtotal: 0,
-          taxPercent: 10,
-          total: 0,
-          poNumber: '',
-          poDate: '',
-          lineItems: []
-        }
-      };
-      
-      console.log('Sending invoice data:', invoiceData);
-      const createdInvoice = await createInvoice(invoiceData);
-      setCurrentInvoice(createdInvoice);
+      // XML e-invoices are imported by the API; PDFs get an empty draft to extract or fill in
+      const uploadResponse = await uploadPdf(file, { draft: true });
+      warnAboutDuplicates(uploadResponse.duplicates, openInvoice);
+      setCurrentInvoice(await fetchInvoice(uploadResponse.invoiceId!));
+
+      if (uploadResponse.format) {
+        toast.success('E-invoice imported. Review the data and approve when ready.');
+        return;
+      }
       toast.success('PDF uploaded successfully. Click "Extract with AI" to analyze the document.');
     } catch (error) {
       console.error('Error processing file:', error);
-      toast.error('Failed to upload PDF');
+      toast.error(error instanceof Error ? error.message : 'Failed to upload file');
     } finally {
       setIsLoading(false);
     }
@@ -150,26 +152,25 @@ export default function DocumentReviewPage() {
       return;
     }
 
+    if (!selectedModel) {
+      toast.error('No extraction model is available');
+      return;
+    }
+
     try {
       setIsExtracting(true);
       
-      // Extract invoice data using AI
-      const extractResponse: IExtractResponse = await extractInvoice(currentInvoice.fileId, selectedModel);
-      
-      // Update the current invoice with extracted data
-      const updatedInvoice = {
-        ...currentInvoice,
-        ...extractResponse.extractedData,
-        updatedAt: new Date().toISOString()
-      };
-      
-      // Save to backend
-      const savedInvoice = await updateInvoice(currentInvoice._id!, updatedInvoice);
+      // Queue extraction for this invoice and wait for the worker to save the result
+      await extractInvoice(currentInvoice.fileId, selectedModel, currentInvoice._id);
+      const savedInvoice = await fetchInvoice(currentInvoice._id!);
       setCurrentInvoice(savedInvoice);
       toast.success('Invoice data extracted and saved successfully!');
+      warnAboutDuplicates(savedInvoice.duplicates, openInvoice);
     } catch (error) {
       console.error('Error extracting invoice data:', error);
-      toast.error('Failed to extract invoice data. Please try again or fill the form manually.');
+      toast.error(error instanceof Error
+        ? `${error.message}. Please fill the form manually.`
+        : 'Failed to extract invoice data. Please try again or fill the form manually.');
     } finally {
       setIsExtracting(false);
     }
@@ -181,12 +182,10 @@ export default function DocumentReviewPage() {
     
     try {
       setIsSubmitting(true);
-      const updatedInvoice = {
-        ...currentInvoice,
-        status: 'approved' as const
-      };
-      await updateInvoice(currentInvoice._id, updatedInvoice);
-      setCurrentInvoice(updatedInvoice);
+      // Persist pending edits before approving; a conflict is resolved first
+      if (!await save(getInvoiceEdits(currentInvoice))) return;
+      const approvedInvoice = await approveInvoice(currentInvoice._id);
+      setCurrentInvoice(approvedInvoice);
       toast.success('Document approved successfully! Redirecting to invoices...');
       
       // Redirect to invoices page after 2 seconds
@@ -195,7 +194,26 @@ export default function DocumentReviewPage() {
       }, 2000);
     } catch (error) {
       console.error('Error approving document:', error);
-      toast.error('Failed to approve document');
+      toast.error(error instanceof Error ? error.message : 'Failed to approve document');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  // Handle submit for review action
+  const handleSubmitForReview = async () => {
+    if (!currentInvoice?._id) return;
+
+    try {
+      setIsSubmitting(true);
+      // Persist pending edits before submitting; a conflict is resolved first
+      if (!await save(getInvoiceEdits(currentInvoice))) return;
+      const submittedInvoice = await changeInvoiceStatus(currentInvoice._id, 'in_review');
+      setCurrentInvoice(submittedInvoice);
+      toast.success('Document submitted for review');
+    } catch (error) {
+      console.error('Error submitting document for review:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to submit document for review');
     } finally {
       setIsSubmitting(false);
     }
@@ -204,36 +222,32 @@ export default function DocumentReviewPage() {
   // Handle reject action
   const handleReject = async () => {
     if (!currentInvoice?._id) return;
+
+    const reason = prompt('Why is this document being rejected?');
+    if (!reason || !reason.trim()) return;
     
     try {
       setIsSubmitting(true);
-      const updatedInvoice = {
-        ...currentInvoice,
-        status: 'rejected' as const
-      };
-      const savedInvoice = await updateInvoice(currentInvoice._id, updatedInvoice);
+      const savedInvoice = await rejectInvoice(currentInvoice._id, reason.trim());
       setCurrentInvoice(savedInvoice);
       toast.success('Document rejected');
     } catch (error) {
       console.error('Error rejecting document:', error);
-      toast.error('Failed to reject document');
+      toast.error(error instanceof Error ? error.message : 'Failed to reject document');
     } finally {
       setIsSubmitting(false);
     }
   };
 
-  // Calculate totals
+  // Highlight fields the extractor was unsure about
+  const provenanceFor = (path: string) => getFieldProvenance(currentInvoice, path);
+  const fieldClass = (path: string) => `mt-1 ${isLowConfidence(provenanceFor(path)) ? LOW_CONFIDENCE_INPUT_CLASSES : ''}`;
+  const lowConfidenceCount = getLowConfidenceFields(currentInvoice).length;
+
+  // Calculate totals, with the tax per rate
   const calculateTotals = () => {
-    if (!currentInvoice) return { subtotal: 0, total: 0 };
-    
-    const subtotal = currentInvoice.invoice.lineItems.reduce((sum, item) => {
-      return sum + (item.quantity * item.unitPrice * (1 - (item.discount || 0) / 100));
-    }, 0);
-    
-    const tax = subtotal * (currentInvoice.invoice.taxPercent || 0) / 100;
-    const total = subtotal + tax;
-    
-    return { subtotal, tax, total };
+    if (!currentInvoice) return { subtotal: 0, charges: 0, taxBreakdown: [], tax: 0, total: 0 };
+    return calculateInvoiceTotals(currentInvoice.invoice);
   };
 
   // Add new line item
@@ -241,7 +255,8 @@ export default function DocumentReviewPage() {
     if (!currentInvoice) return;
     
     const newLineItem: ILineItem = {
-      id: Date.now().toString(),
+      id: newLineItemId(),
+      position: currentInvoice.invoice.lineItems.length + 1,
       description: '',
       quantity: 1,
       unitPrice: 0,
@@ -262,14 +277,14 @@ export default function DocumentReviewPage() {
   };
 
   // Delete line item
-  const deleteLineItem = (itemIndex: number) => {
+  const deleteLineItem = (itemId: string) => {
     if (!currentInvoice) return;
     
     const updatedInvoice = {
       ...currentInvoice,
       invoice: {
         ...currentInvoice.invoice,
-        lineItems: currentInvoice.invoice.lineItems.filter((_, index) => index !== itemIndex)
+        lineItems: currentInvoice.invoice.lineItems.filter(item => item.id !== itemId)
       }
     };
     
@@ -284,7 +299,7 @@ export default function DocumentReviewPage() {
       if (item.id === itemId) {
         const updatedItem = { ...item, [field]: value };
         // Recalculate item total
-        updatedItem.total = updatedItem.quantity * updatedItem.unitPrice * (1 - (updatedItem.discount || 0) / 100);
+        updatedItem.total = getLineNet(updatedItem);
         return updatedItem;
       }
       return item;
@@ -301,18 +316,44 @@ export default function DocumentReviewPage() {
     setCurrentInvoice(updatedInvoice);
   };
 
+  // Shipping and other charges billed besides the line items
+  const updateCharges = (charges: IInvoiceCharge[]) => {
+    if (!currentInvoice) return;
+
+    setCurrentInvoice({
+      ...currentInvoice,
+      invoice: { ...currentInvoice.invoice, charges }
+    });
+  };
+
+  const addCharge = () => {
+    updateCharges([...(currentInvoice?.invoice.charges || []), { type: 'shipping', amount: 0 }]);
+  };
+
+  const updateCharge = (chargeIndex: number, field: keyof IInvoiceCharge, value: any) => {
+    updateCharges((currentInvoice?.invoice.charges || []).map((charge, index) =>
+      index === chargeIndex ? { ...charge, [field]: value } : charge
+    ));
+  };
+
+  const deleteCharge = (chargeIndex: number) => {
+    updateCharges((currentInvoice?.invoice.charges || []).filter((_, index) => index !== chargeIndex));
+  };
+
   // Save invoice
   const handleSaveInvoice = async () => {
     if (!currentInvoice?._id) return;
     
     try {
       setIsSubmitting(true);
-      const savedInvoice = await updateInvoice(currentInvoice._id, currentInvoice);
-      setCurrentInvoice(savedInvoice);
-      toast.success('Invoice saved successfully');
+      const savedInvoice = await save(getInvoiceEdits(currentInvoice));
+      if (savedInvoice) {
+        setCurrentInvoice(savedInvoice);
+        toast.success('Invoice saved successfully');
+      }
     } catch (error) {
       console.error('Error saving invoice:', error);
-      toast.error('Failed to save invoice');
+      toast.error(error instanceof Error ? error.message : 'Failed to save invoice');
     } finally {
       setIsSubmitting(false);
     }
@@ -323,15 +364,44 @@ export default function DocumentReviewPage() {
     if (!confirm('Are you sure you want to delete this invoice?')) return;
     
     try {
-      await deleteInvoice(id);
+      await deleteInvoice(id, currentInvoice?._id === id ? currentInvoice : undefined);
       setCurrentInvoice(null);
       toast.success('Invoice deleted successfully');
     } catch (error) {
       console.error('Error deleting invoice:', error);
-      toast.error('Failed to delete invoice');
+      if (error instanceof InvoiceConflictError) {
+        // Show what changed before letting the invoice be deleted
+        setCurrentInvoice(error.current);
+        toast.error('This invoice was changed by someone else. Check their changes before deleting it');
+      } else {
+        toast.error(error instanceof Error ? error.message : 'Failed to delete invoice');
+      }
+    }
+  };
+
+  const handleResolveConflict = async (merged: InvoiceEdits | null) => {
+    try {
+      const resolved = await resolveConflict(merged);
+      if (resolved) {
+        setCurrentInvoice(resolved);
+        toast.success(merged ? 'Changes merged and saved' : 'Showing the latest version');
+      }
+    } catch (error) {
+      console.error('Error saving merged invoice:', error);
+      toast.error('Failed to save invoice');
     }
   };
 
+  // Line items are edited by ID; lines saved before they had one get an ID to go by
+  useEffect(() => {
+    if (currentInvoice?.invoice.lineItems.some(item => !item.id)) {
+      setCurrentInvoice({
+        ...currentInvoice,
+        invoice: { ...currentInvoice.invoice, lineItems: withLineItemIds(currentInvoice.invoice.lineItems) }
+      });
+    }
+  }, [currentInvoice]);
+
   // Load invoice data on component mount
   useEffect(() => {
     const loadInitialData = async () => {
@@ -368,7 +438,7 @@ export default function DocumentReviewPage() {
     );
   }
 
-  const { subtotal, tax, total } = calculateTotals();
+  const { subtotal, taxBreakdown, total } = calculateTotals();
 
   return (
     <ProtectedRoute>
@@ -402,7 +472,9 @@ export default function DocumentReviewPage() {
             </div>
             
             <div className="h-[calc(100vh-200px)] overflow-auto bg-gray-100">
-              {currentInvoice ? (
+              {currentInvoice && isXmlFileName(currentInvoice.fileName) ? (
+                <EInvoicePreview fileId={currentInvoice.fileId} />
+              ) : currentInvoice ? (
                 <ProxiedPdfViewer 
                   fileId={currentInvoice.fileId}
                   fileName={currentInvoice.fileName}
@@ -420,7 +492,7 @@ export default function DocumentReviewPage() {
                   onClick={() => fileInputRef.current?.click()}
                 >
                   <FileText className="h-12 w-12 text-gray-400 mb-4" />
-                  <h3 className="text-lg font-medium text-gray-900 mb-1">Drag and drop a PDF file</h3>
+                  <h3 className="text-lg font-medium text-gray-900 mb-1">Drag and drop a PDF or XML e-invoice</h3>
                   <p className="text-sm text-gray-500 mb-4">or click to browse files (max 25MB)</p>
                   <Button variant="outline" className="border-blue-200 text-blue-600 hover:bg-blue-50">
                     <Upload className="h-4 w-4 mr-2" />
@@ -450,32 +522,40 @@ export default function DocumentReviewPage() {
                     </Button>
                   )}
                   
-                  {currentInvoice && (currentInvoice as any).status !== 'approved' && (
+                  {currentInvoice && REVIEWABLE_STATUSES.includes(currentInvoice.status || 'draft') && (
                     <>
-                      <Select 
-                        value={selectedModel} 
-                        onValueChange={(value: 'gemini' | 'groq') => setSelectedModel(value)}
-                        disabled={isExtracting}
-                      >
-                        <SelectTrigger className="w-24">
-                          <SelectValue />
-                        </SelectTrigger>
-                        <SelectContent>
-                          <SelectItem value="gemini">Gemini</SelectItem>
-                          <SelectItem value="groq">Groq</SelectItem>
-                        </SelectContent>
-                      </Select>
-                      
-                      <Button 
-                        variant="default" 
-                        size="sm" 
-                        onClick={handleExtractWithAI}
-                        disabled={!currentInvoice || isExtracting}
-                        className="bg-purple-600 hover:bg-purple-700"
-                      >
-                        {isExtracting ? <Loader2 className="h-4 w-4 mr-1 animate-spin" /> : <Sparkles className="h-4 w-4 mr-1" />}
-                        Extract with AI
-                      </Button>
+                      {/* E-invoices are read from their XML, so there is nothing for a model to extract */}
+                      {!isXmlFileName(currentInvoice.fileName) && (
+                        <>
+                          <Select 
+                            value={selectedModel} 
+                            onValueChange={(value: ExtractionModel) => setSelectedModel(value)}
+                            disabled={isExtracting}
+                          >
+                            <SelectTrigger className="w-36">
+                              <SelectValue placeholder="Model" />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {models.map(model => (
+                                <SelectItem key={model.id} value={model.id} disabled={!model.available}>
+                                  {model.name}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+
+                          <Button 
+                            variant="default" 
+                            size="sm" 
+                            onClick={handleExtractWithAI}
+                            disabled={!currentInvoice || !selectedModel || isExtracting}
+                            className="bg-purple-600 hover:bg-purple-700"
+                          >
+                            {isExtracting ? <Loader2 className="h-4 w-4 mr-1 animate-spin" /> : <Sparkles className="h-4 w-4 mr-1" />}
+                            Extract with AI
+                          </Button>
+                        </>
+                      )}
                       
                       <Button 
                         variant="outline" 
@@ -488,16 +568,29 @@ export default function DocumentReviewPage() {
                         Save
                       </Button>
                       
-                      <Button 
-                        variant="outline" 
-                        size="sm" 
-                        onClick={handleApprove}
-                        disabled={!currentInvoice || isSubmitting}
-                        className="text-green-600 border-green-200"
-                      >
-                        <Check className="h-4 w-4 mr-1" />
-                        Approve
-                      </Button>
+                      {APPROVABLE_STATUSES.includes(currentInvoice.status || 'draft') ? (
+                        <Button 
+                          variant="outline" 
+                          size="sm" 
+                          onClick={handleApprove}
+                          disabled={!currentInvoice || isSubmitting}
+                          className="text-green-600 border-green-200"
+                        >
+                          <Check className="h-4 w-4 mr-1" />
+                          Approve
+                        </Button>
+                      ) : (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={handleSubmitForReview}
+                          disabled={!currentInvoice || isSubmitting}
+                          className="text-blue-600 border-blue-200"
+                        >
+                          <Send className="h-4 w-4 mr-1" />
+                          Submit for review
+                        </Button>
+                      )}
                       
                       <Button 
                         variant="outline" 
@@ -512,10 +605,19 @@ export default function DocumentReviewPage() {
                     </>
                   )}
                   
-                  {currentInvoice && (currentInvoice as any).status === 'approved' && (
+                  {currentInvoice && (currentInvoice.status === 'approved' || currentInvoice.status === 'paid') && (
                     <div className="flex items-center gap-2 text-green-600 bg-green-50 px-3 py-2 rounded-lg">
                       <Check className="h-4 w-4" />
-                      <span className="text-sm font-medium">Invoice Approved</span>
+                      <span className="text-sm font-medium">Invoice {STATUS_LABELS[currentInvoice.status]}</span>
+                    </div>
+                  )}
+
+                  {currentInvoice && currentInvoice.status === 'rejected' && (
+                    <div className="flex items-center gap-2 text-red-600 bg-red-50 px-3 py-2 rounded-lg">
+                      <X className="h-4 w-4" />
+                      <span className="text-sm font-medium">
+                        Invoice Rejected{currentInvoice.rejectionReason && `: ${currentInvoice.rejectionReason}`}
+                      </span>
                     </div>
                   )}
                 </div>
@@ -523,7 +625,7 @@ export default function DocumentReviewPage() {
                 {currentInvoice && (
                   <div className="text-sm text-gray-600 bg-blue-50 p-2 rounded">
                     <strong>File:</strong> {currentInvoice.fileName} | 
-                    <strong>Status:</strong> {(currentInvoice as any).status || 'Draft'}
+                    <strong>Status:</strong> {STATUS_LABELS[currentInvoice.status || 'draft']}
                   </div>
                 )}
               </CardContent>
@@ -531,6 +633,13 @@ export default function DocumentReviewPage() {
 
             {currentInvoice ? (
               <div className="space-y-4">
+                {lowConfidenceCount > 0 && (
+                  <div className="flex items-center gap-2 rounded-md border border-amber-200 bg-amber-50 p-3 text-sm text-amber-800">
+                    <AlertTriangle className="h-4 w-4 flex-shrink-0" />
+                    {lowConfidenceCount} extracted {lowConfidenceCount === 1 ? 'value needs' : 'values need'} review. They are highlighted below.
+                  </div>
+                )}
+
                 {/* Vendor Information */}
                 <Card>
                   <CardHeader className="pb-3">
@@ -551,9 +660,10 @@ export default function DocumentReviewPage() {
                             setCurrentInvoice(updated);
                           }
                         }}
-                        className="mt-1"
+                        className={fieldClass('vendor.name')}
                         placeholder="Enter vendor name"
                       />
+                      <ConfidenceHint provenance={provenanceFor('vendor.name')} />
                     </div>
                     <div>
                       <Label htmlFor="vendor-address" className="text-xs font-medium text-gray-600">Address</Label>
@@ -569,9 +679,10 @@ export default function DocumentReviewPage() {
                             setCurrentInvoice(updated);
                           }
                         }}
-                        className="mt-1"
+                        className={fieldClass('vendor.address')}
                         placeholder="Enter vendor address"
                       />
+                      <ConfidenceHint provenance={provenanceFor('vendor.address')} />
                     </div>
                     <div>
                       <Label htmlFor="tax-id" className="text-xs font-medium text-gray-600">Tax ID</Label>
@@ -587,9 +698,10 @@ export default function DocumentReviewPage() {
                             setCurrentInvoice(updated);
                           }
                         }}
-                        className="mt-1"
+                        className={fieldClass('vendor.taxId')}
                         placeholder="Enter tax ID"
                       />
+                      <ConfidenceHint provenance={provenanceFor('vendor.taxId')} />
                     </div>
                   </CardContent>
                 </Card>
@@ -615,9 +727,10 @@ export default function DocumentReviewPage() {
                               setCurrentInvoice(updated);
                             }
                           }}
-                          className="mt-1"
+                          className={fieldClass('invoice.number')}
                           placeholder="INV-001"
                         />
+                        <ConfidenceHint provenance={provenanceFor('invoice.number')} />
                       </div>
                       <div>
                         <Label htmlFor="invoice-date" className="text-xs font-medium text-gray-600">Invoice Date</Label>
@@ -634,8 +747,9 @@ export default function DocumentReviewPage() {
                               setCurrentInvoice(updated);
                             }
                           }}
-                          className="mt-1"
+                          className={fieldClass('invoice.date')}
                         />
+                        <ConfidenceHint provenance={provenanceFor('invoice.date')} />
                       </div>
                       <div>
                         <Label htmlFor="currency" className="text-xs font-medium text-gray-600">Currency</Label>
@@ -651,9 +765,10 @@ export default function DocumentReviewPage() {
                               setCurrentInvoice(updated);
                             }
                           }}
-                          className="mt-1"
+                          className={fieldClass('invoice.currency')}
                           placeholder="USD"
                         />
+                        <ConfidenceHint provenance={provenanceFor('invoice.currency')} />
                       </div>
                       <div>
                         <Label htmlFor="tax-percent" className="text-xs font-medium text-gray-600">Tax %</Label>
@@ -670,9 +785,10 @@ export default function DocumentReviewPage() {
                               setCurrentInvoice(updated);
                             }
                           }}
-                          className="mt-1"
+                          className={fieldClass('invoice.taxPercent')}
                           placeholder="10"
                         />
+                        <ConfidenceHint provenance={provenanceFor('invoice.taxPercent')} />
                       </div>
                     </div>
                   </CardContent>
@@ -699,39 +815,63 @@ export default function DocumentReviewPage() {
                   <CardContent>
                     <div className="space-y-2">
                       {currentInvoice.invoice.lineItems.map((item, index) => (
-                        <div key={item.id || index} className="border rounded-lg p-3 space-y-2">
+                        <div key={item.id} className="border rounded-lg p-3 space-y-2">
                           <div className="flex justify-between items-center mb-2">
                             <span className="text-sm font-medium text-gray-700">Item #{index + 1}</span>
                             <Button 
                               variant="ghost" 
                               size="sm" 
-                              onClick={() => deleteLineItem(index)}
+                              onClick={() => deleteLineItem(item.id!)}
                               className="text-red-600 hover:text-red-700 hover:bg-red-50"
                             >
                               <Trash2 className="h-4 w-4" />
                             </Button>
                           </div>
                           
-                          <div>
-                            <Label className="text-xs font-medium text-gray-600">Description</Label>
-                            <Input 
-                              value={item.description}
-                              onChange={(e) => updateLineItem(item.id!, 'description', e.target.value)}
-                              className="mt-1"
-                              placeholder="Item description"
-                            />
+                          <div className="grid grid-cols-4 gap-2">
+                            <div>
+                              <Label className="text-xs font-medium text-gray-600">Item Code</Label>
+                              <Input 
+                                value={item.code || ''}
+                                onChange={(e) => updateLineItem(item.id!, 'code', e.target.value || undefined)}
+                                className={fieldClass(`invoice.lineItems.${index}.code`)}
+                                placeholder="SKU"
+                              />
+                              <ConfidenceHint provenance={provenanceFor(`invoice.lineItems.${index}.code`)} />
+                            </div>
+                            <div className="col-span-3">
+                              <Label className="text-xs font-medium text-gray-600">Description</Label>
+                              <Input 
+                                value={item.description}
+                                onChange={(e) => updateLineItem(item.id!, 'description', e.target.value)}
+                                className={fieldClass(`invoice.lineItems.${index}.description`)}
+                                placeholder="Item description"
+                              />
+                              <ConfidenceHint provenance={provenanceFor(`invoice.lineItems.${index}.description`)} />
+                            </div>
                           </div>
                           
-                          <div className="grid grid-cols-3 gap-2">
+                          <div className="grid grid-cols-5 gap-2">
                             <div>
                               <Label className="text-xs font-medium text-gray-600">Quantity</Label>
                               <Input 
                                 type="number"
                                 value={item.quantity}
                                 onChange={(e) => updateLineItem(item.id!, 'quantity', parseFloat(e.target.value) || 0)}
-                                className="mt-1"
+                                className={fieldClass(`invoice.lineItems.${index}.quantity`)}
                                 placeholder="0"
                               />
+                              <ConfidenceHint provenance={provenanceFor(`invoice.lineItems.${index}.quantity`)} />
+                            </div>
+                            <div>
+                              <Label className="text-xs font-medium text-gray-600">Unit</Label>
+                              <Input 
+                                value={item.unit || ''}
+                                onChange={(e) => updateLineItem(item.id!, 'unit', e.target.value || undefined)}
+                                className={fieldClass(`invoice.lineItems.${index}.unit`)}
+                                placeholder="pcs"
+                              />
+                              <ConfidenceHint provenance={provenanceFor(`invoice.lineItems.${index}.unit`)} />
                             </div>
                             <div>
                               <Label className="text-xs font-medium text-gray-600">Unit Price</Label>
@@ -740,9 +880,10 @@ export default function DocumentReviewPage() {
                                 step="0.01"
                                 value={item.unitPrice}
                                 onChange={(e) => updateLineItem(item.id!, 'unitPrice', parseFloat(e.target.value) || 0)}
-                                className="mt-1"
+                                className={fieldClass(`invoice.lineItems.${index}.unitPrice`)}
                                 placeholder="0.00"
                               />
+                              <ConfidenceHint provenance={provenanceFor(`invoice.lineItems.${index}.unitPrice`)} />
                             </div>
                             <div>
                               <Label className="text-xs font-medium text-gray-600">Discount %</Label>
@@ -754,6 +895,17 @@ export default function DocumentReviewPage() {
                                 placeholder="0"
                               />
                             </div>
+                            <div>
+                              <Label className="text-xs font-medium text-gray-600">Tax %</Label>
+                              <Input 
+                                type="number"
+                                value={item.taxPercent ?? ''}
+                                onChange={(e) => updateLineItem(item.id!, 'taxPercent', e.target.value === '' ? undefined : parseFloat(e.target.value) || 0)}
+                                className={fieldClass(`invoice.lineItems.${index}.taxPercent`)}
+                                placeholder={String(currentInvoice.invoice.taxPercent ?? 0)}
+                              />
+                              <ConfidenceHint provenance={provenanceFor(`invoice.lineItems.${index}.taxPercent`)} />
+                            </div>
                           </div>
                           
                           <div className="text-right">
@@ -797,10 +949,72 @@ export default function DocumentReviewPage() {
                         <span>Subtotal:</span>
                         <span className="font-medium">{currentInvoice.invoice.currency} {subtotal.toFixed(2)}</span>
                       </div>
-                      <div className="flex justify-between text-sm">
-                        <span>Tax ({currentInvoice.invoice.taxPercent}%):</span>
-                        <span className="font-medium">{currentInvoice.invoice.currency} {tax.toFixed(2)}</span>
-                      </div>
+                      {(currentInvoice.invoice.charges || []).map((charge, index) => (
+                        <div key={index} className="flex items-center gap-2 text-sm">
+                          <Select
+                            value={charge.type}
+                            onValueChange={(value) => updateCharge(index, 'type', value)}
+                          >
+                            <SelectTrigger className="w-32 h-8">
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {Object.entries(CHARGE_TYPE_LABELS).map(([type, label]) => (
+                                <SelectItem key={type} value={type}>{label}</SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                          <Input
+                            value={charge.description || ''}
+                            onChange={(e) => updateCharge(index, 'description', e.target.value || undefined)}
+                            className="h-8 flex-1"
+                            placeholder="Description"
+                          />
+                          <Input
+                            type="number"
+                            value={charge.taxPercent ?? ''}
+                            onChange={(e) => updateCharge(index, 'taxPercent', e.target.value === '' ? undefined : parseFloat(e.target.value) || 0)}
+                            className="h-8 w-16"
+                            placeholder={`${currentInvoice.invoice.taxPercent ?? 0}%`}
+                            title="Tax %"
+                          />
+                          <Input
+                            type="number"
+                            step="0.01"
+                            value={charge.amount}
+                            onChange={(e) => updateCharge(index, 'amount', parseFloat(e.target.value) || 0)}
+                            className={`h-8 w-24 text-right ${isLowConfidence(provenanceFor(`invoice.charges.${index}.amount`)) ? LOW_CONFIDENCE_INPUT_CLASSES : ''}`}
+                          />
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => deleteCharge(index)}
+                            className="text-red-600 hover:text-red-700 hover:bg-red-50"
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </div>
+                      ))}
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={addCharge}
+                        className="text-blue-600 px-0"
+                      >
+                        <Plus className="h-4 w-4 mr-1" />
+                        Add Shipping / Charge
+                      </Button>
+                      {taxBreakdown.map(entry => (
+                        <div key={entry.taxPercent} className="flex justify-between text-sm">
+                          <span>
+                            Tax ({entry.taxPercent}%)
+                            {taxBreakdown.length > 1 && (
+                              <span className="text-gray-500"> on {entry.taxableAmount.toFixed(2)}</span>
+                            )}:
+                          </span>
+                          <span className="font-medium">{currentInvoice.invoice.currency} {entry.taxAmount.toFixed(2)}</span>
+                        </div>
+                      ))}
                       <div className="border-t pt-2">
                         <div className="flex justify-between text-lg font-bold">
                           <span>Total:</span>
@@ -837,9 +1051,11 @@ export default function DocumentReviewPage() {
           type="file"
           ref={fileInputRef}
           onChange={handleFileSelect}
-          accept=".pdf"
+          accept={UPLOAD_ACCEPT}
           className="hidden"
         />
+
+        <InvoiceConflictDialog conflict={conflict} onResolve={handleResolveConflict} />
       </div>
     </ProtectedRoute>
   );
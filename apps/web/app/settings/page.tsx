@@ -19,9 +19,12 @@ import {
   Save,
   Loader2,
   Eye,
-  EyeOff
+  EyeOff,
+  Calculator
 } from 'lucide-react';
 import { toast } from 'sonner';
+import { useAccountingProfiles } from '../../lib/use-accounting-profiles';
+import type { AccountingProfileId } from '../../lib/types';
 
 export default function SettingsPage() {
   const { user, updateProfile } = useAuth();
@@ -44,6 +47,17 @@ export default function SettingsPage() {
     timezone: user?.preferences?.timezone || 'UTC',
   });
 
+  // Accounting export form state
+  const { profiles: accountingProfiles, defaultProfile } = useAccountingProfiles();
+  const [exportProfile, setExportProfile] = useState<AccountingProfileId | undefined>(user?.preferences?.exportProfile);
+  const [accountingForm, setAccountingForm] = useState({
+    defaultGlAccount: user?.preferences?.accounting?.defaultGlAccount || '',
+    payablesAccount: user?.preferences?.accounting?.payablesAccount || '',
+    taxAccount: user?.preferences?.accounting?.taxAccount || '',
+    datevConsultantNumber: user?.preferences?.accounting?.datevConsultantNumber || '',
+    datevClientNumber: user?.preferences?.accounting?.datevClientNumber || '',
+  });
+
   // Password form state
   const [passwordForm, setPasswordForm] = useState({
     currentPassword: '',
@@ -81,6 +95,24 @@ export default function SettingsPage() {
     }
   };
 
+  const handleAccountingSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    
+    try {
+      setIsLoading(true);
+      await updateProfile({
+        preferences: {
+          exportProfile: exportProfile || defaultProfile,
+          accounting: accountingForm,
+        } as NonNullable<typeof user>['preferences'],
+      });
+    } catch (error) {
+      // Error handled in context
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
   const handlePasswordSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     
@@ -342,6 +374,107 @@ export default function SettingsPage() {
             </CardContent>
           </Card>
 
+          {/* Accounting Export */}
+          <Card>
+            <CardHeader>
+              <div className="flex items-center space-x-2">
+                <Calculator className="h-5 w-5 text-blue-600" />
+                <CardTitle>Accounting Export</CardTitle>
+              </div>
+              <CardDescription>
+                Choose how approved invoices are exported to your accounting package.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <form onSubmit={handleAccountingSubmit} className="space-y-4">
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="exportProfile">Default Export Profile</Label>
+                    <Select 
+                      value={exportProfile || defaultProfile} 
+                      onValueChange={(value) => setExportProfile(value as AccountingProfileId)}
+                      disabled={isLoading}
+                    >
+                      <SelectTrigger>
+                        <SelectValue placeholder="Select a profile" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {accountingProfiles.map(profile => (
+                          <SelectItem key={profile.id} value={profile.id}>{profile.name}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="defaultGlAccount">Default GL Account</Label>
+                    <Input
+                      id="defaultGlAccount"
+                      value={accountingForm.defaultGlAccount}
+                      onChange={(e) => setAccountingForm({ ...accountingForm, defaultGlAccount: e.target.value })}
+                      placeholder="Used when an invoice has no GL account, e.g. 6000"
+                      disabled={isLoading}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="payablesAccount">Payables Account</Label>
+                    <Input
+                      id="payablesAccount"
+                      value={accountingForm.payablesAccount}
+                      onChange={(e) => setAccountingForm({ ...accountingForm, payablesAccount: e.target.value })}
+                      placeholder="Accounts payable, or the DATEV creditor account"
+                      disabled={isLoading}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="taxAccount">Input Tax Account</Label>
+                    <Input
+                      id="taxAccount"
+                      value={accountingForm.taxAccount}
+                      onChange={(e) => setAccountingForm({ ...accountingForm, taxAccount: e.target.value })}
+                      placeholder="QuickBooks only; tax is included in expenses when empty"
+                      disabled={isLoading}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="datevConsultantNumber">DATEV Consultant Number</Label>
+                    <Input
+                      id="datevConsultantNumber"
+                      value={accountingForm.datevConsultantNumber}
+                      onChange={(e) => setAccountingForm({ ...accountingForm, datevConsultantNumber: e.target.value })}
+                      placeholder="Beraternummer"
+                      disabled={isLoading}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="datevClientNumber">DATEV Client Number</Label>
+                    <Input
+                      id="datevClientNumber"
+                      value={accountingForm.datevClientNumber}
+                      onChange={(e) => setAccountingForm({ ...accountingForm, datevClientNumber: e.target.value })}
+                      placeholder="Mandantennummer"
+                      disabled={isLoading}
+                    />
+                  </div>
+                </div>
+                <div className="flex justify-end">
+                  <Button type="submit" disabled={isLoading}>
+                    {isLoading ? (
+                      <>
+                        <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                        Saving...
+                      </>
+                    ) : (
+                      <>
+                        <Save className="mr-2 h-4 w-4" />
+                        Save Export Settings
+                      </>
+                    )}
+                  </Button>
+                </div>
+              </form>
+            </CardContent>
+          </Card>
+
           {/* Security Settings */}
           <Card>
             <CardHeader>
@@ -0,0 +1,182 @@
+"use client";
+
+import { useEffect, useState } from 'react';
+import { useAuth } from '../../lib/auth-context';
+import ProtectedRoute from '../../components/auth/ProtectedRoute';
+import { Button } from '../../components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../../components/ui/card';
+import { Badge } from '../../components/ui/badge';
+import { Sparkles, Loader2, RefreshCw, RotateCcw } from 'lucide-react';
+import { toast } from 'sonner';
+import { fetchExtractionTemplates, resetExtractionTemplate } from '../../lib/api';
+import type { IExtractionTemplate } from '../../lib/types';
+
+// Corrections after which a field is included in the prompt; mirrors the API
+const MIN_CORRECTIONS = 2;
+
+const formatDate = (value?: string) => value ? new Date(value).toLocaleString() : '—';
+
+export default function TemplatesPage() {
+  const { user } = useAuth();
+  const isAdmin = user?.role === 'admin';
+  const [templates, setTemplates] = useState<IExtractionTemplate[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isResetting, setIsResetting] = useState<string | null>(null);
+
+  const loadTemplates = async () => {
+    try {
+      setIsLoading(true);
+      setTemplates(await fetchExtractionTemplates());
+    } catch (error) {
+      console.error('Failed to load templates:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to load templates');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (isAdmin) {
+      loadTemplates();
+    }
+  }, [isAdmin]);
+
+  const handleReset = async (template: IExtractionTemplate) => {
+    if (!confirm(`Reset the extraction template of ${template.vendorName}? What was learned from its invoices is lost.`)) {
+      return;
+    }
+
+    try {
+      setIsResetting(template._id);
+      await resetExtractionTemplate(template._id);
+      setTemplates(prev => prev.filter(item => item._id !== template._id));
+      toast.success(`Template of ${template.vendorName} reset`);
+    } catch (error) {
+      console.error('Failed to reset template:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to reset template');
+    } finally {
+      setIsResetting(null);
+    }
+  };
+
+  return (
+    <ProtectedRoute>
+      <div className="container mx-auto py-8 px-4 max-w-5xl">
+        <div className="mb-8 flex items-start justify-between">
+          <div>
+            <h1 className="text-3xl font-bold text-gray-900">Extraction Templates</h1>
+            <p className="text-gray-600 mt-2">
+              Hints learned per vendor from the fields reviewers corrected before approving. Fields corrected
+              at least {MIN_CORRECTIONS} times are added to the prompt for the vendor&apos;s next documents.
+            </p>
+          </div>
+          {isAdmin && (
+            <Button variant="outline" size="sm" onClick={loadTemplates} disabled={isLoading}>
+              <RefreshCw className={`h-4 w-4 mr-2 ${isLoading ? 'animate-spin' : ''}`} />
+              Refresh
+            </Button>
+          )}
+        </div>
+
+        {!isAdmin ? (
+          <Card>
+            <CardContent className="py-8 text-center text-gray-600">
+              Only administrators can view extraction templates.
+            </CardContent>
+          </Card>
+        ) : isLoading ? (
+          <div className="flex items-center justify-center py-12 text-gray-600">
+            <Loader2 className="h-6 w-6 animate-spin mr-2" />
+            Loading templates...
+          </div>
+        ) : templates.length === 0 ? (
+          <Card>
+            <CardContent className="py-8 text-center text-gray-600">
+              No templates yet. They are learned when invoices matched to a master vendor are approved.
+            </CardContent>
+          </Card>
+        ) : (
+          <div className="grid gap-6">
+            {templates.map(template => (
+              <Card key={template._id}>
+                <CardHeader>
+                  <div className="flex items-start justify-between">
+                    <div>
+                      <div className="flex items-center space-x-2">
+                        <Sparkles className="h-5 w-5 text-blue-600" />
+                        <CardTitle>{template.vendorName}</CardTitle>
+                        {template.promptHints ? (
+                          <Badge>Active</Badge>
+                        ) : (
+                          <Badge variant="secondary">Learning</Badge>
+                        )}
+                      </div>
+                      <CardDescription className="mt-1">
+                        Learned from {template.invoiceCount} approved invoice(s) · used in {template.appliedCount} extraction(s),
+                        last {formatDate(template.lastAppliedAt)}
+                      </CardDescription>
+                    </div>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => handleReset(template)}
+                      disabled={isResetting === template._id}
+                    >
+                      {isResetting === template._id ? (
+                        <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                      ) : (
+                        <RotateCcw className="h-4 w-4 mr-2" />
+                      )}
+                      Reset
+                    </Button>
+                  </div>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  {template.fields.length === 0 ? (
+                    <p className="text-sm text-gray-600">No corrections so far.</p>
+                  ) : (
+                    <table className="w-full text-sm">
+                      <thead>
+                        <tr className="text-left text-gray-500 border-b">
+                          <th className="py-2 font-medium">Field</th>
+                          <th className="py-2 font-medium">Corrections</th>
+                          <th className="py-2 font-medium">Extracted</th>
+                          <th className="py-2 font-medium">Corrected to</th>
+                          <th className="py-2 font-medium">Printed after</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {template.fields.map(field => (
+                          <tr key={field.path} className="border-b last:border-0">
+                            <td className="py-2 font-mono text-xs">{field.path}</td>
+                            <td className={`py-2 ${field.corrections >= MIN_CORRECTIONS ? 'font-semibold text-blue-700' : ''}`}>
+                              {field.corrections} / {template.invoiceCount}
+                            </td>
+                            <td className="py-2 text-gray-600">{field.extracted || '—'}</td>
+                            <td className="py-2">{field.corrected || '—'}</td>
+                            <td className="py-2 text-gray-600">
+                              {field.label ? `“${field.label}”` : '—'}
+                              {field.page ? ` (page ${field.page})` : ''}
+                            </td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  )}
+                  {template.promptHints && (
+                    <div>
+                      <p className="text-xs font-medium text-gray-500 uppercase tracking-wider mb-1">Added to the prompt</p>
+                      <pre className="whitespace-pre-wrap text-xs bg-gray-50 border rounded p-3 text-gray-700">
+                        {template.promptHints}
+                      </pre>
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+        )}
+      </div>
+    </ProtectedRoute>
+  );
+}
@@ -2,14 +2,19 @@
 
 import { useState, useCallback } from "react";
 import { useRouter } from "next/navigation";
-import { uploadPdf, extractInvoice, createInvoice } from "../../lib/api";
+import { uploadPdf, submitExtraction, waitForExtractionJob, createInvoice } from "../../lib/api";
+import { warnAboutDuplicates } from "../../lib/duplicates";
 import { Button } from "../../components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "../../components/ui/card";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "../../components/ui/select";
 import { Label } from "../../components/ui/label";
 import { toast } from "sonner";
-import { Upload, FileText, Brain, CheckCircle2, AlertCircle, Loader2 } from "lucide-react";
-import { IExtractResponse } from "../../lib/types";
+import { Upload, FileText, FileArchive, Brain, CheckCircle2, AlertCircle, Loader2 } from "lucide-react";
+import { IExtractResponse, IExtractionJob, ExtractionModel } from "../../lib/types";
+import { useExtractionModels } from "../../lib/use-extraction-models";
+import { useBatchUpload, MAX_BATCH_SIZE } from "../../lib/use-batch-upload";
+import { isSupportedUpload, isXmlFile, isZipFile, BATCH_UPLOAD_ACCEPT } from "../../lib/e-invoice";
+import { BatchUploadList } from "../../components/batch-upload-list";
 
 type UploadStep = 'select' | 'uploading' | 'extracting' | 'saving' | 'complete';
 
@@ -17,10 +22,24 @@ export default function UploadPage() {
   const router = useRouter();
   const [file, setFile] = useState<File | null>(null);
   const [step, setStep] = useState<UploadStep>('select');
-  const [aiModel, setAiModel] = useState<'gemini' | 'groq'>('gemini');
+  const { models, selectedModel: aiModel, selectedModelInfo, setSelectedModel: setAiModel } = useExtractionModels();
   const [uploadedFileId, setUploadedFileId] = useState<string | null>(null);
   const [extractedData, setExtractedData] = useState<IExtractResponse | null>(null);
+  const [extractionJob, setExtractionJob] = useState<IExtractionJob | null>(null);
   const [dragActive, setDragActive] = useState(false);
+  // Several files or a ZIP archive are uploaded as a batch, one invoice per file
+  const [batchFiles, setBatchFiles] = useState<File[]>([]);
+  const [queueExtraction, setQueueExtraction] = useState(true);
+  const batch = useBatchUpload();
+
+  const selectBatch = useCallback((selectedFiles: File[]) => {
+    const files = selectedFiles.filter(selected => isZipFile(selected) || isSupportedUpload(selected));
+    if (files.length < selectedFiles.length) {
+      toast.error(`${selectedFiles.length - files.length} unsupported files were skipped`);
+    }
+    setFile(null);
+    setBatchFiles(files);
+  }, []);
 
   const handleDrag = useCallback((e: React.DragEvent) => {
     e.preventDefault();
@@ -38,58 +57,106 @@ export default function UploadPage() {
     setDragActive(false);
     
     const droppedFiles = e.dataTransfer.files;
-    if (droppedFiles && droppedFiles[0]) {
+    if (droppedFiles && droppedFiles.length > 1) {
+      selectBatch(Array.from(droppedFiles));
+    } else if (droppedFiles && droppedFiles[0]) {
       const droppedFile = droppedFiles[0];
-      if (droppedFile.type === 'application/pdf') {
+      if (isZipFile(droppedFile)) {
+        selectBatch([droppedFile]);
+      } else if (isSupportedUpload(droppedFile)) {
+        setBatchFiles([]);
         setFile(droppedFile);
       } else {
-        toast.error('Please drop a PDF file');
+        toast.error('Please drop PDF files, XML e-invoices or a ZIP archive');
       }
     }
-  }, []);
+  }, [selectBatch]);
 
   const validateFile = (selectedFile: File): boolean => {
     if (selectedFile.size > 25 * 1024 * 1024) {
       toast.error("File exceeds 25MB limit");
       return false;
     }
-    if (selectedFile.type !== 'application/pdf') {
-      toast.error("Please select a PDF file");
+    if (!isSupportedUpload(selectedFile)) {
+      toast.error("Please select a PDF file or XML e-invoice");
       return false;
     }
     return true;
   };
 
   const handleFileSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const selectedFile = e.target.files?.[0];
-    if (selectedFile && validateFile(selectedFile)) {
+    const selectedFiles = Array.from(e.target.files || []);
+    const selectedFile = selectedFiles[0];
+    if (selectedFiles.length > 1 || (selectedFile && isZipFile(selectedFile))) {
+      selectBatch(selectedFiles);
+    } else if (selectedFile && validateFile(selectedFile)) {
+      setBatchFiles([]);
       setFile(selectedFile);
     }
   };
 
+  const handleBatchUpload = async () => {
+    if (batchFiles.reduce((total, selected) => total + selected.size, 0) > MAX_BATCH_SIZE) {
+      toast.error(`A batch can be at most ${formatFileSize(MAX_BATCH_SIZE)}. Upload the files in smaller batches`);
+      return;
+    }
+
+    const report = await batch.start(batchFiles, queueExtraction ? aiModel : undefined);
+    if (report?.status === 'completed') {
+      toast.success('Batch upload finished');
+    } else {
+      toast.error(report?.error || 'Batch upload failed');
+    }
+  };
+
   const handleUploadAndExtract = async () => {
     if (!file) {
       toast.error("Please select a PDF file first");
       return;
     }
 
+    if (!aiModel && !isXmlFile(file)) {
+      toast.error("No extraction model is available");
+      return;
+    }
+
     try {
       // Step 1: Upload PDF
+      setExtractionJob(null);
       setStep('uploading');
       const uploadResult = await uploadPdf(file);
       setUploadedFileId(uploadResult.fileId);
+      const openInvoice = (id: string) => router.push(`/invoice-viewer/${id}`);
+      warnAboutDuplicates(uploadResult.duplicates, openInvoice);
+
+      // XML e-invoices are parsed and saved by the API during upload
+      if (uploadResult.invoiceId) {
+        toast.success(`${uploadResult.format?.toUpperCase()} e-invoice imported successfully!`);
+        setStep('complete');
+        setTimeout(() => {
+          router.push(`/invoice-viewer/${uploadResult.invoiceId}`);
+        }, 2000);
+        return;
+      }
+
       toast.success("File uploaded successfully!");
 
-      // Step 2: Extract data with AI
+      // Step 2: Queue AI extraction and poll until the worker finishes
       setStep('extracting');
-      const extractResult = await extractInvoice(uploadResult.fileId, aiModel);
+      const job = await submitExtraction(uploadResult.fileId, aiModel!);
+      setExtractionJob(job);
+      const extractResult = await waitForExtractionJob(job.jobId, setExtractionJob);
       setExtractedData(extractResult);
-      toast.success(`Data extracted using ${aiModel.toUpperCase()} AI!`);
+      toast.success(`Data extracted using ${selectedModelInfo?.name ?? aiModel}!`);
 
       // Step 3: Save to database
       setStep('saving');
-      await createInvoice(extractResult.extractedData);
+      const savedInvoice = await createInvoice(extractResult.extractedData, job.jobId);
       toast.success("Invoice saved successfully!");
+      // A file seen before was already reported on upload
+      if (!uploadResult.duplicates) {
+        warnAboutDuplicates(savedInvoice.duplicates, openInvoice);
+      }
       
       setStep('complete');
       
@@ -106,9 +173,12 @@ export default function UploadPage() {
 
   const resetProcess = () => {
     setFile(null);
+    setBatchFiles([]);
+    batch.reset();
     setStep('select');
     setUploadedFileId(null);
     setExtractedData(null);
+    setExtractionJob(null);
   };
 
   const formatFileSize = (bytes: number) => {
@@ -134,12 +204,25 @@ export default function UploadPage() {
     }
   };
 
+  const getJobDescription = (job: IExtractionJob) => {
+    switch (job.status) {
+      case 'queued':
+        return job.attempts > 0
+          ? `Retrying shortly (attempt ${job.attempts + 1} of ${job.maxAttempts})${job.error ? `: ${job.error}` : ''}`
+          : 'Waiting in the extraction queue...';
+      case 'processing':
+        return `Processing (attempt ${job.attempts} of ${job.maxAttempts})...`;
+      default:
+        return `Job ${job.status}`;
+    }
+  };
+
   const getStepDescription = (currentStep: UploadStep) => {
     switch (currentStep) {
       case 'uploading':
         return 'Uploading your PDF file...';
       case 'extracting':
-        return `Extracting invoice data using ${aiModel.toUpperCase()} AI...`;
+        return `Extracting invoice data using ${selectedModelInfo?.name ?? aiModel}...`;
       case 'saving':
         return 'Saving invoice to database...';
       case 'complete':
@@ -157,7 +240,7 @@ export default function UploadPage() {
       <div className="text-center">
         <h1 className="text-3xl font-bold">Upload Invoice PDF</h1>
         <p className="text-muted-foreground mt-2">
-          Upload your PDF invoice and let AI extract the data automatically
+          Upload your PDF invoices, one at a time or many at once, and let AI extract the data automatically
         </p>
       </div>
 
@@ -168,7 +251,12 @@ export default function UploadPage() {
             {getStepIcon(step)}
             <div className="flex-1">
               <div className="font-medium">{getStepDescription(step)}</div>
-              {step === 'extracting' && extractedData && (
+              {step === 'extracting' && extractionJob && (
+                <div className="text-sm text-muted-foreground mt-1">
+                  {getJobDescription(extractionJob)}
+                </div>
+              )}
+              {step !== 'extracting' && extractedData && (
                 <div className="text-sm text-muted-foreground mt-1">
                   Processing time: {extractedData.processingTime}ms
                 </div>
@@ -198,33 +286,57 @@ export default function UploadPage() {
         </CardContent>
       </Card>
 
+      {/* Batch Progress */}
+      {batch.items.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Batch Upload</CardTitle>
+            <CardDescription>
+              Every PDF becomes a draft invoice{queueExtraction && aiModel ? ' and is queued for extraction' : ''}; XML e-invoices are imported directly
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <BatchUploadList items={batch.items} />
+            <div className="flex space-x-3">
+              <Button onClick={() => router.push('/')} disabled={batch.isUploading} className="flex-1">
+                Go to Invoices
+              </Button>
+              <Button variant="outline" onClick={resetProcess} disabled={batch.isUploading}>
+                Upload More
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
       {/* Main Upload Card */}
-      {step === 'select' && (
+      {step === 'select' && batch.items.length === 0 && (
         <Card>
           <CardHeader>
             <CardTitle>Select PDF File</CardTitle>
             <CardDescription>
-              Choose a PDF invoice file to upload and extract data from
+              Choose a PDF invoice to extract data from, or an XML e-invoice (UBL, XRechnung, Peppol BIS, CII) to import directly.
+              Select several files or a ZIP archive to upload a batch.
             </CardDescription>
           </CardHeader>
           <CardContent className="space-y-4">
             {/* AI Model Selection */}
             <div className="space-y-2">
               <Label htmlFor="ai-model">AI Extraction Model</Label>
-              <Select value={aiModel} onValueChange={(value: 'gemini' | 'groq') => setAiModel(value)}>
+              <Select value={aiModel} onValueChange={(value: ExtractionModel) => setAiModel(value)}>
                 <SelectTrigger>
                   <SelectValue placeholder="Select AI model" />
                 </SelectTrigger>
                 <SelectContent>
-                  <SelectItem value="gemini">Google Gemini (Recommended)</SelectItem>
-                  <SelectItem value="groq">Groq (Fast)</SelectItem>
+                  {models.map(model => (
+                    <SelectItem key={model.id} value={model.id} disabled={!model.available}>
+                      {model.name}{!model.available && ' (not configured)'}
+                    </SelectItem>
+                  ))}
                 </SelectContent>
               </Select>
               <p className="text-sm text-muted-foreground">
-                {aiModel === 'gemini' 
-                  ? 'Google\'s powerful multimodal AI with excellent document understanding'
-                  : 'Ultra-fast inference with Groq\'s specialized hardware'
-                }
+                {selectedModelInfo?.description}
               </p>
             </div>
 
@@ -233,7 +345,7 @@ export default function UploadPage() {
               className={`relative border-2 border-dashed rounded-lg p-8 text-center transition-colors ${
                 dragActive 
                   ? 'border-primary bg-primary/5' 
-                  : file 
+                  : file || batchFiles.length > 0
                     ? 'border-green-300 bg-green-50 dark:bg-green-900/20 dark:border-green-700'
                     : 'border-muted-foreground/25 hover:border-muted-foreground/50'
               }`}
@@ -244,13 +356,26 @@ export default function UploadPage() {
             >
               <input
                 type="file"
-                accept="application/pdf"
+                accept={BATCH_UPLOAD_ACCEPT}
+                multiple
                 onChange={handleFileSelect}
                 className="absolute inset-0 w-full h-full opacity-0 cursor-pointer"
                 disabled={isProcessing}
               />
               
-              {file ? (
+              {batchFiles.length > 0 ? (
+                <div className="space-y-2">
+                  <FileArchive className="h-12 w-12 mx-auto text-green-600" />
+                  <div>
+                    <p className="font-medium text-green-800 dark:text-green-200">
+                      {batchFiles.length === 1 ? batchFiles[0].name : `${batchFiles.length} files selected`}
+                    </p>
+                    <p className="text-sm text-muted-foreground">
+                      {formatFileSize(batchFiles.reduce((total, selected) => total + selected.size, 0))}
+                    </p>
+                  </div>
+                </div>
+              ) : file ? (
                 <div className="space-y-2">
                   <FileText className="h-12 w-12 mx-auto text-green-600" />
                   <div>
@@ -262,40 +387,82 @@ export default function UploadPage() {
                 <div className="space-y-2">
                   <Upload className="h-12 w-12 mx-auto text-muted-foreground" />
                   <div>
-                    <p className="font-medium">Drop your PDF here or click to browse</p>
-                    <p className="text-sm text-muted-foreground">Maximum file size: 25MB</p>
+                    <p className="font-medium">Drop your PDF or XML e-invoice here or click to browse</p>
+                    <p className="text-sm text-muted-foreground">Maximum file size: 25MB, or drop several files or a ZIP archive of up to 100MB in total</p>
                   </div>
                 </div>
               )}
             </div>
 
+            {batchFiles.length > 0 && (
+              <label className="flex items-center gap-2 text-sm">
+                <input
+                  type="checkbox"
+                  checked={queueExtraction && !!aiModel}
+                  disabled={!aiModel}
+                  onChange={e => setQueueExtraction(e.target.checked)}
+                />
+                Queue AI extraction for every PDF
+              </label>
+            )}
+
             {/* Action Buttons */}
             <div className="flex space-x-3">
-              <Button 
-                onClick={handleUploadAndExtract} 
-                disabled={!file || isProcessing}
-                className="flex-1"
-              >
-                {isProcessing ? (
-                  <>
-                    <Loader2 className="h-4 w-4 mr-2 animate-spin" />
-                    Processing...
-                  </>
-                ) : (
-                  <>
-                    <Brain className="h-4 w-4 mr-2" />
-                    Upload & Extract Data
-                  </>
-                )}
-              </Button>
+              {batchFiles.length > 0 ? (
+                <Button onClick={handleBatchUpload} disabled={batch.isUploading} className="flex-1">
+                  <Upload className="h-4 w-4 mr-2" />
+                  Upload {batchFiles.length} {batchFiles.length === 1 ? 'file' : 'files'}
+                </Button>
+              ) : (
+                <Button 
+                  onClick={handleUploadAndExtract} 
+                  disabled={!file || (!aiModel && !isXmlFile(file)) || isProcessing}
+                  className="flex-1"
+                >
+                  {isProcessing ? (
+                    <>
+                      <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                      Processing...
+                    </>
+                  ) : (
+                    <>
+                      <Brain className="h-4 w-4 mr-2" />
+                      Upload & Extract Data
+                    </>
+                  )}
+                </Button>
+              )}
               
-              {file && (
+              {(file || batchFiles.length > 0) && (
                 <Button variant="outline" onClick={resetProcess} disabled={isProcessing}>
                   Clear
                 </Button>
               )}
             </div>
 
+            {/* Extraction failure */}
+            {step === 'select' && extractionJob?.status === 'failed' && (
+              <div className="bg-red-50 dark:bg-red-900/20 p-4 rounded-lg border border-red-200 dark:border-red-800">
+                <div className="flex items-start space-x-3">
+                  <AlertCircle className="h-5 w-5 text-red-600 flex-shrink-0 mt-0.5" />
+                  <div>
+                    <h4 className="font-medium text-red-800 dark:text-red-200">Extraction failed</h4>
+                    <p className="text-sm text-red-700 dark:text-red-300 mt-1">{extractionJob.error}</p>
+                    {extractionJob.errorDetails && extractionJob.errorDetails.length > 0 && (
+                      <ul className="text-sm text-red-700 dark:text-red-300 mt-1 space-y-1">
+                        {extractionJob.errorDetails.map((detail, index) => (
+                          <li key={index}>• {detail}</li>
+                        ))}
+                      </ul>
+                    )}
+                    <p className="text-sm text-red-700 dark:text-red-300 mt-2">
+                      Nothing was saved. Try another model, or upload the PDF from the dashboard and enter the data manually.
+                    </p>
+                  </div>
+                </div>
+              </div>
+            )}
+
             {/* Info */}
             <div className="bg-blue-50 dark:bg-blue-900/20 p-4 rounded-lg border border-blue-200 dark:border-blue-800">
               <div className="flex items-start space-x-3">
@@ -303,7 +470,7 @@ export default function UploadPage() {
                 <div>
                   <h4 className="font-medium text-blue-800 dark:text-blue-200">How it works</h4>
                   <ul className="text-sm text-blue-700 dark:text-blue-300 mt-1 space-y-1">
-                    <li>• Upload your PDF invoice file</li>
+                    <li>• Upload your PDF invoice file, or many at once in a ZIP archive</li>
                     <li>• AI extracts vendor info, line items, and totals</li>
                     <li>• Data is automatically saved to your dashboard</li>
                     <li>• You can review and edit the extracted data anytime</li>
@@ -2,8 +2,12 @@
 
 import { useState, useEffect } from "react";
 import { useRouter, useParams } from "next/navigation";
-import { fetchInvoice, updateInvoice, deleteInvoice, getFileDownloadUrl } from "../../../lib/api";
+import { fetchInvoice, deleteInvoice, getFileDownloadUrl, InvoiceConflictError } from "../../../lib/api";
 import { IInvoice, IVendor, ILineItem } from "../../../lib/types";
+import { calculateInvoiceTotals, getLineNet, CHARGE_TYPE_LABELS } from "../../../lib/invoice-totals";
+import { newLineItemId } from "../../../lib/line-items";
+import { useInvoiceSave } from "../../../lib/use-invoice-save";
+import type { InvoiceEdits } from "../../../lib/invoice-merge";
 import { Button } from "../../../components/ui/button";
 import { Input } from "../../../components/ui/input";
 import { Label } from "../../../components/ui/label";
@@ -21,9 +25,13 @@ import {
   Receipt,
   DollarSign,
   Calendar,
+  History,
   Loader2
 } from "lucide-react";
 import Link from "next/link";
+import { DuplicateBanner } from "../../../components/invoice-viewer/DuplicateBanner";
+import { RevisionHistory } from "../../../components/invoice-viewer/RevisionHistory";
+import { InvoiceConflictDialog } from "../../../components/invoice-viewer/InvoiceConflictDialog";
 
 export default function InvoiceViewerPage() {
   const router = useRouter();
@@ -35,6 +43,8 @@ export default function InvoiceViewerPage() {
   const [saving, setSaving] = useState(false);
   const [deleting, setDeleting] = useState(false);
   const [isEditing, setIsEditing] = useState(false);
+  const [activeTab, setActiveTab] = useState<'details' | 'history'>('details');
+  const { save, conflict, resolveConflict } = useInvoiceSave(invoice);
 
   useEffect(() => {
     if (invoiceId) {
@@ -61,13 +71,16 @@ export default function InvoiceViewerPage() {
 
     try {
       setSaving(true);
-      await updateInvoice(invoice._id, {
+      const updated = await save({
         vendor: invoice.vendor,
         invoice: invoice.invoice,
         fileName: invoice.fileName
       });
-      toast.success('Invoice updated successfully');
-      setIsEditing(false);
+      if (updated) {
+        setInvoice(updated);
+        toast.success('Invoice updated successfully');
+        setIsEditing(false);
+      }
     } catch (error) {
       console.error('Failed to save invoice:', error);
       toast.error('Failed to save invoice');
@@ -76,6 +89,20 @@ export default function InvoiceViewerPage() {
     }
   };
 
+  const handleResolveConflict = async (merged: InvoiceEdits | null) => {
+    try {
+      const resolved = await resolveConflict(merged);
+      if (resolved) {
+        setInvoice(resolved);
+        setIsEditing(false);
+        toast.success(merged ? 'Changes merged and saved' : 'Showing the latest version');
+      }
+    } catch (error) {
+      console.error('Failed to save merged invoice:', error);
+      toast.error('Failed to save invoice');
+    }
+  };
+
   const handleDelete = async () => {
     if (!invoice?._id) return;
 
@@ -85,12 +112,19 @@ export default function InvoiceViewerPage() {
 
     try {
       setDeleting(true);
-      await deleteInvoice(invoice._id);
+      await deleteInvoice(invoice._id, invoice);
       toast.success('Invoice deleted successfully');
       router.push('/');
     } catch (error) {
       console.error('Failed to delete invoice:', error);
-      toast.error('Failed to delete invoice');
+      if (error instanceof InvoiceConflictError) {
+        // Show what changed before letting the invoice be deleted
+        setInvoice(error.current);
+        setIsEditing(false);
+        toast.error('This invoice was changed by someone else. Check their changes before deleting it');
+      } else {
+        toast.error(error instanceof Error ? error.message : 'Failed to delete invoice');
+      }
     } finally {
       setDeleting(false);
     }
@@ -139,8 +173,8 @@ export default function InvoiceViewerPage() {
     }
     
     // Recalculate total for the line item
-    if (field === 'unitPrice' || field === 'quantity') {
-      currentItem.total = currentItem.unitPrice * currentItem.quantity;
+    if (field === 'unitPrice' || field === 'quantity' || field === 'discount') {
+      currentItem.total = getLineNet(currentItem);
     }
     
     setInvoice({
@@ -155,6 +189,8 @@ export default function InvoiceViewerPage() {
   const addLineItem = () => {
     if (!invoice) return;
     const newLineItem: ILineItem = {
+      id: newLineItemId(),
+      position: invoice.invoice.lineItems.length + 1,
       description: '',
       unitPrice: 0,
       quantity: 1,
@@ -181,16 +217,6 @@ export default function InvoiceViewerPage() {
     });
   };
 
-  const calculateSubtotal = () => {
-    if (!invoice) return 0;
-    return invoice.invoice.lineItems.reduce((sum, item) => sum + item.total, 0);
-  };
-
-  const calculateTax = (subtotal: number) => {
-    if (!invoice?.invoice.taxPercent) return 0;
-    return (subtotal * invoice.invoice.taxPercent) / 100;
-  };
-
   const formatCurrency = (amount: number, currency = 'USD') => {
     return new Intl.NumberFormat('en-US', {
       style: 'currency',
@@ -231,9 +257,7 @@ export default function InvoiceViewerPage() {
     );
   }
 
-  const subtotal = calculateSubtotal();
-  const tax = calculateTax(subtotal);
-  const total = subtotal + tax;
+  const { subtotal, taxBreakdown, total } = calculateInvoiceTotals(invoice.invoice);
 
   return (
     <div className="max-w-4xl mx-auto space-y-6">
@@ -306,237 +330,295 @@ export default function InvoiceViewerPage() {
         </div>
       </div>
 
-      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
-        {/* Vendor Information */}
-        <Card>
-          <CardHeader>
-            <CardTitle className="flex items-center">
-              <Building2 className="h-5 w-5 mr-2" />
-              Vendor Information
-            </CardTitle>
-          </CardHeader>
-          <CardContent className="space-y-4">
-            <div>
-              <Label htmlFor="vendor-name">Vendor Name</Label>
-              <Input
-                id="vendor-name"
-                value={invoice.vendor.name}
-                onChange={(e) => updateVendor('name', e.target.value)}
-                disabled={!isEditing}
-              />
-            </div>
-            <div>
-              <Label htmlFor="vendor-address">Address</Label>
-              <Input
-                id="vendor-address"
-                value={invoice.vendor.address || ''}
-                onChange={(e) => updateVendor('address', e.target.value)}
-                disabled={!isEditing}
-                placeholder="Vendor address"
-              />
-            </div>
-            <div>
-              <Label htmlFor="vendor-tax-id">Tax ID</Label>
-              <Input
-                id="vendor-tax-id"
-                value={invoice.vendor.taxId || ''}
-                onChange={(e) => updateVendor('taxId', e.target.value)}
-                disabled={!isEditing}
-                placeholder="Tax ID"
-              />
-            </div>
-          </CardContent>
-        </Card>
-
-        {/* Invoice Details */}
-        <Card>
-          <CardHeader>
-            <CardTitle className="flex items-center">
-              <Receipt className="h-5 w-5 mr-2" />
-              Invoice Details
-            </CardTitle>
-          </CardHeader>
-          <CardContent className="space-y-4">
-            <div className="grid grid-cols-2 gap-4">
-              <div>
-                <Label htmlFor="invoice-number">Invoice Number</Label>
-                <Input
-                  id="invoice-number"
-                  value={invoice.invoice.number}
-                  onChange={(e) => updateInvoiceData('number', e.target.value)}
-                  disabled={!isEditing}
-                />
-              </div>
-              <div>
-                <Label htmlFor="invoice-date">Date</Label>
-                <Input
-                  id="invoice-date"
-                  type="date"
-                  value={invoice.invoice.date}
-                  onChange={(e) => updateInvoiceData('date', e.target.value)}
-                  disabled={!isEditing}
-                />
-              </div>
-            </div>
-            
-            <div className="grid grid-cols-2 gap-4">
-              <div>
-                <Label htmlFor="po-number">PO Number</Label>
-                <Input
-                  id="po-number"
-                  value={invoice.invoice.poNumber || ''}
-                  onChange={(e) => updateInvoiceData('poNumber', e.target.value)}
-                  disabled={!isEditing}
-                  placeholder="Purchase order number"
-                />
-              </div>
-              <div>
-                <Label htmlFor="po-date">PO Date</Label>
-                <Input
-                  id="po-date"
-                  type="date"
-                  value={invoice.invoice.poDate || ''}
-                  onChange={(e) => updateInvoiceData('poDate', e.target.value)}
-                  disabled={!isEditing}
-                />
-              </div>
-            </div>
+      <DuplicateBanner duplicates={invoice.duplicates} />
+      <InvoiceConflictDialog conflict={conflict} onResolve={handleResolveConflict} />
 
-            <div className="grid grid-cols-2 gap-4">
-              <div>
-                <Label htmlFor="currency">Currency</Label>
-                <Input
-                  id="currency"
-                  value={invoice.invoice.currency || 'USD'}
-                  onChange={(e) => updateInvoiceData('currency', e.target.value)}
-                  disabled={!isEditing}
-                  placeholder="USD"
-                />
-              </div>
-              <div>
-                <Label htmlFor="tax-percent">Tax Percentage</Label>
-                <Input
-                  id="tax-percent"
-                  type="number"
-                  value={invoice.invoice.taxPercent || 0}
-                  onChange={(e) => updateInvoiceData('taxPercent', parseFloat(e.target.value) || 0)}
-                  disabled={!isEditing}
-                  placeholder="0.00"
-                  min="0"
-                  max="100"
-                  step="0.01"
-                />
-              </div>
-            </div>
-          </CardContent>
-        </Card>
+      <div className="flex border-b">
+        {(['details', 'history'] as const).map(tab => (
+          <button
+            key={tab}
+            type="button"
+            onClick={() => setActiveTab(tab)}
+            className={`px-4 py-2 text-sm font-medium border-b-2 -mb-px ${
+              activeTab === tab ? 'border-primary text-primary' : 'border-transparent text-muted-foreground hover:text-foreground'
+            }`}
+          >
+            {tab === 'details' ? 'Details' : 'History'}
+          </button>
+        ))}
       </div>
 
-      {/* Line Items */}
-      <Card>
-        <CardHeader>
-          <CardTitle className="flex items-center justify-between">
-            <div className="flex items-center">
-              <DollarSign className="h-5 w-5 mr-2" />
-              Line Items
-            </div>
-            {isEditing && (
-              <Button onClick={addLineItem} size="sm">
-                <Plus className="h-4 w-4 mr-2" />
-                Add Item
-              </Button>
-            )}
-          </CardTitle>
-        </CardHeader>
-        <CardContent>
-          <div className="space-y-4">
-            {invoice.invoice.lineItems.map((item, index) => (
-              <div key={index} className="grid grid-cols-12 gap-4 items-end p-4 border rounded-lg">
-                <div className="col-span-12 md:col-span-5">
-                  <Label htmlFor={`item-desc-${index}`}>Description</Label>
+      {activeTab === 'details' ? (
+        <>
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            {/* Vendor Information */}
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center">
+                  <Building2 className="h-5 w-5 mr-2" />
+                  Vendor Information
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div>
+                  <Label htmlFor="vendor-name">Vendor Name</Label>
                   <Input
-                    id={`item-desc-${index}`}
-                    value={item.description}
-                    onChange={(e) => updateLineItem(index, 'description', e.target.value)}
+                    id="vendor-name"
+                    value={invoice.vendor.name}
+                    onChange={(e) => updateVendor('name', e.target.value)}
                     disabled={!isEditing}
-                    placeholder="Item description"
                   />
                 </div>
-                <div className="col-span-4 md:col-span-2">
-                  <Label htmlFor={`item-price-${index}`}>Unit Price</Label>
+                <div>
+                  <Label htmlFor="vendor-address">Address</Label>
                   <Input
-                    id={`item-price-${index}`}
-                    type="number"
-                    value={item.unitPrice}
-                    onChange={(e) => updateLineItem(index, 'unitPrice', parseFloat(e.target.value) || 0)}
+                    id="vendor-address"
+                    value={invoice.vendor.address || ''}
+                    onChange={(e) => updateVendor('address', e.target.value)}
                     disabled={!isEditing}
-                    placeholder="0.00"
-                    min="0"
-                    step="0.01"
+                    placeholder="Vendor address"
                   />
                 </div>
-                <div className="col-span-4 md:col-span-2">
-                  <Label htmlFor={`item-qty-${index}`}>Quantity</Label>
+                <div>
+                  <Label htmlFor="vendor-tax-id">Tax ID</Label>
                   <Input
-                    id={`item-qty-${index}`}
-                    type="number"
-                    value={item.quantity}
-                    onChange={(e) => updateLineItem(index, 'quantity', parseFloat(e.target.value) || 0)}
+                    id="vendor-tax-id"
+                    value={invoice.vendor.taxId || ''}
+                    onChange={(e) => updateVendor('taxId', e.target.value)}
                     disabled={!isEditing}
-                    placeholder="0"
-                    min="0"
-                    step="0.01"
+                    placeholder="Tax ID"
                   />
                 </div>
-                <div className="col-span-3 md:col-span-2">
-                  <Label>Total</Label>
-                  <div className="h-10 px-3 py-2 border rounded-md bg-muted flex items-center">
-                    {formatCurrency(item.total, invoice.invoice.currency)}
+              </CardContent>
+            </Card>
+
+            {/* Invoice Details */}
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center">
+                  <Receipt className="h-5 w-5 mr-2" />
+                  Invoice Details
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <Label htmlFor="invoice-number">Invoice Number</Label>
+                    <Input
+                      id="invoice-number"
+                      value={invoice.invoice.number}
+                      onChange={(e) => updateInvoiceData('number', e.target.value)}
+                      disabled={!isEditing}
+                    />
+                  </div>
+                  <div>
+                    <Label htmlFor="invoice-date">Date</Label>
+                    <Input
+                      id="invoice-date"
+                      type="date"
+                      value={invoice.invoice.date}
+                      onChange={(e) => updateInvoiceData('date', e.target.value)}
+                      disabled={!isEditing}
+                    />
                   </div>
                 </div>
-                {isEditing && (
-                  <div className="col-span-1">
-                    <Button
-                      variant="outline"
-                      size="sm"
-                      onClick={() => removeLineItem(index)}
-                      className="text-red-600 hover:text-red-700"
-                    >
-                      <Minus className="h-4 w-4" />
-                    </Button>
+                
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <Label htmlFor="po-number">PO Number</Label>
+                    <Input
+                      id="po-number"
+                      value={invoice.invoice.poNumber || ''}
+                      onChange={(e) => updateInvoiceData('poNumber', e.target.value)}
+                      disabled={!isEditing}
+                      placeholder="Purchase order number"
+                    />
                   </div>
-                )}
-              </div>
-            ))}
+                  <div>
+                    <Label htmlFor="po-date">PO Date</Label>
+                    <Input
+                      id="po-date"
+                      type="date"
+                      value={invoice.invoice.poDate || ''}
+                      onChange={(e) => updateInvoiceData('poDate', e.target.value)}
+                      disabled={!isEditing}
+                    />
+                  </div>
+                </div>
+
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <Label htmlFor="currency">Currency</Label>
+                    <Input
+                      id="currency"
+                      value={invoice.invoice.currency || 'USD'}
+                      onChange={(e) => updateInvoiceData('currency', e.target.value)}
+                      disabled={!isEditing}
+                      placeholder="USD"
+                    />
+                  </div>
+                  <div>
+                    <Label htmlFor="tax-percent">Tax Percentage</Label>
+                    <Input
+                      id="tax-percent"
+                      type="number"
+                      value={invoice.invoice.taxPercent || 0}
+                      onChange={(e) => updateInvoiceData('taxPercent', parseFloat(e.target.value) || 0)}
+                      disabled={!isEditing}
+                      placeholder="0.00"
+                      min="0"
+                      max="100"
+                      step="0.01"
+                    />
+                  </div>
+                </div>
+              </CardContent>
+            </Card>
           </div>
 
-          {/* Totals */}
-          <div className="mt-6 border-t pt-6">
-            <div className="flex justify-end">
-              <div className="w-full max-w-sm space-y-2">
-                <div className="flex justify-between">
-                  <span>Subtotal:</span>
-                  <span className="font-medium">
-                    {formatCurrency(subtotal, invoice.invoice.currency)}
-                  </span>
+          {/* Line Items */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center justify-between">
+                <div className="flex items-center">
+                  <DollarSign className="h-5 w-5 mr-2" />
+                  Line Items
                 </div>
-                {invoice.invoice.taxPercent && invoice.invoice.taxPercent > 0 && (
-                  <div className="flex justify-between">
-                    <span>Tax ({invoice.invoice.taxPercent}%):</span>
-                    <span className="font-medium">
-                      {formatCurrency(tax, invoice.invoice.currency)}
-                    </span>
-                  </div>
+                {isEditing && (
+                  <Button onClick={addLineItem} size="sm">
+                    <Plus className="h-4 w-4 mr-2" />
+                    Add Item
+                  </Button>
                 )}
-                <div className="flex justify-between text-lg font-semibold border-t pt-2">
-                  <span>Total:</span>
-                  <span>{formatCurrency(total, invoice.invoice.currency)}</span>
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="space-y-4">
+                {invoice.invoice.lineItems.map((item, index) => (
+                  <div key={item.id ?? index} className="grid grid-cols-12 gap-4 items-end p-4 border rounded-lg">
+                    <div className="col-span-12 md:col-span-4">
+                      <Label htmlFor={`item-desc-${index}`}>Description</Label>
+                      <Input
+                        id={`item-desc-${index}`}
+                        value={item.description}
+                        onChange={(e) => updateLineItem(index, 'description', e.target.value)}
+                        disabled={!isEditing}
+                        placeholder="Item description"
+                      />
+                    </div>
+                    <div className="col-span-4 md:col-span-2">
+                      <Label htmlFor={`item-price-${index}`}>Unit Price</Label>
+                      <Input
+                        id={`item-price-${index}`}
+                        type="number"
+                        value={item.unitPrice}
+                        onChange={(e) => updateLineItem(index, 'unitPrice', parseFloat(e.target.value) || 0)}
+                        disabled={!isEditing}
+                        placeholder="0.00"
+                        min="0"
+                        step="0.01"
+                      />
+                    </div>
+                    <div className="col-span-4 md:col-span-2">
+                      <Label htmlFor={`item-qty-${index}`}>Quantity</Label>
+                      <Input
+                        id={`item-qty-${index}`}
+                        type="number"
+                        value={item.quantity}
+                        onChange={(e) => updateLineItem(index, 'quantity', parseFloat(e.target.value) || 0)}
+                        disabled={!isEditing}
+                        placeholder="0"
+                        min="0"
+                        step="0.01"
+                      />
+                    </div>
+                    <div className="col-span-4 md:col-span-1">
+                      <Label htmlFor={`item-tax-${index}`}>Tax %</Label>
+                      <Input
+                        id={`item-tax-${index}`}
+                        type="number"
+                        value={item.taxPercent ?? ''}
+                        onChange={(e) => updateLineItem(index, 'taxPercent', e.target.value)}
+                        disabled={!isEditing}
+                        placeholder={String(invoice.invoice.taxPercent ?? 0)}
+                        min="0"
+                        step="0.1"
+                      />
+                    </div>
+                    <div className="col-span-3 md:col-span-2">
+                      <Label>Total</Label>
+                      <div className="h-10 px-3 py-2 border rounded-md bg-muted flex items-center">
+                        {formatCurrency(item.total, invoice.invoice.currency)}
+                      </div>
+                    </div>
+                    {isEditing && (
+                      <div className="col-span-1">
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => removeLineItem(index)}
+                          className="text-red-600 hover:text-red-700"
+                        >
+                          <Minus className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    )}
+                  </div>
+                ))}
+              </div>
+
+              {/* Totals */}
+              <div className="mt-6 border-t pt-6">
+                <div className="flex justify-end">
+                  <div className="w-full max-w-sm space-y-2">
+                    <div className="flex justify-between">
+                      <span>Subtotal:</span>
+                      <span className="font-medium">
+                        {formatCurrency(subtotal, invoice.invoice.currency)}
+                      </span>
+                    </div>
+                    {(invoice.invoice.charges || []).map((charge, index) => (
+                      <div key={index} className="flex justify-between">
+                        <span>{charge.description || CHARGE_TYPE_LABELS[charge.type]}:</span>
+                        <span className="font-medium">
+                          {formatCurrency(charge.amount, invoice.invoice.currency)}
+                        </span>
+                      </div>
+                    ))}
+                    {taxBreakdown.filter(entry => entry.taxPercent > 0).map(entry => (
+                      <div key={entry.taxPercent} className="flex justify-between">
+                        <span>Tax ({entry.taxPercent}%):</span>
+                        <span className="font-medium">
+                          {formatCurrency(entry.taxAmount, invoice.invoice.currency)}
+                        </span>
+                      </div>
+                    ))}
+                    <div className="flex justify-between text-lg font-semibold border-t pt-2">
+                      <span>Total:</span>
+                      <span>{formatCurrency(total, invoice.invoice.currency)}</span>
+                    </div>
+                  </div>
                 </div>
               </div>
-            </div>
-          </div>
-        </CardContent>
-      </Card>
+            </CardContent>
+          </Card>
+        </>
+      ) : (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center space-x-2">
+              <History className="h-5 w-5" />
+              <span>Change History</span>
+            </CardTitle>
+            <CardDescription>
+              Every extraction, import and edit of this invoice
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <RevisionHistory invoice={invoice} onRestore={setInvoice} />
+          </CardContent>
+        </Card>
+      )}
     </div>
   );
 }
@@ -0,0 +1,122 @@
+import Link from "next/link";
+import { AlertCircle, CheckCircle2, Clock, FileArchive, FileText, Loader2 } from "lucide-react";
+import { Badge } from "./ui/badge";
+import type { ExtractionJobStatus, IBatchUploadResult } from "../lib/types";
+import type { BatchItemStatus, IBatchItem } from "../lib/use-batch-upload";
+import { isZipFile } from "../lib/e-invoice";
+
+const STATUS_ICONS: Record<BatchItemStatus, React.ReactNode> = {
+  waiting: <Clock className="h-4 w-4 text-muted-foreground" />,
+  uploading: <Loader2 className="h-4 w-4 animate-spin text-blue-600" />,
+  processing: <Loader2 className="h-4 w-4 animate-spin text-blue-600" />,
+  done: <CheckCircle2 className="h-4 w-4 text-green-600" />,
+  failed: <AlertCircle className="h-4 w-4 text-red-600" />
+};
+
+const STATUS_LABELS: Record<BatchItemStatus, string> = {
+  waiting: 'Waiting',
+  uploading: 'Uploading...',
+  processing: 'Importing...',
+  done: 'Imported',
+  failed: 'Failed'
+};
+
+const EXTRACTION_LABELS: Record<ExtractionJobStatus, string> = {
+  queued: 'Extraction queued',
+  processing: 'Extracting...',
+  completed: 'Extracted',
+  failed: 'Extraction failed'
+};
+
+// Invoices created and files that could not be imported, over everything imported so far
+export const getBatchSummary = (items: IBatchItem[]) => {
+  const results = items.flatMap(item => item.results || []);
+  const created = results.filter(result => result.status === 'created').length;
+  return {
+    imported: items.filter(item => item.status === 'done' || item.status === 'failed').length,
+    created,
+    queued: results.filter(result => result.jobId).length,
+    failed: results.length - created + items.filter(item => item.error).length
+  };
+};
+
+function BatchResult({ result }: { result: IBatchUploadResult }) {
+  return (
+    <li className="flex items-start gap-2">
+      {result.status === 'created'
+        ? <CheckCircle2 className="h-3.5 w-3.5 text-green-600 flex-shrink-0 mt-0.5" />
+        : <AlertCircle className="h-3.5 w-3.5 text-red-600 flex-shrink-0 mt-0.5" />}
+      <div className="min-w-0">
+        <div className="flex flex-wrap items-center gap-1">
+          {result.invoiceId ? (
+            <Link href={`/invoice-viewer/${result.invoiceId}`} className="break-all hover:underline">
+              {result.fileName}
+            </Link>
+          ) : (
+            <span className="break-all">{result.fileName}</span>
+          )}
+          {result.format && <Badge variant="outline">{result.format.toUpperCase()}</Badge>}
+          {result.jobId && (
+            <Badge variant={result.extractionStatus === 'failed' ? 'destructive' : 'secondary'}>
+              {EXTRACTION_LABELS[result.extractionStatus || 'queued']}
+            </Badge>
+          )}
+          {result.duplicates && <Badge variant="outline" className="border-amber-300 text-amber-700">Possible duplicate</Badge>}
+        </div>
+        {result.error && (
+          <p className="text-xs text-red-600">
+            {result.error}{result.details?.length ? `: ${result.details.join('; ')}` : ''}
+          </p>
+        )}
+      </div>
+    </li>
+  );
+}
+
+// Progress of a batch upload, with the outcome for every file once it is imported
+export function BatchUploadList({ items }: { items: IBatchItem[] }) {
+  const { imported, created, queued, failed } = getBatchSummary(items);
+
+  return (
+    <div className="space-y-3">
+      <div className="flex justify-between text-sm">
+        <span className="font-medium">{imported} of {items.length} files imported</span>
+        <span className="text-muted-foreground">
+          {created} {created === 1 ? 'invoice' : 'invoices'} created
+          {queued > 0 && `, ${queued} queued for extraction`}
+          {failed > 0 && `, ${failed} failed`}
+        </span>
+      </div>
+      <div className="h-2 rounded-full bg-muted overflow-hidden">
+        <div
+          className="h-full bg-primary transition-all"
+          style={{ width: `${items.length ? (imported / items.length) * 100 : 0}%` }}
+        />
+      </div>
+
+      <ul className="divide-y border rounded-lg max-h-[28rem] overflow-auto">
+        {items.map((item, index) => {
+          const FileIcon = isZipFile(item.file) ? FileArchive : FileText;
+          return (
+            <li key={index} className="p-3 space-y-2">
+              <div className="flex items-center gap-2 text-sm">
+                {STATUS_ICONS[item.status]}
+                <FileIcon className="h-4 w-4 text-muted-foreground flex-shrink-0" />
+                <span className="font-medium truncate flex-1">{item.file.name}</span>
+                <span className="text-xs text-muted-foreground">{STATUS_LABELS[item.status]}</span>
+              </div>
+              {item.error && <p className="text-xs text-red-600 pl-6">{item.error}</p>}
+              {item.results && (
+                <ul className="pl-6 space-y-1 text-xs">
+                  {item.results.map((result, resultIndex) => (
+                    <BatchResult key={resultIndex} result={result} />
+                  ))}
+                </ul>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+}
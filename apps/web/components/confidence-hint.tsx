@@ -0,0 +1,17 @@
+import { AlertTriangle } from "lucide-react";
+import type { IFieldProvenance } from "../lib/types";
+import { describeProvenance, isLowConfidence } from "../lib/extraction";
+
+// Shown under a form field whose extracted value needs a closer look
+export function ConfidenceHint({ provenance }: { provenance?: IFieldProvenance }) {
+  if (!provenance || !isLowConfidence(provenance)) {
+    return null;
+  }
+
+  return (
+    <p className="mt-1 flex items-start gap-1 text-xs text-amber-700" title={provenance.source}>
+      <AlertTriangle className="h-3 w-3 mt-0.5 flex-shrink-0" />
+      <span className="line-clamp-2">{describeProvenance(provenance)}</span>
+    </p>
+  );
+}
@@ -0,0 +1,180 @@
+import { useState } from "react";
+import { Button } from "./ui/button";
+import { Input } from "./ui/input";
+import { Label } from "./ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "./ui/select";
+import type { ISearchFilters } from "../lib/types";
+
+type PoFilter = 'any' | 'with' | 'without';
+
+// Form inputs hold strings; empty means "no filter"
+interface IFilterForm {
+  dateFrom: string;
+  dateTo: string;
+  createdFrom: string;
+  createdTo: string;
+  totalMin: string;
+  totalMax: string;
+  currency: string;
+  vendor: string;
+  po: PoFilter;
+}
+
+const toForm = (filters: ISearchFilters): IFilterForm => ({
+  dateFrom: filters.dateFrom || '',
+  dateTo: filters.dateTo || '',
+  createdFrom: filters.createdFrom || '',
+  createdTo: filters.createdTo || '',
+  totalMin: filters.totalMin?.toString() || '',
+  totalMax: filters.totalMax?.toString() || '',
+  currency: filters.currency?.join(', ') || '',
+  vendor: filters.vendor || '',
+  po: filters.hasPoNumber === undefined ? 'any' : filters.hasPoNumber ? 'with' : 'without'
+});
+
+const toAmount = (value: string): number | undefined => {
+  const amount = parseFloat(value);
+  return value.trim() && !isNaN(amount) ? amount : undefined;
+};
+
+const toFilters = (form: IFilterForm): ISearchFilters => {
+  const currency = form.currency
+    .split(/[\s,]+/)
+    .map(code => code.trim().toUpperCase())
+    .filter(Boolean);
+
+  return {
+    dateFrom: form.dateFrom || undefined,
+    dateTo: form.dateTo || undefined,
+    createdFrom: form.createdFrom || undefined,
+    createdTo: form.createdTo || undefined,
+    totalMin: toAmount(form.totalMin),
+    totalMax: toAmount(form.totalMax),
+    currency: currency.length ? currency : undefined,
+    vendor: form.vendor.trim() || undefined,
+    hasPoNumber: form.po === 'any' ? undefined : form.po === 'with'
+  };
+};
+
+// Number of filters set, for the badge on the filter toggle
+export function countActiveFilters(filters: ISearchFilters): number {
+  return Object.values(filters).filter(value => value !== undefined).length;
+}
+
+interface InvoiceFiltersProps {
+  filters: ISearchFilters;
+  onApply: (filters: ISearchFilters) => void;
+  // Vendor names to suggest; the vendor filter matches the name exactly
+  vendorSuggestions?: string[];
+  disabled?: boolean;
+}
+
+export function InvoiceFilters({ filters, onApply, vendorSuggestions = [], disabled }: InvoiceFiltersProps) {
+  const [form, setForm] = useState<IFilterForm>(() => toForm(filters));
+
+  const update = (field: keyof IFilterForm, value: string) => {
+    setForm(prev => ({ ...prev, [field]: value }));
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    onApply(toFilters(form));
+  };
+
+  const handleClear = () => {
+    setForm(toForm({}));
+    onApply({});
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="rounded-lg border border-gray-200 bg-gray-50 p-4 mb-6">
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
+        <div className="space-y-2">
+          <Label>Invoice date</Label>
+          <div className="flex items-center space-x-2">
+            <Input type="date" value={form.dateFrom} onChange={(e) => update('dateFrom', e.target.value)} aria-label="Invoice date from" />
+            <span className="text-gray-400">–</span>
+            <Input type="date" value={form.dateTo} onChange={(e) => update('dateTo', e.target.value)} aria-label="Invoice date to" />
+          </div>
+        </div>
+        <div className="space-y-2">
+          <Label>Created</Label>
+          <div className="flex items-center space-x-2">
+            <Input type="date" value={form.createdFrom} onChange={(e) => update('createdFrom', e.target.value)} aria-label="Created from" />
+            <span className="text-gray-400">–</span>
+            <Input type="date" value={form.createdTo} onChange={(e) => update('createdTo', e.target.value)} aria-label="Created to" />
+          </div>
+        </div>
+        <div className="space-y-2">
+          <Label>Total</Label>
+          <div className="flex items-center space-x-2">
+            <Input
+              type="number"
+              min="0"
+              step="0.01"
+              placeholder="Min"
+              value={form.totalMin}
+              onChange={(e) => update('totalMin', e.target.value)}
+              aria-label="Minimum total"
+            />
+            <span className="text-gray-400">–</span>
+            <Input
+              type="number"
+              min="0"
+              step="0.01"
+              placeholder="Max"
+              value={form.totalMax}
+              onChange={(e) => update('totalMax', e.target.value)}
+              aria-label="Maximum total"
+            />
+          </div>
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="filter-currency">Currency</Label>
+          <Input
+            id="filter-currency"
+            placeholder="e.g. EUR, USD"
+            value={form.currency}
+            onChange={(e) => update('currency', e.target.value)}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="filter-vendor">Vendor</Label>
+          <Input
+            id="filter-vendor"
+            list="filter-vendor-suggestions"
+            placeholder="Exact vendor name"
+            value={form.vendor}
+            onChange={(e) => update('vendor', e.target.value)}
+          />
+          <datalist id="filter-vendor-suggestions">
+            {vendorSuggestions.map(name => (
+              <option key={name} value={name} />
+            ))}
+          </datalist>
+        </div>
+        <div className="space-y-2">
+          <Label>PO number</Label>
+          <Select value={form.po} onValueChange={(value) => update('po', value)}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="any">Any</SelectItem>
+              <SelectItem value="with">With PO number</SelectItem>
+              <SelectItem value="without">Without PO number</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+      <div className="flex justify-end space-x-2 mt-4">
+        <Button type="button" variant="outline" size="sm" onClick={handleClear} disabled={disabled}>
+          Clear filters
+        </Button>
+        <Button type="submit" size="sm" disabled={disabled}>
+          Apply filters
+        </Button>
+      </div>
+    </form>
+  );
+}
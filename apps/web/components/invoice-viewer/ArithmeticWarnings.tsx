@@ -0,0 +1,33 @@
+"use client";
+
+import { Calculator } from "lucide-react";
+import type { IValidationWarning } from "@/lib/types";
+
+// Warnings about one line item, by its position in invoice.lineItems
+export function getLineItemWarnings(warnings: IValidationWarning[] | undefined, index: number): IValidationWarning[] {
+  return warnings?.filter(warning => warning.path.startsWith(`invoice.lineItems.${index}.`)) ?? [];
+}
+
+// Lists the amounts on the invoice that do not add up
+export function ArithmeticWarnings({ warnings }: { warnings?: IValidationWarning[] }) {
+  if (!warnings || warnings.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="bg-amber-50 border border-amber-200 rounded-md p-3 text-sm text-amber-900">
+      <div className="flex items-center gap-2 font-medium">
+        <Calculator className="h-4 w-4 flex-shrink-0" />
+        {warnings.length === 1 ? "1 amount does not add up" : `${warnings.length} amounts do not add up`}
+      </div>
+      <ul className="mt-2 space-y-1 list-disc list-inside">
+        {warnings.map(warning => (
+          <li key={`${warning.code}:${warning.path}`}>
+            {warning.message}
+            <span className="text-amber-700"> (off by {Math.abs(warning.difference).toFixed(2)})</span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,39 @@
+"use client";
+
+import Link from "next/link";
+import { Copy } from "lucide-react";
+import type { IDuplicateMatch } from "@/lib/types";
+import { STATUS_LABELS } from "@/lib/invoice-status";
+
+const REASON_LABELS: Record<IDuplicateMatch['matchedOn'][number], string> = {
+  content: 'same file',
+  fingerprint: 'same vendor, number, total and date'
+};
+
+// Warns that the invoice may have been received before, linking to the earlier copies
+export function DuplicateBanner({ duplicates }: { duplicates?: IDuplicateMatch[] }) {
+  if (!duplicates || duplicates.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="bg-amber-50 border border-amber-200 rounded-md p-3 text-sm text-amber-900">
+      <div className="flex items-center gap-2 font-medium">
+        <Copy className="h-4 w-4 flex-shrink-0" />
+        Possible duplicate
+      </div>
+      <ul className="mt-2 space-y-1">
+        {duplicates.map(duplicate => (
+          <li key={duplicate.invoiceId}>
+            <Link href={`/invoice-viewer/${duplicate.invoiceId}`} className="underline hover:text-amber-700">
+              {duplicate.vendorName} · {duplicate.invoiceNumber}
+            </Link>
+            <span className="text-amber-700">
+              {' '}({STATUS_LABELS[duplicate.status]}, {duplicate.matchedOn.map(reason => REASON_LABELS[reason]).join(' and ')})
+            </span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,228 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { fetchEInvoice, getFileDownloadUrl } from "@/lib/api";
+import { IEInvoiceDocument, IVendor } from "@/lib/types";
+import { CHARGE_TYPE_LABELS } from "@/lib/invoice-totals";
+import { Download, FileCode } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+
+const FORMAT_LABELS: Record<IEInvoiceDocument['format'], string> = {
+  ubl: 'UBL 2.1',
+  cii: 'UN/CEFACT CII'
+};
+
+// Name the specification behind a customization / guideline ID
+const describeSpecification = (specification?: string): string | undefined => {
+  if (!specification) return undefined;
+  if (specification.includes('xrechnung')) return 'XRechnung';
+  if (specification.includes('peppol')) return 'Peppol BIS Billing 3.0';
+  if (specification.includes('factur-x') || specification.includes('zugferd')) return 'ZUGFeRD / Factur-X';
+  if (specification.includes('en16931')) return 'EN 16931';
+  return undefined;
+};
+
+const formatAmount = (amount: number | undefined, currency = 'USD') => {
+  if (amount === undefined) return '—';
+  try {
+    return new Intl.NumberFormat('en-US', { style: 'currency', currency }).format(amount);
+  } catch {
+    return `${amount.toFixed(2)} ${currency}`;
+  }
+};
+
+function Party({ title, party }: { title: string; party?: IVendor }) {
+  return (
+    <div>
+      <p className="text-xs font-medium uppercase tracking-wider text-gray-500 mb-1">{title}</p>
+      {party ? (
+        <>
+          <p className="font-medium text-gray-900">{party.name}</p>
+          {party.address && <p className="text-sm text-gray-600">{party.address}</p>}
+          {party.taxId && <p className="text-sm text-gray-600">Tax ID: {party.taxId}</p>}
+        </>
+      ) : (
+        <p className="text-sm text-gray-400">Not specified</p>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Human-readable rendering of an XML e-invoice, shown where a PDF preview would be
+ */
+export function EInvoicePreview({ fileId }: { fileId: string }) {
+  const [eInvoice, setEInvoice] = useState<IEInvoiceDocument | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!fileId) {
+      setError("No file ID provided");
+      setLoading(false);
+      return;
+    }
+
+    setLoading(true);
+    setError(null);
+    fetchEInvoice(fileId)
+      .then(setEInvoice)
+      .catch((err) => {
+        console.error("Failed to load e-invoice:", err);
+        setError(err instanceof Error ? err.message : "Failed to load e-invoice");
+      })
+      .finally(() => setLoading(false));
+  }, [fileId]);
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-full bg-gray-50">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600 mx-auto mb-2"></div>
+          <p className="text-sm text-gray-600">Loading e-invoice...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (error || !eInvoice) {
+    return (
+      <div className="flex items-center justify-center h-full bg-gray-50">
+        <div className="text-center">
+          <FileCode className="h-12 w-12 mx-auto mb-3 text-gray-300" />
+          <p className="text-sm text-gray-600">{error || "E-invoice not available"}</p>
+        </div>
+      </div>
+    );
+  }
+
+  const { invoice } = eInvoice;
+  const currency = invoice.currency || 'USD';
+  const specification = describeSpecification(eInvoice.specification);
+
+  return (
+    <div className="h-full overflow-auto bg-gray-50 p-4">
+      <div className="max-w-3xl mx-auto bg-white border border-gray-200 rounded shadow-lg p-8 space-y-6">
+        {/* Header */}
+        <div className="flex items-start justify-between">
+          <div>
+            <h2 className="text-2xl font-semibold text-gray-900">
+              {eInvoice.documentType === 'credit-note' ? 'Credit Note' : 'Invoice'} {invoice.number}
+            </h2>
+            <div className="flex items-center gap-2 mt-2">
+              <Badge variant="secondary" className="text-xs">{FORMAT_LABELS[eInvoice.format]}</Badge>
+              {specification && (
+                <Badge variant="secondary" className="text-xs" title={eInvoice.specification}>{specification}</Badge>
+              )}
+            </div>
+          </div>
+          <a href={getFileDownloadUrl(fileId)} target="_blank" rel="noopener noreferrer">
+            <Button variant="outline" size="sm">
+              <Download className="h-4 w-4 mr-1" />
+              XML
+            </Button>
+          </a>
+        </div>
+
+        {/* Parties */}
+        <div className="grid grid-cols-2 gap-6">
+          <Party title="Seller" party={eInvoice.vendor} />
+          <Party title="Buyer" party={eInvoice.buyer} />
+        </div>
+
+        {/* Dates and references */}
+        <dl className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
+          <div>
+            <dt className="text-gray-500">Issue date</dt>
+            <dd className="font-medium">{invoice.date || '—'}</dd>
+          </div>
+          <div>
+            <dt className="text-gray-500">Due date</dt>
+            <dd className="font-medium">{eInvoice.dueDate || '—'}</dd>
+          </div>
+          <div>
+            <dt className="text-gray-500">Order reference</dt>
+            <dd className="font-medium">{invoice.poNumber || '—'}</dd>
+          </div>
+          <div>
+            <dt className="text-gray-500">Currency</dt>
+            <dd className="font-medium">{currency}</dd>
+          </div>
+        </dl>
+
+        {/* Line items */}
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="border-b text-left text-gray-500">
+              <th className="py-2 pr-2 font-medium">Description</th>
+              <th className="py-2 px-2 font-medium text-right">Qty</th>
+              <th className="py-2 px-2 font-medium text-right">Unit price</th>
+              <th className="py-2 pl-2 font-medium text-right">Amount</th>
+            </tr>
+          </thead>
+          <tbody>
+            {invoice.lineItems.map((item, index) => (
+              <tr key={item.id ?? index} className="border-b last:border-0">
+                <td className="py-2 pr-2">
+                  {item.code && <span className="text-gray-500 mr-2">{item.code}</span>}
+                  {item.description}
+                </td>
+                <td className="py-2 px-2 text-right">{item.quantity}{item.unit && ` ${item.unit}`}</td>
+                <td className="py-2 px-2 text-right">{formatAmount(item.unitPrice, currency)}</td>
+                <td className="py-2 pl-2 text-right">{formatAmount(item.total, currency)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+
+        {/* Totals */}
+        <div className="flex justify-end">
+          <dl className="w-full max-w-xs space-y-1 text-sm">
+            <div className="flex justify-between">
+              <dt className="text-gray-500">Net amount</dt>
+              <dd>{formatAmount(invoice.subtotal, currency)}</dd>
+            </div>
+            {(invoice.charges || []).map((charge, index) => (
+              <div key={index} className="flex justify-between">
+                <dt className="text-gray-500">{charge.description || CHARGE_TYPE_LABELS[charge.type]}</dt>
+                <dd>{formatAmount(charge.amount, currency)}</dd>
+              </div>
+            ))}
+            {invoice.taxBreakdown && invoice.taxBreakdown.length > 1 ? (
+              invoice.taxBreakdown.map(entry => (
+                <div key={entry.taxPercent} className="flex justify-between">
+                  <dt className="text-gray-500">Tax ({entry.taxPercent}% on {formatAmount(entry.taxableAmount, currency)})</dt>
+                  <dd>{formatAmount(entry.taxAmount, currency)}</dd>
+                </div>
+              ))
+            ) : (
+              <div className="flex justify-between">
+                <dt className="text-gray-500">
+                  Tax{invoice.taxPercent !== undefined ? ` (${invoice.taxPercent}%)` : ''}
+                </dt>
+                <dd>{formatAmount(eInvoice.taxTotal, currency)}</dd>
+              </div>
+            )}
+            <div className="flex justify-between border-t pt-1 font-semibold">
+              <dt>Total</dt>
+              <dd>{formatAmount(invoice.total, currency)}</dd>
+            </div>
+          </dl>
+        </div>
+
+        {/* Payment terms and notes */}
+        {(eInvoice.paymentTerms || eInvoice.notes.length > 0) && (
+          <div className="border-t pt-4 space-y-2 text-sm text-gray-600">
+            {eInvoice.paymentTerms && (
+              <p className="whitespace-pre-line"><span className="font-medium text-gray-900">Payment terms:</span> {eInvoice.paymentTerms}</p>
+            )}
+            {eInvoice.notes.map((note, index) => (
+              <p key={index} className="whitespace-pre-line">{note}</p>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -3,30 +3,42 @@
 import { useState } from "react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
-import { Plus, Trash2, Check, X } from "lucide-react";
+import { Plus, Trash2, Check, X, AlertTriangle, GripVertical } from "lucide-react";
+import type { IValidationWarning } from "@/lib/types";
+import { getLineItemWarnings } from "./ArithmeticWarnings";
+import { getLineNet } from "@/lib/invoice-totals";
+import { moveLineItem, newLineItemId } from "@/lib/line-items";
 
 export interface LineItem {
   id: string;
+  position?: number;
   code: string;
   description: string;
   quantity: number;
+  unit?: string;
   unitPrice: number;
   discount: number;
-  vat: number;
-  total: number;
+  taxPercent?: number; // the invoice's rate applies when missing
+  total: number; // net, before tax
 }
 
 export function EditableLineItemsTable({
   lineItems,
   onLineItemsChange,
+  warnings,
 }: {
   lineItems: LineItem[];
   onLineItemsChange: (lineItems: LineItem[]) => void | Promise<void>;
+  // Arithmetic warnings of the invoice; rows show the ones about their line
+  warnings?: IValidationWarning[];
 }) {
   const [editingId, setEditingId] = useState<string | null>(null);
   const [editingField, setEditingField] = useState<string | null>(null);
   const [newItem, setNewItem] = useState<Partial<LineItem> | null>(null);
   const [isLoading, setIsLoading] = useState(false);
+  // Row being dragged to a new place, and the row it would take the place of
+  const [draggedId, setDraggedId] = useState<string | null>(null);
+  const [dropTargetId, setDropTargetId] = useState<string | null>(null);
 
   // Sample data if no line items provided
   const sampleLineItems: LineItem[] = lineItems.length > 0 ? lineItems : [
@@ -37,7 +49,7 @@ export function EditableLineItemsTable({
       quantity: 1,
       unitPrice: 300,
       discount: 8,
-      vat: 2,
+      taxPercent: 2,
       total: 2760.00
     },
     {
@@ -47,7 +59,7 @@ export function EditableLineItemsTable({
       quantity: 1,
       unitPrice: 300,
       discount: 8,
-      vat: 2,
+      taxPercent: 2,
       total: 2760.00
     },
     {
@@ -57,7 +69,7 @@ export function EditableLineItemsTable({
       quantity: 1,
       unitPrice: 300,
       discount: 8,
-      vat: 2,
+      taxPercent: 2,
       total: 2760.00
     },
     {
@@ -67,7 +79,7 @@ export function EditableLineItemsTable({
       quantity: 1,
       unitPrice: 300,
       discount: 8,
-      vat: 2,
+      taxPercent: 2,
       total: 2760.00
     },
     {
@@ -77,20 +89,19 @@ export function EditableLineItemsTable({
       quantity: 1, 
       unitPrice: 300,
       discount: 8,
-      vat: 2,
+      taxPercent: 2,
       total: 2760.00
     }
   ];
 
   const handleAddNew = () => {
     setNewItem({
-      id: Date.now().toString(),
+      id: newLineItemId(),
       code: "",
       description: "",
       quantity: 1,
       unitPrice: 0,
       discount: 0,
-      vat: 0,
       total: 0
     });
   };
@@ -100,14 +111,16 @@ export function EditableLineItemsTable({
       setIsLoading(true);
       try {
         const item: LineItem = {
-          id: newItem.id || Date.now().toString(),
+          id: newItem.id || newLineItemId(),
+          position: sampleLineItems.length + 1,
           code: newItem.code || "",
           description: newItem.description,
           quantity: newItem.quantity || 1,
+          unit: newItem.unit || undefined,
           unitPrice: newItem.unitPrice,
           discount: newItem.discount || 0,
-          vat: newItem.vat || 0,
-          total: calculateTotal(newItem.quantity || 1, newItem.unitPrice, newItem.discount || 0, newItem.vat || 0)
+          taxPercent: newItem.taxPercent,
+          total: calculateTotal(newItem.quantity || 1, newItem.unitPrice, newItem.discount || 0)
         };
         await onLineItemsChange([...sampleLineItems, item]);
         setNewItem(null);
@@ -134,6 +147,26 @@ export function EditableLineItemsTable({
     }
   };
 
+  const handleDragEnd = () => {
+    setDraggedId(null);
+    setDropTargetId(null);
+  };
+
+  const handleDrop = async (targetId: string) => {
+    const id = draggedId;
+    handleDragEnd();
+    if (!id || id === targetId) return;
+
+    setIsLoading(true);
+    try {
+      await onLineItemsChange(moveLineItem(sampleLineItems, id, targetId));
+    } catch (error) {
+      console.error("Failed to reorder items:", error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
   const handleFieldChange = async (id: string, field: keyof LineItem, value: string | number) => {
     setIsLoading(true);
     try {
@@ -141,12 +174,11 @@ export function EditableLineItemsTable({
         if (item.id === id) {
           const updatedItem = { ...item, [field]: value };
           // Recalculate total if relevant fields change
-          if (['quantity', 'unitPrice', 'discount', 'vat'].includes(field)) {
+          if (['quantity', 'unitPrice', 'discount'].includes(field)) {
             updatedItem.total = calculateTotal(
               updatedItem.quantity,
               updatedItem.unitPrice,
-              updatedItem.discount,
-              updatedItem.vat
+              updatedItem.discount
             );
           }
           return updatedItem;
@@ -171,12 +203,12 @@ export function EditableLineItemsTable({
     setEditingField(null);
   };
 
-  const calculateTotal = (quantity: number, unitPrice: number, discount: number, vat: number) => {
-    const subtotal = quantity * unitPrice;
-    const discountAmount = subtotal * (discount / 100);
-    const afterDiscount = subtotal - discountAmount;
-    const vatAmount = afterDiscount * (vat / 100);
-    return afterDiscount + vatAmount;
+  // The sample rows are not the invoice's, so only real lines can be moved
+  const canReorder = lineItems.length > 1 && !isLoading;
+
+  // Line totals are net; tax is added per rate in the invoice totals
+  const calculateTotal = (quantity: number, unitPrice: number, discount: number) => {
+    return getLineNet({ quantity, unitPrice, discount });
   };
 
   return (
@@ -198,16 +230,45 @@ export function EditableLineItemsTable({
         <div>Qty</div>
         <div>Unit Price</div>
         <div>Discount</div>
-        <div>VAT</div>
+        <div>Tax %</div>
         <div>Total</div>
       </div>
 
-      {/* Existing Items */}
-      {sampleLineItems.map((item, index) => (
-        <div key={item.id} className="grid grid-cols-8 gap-2 text-xs bg-white border rounded p-2 items-center">
+      {/* Existing Items; rows are reordered by dragging their number */}
+      {sampleLineItems.map((item, index) => {
+        const rowWarnings = getLineItemWarnings(warnings, index);
+        const isDropTarget = dropTargetId === item.id && draggedId !== item.id;
+        return (
+        <div
+          key={item.id}
+          onDragOver={(e) => {
+            if (!draggedId) return;
+            e.preventDefault();
+            setDropTargetId(item.id);
+          }}
+          onDrop={(e) => {
+            e.preventDefault();
+            handleDrop(item.id);
+          }}
+          className={`grid grid-cols-8 gap-2 text-xs bg-white border rounded p-2 items-center ${
+            rowWarnings.length ? 'border-amber-300' : ''
+          } ${isDropTarget ? 'border-blue-400 bg-blue-50' : ''} ${draggedId === item.id ? 'opacity-50' : ''}`}
+        >
           <div className="flex items-center gap-1">
-            <span className="w-5 h-5 bg-blue-100 text-blue-800 rounded flex items-center justify-center text-[10px] font-medium">
-              {index + 1}
+            <span
+              draggable={canReorder}
+              onDragStart={(e) => {
+                e.dataTransfer.effectAllowed = 'move';
+                setDraggedId(item.id);
+              }}
+              onDragEnd={handleDragEnd}
+              className={`flex items-center text-gray-400 ${canReorder ? 'cursor-grab' : ''}`}
+              title={canReorder ? "Drag to reorder" : undefined}
+            >
+              {canReorder && <GripVertical className="h-3 w-3" />}
+              <span className="w-5 h-5 bg-blue-100 text-blue-800 rounded flex items-center justify-center text-[10px] font-medium">
+                {index + 1}
+              </span>
             </span>
             <EditableCell
               value={item.code}
@@ -229,15 +290,26 @@ export function EditableLineItemsTable({
               multiline
             />
           </div>
-          <EditableCell
-            value={item.quantity}
-            isEditing={editingId === item.id && editingField === 'quantity'}
-            onDoubleClick={() => handleDoubleClick(item.id, 'quantity')}
-            onChange={(value) => handleFieldChange(item.id, 'quantity', parseInt(value as string) || 1)}
-            onBlur={handleBlur}
-            type="number"
-            formatter={(val) => val.toString().padStart(2, '0')}
-          />
+          <div className="flex items-center gap-1">
+            <EditableCell
+              value={item.quantity}
+              isEditing={editingId === item.id && editingField === 'quantity'}
+              onDoubleClick={() => handleDoubleClick(item.id, 'quantity')}
+              onChange={(value) => handleFieldChange(item.id, 'quantity', parseInt(value as string) || 1)}
+              onBlur={handleBlur}
+              type="number"
+              formatter={(val) => val.toString().padStart(2, '0')}
+            />
+            <EditableCell
+              value={item.unit ?? ''}
+              isEditing={editingId === item.id && editingField === 'unit'}
+              onDoubleClick={() => handleDoubleClick(item.id, 'unit')}
+              onChange={(value) => handleFieldChange(item.id, 'unit', value)}
+              onBlur={handleBlur}
+              className="text-gray-500"
+              formatter={(val) => val === '' ? 'unit' : String(val)}
+            />
+          </div>
           <EditableCell
             value={item.unitPrice}
             isEditing={editingId === item.id && editingField === 'unitPrice'}
@@ -257,16 +329,16 @@ export function EditableLineItemsTable({
             formatter={(val) => `${val}%`}
           />
           <EditableCell
-            value={item.vat}
-            isEditing={editingId === item.id && editingField === 'vat'}
-            onDoubleClick={() => handleDoubleClick(item.id, 'vat')}
-            onChange={(value) => handleFieldChange(item.id, 'vat', parseFloat(value as string) || 0)}
+            value={item.taxPercent ?? ''}
+            isEditing={editingId === item.id && editingField === 'taxPercent'}
+            onDoubleClick={() => handleDoubleClick(item.id, 'taxPercent')}
+            onChange={(value) => handleFieldChange(item.id, 'taxPercent', parseFloat(value as string) || 0)}
             onBlur={handleBlur}
             type="number"
-            formatter={(val) => `${val}%`}
+            formatter={(val) => val === '' ? '—' : `${val}%`}
           />
           <div className="flex items-center justify-between">
-            <span className="font-medium">$ {item.total.toFixed(2)}</span>
+            <span className={`font-medium ${rowWarnings.length ? 'text-amber-700' : ''}`}>$ {item.total.toFixed(2)}</span>
             <Button
               variant="ghost"
               size="sm"
@@ -277,8 +349,15 @@ export function EditableLineItemsTable({
               <Trash2 className="h-3 w-3" />
             </Button>
           </div>
+          {rowWarnings.map(warning => (
+            <div key={warning.code} className="col-span-8 flex items-center gap-1 text-amber-700">
+              <AlertTriangle className="h-3 w-3 flex-shrink-0" />
+              {warning.message}
+            </div>
+          ))}
         </div>
-      ))}
+        );
+      })}
 
       {/* New Item Row */}
       {newItem && (
@@ -295,12 +374,20 @@ export function EditableLineItemsTable({
             onChange={(e) => setNewItem({ ...newItem, description: e.target.value })}
             className="col-span-2 text-xs h-8"
           />
-          <Input
-            type="number"
-            value={newItem.quantity || 1}
-            onChange={(e) => setNewItem({ ...newItem, quantity: parseInt(e.target.value) || 1 })}
-            className="text-xs h-8"
-          />
+          <div className="flex gap-1">
+            <Input
+              type="number"
+              value={newItem.quantity || 1}
+              onChange={(e) => setNewItem({ ...newItem, quantity: parseInt(e.target.value) || 1 })}
+              className="text-xs h-8"
+            />
+            <Input
+              placeholder="Unit"
+              value={newItem.unit || ""}
+              onChange={(e) => setNewItem({ ...newItem, unit: e.target.value })}
+              className="text-xs h-8 w-14"
+            />
+          </div>
           <Input
             type="number"
             value={newItem.unitPrice || 0}
@@ -315,8 +402,9 @@ export function EditableLineItemsTable({
           />
           <Input
             type="number"
-            value={newItem.vat || 0}
-            onChange={(e) => setNewItem({ ...newItem, vat: parseFloat(e.target.value) || 0 })}
+            placeholder="Tax %"
+            value={newItem.taxPercent ?? ""}
+            onChange={(e) => setNewItem({ ...newItem, taxPercent: e.target.value === "" ? undefined : parseFloat(e.target.value) || 0 })}
             className="text-xs h-8"
           />
           <div className="flex gap-1">
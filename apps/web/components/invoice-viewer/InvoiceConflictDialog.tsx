@@ -0,0 +1,133 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import { AlertTriangle } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  getDefaultChoice,
+  getMergeFields,
+  IInvoiceConflict,
+  IMergeField,
+  InvoiceEdits,
+  mergeInvoiceEdits,
+  MergeChoice
+} from "@/lib/invoice-merge";
+
+const formatValue = (value: unknown) => {
+  if (value === undefined) return '—';
+  if (Array.isArray(value)) return `${value.length} ${value.length === 1 ? 'entry' : 'entries'}`;
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+};
+
+function ChoiceCell({ value, selected, onSelect }: { value: unknown; selected: boolean; onSelect: () => void }) {
+  return (
+    <td className="p-1">
+      <button
+        type="button"
+        onClick={onSelect}
+        className={`w-full text-left rounded px-2 py-1 border break-all ${
+          selected ? 'border-blue-500 bg-blue-50' : 'border-transparent hover:bg-gray-50'
+        }`}
+      >
+        {formatValue(value)}
+      </button>
+    </td>
+  );
+}
+
+// Shown when a save was rejected because someone else changed the invoice in the meantime:
+// their changes next to mine, field by field, to keep either side or merge both
+export function InvoiceConflictDialog({
+  conflict,
+  onResolve
+}: {
+  conflict: IInvoiceConflict | null;
+  onResolve: (merged: InvoiceEdits | null) => void;
+}) {
+  const fields = useMemo(() => conflict ? getMergeFields(conflict) : [], [conflict]);
+  const [choices, setChoices] = useState<Record<string, MergeChoice>>({});
+
+  useEffect(() => {
+    setChoices({});
+  }, [conflict]);
+
+  if (!conflict) return null;
+
+  const choiceOf = (field: IMergeField) => choices[field.path] || getDefaultChoice(field);
+  const chooseAll = (choice: MergeChoice) => {
+    setChoices(Object.fromEntries(fields.map(field => [field.path, choice])));
+  };
+
+  return (
+    <div className="fixed inset-0 flex items-center justify-center bg-black bg-opacity-50 z-50">
+      <div className="bg-white rounded-lg p-6 w-full max-w-2xl max-h-[80vh] flex flex-col gap-4">
+        <div className="flex items-start gap-3">
+          <AlertTriangle className="h-5 w-5 text-amber-500 flex-shrink-0 mt-0.5" />
+          <div>
+            <h2 className="font-semibold">This invoice was changed by someone else</h2>
+            <p className="text-sm text-gray-500">
+              {conflict.theirs.updatedAt && `Their changes were saved ${new Date(conflict.theirs.updatedAt).toLocaleString()}. `}
+              Pick the value to keep for each field. Fields only one of you changed are preselected.
+            </p>
+          </div>
+        </div>
+
+        {fields.length ? (
+          <div className="overflow-auto border rounded-md">
+            <table className="w-full text-sm">
+              <thead className="bg-gray-50 text-left text-xs text-gray-500">
+                <tr>
+                  <th className="p-2 font-medium">Field</th>
+                  <th className="p-2 font-medium">
+                    Their version
+                    <button type="button" className="ml-2 text-blue-600 hover:underline" onClick={() => chooseAll('theirs')}>
+                      all
+                    </button>
+                  </th>
+                  <th className="p-2 font-medium">
+                    Your version
+                    <button type="button" className="ml-2 text-blue-600 hover:underline" onClick={() => chooseAll('mine')}>
+                      all
+                    </button>
+                  </th>
+                </tr>
+              </thead>
+              <tbody>
+                {fields.map(field => (
+                  <tr key={field.path} className="border-t align-top">
+                    <td className="p-2 font-mono text-xs text-gray-600">
+                      {field.path}
+                      {field.conflict && <Badge variant="destructive" className="ml-2">Both changed</Badge>}
+                    </td>
+                    <ChoiceCell
+                      value={field.theirs}
+                      selected={choiceOf(field) === 'theirs'}
+                      onSelect={() => setChoices(current => ({ ...current, [field.path]: 'theirs' }))}
+                    />
+                    <ChoiceCell
+                      value={field.mine}
+                      selected={choiceOf(field) === 'mine'}
+                      onSelect={() => setChoices(current => ({ ...current, [field.path]: 'mine' }))}
+                    />
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        ) : (
+          <p className="text-sm text-gray-600">Your changes match theirs, nothing needs to be merged.</p>
+        )}
+
+        <div className="flex justify-end gap-2">
+          <Button variant="outline" onClick={() => onResolve(null)}>
+            Discard my changes
+          </Button>
+          <Button onClick={() => onResolve(mergeInvoiceEdits(conflict, fields, choices))}>
+            Save selection
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,15 +1,44 @@
 "use client";
 
 import { useState } from "react";
-import { IInvoice } from "@/lib/types";
+import { IInvoice, IFieldProvenance, ILineItem } from "@/lib/types";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Badge } from "@/components/ui/badge";
-import { ChevronDown, ChevronUp, Plus, Trash2, Check, Search, Bot, X, ZoomIn, ZoomOut, RotateCw, Download } from "lucide-react";
-import { EditableLineItemsTable } from "./EditableLineItemsTable";
-import { extractInvoice, updateInvoice } from "@/lib/api";
+import { ChevronDown, ChevronUp, Plus, Trash2, Check, Search, Bot, X, ZoomIn, ZoomOut, RotateCw, Download, Send, Undo2 } from "lucide-react";
+import { EditableLineItemsTable, LineItem } from "./EditableLineItemsTable";
+import { extractInvoice, fetchInvoice, approveInvoice, changeInvoiceStatus, exportInvoiceUbl, exportInvoiceAccounting, IDownload } from "@/lib/api";
+import { STATUS_LABELS, STATUS_BADGE_CLASSES, APPROVABLE_STATUSES, LOCKED_STATUSES, EXPORTABLE_STATUSES } from "@/lib/invoice-status";
+import { saveFile } from "@/lib/utils";
+import { useAccountingProfiles } from "@/lib/use-accounting-profiles";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger
+} from "@/components/ui/dropdown-menu";
+import { useExtractionModels } from "@/lib/use-extraction-models";
+import { useInvoiceSave } from "@/lib/use-invoice-save";
+import { getInvoiceEdits, InvoiceEdits } from "@/lib/invoice-merge";
+import { DuplicateBanner } from "./DuplicateBanner";
+import { ArithmeticWarnings } from "./ArithmeticWarnings";
+import { VendorMatchCard } from "./VendorMatchCard";
+import { PurchaseOrderMatchCard } from "./PurchaseOrderMatchCard";
+import { InvoiceConflictDialog } from "./InvoiceConflictDialog";
+import { getFieldProvenance, getLowConfidenceFields, isLowConfidence, LOW_CONFIDENCE_INPUT_CLASSES } from "@/lib/extraction";
+import { ConfidenceHint } from "@/components/confidence-hint";
 import { toast } from "sonner";
 
+// The table fills in empty codes, units and discounts; leave them out again so they don't count as edits
+const toLineItems = (tableItems: LineItem[]): ILineItem[] => tableItems.map(({ code, unit, discount, ...item }) => ({
+  ...item,
+  ...(code ? { code } : {}),
+  ...(unit ? { unit } : {}),
+  ...(discount ? { discount } : {})
+}));
+
 export function InvoiceDetailsPanel({
   invoice,
   onInvoiceUpdate,
@@ -18,10 +47,19 @@ export function InvoiceDetailsPanel({
   onInvoiceUpdate: (invoice: IInvoice) => void;
 }) {
   const [isExtracting, setIsExtracting] = useState(false);
+  const [isChangingStatus, setIsChangingStatus] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
+  const { selectedModel } = useExtractionModels();
+  const { profiles: accountingProfiles, defaultProfile } = useAccountingProfiles();
+  const { patch, conflict, resolveConflict } = useInvoiceSave(invoice);
+  const status = invoice.status || "draft";
+  const isLocked = LOCKED_STATUSES.includes(status);
+  const lowConfidenceCount = getLowConfidenceFields(invoice).length;
   const [expandedSections, setExpandedSections] = useState({
     customerInfo: true,
     customerCode: false,
     invoice: true,
+    accounting: true,
     summary: true,
     lineItems: true
   });
@@ -39,12 +77,20 @@ export function InvoiceDetailsPanel({
       return;
     }
 
+    if (!selectedModel) {
+      toast.error("No extraction model is available");
+      return;
+    }
+
     setIsExtracting(true);
     try {
-      const result = await extractInvoice(invoice.fileId, "gemini");
+      const result = await extractInvoice(invoice.fileId, selectedModel, invoice._id);
+      // Saving the result raised the version; later edits are based on it
+      const saved = invoice._id ? await fetchInvoice(invoice._id) : undefined;
       onInvoiceUpdate({
         ...invoice,
-        ...result.extractedData
+        ...result.extractedData,
+        version: saved?.version ?? invoice.version
       });
       toast.success("Invoice data extracted successfully!");
     } catch (error) {
@@ -55,34 +101,82 @@ export function InvoiceDetailsPanel({
     }
   };
 
-  const handleApprove = () => {
-    // TODO: Implement approve functionality
-    toast.success("Invoice approved successfully!");
-    console.log("Approve invoice:", invoice._id);
+  const handleApprove = async () => {
+    if (!invoice._id) return;
+
+    setIsChangingStatus(true);
+    try {
+      const approved = await approveInvoice(invoice._id);
+      onInvoiceUpdate(approved);
+      toast.success("Invoice approved successfully!");
+    } catch (error) {
+      console.error("Approve error:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to approve invoice");
+    } finally {
+      setIsChangingStatus(false);
+    }
   };
 
-  const handleFieldChange = async (field: string, value: string, nestedField?: string) => {
-    const updatedInvoice = { ...invoice };
-    
-    if (nestedField) {
-      // Handle nested fields like vendor.name, invoice.number, etc.
-      if (field === 'vendor') {
-        updatedInvoice.vendor = { ...updatedInvoice.vendor, [nestedField]: value };
-      } else if (field === 'invoice') {
-        updatedInvoice.invoice = { ...updatedInvoice.invoice, [nestedField]: value };
-      }
+  // Submits a new invoice for approval, or reopens an approved one so it can be corrected
+  const handleSendToReview = async () => {
+    if (!invoice._id) return;
+
+    setIsChangingStatus(true);
+    try {
+      const inReview = await changeInvoiceStatus(invoice._id, "in_review");
+      onInvoiceUpdate(inReview);
+      toast.success(isLocked ? "Invoice reopened for review" : "Invoice submitted for review");
+    } catch (error) {
+      console.error("Status change error:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to send invoice to review");
+    } finally {
+      setIsChangingStatus(false);
     }
-    
+  };
+
+  const warnLocked = () => {
+    toast.error(`${STATUS_LABELS[status]} invoices cannot be edited. Reopen the invoice for review first`);
+  };
+
+  const handleExport = async (exportInvoice: (id: string) => Promise<IDownload>) => {
+    if (!invoice._id) return;
+
+    setIsExporting(true);
+    try {
+      const { blob, fileName } = await exportInvoice(invoice._id);
+      saveFile(blob, fileName);
+    } catch (error) {
+      console.error("Export error:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to export invoice");
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const handleFieldChange = async (field: 'vendor' | 'invoice' | 'accounting', value: string, nestedField: string) => {
+    if (isLocked) {
+      warnLocked();
+      return;
+    }
+
     // Update local state immediately for responsiveness
+    const updatedInvoice = { ...invoice, [field]: { ...invoice[field], [nestedField]: value } };
     onInvoiceUpdate(updatedInvoice);
     
-    // Save to backend
+    // Save only this field, so edits others made to other fields meanwhile are kept
     try {
-      if (updatedInvoice._id) {
-        await updateInvoice(updatedInvoice._id, {
-          vendor: updatedInvoice.vendor,
-          invoice: updatedInvoice.invoice,
-          lineItems: updatedInvoice.lineItems
+      const saved = await patch(current => ({
+        ...getInvoiceEdits(current),
+        [field]: { ...current[field], [nestedField]: value }
+      }));
+      // Edits to the vendor, number, total or date can make or break a duplicate match
+      if (saved) {
+        onInvoiceUpdate({
+          ...updatedInvoice,
+          duplicates: saved.duplicates,
+          validationWarnings: saved.validationWarnings,
+          vendorMatch: saved.vendorMatch,
+          version: saved.version
         });
       }
     } catch (error) {
@@ -91,8 +185,23 @@ export function InvoiceDetailsPanel({
     }
   };
 
+  const handleResolveConflict = async (merged: InvoiceEdits | null) => {
+    try {
+      const resolved = await resolveConflict(merged);
+      if (resolved) {
+        onInvoiceUpdate(resolved);
+        toast.success(merged ? "Changes merged and saved" : "Showing the latest version");
+      }
+    } catch (error) {
+      console.error("Failed to save merged invoice:", error);
+      toast.error("Failed to save changes");
+    }
+  };
+
   return (
     <div className="h-full flex flex-col bg-gray-50">
+      <InvoiceConflictDialog conflict={conflict} onResolve={handleResolveConflict} />
+
       {/* Header with user info and controls */}
       <div className="bg-white border-b">
         {/* Top bar with user and approve button */}
@@ -106,13 +215,70 @@ export function InvoiceDetailsPanel({
               <p className="text-xs text-gray-500">Admin/Documents/Details</p>
             </div>
           </div>
-          <Button 
-            className="bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 text-sm"
-            onClick={handleApprove}
-          >
-            <Check className="h-4 w-4 mr-1" />
-            Approve
-          </Button>
+          <div className="flex items-center gap-2">
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button
+                  variant="outline"
+                  className="px-4 py-2 text-sm"
+                  disabled={isExporting || !EXPORTABLE_STATUSES.includes(status)}
+                  title="Approved and paid invoices can be exported"
+                >
+                  <Download className="h-4 w-4 mr-1" />
+                  {isExporting ? "Exporting..." : "Export"}
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end">
+                <DropdownMenuItem onClick={() => handleExport(exportInvoiceUbl)}>
+                  UBL 2.1 e-invoice
+                </DropdownMenuItem>
+                {accountingProfiles.length > 0 && (
+                  <>
+                    <DropdownMenuSeparator />
+                    <DropdownMenuLabel>Accounting</DropdownMenuLabel>
+                    {accountingProfiles.map(profile => (
+                      <DropdownMenuItem
+                        key={profile.id}
+                        onClick={() => handleExport(id => exportInvoiceAccounting(id, profile.id))}
+                      >
+                        {profile.name}
+                        {profile.id === defaultProfile && <span className="ml-auto pl-2 text-xs text-gray-400">default</span>}
+                      </DropdownMenuItem>
+                    ))}
+                  </>
+                )}
+              </DropdownMenuContent>
+            </DropdownMenu>
+            {APPROVABLE_STATUSES.includes(status) ? (
+              <Button 
+                className="bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 text-sm"
+                onClick={handleApprove}
+                disabled={isChangingStatus}
+              >
+                <Check className="h-4 w-4 mr-1" />
+                Approve
+              </Button>
+            ) : status === "approved" ? (
+              <Button
+                variant="outline"
+                className="px-4 py-2 text-sm"
+                onClick={handleSendToReview}
+                disabled={isChangingStatus}
+              >
+                <Undo2 className="h-4 w-4 mr-1" />
+                Reopen
+              </Button>
+            ) : (
+              <Button
+                className="bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 text-sm"
+                onClick={handleSendToReview}
+                disabled={isChangingStatus || isLocked}
+              >
+                <Send className="h-4 w-4 mr-1" />
+                Submit for review
+              </Button>
+            )}
+          </div>
         </div>
 
         {/* Document info and status */}
@@ -127,11 +293,37 @@ export function InvoiceDetailsPanel({
               </div>
               <p className="text-xs text-gray-500 ml-6">someemail@email.com</p>
             </div>
-            <Badge variant="secondary" className="bg-yellow-50 text-yellow-700 text-xs border-yellow-200 ml-2">
-              <span className="w-2 h-2 bg-yellow-400 rounded-full mr-1.5"></span>
-              Needs Review
+            {invoice.extraction?.source === 'e-invoice' && (
+              <Badge
+                variant="secondary"
+                className="bg-emerald-100 text-emerald-800 text-xs ml-2"
+                title="Read from the structured e-invoice (ZUGFeRD / Factur-X) embedded in the PDF"
+              >
+                E-invoice
+              </Badge>
+            )}
+            {lowConfidenceCount > 0 && (
+              <Badge
+                variant="secondary"
+                className="bg-amber-100 text-amber-800 text-xs ml-2"
+                title="Fields extracted with low confidence are highlighted"
+              >
+                {lowConfidenceCount} to review
+              </Badge>
+            )}
+            <Badge
+              variant="secondary"
+              className={`${STATUS_BADGE_CLASSES[status]} text-xs ml-2`}
+              title={invoice.rejectionReason}
+            >
+              {STATUS_LABELS[status]}
             </Badge>
           </div>
+          {invoice.duplicates && invoice.duplicates.length > 0 && (
+            <div className="mt-3">
+              <DuplicateBanner duplicates={invoice.duplicates} />
+            </div>
+          )}
         </div>
 
         {/* PDF Controls Bar */}
@@ -183,10 +375,12 @@ export function InvoiceDetailsPanel({
           className="border-0 border-b"
         >
           <div className="space-y-4 p-4">
+            <VendorMatchCard invoice={invoice} onInvoiceUpdate={onInvoiceUpdate} disabled={isLocked} />
             <EditableFormField 
               label="Customer Name" 
               value={invoice.vendor?.name || "Firma Mustermann GmbH"} 
               onChange={(value) => handleFieldChange('vendor', value, 'name')}
+              provenance={getFieldProvenance(invoice, 'vendor.name')}
             />
             <EditableFormField 
               label="Address" 
@@ -196,6 +390,7 @@ export function InvoiceDetailsPanel({
               label="Vendor Address" 
               value={invoice.vendor?.address || "215 E Tasman Dr, PO Box 65007 CA 95134 San Jose"} 
               onChange={(value) => handleFieldChange('vendor', value, 'address')}
+              provenance={getFieldProvenance(invoice, 'vendor.address')}
             />
             <EditableFormField 
               label="Postal Code" 
@@ -231,11 +426,37 @@ export function InvoiceDetailsPanel({
               label="PO Number" 
               value={invoice.invoice?.poNumber || "90038195"} 
               onChange={(value) => handleFieldChange('invoice', value, 'poNumber')}
+              provenance={getFieldProvenance(invoice, 'invoice.poNumber')}
             />
             <EditableFormField 
               label="PO Date" 
               value={invoice.invoice?.poDate || "31.10.2009"} 
               onChange={(value) => handleFieldChange('invoice', value, 'poDate')}
+              provenance={getFieldProvenance(invoice, 'invoice.poDate')}
+            />
+          </div>
+          <div className="px-4 pb-4">
+            <PurchaseOrderMatchCard invoice={invoice} />
+          </div>
+        </CollapsibleSection>
+
+        {/* Accounting */}
+        <CollapsibleSection
+          title="Accounting"
+          expanded={expandedSections.accounting}
+          onToggle={() => toggleSection('accounting')}
+          className="border-0 border-b"
+        >
+          <div className="grid grid-cols-2 gap-4 p-4">
+            <EditableFormField 
+              label="GL Account" 
+              value={invoice.accounting?.glAccount || ""} 
+              onChange={(value) => handleFieldChange('accounting', value, 'glAccount')}
+            />
+            <EditableFormField 
+              label="Cost Center" 
+              value={invoice.accounting?.costCenter || ""} 
+              onChange={(value) => handleFieldChange('accounting', value, 'costCenter')}
             />
           </div>
         </CollapsibleSection>
@@ -255,18 +476,21 @@ export function InvoiceDetailsPanel({
             <EditableFormField 
               label="Currency Short Form" 
               value={`${invoice.invoice?.currency || "€"} EUR - Euro`} 
+              provenance={getFieldProvenance(invoice, 'invoice.currency')}
             />
             <div className="bg-red-50 border border-red-200 rounded p-3">
               <EditableFormField 
                 label="Sub Total" 
                 value={`€ ${invoice.invoice?.subtotal || 400}`} 
                 className="font-semibold text-red-700"
+                provenance={getFieldProvenance(invoice, 'invoice.subtotal')}
               />
             </div>
             <EditableFormField 
               label="Locale" 
               value={"DE"} 
             />
+            <ArithmeticWarnings warnings={invoice.validationWarnings} />
           </div>
         </CollapsibleSection>
 
@@ -280,20 +504,38 @@ export function InvoiceDetailsPanel({
         >
           <div className="p-4">
             <EditableLineItemsTable
-              lineItems={invoice.lineItems || []}
-              onLineItemsChange={async (lineItems) => {
-                const updatedInvoice = { ...invoice, lineItems };
+              lineItems={(invoice.invoice?.lineItems || []).map((item, index) => ({
+                ...item,
+                id: item.id || String(index),
+                code: item.code || "",
+                discount: item.discount || 0
+              }))}
+              warnings={invoice.validationWarnings}
+              onLineItemsChange={async (tableItems) => {
+                if (isLocked) {
+                  warnLocked();
+                  return;
+                }
+
+                const lineItems = toLineItems(tableItems);
+                const updatedInvoice = { ...invoice, invoice: { ...invoice.invoice, lineItems } };
                 
                 // Update local state immediately
                 onInvoiceUpdate(updatedInvoice);
                 
-                // Save to backend
+                // Save only the lines that changed; the server checks the amounts again
                 try {
-                  if (updatedInvoice._id) {
-                    await updateInvoice(updatedInvoice._id, {
-                      vendor: updatedInvoice.vendor,
-                      invoice: updatedInvoice.invoice,
-                      lineItems: updatedInvoice.lineItems
+                  const saved = await patch(current => ({
+                    ...getInvoiceEdits(current),
+                    invoice: { ...current.invoice, lineItems }
+                  }));
+                  if (saved) {
+                    // New lines get their IDs from the server
+                    onInvoiceUpdate({
+                      ...updatedInvoice,
+                      invoice: { ...updatedInvoice.invoice, lineItems: saved.invoice.lineItems },
+                      validationWarnings: saved.validationWarnings,
+                      version: saved.version
                     });
                   }
                 } catch (error) {
@@ -357,13 +599,17 @@ function EditableFormField({
   label, 
   value, 
   className = "",
-  onChange 
+  onChange,
+  provenance
 }: { 
   label: string; 
   value: string; 
   className?: string;
   onChange?: (value: string) => void;
+  provenance?: IFieldProvenance;
 }) {
+  const lowConfidence = isLowConfidence(provenance);
+
   return (
     <div className="space-y-1">
       <label className="block text-xs font-medium text-gray-700 uppercase tracking-wider">{label}</label>
@@ -371,13 +617,14 @@ function EditableFormField({
         <Input
           value={value}
           onChange={(e) => onChange(e.target.value)}
-          className={`text-sm border-gray-200 focus:border-blue-500 focus:ring-blue-500 ${className}`}
+          className={`text-sm ${lowConfidence ? LOW_CONFIDENCE_INPUT_CLASSES : 'border-gray-200 focus:border-blue-500 focus:ring-blue-500'} ${className}`}
         />
       ) : (
-        <div className={`text-sm text-gray-900 px-3 py-2 bg-white border border-gray-200 rounded-md min-h-[36px] flex items-center ${className}`}>
+        <div className={`text-sm text-gray-900 px-3 py-2 border rounded-md min-h-[36px] flex items-center ${lowConfidence ? 'border-amber-400 bg-amber-50' : 'bg-white border-gray-200'} ${className}`}>
           {value}
         </div>
       )}
+      <ConfidenceHint provenance={provenance} />
     </div>
   );
 }
@@ -2,8 +2,10 @@
 
 import { IInvoice } from "@/lib/types";
 import { PDFPreview } from "./PDFPreview";
+import { EInvoicePreview } from "./EInvoicePreview";
 import { InvoiceDetailsPanel } from "./InvoiceDetailsPanel";
 import { useState } from "react";
+import { isXmlFileName } from "@/lib/e-invoice";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { FileText, User, Calendar, DollarSign } from "lucide-react";
@@ -16,6 +18,7 @@ export function InvoiceViewerLayout({
   onInvoiceUpdate: (inv: IInvoice) => void;
 }) {
   const [showSidebar, setShowSidebar] = useState(true);
+  const isEInvoice = isXmlFileName(invoice.fileName);
 
   return (
     <div className="h-screen w-full bg-gray-100 flex">
@@ -50,13 +53,17 @@ export function InvoiceViewerLayout({
                   <h3 className="text-sm font-medium">Documents</h3>
                 </div>
               </div>
-              <div className="text-xs text-gray-500 uppercase tracking-wider">PDF CONTROLS</div>
+              <div className="text-xs text-gray-500 uppercase tracking-wider">{isEInvoice ? "XML E-INVOICE" : "PDF CONTROLS"}</div>
             </div>
           </div>
           
           {/* PDF content */}
           <div className="flex-1 overflow-auto">
-            <PDFPreview fileId={invoice.fileId || ""} />
+            {isEInvoice ? (
+              <EInvoicePreview fileId={invoice.fileId || ""} />
+            ) : (
+              <PDFPreview fileId={invoice.fileId || ""} />
+            )}
           </div>
         </section>
 
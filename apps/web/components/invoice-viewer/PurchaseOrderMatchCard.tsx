@@ -0,0 +1,144 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { AlertTriangle, ClipboardCheck, ClipboardX, Loader2 } from "lucide-react";
+import { fetchPurchaseOrderMatch } from "@/lib/api";
+import type { IInvoice, IPoLineMatch, IPoMatchReport } from "@/lib/types";
+
+const MATCH_TYPE_LABELS: Record<NonNullable<IPoMatchReport['matchType']>, string> = {
+  'two-way': '2-way match',
+  'three-way': '3-way match'
+};
+
+const LINE_STATUS_CLASSES: Record<IPoLineMatch['status'], string> = {
+  matched: 'text-green-700',
+  variance: 'text-amber-700',
+  unordered: 'text-red-700',
+  not_invoiced: 'text-gray-400'
+};
+
+const LINE_STATUS_LABELS: Record<IPoLineMatch['status'], string> = {
+  matched: 'OK',
+  variance: 'Variance',
+  unordered: 'Not ordered',
+  not_invoiced: 'Not invoiced'
+};
+
+const formatQuantity = (value?: number) => value === undefined ? '—' : String(value);
+const formatPrice = (value?: number) => value === undefined ? '—' : value.toFixed(2);
+
+// Compares the invoice with its purchase order and, for 3-way matching, the goods received.
+// Reloads shortly after the PO number or line items change, once the edit has been saved.
+export function PurchaseOrderMatchCard({ invoice }: { invoice: IInvoice }) {
+  const [report, setReport] = useState<IPoMatchReport | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const poNumber = invoice.invoice?.poNumber;
+  const lineItemsKey = JSON.stringify(invoice.invoice?.lineItems || []);
+
+  useEffect(() => {
+    if (!invoice._id) return;
+
+    const timer = setTimeout(() => {
+      setIsLoading(true);
+      fetchPurchaseOrderMatch(invoice._id!)
+        .then(setReport)
+        .catch(error => console.error("Failed to match purchase order:", error))
+        .finally(() => setIsLoading(false));
+    }, 500);
+    return () => clearTimeout(timer);
+  }, [invoice._id, poNumber, lineItemsKey]);
+
+  if (!report) {
+    return isLoading ? (
+      <div className="flex items-center gap-2 text-sm text-gray-500">
+        <Loader2 className="h-4 w-4 animate-spin" />
+        Matching purchase order...
+      </div>
+    ) : null;
+  }
+
+  if (report.status === 'no_po_number' || report.status === 'po_not_found') {
+    return (
+      <div className="flex items-center gap-2 bg-gray-100 border border-gray-200 rounded-md p-3 text-sm text-gray-700">
+        <ClipboardX className="h-4 w-4 flex-shrink-0" />
+        {report.status === 'no_po_number'
+          ? "No PO number on this invoice"
+          : `PO ${report.poNumber} is not among the imported purchase orders`}
+      </div>
+    );
+  }
+
+  const hasVariances = report.status === 'variance';
+
+  return (
+    <div className={`border rounded-md p-3 text-sm space-y-3 ${hasVariances ? 'bg-amber-50 border-amber-200 text-amber-900' : 'bg-green-50 border-green-200 text-green-900'}`}>
+      <div className="flex items-center justify-between gap-2">
+        <div className="flex items-center gap-2 font-medium">
+          {hasVariances ? (
+            <AlertTriangle className="h-4 w-4 flex-shrink-0" />
+          ) : (
+            <ClipboardCheck className="h-4 w-4 flex-shrink-0" />
+          )}
+          {hasVariances
+            ? `${report.variances.length} variance(s) against PO ${report.poNumber}`
+            : `Matches PO ${report.poNumber}`}
+        </div>
+        <span className="text-xs opacity-75">
+          {report.matchType && MATCH_TYPE_LABELS[report.matchType]}
+          {report.tolerances && ` · ±${report.tolerances.pricePercent}% price, +${report.tolerances.quantityPercent}% qty`}
+        </span>
+      </div>
+
+      {hasVariances && (
+        <ul className="space-y-1 list-disc list-inside">
+          {report.variances.map(variance => (
+            <li key={`${variance.code}:${variance.path}`}>{variance.message}</li>
+          ))}
+        </ul>
+      )}
+
+      <div className="overflow-x-auto bg-white rounded border text-gray-900">
+        <table className="w-full text-xs">
+          <thead>
+            <tr className="text-left text-gray-500 border-b">
+              <th className="px-2 py-1 font-medium">PO line</th>
+              <th className="px-2 py-1 font-medium">Description</th>
+              <th className="px-2 py-1 font-medium text-right">Qty billed / ordered{report.matchType === 'three-way' ? ' / received' : ''}</th>
+              <th className="px-2 py-1 font-medium text-right">Price billed / ordered</th>
+              <th className="px-2 py-1 font-medium">Status</th>
+            </tr>
+          </thead>
+          <tbody>
+            {report.lines.map(line => (
+              <tr key={`${line.invoiceLine ?? ''}:${line.lineNumber ?? ''}`} className="border-b last:border-0">
+                <td className="px-2 py-1">{line.lineNumber ?? '—'}</td>
+                <td className="px-2 py-1">{line.description}</td>
+                <td className="px-2 py-1 text-right whitespace-nowrap">
+                  {formatQuantity(line.invoicedQuantity)}
+                  {line.previouslyInvoiced ? <span className="text-gray-500"> (+{line.previouslyInvoiced})</span> : null}
+                  {' / '}{formatQuantity(line.orderedQuantity)}
+                  {report.matchType === 'three-way' && <> / {formatQuantity(line.receivedQuantity)}</>}
+                </td>
+                <td className="px-2 py-1 text-right whitespace-nowrap">
+                  {formatPrice(line.invoicedUnitPrice)} / {formatPrice(line.orderedUnitPrice)}
+                  {line.priceVariancePercent ? (
+                    <span className="text-gray-500"> ({line.priceVariancePercent > 0 ? '+' : ''}{line.priceVariancePercent}%)</span>
+                  ) : null}
+                </td>
+                <td className={`px-2 py-1 font-medium ${LINE_STATUS_CLASSES[line.status]}`}>
+                  {LINE_STATUS_LABELS[line.status]}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {report.otherInvoices > 0 && (
+        <p className="text-xs opacity-75">
+          Quantities in brackets were billed on {report.otherInvoices} other invoice(s) against this PO.
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,205 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { GitCompare, History, Loader2, RotateCcw } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { fetchInvoiceRevisions, fetchRevisionDiff, restoreInvoiceRevision, InvoiceConflictError } from "@/lib/api";
+import type { IFieldChange, IInvoice, IInvoiceRevision, IRevisionDiff, RevisionSource } from "@/lib/types";
+
+const SOURCE_LABELS: Record<RevisionSource, string> = {
+  create: 'Created',
+  import: 'Imported',
+  extraction: 'Extracted',
+  edit: 'Edited',
+  status: 'Status changed',
+  vendor: 'Vendor linked',
+  restore: 'Restored',
+  initial: 'Before history'
+};
+
+// Changes listed per revision before the rest are folded away
+const MAX_CHANGES_SHOWN = 6;
+
+const formatValue = (value: unknown) => {
+  if (value === undefined) return '—';
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+};
+
+function ChangeList({ changes, limit }: { changes: IFieldChange[]; limit?: number }) {
+  const shown = limit ? changes.slice(0, limit) : changes;
+
+  if (!changes.length) {
+    return <p className="text-xs text-gray-500">No field changes</p>;
+  }
+
+  return (
+    <ul className="space-y-0.5 text-xs font-mono">
+      {shown.map(change => (
+        <li key={change.path} className="flex flex-wrap gap-x-2">
+          <span className="text-gray-500">{change.path}</span>
+          <span className="text-red-700 line-through">{formatValue(change.from)}</span>
+          <span className="text-green-700">{formatValue(change.to)}</span>
+        </li>
+      ))}
+      {changes.length > shown.length && (
+        <li className="text-gray-500 font-sans">and {changes.length - shown.length} more</li>
+      )}
+    </ul>
+  );
+}
+
+// Every write to the invoice with who made it, what changed, a diff between any two
+// revisions and a way back to an earlier one
+export function RevisionHistory({ invoice, onRestore }: { invoice: IInvoice; onRestore: (invoice: IInvoice) => void }) {
+  const [revisions, setRevisions] = useState<IInvoiceRevision[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [selected, setSelected] = useState<number[]>([]);
+  const [diff, setDiff] = useState<IRevisionDiff | null>(null);
+  const [restoring, setRestoring] = useState<number | null>(null);
+
+  useEffect(() => {
+    if (!invoice._id) return;
+
+    setIsLoading(true);
+    fetchInvoiceRevisions(invoice._id)
+      .then(setRevisions)
+      .catch(error => {
+        console.error("Failed to load revisions:", error);
+        toast.error("Failed to load the invoice history");
+      })
+      .finally(() => setIsLoading(false));
+  }, [invoice._id, invoice.updatedAt]);
+
+  useEffect(() => {
+    if (!invoice._id || selected.length !== 2) {
+      setDiff(null);
+      return;
+    }
+
+    const [from, to] = [...selected].sort((a, b) => a - b);
+    fetchRevisionDiff(invoice._id, from, to)
+      .then(setDiff)
+      .catch(error => {
+        console.error("Failed to compare revisions:", error);
+        toast.error("Failed to compare revisions");
+      });
+  }, [invoice._id, selected]);
+
+  // Keep the two most recently picked revisions
+  const toggleSelected = (revision: number) => {
+    setSelected(current => current.includes(revision)
+      ? current.filter(value => value !== revision)
+      : [...current, revision].slice(-2));
+  };
+
+  const handleRestore = async (revision: number) => {
+    if (!invoice._id) return;
+    if (!confirm(`Restore the vendor and invoice data of revision ${revision}? The current values stay in the history.`)) {
+      return;
+    }
+
+    try {
+      setRestoring(revision);
+      const restored = await restoreInvoiceRevision(invoice._id, revision, invoice);
+      onRestore(restored);
+      setSelected([]);
+      toast.success(`Invoice restored to revision ${revision}`);
+    } catch (error) {
+      if (error instanceof InvoiceConflictError) {
+        // Show the other changes before anything is restored over them
+        onRestore(error.current);
+        toast.error("The invoice was changed by someone else. Review their changes and restore again");
+        return;
+      }
+      console.error("Failed to restore revision:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to restore revision");
+    } finally {
+      setRestoring(null);
+    }
+  };
+
+  if (isLoading && !revisions.length) {
+    return (
+      <div className="flex items-center gap-2 text-sm text-gray-500">
+        <Loader2 className="h-4 w-4 animate-spin" />
+        Loading history...
+      </div>
+    );
+  }
+
+  if (!revisions.length) {
+    return (
+      <div className="text-center py-8 text-gray-500">
+        <History className="h-12 w-12 text-gray-300 mx-auto mb-2" />
+        <p>No changes have been recorded for this invoice yet</p>
+      </div>
+    );
+  }
+
+  const latest = revisions[0].revision;
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-gray-500">Pick two revisions to compare them.</p>
+
+      {diff && (
+        <div className="border border-blue-200 bg-blue-50 rounded-md p-3 space-y-2">
+          <div className="flex items-center gap-2 text-sm font-medium text-blue-900">
+            <GitCompare className="h-4 w-4" />
+            Revision {diff.from} → {diff.to}: {diff.changes.length} change(s)
+          </div>
+          <ChangeList changes={diff.changes} />
+        </div>
+      )}
+
+      <ol className="space-y-3">
+        {revisions.map(revision => (
+          <li
+            key={revision.revision}
+            className={`border rounded-md p-3 space-y-2 ${selected.includes(revision.revision) ? 'border-blue-400' : ''}`}
+          >
+            <div className="flex items-start justify-between gap-2">
+              <div className="text-sm">
+                <span className="font-medium">#{revision.revision} {SOURCE_LABELS[revision.source]}</span>
+                <span className="text-gray-500">
+                  {' · '}{new Date(revision.createdAt).toLocaleString()}
+                  {(revision.actorEmail || revision.actor) && ` · ${revision.actorEmail || revision.actor}`}
+                </span>
+                {revision.note && <p className="text-xs text-gray-600">{revision.note}</p>}
+              </div>
+              <div className="flex gap-1 flex-shrink-0">
+                <Button
+                  variant={selected.includes(revision.revision) ? "secondary" : "ghost"}
+                  size="sm"
+                  onClick={() => toggleSelected(revision.revision)}
+                >
+                  <GitCompare className="h-4 w-4 mr-1" />
+                  Compare
+                </Button>
+                {revision.revision !== latest && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => handleRestore(revision.revision)}
+                    disabled={restoring !== null}
+                  >
+                    {restoring === revision.revision ? (
+                      <Loader2 className="h-4 w-4 mr-1 animate-spin" />
+                    ) : (
+                      <RotateCcw className="h-4 w-4 mr-1" />
+                    )}
+                    Restore
+                  </Button>
+                )}
+              </div>
+            </div>
+            {revision.source !== 'initial' && (
+              <ChangeList changes={revision.changes} limit={MAX_CHANGES_SHOWN} />
+            )}
+          </li>
+        ))}
+      </ol>
+    </div>
+  );
+}
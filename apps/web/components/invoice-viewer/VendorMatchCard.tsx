@@ -0,0 +1,154 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Building2, Check, Link2Off, Plus, Search } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { linkInvoiceVendor, unlinkInvoiceVendor, fetchVendors } from "@/lib/api";
+import type { IInvoice, IVendorMatch, IVendorRecord } from "@/lib/types";
+import { toast } from "sonner";
+
+const METHOD_LABELS: Record<IVendorMatch['method'], string> = {
+  taxId: 'same tax ID',
+  name: 'same name',
+  alias: 'known alias',
+  similarity: 'similar name',
+  manual: 'picked by a reviewer'
+};
+
+const describeMatch = (match: IVendorMatch): string => {
+  return match.method === 'similarity'
+    ? `${METHOD_LABELS.similarity}, ${Math.round(match.score * 100)}%`
+    : METHOD_LABELS[match.method];
+};
+
+// Links the invoice's vendor to the vendor master data: confirm the suggested match,
+// pick another vendor or create a new one from the invoice. Disabled while the invoice is locked.
+export function VendorMatchCard({
+  invoice,
+  onInvoiceUpdate,
+  disabled = false,
+}: {
+  invoice: IInvoice;
+  onInvoiceUpdate: (invoice: IInvoice) => void;
+  disabled?: boolean;
+}) {
+  const [isSaving, setIsSaving] = useState(false);
+  const isDisabled = isSaving || disabled;
+  const [isSearching, setIsSearching] = useState(false);
+  const [query, setQuery] = useState("");
+  const [results, setResults] = useState<IVendorRecord[]>([]);
+  const match = invoice.vendorMatch;
+
+  useEffect(() => {
+    if (!isSearching) return;
+
+    const timer = setTimeout(() => {
+      fetchVendors(query.trim() || undefined)
+        .then(vendors => setResults(vendors.slice(0, 5)))
+        .catch(error => console.error("Failed to search vendors:", error));
+    }, 250);
+    return () => clearTimeout(timer);
+  }, [isSearching, query]);
+
+  const run = async (action: () => Promise<IInvoice>, success: string) => {
+    if (!invoice._id) return;
+
+    setIsSaving(true);
+    try {
+      const updated = await action();
+      onInvoiceUpdate({ ...invoice, ...updated, vendorMatch: updated.vendorMatch });
+      setIsSearching(false);
+      toast.success(success);
+    } catch (error) {
+      console.error("Vendor link error:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to update vendor");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const link = (vendorId: string) => run(() => linkInvoiceVendor(invoice._id!, { vendorId }, invoice), "Vendor linked");
+  const create = () => run(() => linkInvoiceVendor(invoice._id!, { create: true }, invoice), "Vendor created");
+  const unlink = () => run(() => unlinkInvoiceVendor(invoice._id!, invoice), "Vendor match removed");
+
+  if (match?.confirmed) {
+    return (
+      <div className="flex items-center justify-between bg-green-50 border border-green-200 rounded-md p-3 text-sm text-green-900">
+        <div className="flex items-center gap-2">
+          <Building2 className="h-4 w-4 flex-shrink-0" />
+          <span>
+            Master vendor: <span className="font-medium">{match.name}</span>
+          </span>
+        </div>
+        <Button variant="ghost" size="sm" onClick={unlink} disabled={isDisabled} className="h-7 text-xs">
+          <Link2Off className="h-3 w-3 mr-1" />
+          Unlink
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-blue-50 border border-blue-200 rounded-md p-3 text-sm text-blue-900 space-y-2">
+      <div className="flex items-center gap-2">
+        <Building2 className="h-4 w-4 flex-shrink-0" />
+        {match ? (
+          <span>
+            Matches <span className="font-medium">{match.name}</span>
+            <span className="text-blue-700"> ({describeMatch(match)})</span>
+          </span>
+        ) : (
+          <span>Not in the vendor master data</span>
+        )}
+      </div>
+      <div className="flex flex-wrap gap-2">
+        {match && (
+          <>
+            <Button size="sm" onClick={() => link(match.vendorId)} disabled={isDisabled} className="h-7 text-xs">
+              <Check className="h-3 w-3 mr-1" />
+              Confirm
+            </Button>
+            <Button variant="outline" size="sm" onClick={unlink} disabled={isDisabled} className="h-7 text-xs">
+              Not this vendor
+            </Button>
+          </>
+        )}
+        <Button variant="outline" size="sm" onClick={() => setIsSearching(!isSearching)} disabled={isDisabled} className="h-7 text-xs">
+          <Search className="h-3 w-3 mr-1" />
+          Pick vendor
+        </Button>
+        <Button variant="outline" size="sm" onClick={create} disabled={isDisabled || !invoice.vendor?.name} className="h-7 text-xs">
+          <Plus className="h-3 w-3 mr-1" />
+          Create vendor
+        </Button>
+      </div>
+      {isSearching && (
+        <div className="space-y-1">
+          <Input
+            placeholder="Search name, alias or tax ID"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            className="h-8 text-xs bg-white"
+            autoFocus
+          />
+          {results.map(vendor => (
+            <button
+              key={vendor._id}
+              type="button"
+              onClick={() => link(vendor._id!)}
+              disabled={isDisabled}
+              className="w-full text-left text-xs bg-white border rounded px-2 py-1 hover:bg-blue-100 disabled:opacity-50"
+            >
+              <span className="font-medium">{vendor.name}</span>
+              {vendor.taxId && <span className="text-gray-500"> · {vendor.taxId}</span>}
+            </button>
+          ))}
+          {results.length === 0 && (
+            <p className="text-xs text-blue-700">No vendors found</p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
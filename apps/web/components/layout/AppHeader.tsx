@@ -10,7 +10,8 @@ import {
   User, 
   FileText, 
   Upload,
-  Home
+  Home,
+  Sparkles
 } from 'lucide-react';
 import {
   DropdownMenu,
@@ -147,6 +148,12 @@ export default function AppHeader() {
                 <Settings className="mr-2 h-4 w-4" />
                 <span>Settings</span>
               </DropdownMenuItem>
+              {user?.role === 'admin' && (
+                <DropdownMenuItem onClick={() => router.push('/templates')}>
+                  <Sparkles className="mr-2 h-4 w-4" />
+                  <span>Extraction templates</span>
+                </DropdownMenuItem>
+              )}
               <DropdownMenuSeparator />
               <DropdownMenuItem onClick={handleLogout}>
                 <LogOut className="mr-2 h-4 w-4" />
@@ -0,0 +1,25 @@
+import type { ISearchSnippet } from "../lib/types";
+
+// A passage of the document with the search terms marked
+export function SearchSnippet({ snippet }: { snippet: ISearchSnippet }) {
+  const parts: React.ReactNode[] = [];
+  let position = 0;
+
+  snippet.highlights.forEach((highlight, index) => {
+    parts.push(snippet.text.slice(position, highlight.start));
+    parts.push(
+      <mark key={index} className="bg-yellow-200 text-gray-900 rounded-sm px-0.5">
+        {snippet.text.slice(highlight.start, highlight.end)}
+      </mark>
+    );
+    position = highlight.end;
+  });
+  parts.push(snippet.text.slice(position));
+
+  return (
+    <p className="text-xs text-gray-600">
+      <span className="text-gray-400 mr-1">p. {snippet.page}</span>
+      {parts}
+    </p>
+  );
+}
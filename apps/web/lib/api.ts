@@ -1,14 +1,43 @@
 import { 
   IInvoice, 
   IUploadResponse, 
+  IBatchUploadResponse,
   IExtractRequest,
   IExtractResponse, 
+  IExtractionJob,
+  IExtractionModelInfo,
+  IEInvoiceDocument,
   ApiResponse,
-  ISearchQuery 
+  ISearchQuery,
+  InvoiceStatus,
+  TableExportFormat,
+  ExportLayout,
+  AccountingProfileId,
+  IAccountingProfileInfo,
+  IVendorRecord,
+  IExtractionTemplate,
+  IPoMatchReport,
+  IInvoiceRevision,
+  IRevisionDiff,
+  IJsonPatchOperation
 } from "./types";
 
 const API_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:4000';
 
+// Thrown when a save was based on an outdated version; carries the invoice as it is now
+export class InvoiceConflictError extends Error {
+  constructor(message: string, readonly current: IInvoice) {
+    super(message);
+    this.name = 'InvoiceConflictError';
+  }
+}
+
+// Makes a write conditional on the invoice still being at the version it was edited from
+const ifMatch = (base?: Pick<IInvoice, 'version'>): Record<string, string> => {
+  // Invoices stored before versions were kept count as version 0
+  return base ? { "If-Match": `"${base.version ?? 0}"` } : {};
+};
+
 // Error handler for API responses
 const handleResponse = async <T>(response: Response): Promise<T> => {
   const data = await response.json();
@@ -29,6 +58,10 @@ const handleResponse = async <T>(response: Response): Promise<T> => {
       }
       throw new Error('Authentication required');
     }
+
+    if (response.status === 412 && data.data) {
+      throw new InvoiceConflictError(data.error || 'Invoice was changed by someone else', data.data);
+    }
     
     // Include validation details if available
     const errorMessage = data.details ? 
@@ -44,10 +77,30 @@ const handleResponse = async <T>(response: Response): Promise<T> => {
   return data.data;
 };
 
-// Upload PDF
-export async function uploadPdf(file: File): Promise<IUploadResponse> {
+export interface IDownload {
+  blob: Blob;
+  fileName: string;
+}
+
+// Read a file response, falling back to the given name when the API does not send one
+const handleDownload = async (response: Response, fallbackName: string): Promise<IDownload> => {
+  if (!response.ok) {
+    return handleResponse<never>(response);
+  }
+
+  const disposition = response.headers.get('Content-Disposition') || '';
+  const match = disposition.match(/filename="([^"]+)"/);
+  return { blob: await response.blob(), fileName: match ? match[1] : fallbackName };
+};
+
+// Upload a PDF, or an XML e-invoice which the API imports into a new invoice right away
+// With draft set, a PDF also gets an empty draft invoice, returned as invoiceId
+export async function uploadPdf(file: File, { draft = false }: { draft?: boolean } = {}): Promise<IUploadResponse> {
   const formData = new FormData();
   formData.append("pdf", file); // Backend expects 'pdf' field name
+  if (draft) {
+    formData.append("draft", "true");
+  }
 
   const response = await fetch(`${API_URL}/api/upload`, {
     method: "POST",
@@ -58,33 +111,157 @@ export async function uploadPdf(file: File): Promise<IUploadResponse> {
   return handleResponse<IUploadResponse>(response);
 }
 
-// Extract Invoice Data
-export async function extractInvoice(
-  fileId: string, 
-  model: "gemini" | "groq"
-): Promise<IExtractResponse> {
+// Upload PDFs, XML e-invoices and ZIP archives of them; every file becomes an invoice of its own.
+// With a model, extraction is queued for each PDF. The API imports the batch in the background.
+export async function uploadBatch(files: File[], model?: IExtractRequest['model']): Promise<IBatchUploadResponse> {
+  const formData = new FormData();
+  files.forEach(file => formData.append("files", file));
+  if (model) {
+    formData.append("extract", "true");
+    formData.append("model", model);
+  }
+
+  const response = await fetch(`${API_URL}/api/upload/batch`, {
+    method: "POST",
+    credentials: 'include',
+    body: formData
+  });
+
+  return handleResponse<IBatchUploadResponse>(response);
+}
+
+// Get the progress of a batch upload
+export async function fetchBatchUpload(batchId: string): Promise<IBatchUploadResponse> {
+  const response = await fetch(`${API_URL}/api/upload/batch/${batchId}`, {
+    credentials: 'include'
+  });
+
+  return handleResponse<IBatchUploadResponse>(response);
+}
+
+// Poll a batch upload until every file is imported and the extractions it queued are over
+export async function waitForBatchUpload(
+  batchId: string,
+  onProgress?: (batch: IBatchUploadResponse) => void,
+  { intervalMs = 2000, timeoutMs = 30 * 60 * 1000 } = {}
+): Promise<IBatchUploadResponse> {
+  const deadline = Date.now() + timeoutMs;
+
+  while (Date.now() < deadline) {
+    const batch = await fetchBatchUpload(batchId);
+    onProgress?.(batch);
+
+    const extracting = batch.files.some(file => file.results.some(result =>
+      result.extractionStatus === 'queued' || result.extractionStatus === 'processing'));
+    if (batch.status === 'failed' || (batch.status === 'completed' && !extracting)) {
+      return batch;
+    }
+
+    await new Promise(resolve => setTimeout(resolve, intervalMs));
+  }
+
+  throw new Error('The batch is taking longer than expected. Check back later.');
+}
+
+// List the extraction models the API can use
+export async function fetchExtractionModels(): Promise<IExtractionModelInfo[]> {
+  const response = await fetch(`${API_URL}/api/extract/models`, {
+    credentials: 'include'
+  });
+
+  return handleResponse<IExtractionModelInfo[]>(response);
+}
+
+// Queue an extraction job; pass invoiceId to have the result saved into that invoice
+export async function submitExtraction(
+  fileId: string,
+  model: IExtractRequest['model'],
+  invoiceId?: string
+): Promise<IExtractionJob> {
   const response = await fetch(`${API_URL}/api/extract`, {
     method: "POST",
     credentials: 'include',
     headers: { "Content-Type": "application/json" },
-    body: JSON.stringify({ fileId, model } as IExtractRequest),
+    body: JSON.stringify({ fileId, model, invoiceId } as IExtractRequest),
   });
 
-  return handleResponse<IExtractResponse>(response);
+  return handleResponse<IExtractionJob>(response);
 }
 
-// Get all invoices with search and pagination
-export async function fetchInvoices(
-  searchParams?: ISearchQuery
-): Promise<{ invoices: IInvoice[]; pagination?: ApiResponse['pagination'] }> {
+// Get the current state of an extraction job
+export async function fetchExtractionJob(jobId: string): Promise<IExtractionJob> {
+  const response = await fetch(`${API_URL}/api/extract/jobs/${jobId}`, {
+    credentials: 'include'
+  });
+
+  return handleResponse<IExtractionJob>(response);
+}
+
+// Poll an extraction job until it completes or fails
+export async function waitForExtractionJob(
+  jobId: string,
+  onProgress?: (job: IExtractionJob) => void,
+  { intervalMs = 2000, timeoutMs = 5 * 60 * 1000 } = {}
+): Promise<IExtractResponse> {
+  const deadline = Date.now() + timeoutMs;
+
+  while (Date.now() < deadline) {
+    const job = await fetchExtractionJob(jobId);
+    onProgress?.(job);
+
+    if (job.status === 'completed' && job.result) {
+      return job.result;
+    }
+    if (job.status === 'failed') {
+      const message = job.error || 'Extraction failed';
+      throw new Error(job.errorDetails?.length ? `${message}: ${job.errorDetails.join(', ')}` : message);
+    }
+
+    await new Promise(resolve => setTimeout(resolve, intervalMs));
+  }
+
+  throw new Error('Extraction is taking longer than expected. Check back later.');
+}
+
+// Extract Invoice Data (queues a job and waits for the result)
+export async function extractInvoice(
+  fileId: string, 
+  model: IExtractRequest['model'],
+  invoiceId?: string
+): Promise<IExtractResponse> {
+  const job = await submitExtraction(fileId, model, invoiceId);
+  return waitForExtractionJob(job.jobId);
+}
+
+// Query string for the invoice list and its export
+const toSearchParams = (searchParams?: ISearchQuery): URLSearchParams => {
   const params = new URLSearchParams();
   
   if (searchParams?.q) params.append('q', searchParams.q);
+  searchParams?.status?.forEach(status => params.append('status', status));
+  if (searchParams?.dateFrom) params.append('dateFrom', searchParams.dateFrom);
+  if (searchParams?.dateTo) params.append('dateTo', searchParams.dateTo);
+  if (searchParams?.createdFrom) params.append('createdFrom', searchParams.createdFrom);
+  if (searchParams?.createdTo) params.append('createdTo', searchParams.createdTo);
+  if (searchParams?.totalMin !== undefined) params.append('totalMin', searchParams.totalMin.toString());
+  if (searchParams?.totalMax !== undefined) params.append('totalMax', searchParams.totalMax.toString());
+  searchParams?.currency?.forEach(currency => params.append('currency', currency));
+  if (searchParams?.vendor) params.append('vendor', searchParams.vendor);
+  if (searchParams?.hasPoNumber !== undefined) params.append('hasPoNumber', String(searchParams.hasPoNumber));
   if (searchParams?.page) params.append('page', searchParams.page.toString());
   if (searchParams?.limit) params.append('limit', searchParams.limit.toString());
   if (searchParams?.sortBy) params.append('sortBy', searchParams.sortBy);
   if (searchParams?.sortOrder) params.append('sortOrder', searchParams.sortOrder);
 
+  return params;
+};
+
+// Get all invoices with search and pagination
+export async function fetchInvoices(
+  searchParams?: ISearchQuery
+): Promise<{ invoices: IInvoice[]; pagination?: ApiResponse['pagination'] }> {
+  const params = toSearchParams(searchParams);
+
   const queryString = params.toString();
   const url = `${API_URL}/api/invoices${queryString ? `?${queryString}` : ''}`;
   
@@ -105,52 +282,321 @@ export async function fetchInvoices(
 
 // Get single invoice
 export async function fetchInvoice(id: string): Promise<IInvoice> {
-  const response = await fetch(`${API_URL}/invoices/${id}`);
+  const response = await fetch(`${API_URL}/api/invoices/${id}`, {
+    credentials: 'include'
+  });
   return handleResponse<IInvoice>(response);
 }
 
-// Create new invoice
-export async function createInvoice(invoice: Omit<IInvoice, '_id' | 'createdAt' | 'updatedAt'>): Promise<IInvoice> {
+// Create new invoice; for extracted data, the job lets the API learn the corrections made to its result
+export async function createInvoice(
+  invoice: Omit<IInvoice, '_id' | 'createdAt' | 'updatedAt'>,
+  jobId?: string
+): Promise<IInvoice> {
   const response = await fetch(`${API_URL}/api/invoices`, {
     method: "POST",
     credentials: 'include',
     headers: { "Content-Type": "application/json" },
-    body: JSON.stringify(invoice),
+    body: JSON.stringify({ ...invoice, jobId }),
   });
   
   return handleResponse<IInvoice>(response);
 }
 
-// Update existing invoice
+// Update existing invoice; given the invoice the edits were made on, throws InvoiceConflictError
+// when someone else changed it since
 export async function updateInvoice(
   id: string, 
-  invoice: Partial<Omit<IInvoice, '_id' | 'createdAt' | 'updatedAt'>>
+  invoice: Partial<Omit<IInvoice, '_id' | 'createdAt' | 'updatedAt'>>,
+  base?: Pick<IInvoice, 'version'>
 ): Promise<IInvoice> {
   const response = await fetch(`${API_URL}/api/invoices/${id}`, {
     method: "PUT",
     credentials: 'include',
-    headers: { "Content-Type": "application/json" },
+    headers: { "Content-Type": "application/json", ...ifMatch(base) },
     body: JSON.stringify(invoice),
   });
   
   return handleResponse<IInvoice>(response);
 }
 
-// Delete invoice
-export async function deleteInvoice(id: string): Promise<void> {
-  const response = await fetch(`${API_URL}/invoices/${id}`, {
-    method: "DELETE"
+// Change single fields or line items; throws InvoiceConflictError when a test operation fails
+export async function patchInvoice(
+  id: string,
+  operations: IJsonPatchOperation[],
+  base?: Pick<IInvoice, 'version'>
+): Promise<IInvoice> {
+  const response = await fetch(`${API_URL}/api/invoices/${id}`, {
+    method: "PATCH",
+    credentials: 'include',
+    headers: { "Content-Type": "application/json-patch+json", ...ifMatch(base) },
+    body: JSON.stringify(operations),
+  });
+
+  return handleResponse<IInvoice>(response);
+}
+
+// Approve invoice
+export async function approveInvoice(id: string): Promise<IInvoice> {
+  const response = await fetch(`${API_URL}/api/invoices/${id}/approve`, {
+    method: "POST",
+    credentials: 'include'
+  });
+
+  return handleResponse<IInvoice>(response);
+}
+
+// Reject invoice with a reason
+export async function rejectInvoice(id: string, reason: string): Promise<IInvoice> {
+  const response = await fetch(`${API_URL}/api/invoices/${id}/reject`, {
+    method: "POST",
+    credentials: 'include',
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ reason }),
+  });
+
+  return handleResponse<IInvoice>(response);
+}
+
+// Move invoice to another status (e.g. in_review, paid)
+export async function changeInvoiceStatus(
+  id: string,
+  status: InvoiceStatus,
+  reason?: string
+): Promise<IInvoice> {
+  const response = await fetch(`${API_URL}/api/invoices/${id}/status`, {
+    method: "POST",
+    credentials: 'include',
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ status, reason }),
+  });
+
+  return handleResponse<IInvoice>(response);
+}
+
+// Confirm or pick the master vendor of an invoice, or create one from the invoice's vendor;
+// given the invoice as last seen, only if nobody changed it since
+export async function linkInvoiceVendor(
+  id: string,
+  link: { vendorId: string } | { create: true },
+  base?: Pick<IInvoice, 'version'>
+): Promise<IInvoice> {
+  const response = await fetch(`${API_URL}/api/invoices/${id}/vendor`, {
+    method: "POST",
+    credentials: 'include',
+    headers: { "Content-Type": "application/json", ...ifMatch(base) },
+    body: JSON.stringify(link),
+  });
+
+  return handleResponse<IInvoice>(response);
+}
+
+// Drop a wrong vendor match
+export async function unlinkInvoiceVendor(id: string, base?: Pick<IInvoice, 'version'>): Promise<IInvoice> {
+  const response = await fetch(`${API_URL}/api/invoices/${id}/vendor`, {
+    method: "DELETE",
+    credentials: 'include',
+    headers: ifMatch(base)
+  });
+
+  return handleResponse<IInvoice>(response);
+}
+
+// Compare the invoice with the purchase order of its PO number and the goods received
+export async function fetchPurchaseOrderMatch(id: string): Promise<IPoMatchReport> {
+  const response = await fetch(`${API_URL}/api/invoices/${id}/po-match`, {
+    credentials: 'include'
+  });
+  return handleResponse<IPoMatchReport>(response);
+}
+
+// Revisions of an invoice, newest first, with the fields each one changed
+export async function fetchInvoiceRevisions(id: string): Promise<IInvoiceRevision[]> {
+  const response = await fetch(`${API_URL}/api/invoices/${id}/revisions`, {
+    credentials: 'include'
+  });
+  return handleResponse<IInvoiceRevision[]>(response);
+}
+
+// Changes between two revisions; without to, up to the latest revision
+export async function fetchRevisionDiff(id: string, from: number, to?: number): Promise<IRevisionDiff> {
+  const params = new URLSearchParams({ from: String(from) });
+  if (to) params.append('to', String(to));
+
+  const response = await fetch(`${API_URL}/api/invoices/${id}/revisions/diff?${params.toString()}`, {
+    credentials: 'include'
+  });
+  return handleResponse<IRevisionDiff>(response);
+}
+
+// Put the data of an earlier revision back; the status is left as it is. Given the invoice
+// as it was shown, throws InvoiceConflictError when it has been changed since
+export async function restoreInvoiceRevision(id: string, revision: number, base?: Pick<IInvoice, 'version'>): Promise<IInvoice> {
+  const response = await fetch(`${API_URL}/api/invoices/${id}/revisions/${revision}/restore`, {
+    method: "POST",
+    headers: ifMatch(base),
+    credentials: 'include'
+  });
+  return handleResponse<IInvoice>(response);
+}
+
+// Search the vendor master data by name, alias or tax ID
+export async function fetchVendors(q?: string): Promise<IVendorRecord[]> {
+  const params = new URLSearchParams();
+  if (q) params.append('q', q);
+  const queryString = params.toString();
+
+  const response = await fetch(`${API_URL}/api/vendors${queryString ? `?${queryString}` : ''}`, {
+    credentials: 'include'
+  });
+  return handleResponse<IVendorRecord[]>(response);
+}
+
+// Create a master vendor
+export async function createVendor(vendor: Omit<IVendorRecord, '_id' | 'owner' | 'createdAt' | 'updatedAt'>): Promise<IVendorRecord> {
+  const response = await fetch(`${API_URL}/api/vendors`, {
+    method: "POST",
+    credentials: 'include',
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(vendor),
+  });
+
+  return handleResponse<IVendorRecord>(response);
+}
+
+// Update a master vendor
+export async function updateVendor(
+  id: string,
+  vendor: Partial<Omit<IVendorRecord, '_id' | 'owner' | 'createdAt' | 'updatedAt'>>
+): Promise<IVendorRecord> {
+  const response = await fetch(`${API_URL}/api/vendors/${id}`, {
+    method: "PUT",
+    credentials: 'include',
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(vendor),
+  });
+
+  return handleResponse<IVendorRecord>(response);
+}
+
+// Delete a master vendor; invoices linked to it lose the link
+export async function deleteVendor(id: string): Promise<void> {
+  const response = await fetch(`${API_URL}/api/vendors/${id}`, {
+    method: "DELETE",
+    credentials: 'include'
+  });
+
+  await handleResponse<void>(response);
+}
+
+// Vendor extraction templates learned from corrections (admin only)
+export async function fetchExtractionTemplates(): Promise<IExtractionTemplate[]> {
+  const response = await fetch(`${API_URL}/api/templates`, {
+    credentials: 'include'
+  });
+  return handleResponse<IExtractionTemplate[]>(response);
+}
+
+// Forget what was learned for a vendor (admin only)
+export async function resetExtractionTemplate(id: string): Promise<void> {
+  const response = await fetch(`${API_URL}/api/templates/${id}`, {
+    method: "DELETE",
+    credentials: 'include'
+  });
+
+  await handleResponse<void>(response);
+}
+
+// Export an approved invoice as UBL 2.1 XML
+export async function exportInvoiceUbl(id: string): Promise<IDownload> {
+  const response = await fetch(`${API_URL}/api/invoices/${id}/export?format=ubl`, {
+    credentials: 'include'
+  });
+
+  return handleDownload(response, `${id}.xml`);
+}
+
+// Download URL for every invoice matching the search (paging is ignored) as CSV or XLSX
+export function getInvoiceExportUrl(
+  searchParams: ISearchQuery,
+  format: TableExportFormat,
+  layout: ExportLayout
+): string {
+  const params = toSearchParams({ ...searchParams, page: undefined, limit: undefined });
+  params.append('format', format);
+  params.append('layout', layout);
+
+  return `${API_URL}/api/invoices/export?${params}`;
+}
+
+// Accounting export profiles and the user's default
+export async function fetchAccountingProfiles(): Promise<{
+  profiles: IAccountingProfileInfo[];
+  defaultProfile: AccountingProfileId;
+}> {
+  const response = await fetch(`${API_URL}/api/invoices/export/profiles`, {
+    credentials: 'include'
+  });
+
+  return handleResponse(response);
+}
+
+// Export an approved invoice for an accounting package (the user's default profile unless given)
+export async function exportInvoiceAccounting(id: string, profile?: AccountingProfileId): Promise<IDownload> {
+  const params = new URLSearchParams({ format: 'accounting' });
+  if (profile) params.append('profile', profile);
+
+  const response = await fetch(`${API_URL}/api/invoices/${id}/export?${params}`, {
+    credentials: 'include'
+  });
+
+  return handleDownload(response, `${id}.txt`);
+}
+
+// Export the approved and paid invoices matching a search for an accounting package
+export async function exportInvoicesAccounting(
+  searchParams: ISearchQuery,
+  profile?: AccountingProfileId
+): Promise<IDownload> {
+  const params = toSearchParams({ ...searchParams, page: undefined, limit: undefined });
+  params.append('format', 'accounting');
+  if (profile) params.append('profile', profile);
+
+  const response = await fetch(`${API_URL}/api/invoices/export?${params}`, {
+    credentials: 'include'
+  });
+
+  return handleDownload(response, 'invoices.txt');
+}
+
+// Export several approved invoices as a ZIP of UBL 2.1 XML files
+export async function exportInvoicesUbl(ids: string[]): Promise<IDownload> {
+  const params = new URLSearchParams({ format: 'ubl' });
+  ids.forEach(id => params.append('ids', id));
+
+  const response = await fetch(`${API_URL}/api/invoices/export?${params}`, {
+    credentials: 'include'
+  });
+
+  return handleDownload(response, 'invoices-ubl.zip');
+}
+
+// Delete invoice; given the invoice as last seen, only if nobody changed it since
+export async function deleteInvoice(id: string, base?: Pick<IInvoice, 'version'>): Promise<void> {
+  const response = await fetch(`${API_URL}/api/invoices/${id}`, {
+    method: "DELETE",
+    credentials: 'include',
+    headers: ifMatch(base)
   });
   
-  if (!response.ok) {
-    const data = await response.json();
-    throw new Error(data.error || 'Failed to delete invoice');
-  }
+  await handleResponse<void>(response);
 }
 
 // Get file info
 export async function getFileInfo(fileId: string): Promise<any> {
-  const response = await fetch(`${API_URL}/upload/${fileId}`);
+  const response = await fetch(`${API_URL}/upload/${fileId}`, {
+    credentials: 'include'
+  });
   return handleResponse(response);
 }
 
@@ -159,6 +605,15 @@ export function getFileViewUrl(fileId: string): string {
   return `/api/proxy/${fileId}`;
 }
 
+// Get the parsed contents of an uploaded XML e-invoice
+export async function fetchEInvoice(fileId: string): Promise<IEInvoiceDocument> {
+  const response = await fetch(`${API_URL}/api/upload/${fileId}/e-invoice`, {
+    credentials: 'include'
+  });
+
+  return handleResponse<IEInvoiceDocument>(response);
+}
+
 // Direct backend view URL (may have X-Frame-Options issues)
 export function getDirectFileViewUrl(fileId: string): string {
   return `${API_URL}/api/upload/${fileId}/view`;
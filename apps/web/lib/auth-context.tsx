@@ -2,6 +2,7 @@
 
 import React, { createContext, useContext, useEffect, useState } from 'react';
 import { toast } from 'sonner';
+import type { AccountingProfileId, IAccountingPreferences } from './types';
 
 interface User {
   id: string;
@@ -13,6 +14,8 @@ interface User {
     language: string;
     currency: string;
     timezone: string;
+    exportProfile?: AccountingProfileId;
+    accounting?: IAccountingPreferences;
   };
 }
 
@@ -0,0 +1,24 @@
+import { toast } from "sonner";
+import type { IDuplicateMatch } from "./types";
+
+// Toast that the document looks like one received before, with a link to the earliest copy
+export function warnAboutDuplicates(duplicates: IDuplicateMatch[] | undefined, openInvoice: (id: string) => void): void {
+  if (!duplicates || duplicates.length === 0) {
+    return;
+  }
+
+  const [first] = duplicates;
+  const sameFile = first.matchedOn.includes('content');
+  toast.warning(
+    sameFile
+      ? `This file was already uploaded as ${first.vendorName} ${first.invoiceNumber}`
+      : `This looks like ${first.vendorName} ${first.invoiceNumber}, which already exists`,
+    {
+      duration: 10000,
+      action: {
+        label: 'Open',
+        onClick: () => openInvoice(first.invoiceId)
+      }
+    }
+  );
+}
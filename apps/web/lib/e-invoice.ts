@@ -0,0 +1,24 @@
+// File types the upload forms accept: PDFs and XML e-invoices (UBL 2.1, XRechnung, Peppol BIS, CII)
+export const UPLOAD_ACCEPT = '.pdf,.xml,application/pdf,application/xml,text/xml';
+
+// Batch uploads also take ZIP archives of them, which the API unpacks
+export const BATCH_UPLOAD_ACCEPT = `${UPLOAD_ACCEPT},.zip,application/zip`;
+
+const XML_MIME_TYPES = ['application/xml', 'text/xml'];
+
+export function isXmlFileName(fileName?: string): boolean {
+  return !!fileName && fileName.toLowerCase().endsWith('.xml');
+}
+
+// Browsers do not always report a MIME type for .xml files, so fall back to the extension
+export function isXmlFile(file: File): boolean {
+  return XML_MIME_TYPES.includes(file.type) || isXmlFileName(file.name);
+}
+
+export function isSupportedUpload(file: File): boolean {
+  return file.type === 'application/pdf' || isXmlFile(file);
+}
+
+export function isZipFile(file: File): boolean {
+  return file.name.toLowerCase().endsWith('.zip');
+}
@@ -0,0 +1,29 @@
+import type { IFieldProvenance, IInvoice } from "./types";
+
+// Fields extracted with less confidence than this are highlighted for review
+export const LOW_CONFIDENCE_THRESHOLD = 0.7;
+
+export const LOW_CONFIDENCE_INPUT_CLASSES = 'border-amber-400 bg-amber-50 focus:border-amber-500 focus:ring-amber-500';
+
+export function getFieldProvenance(invoice: IInvoice | null | undefined, path: string): IFieldProvenance | undefined {
+  return invoice?.extraction?.fields.find(field => field.path === path);
+}
+
+export function isLowConfidence(provenance?: IFieldProvenance): boolean {
+  return !!provenance && provenance.confidence < LOW_CONFIDENCE_THRESHOLD;
+}
+
+export function getLowConfidenceFields(invoice: IInvoice | null | undefined): IFieldProvenance[] {
+  return invoice?.extraction?.fields.filter(isLowConfidence) ?? [];
+}
+
+// e.g. "Confidence 45% · “Invoice No: 1234” (page 2)"
+export function describeProvenance(provenance: IFieldProvenance): string {
+  const parts = [`Confidence ${Math.round(provenance.confidence * 100)}%`];
+  if (provenance.source) {
+    parts.push(`“${provenance.source}”${provenance.page ? ` (page ${provenance.page})` : ''}`);
+  } else if (provenance.page) {
+    parts.push(`page ${provenance.page}`);
+  }
+  return parts.join(' · ');
+}
@@ -0,0 +1,104 @@
+import type { IInvoice } from "./types";
+
+// The parts of an invoice a reviewer edits
+export type InvoiceEdits = Pick<IInvoice, 'vendor' | 'invoice' | 'accounting'>;
+
+export type MergeChoice = 'mine' | 'theirs';
+
+// A save rejected because someone else changed the invoice after the edits were started
+export interface IInvoiceConflict {
+  base: InvoiceEdits;
+  mine: InvoiceEdits;
+  theirs: IInvoice;
+}
+
+export interface IMergeField {
+  path: string;
+  base: unknown;
+  mine: unknown;
+  theirs: unknown;
+  // Changed on both sides, to different values
+  conflict: boolean;
+}
+
+export const getInvoiceEdits = (invoice: InvoiceEdits): InvoiceEdits => ({
+  vendor: invoice.vendor,
+  invoice: invoice.invoice,
+  accounting: invoice.accounting
+});
+
+// Empty values count as missing, as they do on the API
+const normalize = (value: unknown) => value === null || value === '' ? undefined : value;
+
+const same = (a: unknown, b: unknown) => JSON.stringify(normalize(a)) === JSON.stringify(normalize(b));
+
+// Leaf values by path, e.g. 'vendor.name'; arrays such as the line items count as one value
+const flatten = (value: unknown, path: string, into: Map<string, unknown>): Map<string, unknown> => {
+  if (value && typeof value === 'object' && !Array.isArray(value)) {
+    Object.entries(value).forEach(([key, child]) => {
+      if (key !== '_id') {
+        flatten(child, path ? `${path}.${key}` : key, into);
+      }
+    });
+  } else if (normalize(value) !== undefined) {
+    into.set(path, value);
+  }
+  return into;
+};
+
+/**
+ * Fields where my edits and the other user's version differ, in the order they appear
+ * in the invoice. Fields both sides left alone or changed the same way are not listed.
+ */
+export const getMergeFields = ({ base, mine, theirs }: IInvoiceConflict): IMergeField[] => {
+  const [baseValues, mineValues, theirValues] = [base, mine, getInvoiceEdits(theirs)]
+    .map(edits => flatten(edits, '', new Map()));
+  const paths = new Set([...Array.from(theirValues.keys()), ...Array.from(mineValues.keys()), ...Array.from(baseValues.keys())]);
+
+  return Array.from(paths)
+    .filter(path => !same(mineValues.get(path), theirValues.get(path)))
+    .map(path => ({
+      path,
+      base: baseValues.get(path),
+      mine: mineValues.get(path),
+      theirs: theirValues.get(path),
+      conflict: !same(baseValues.get(path), mineValues.get(path)) && !same(baseValues.get(path), theirValues.get(path))
+    }));
+};
+
+// Keep whichever side changed the field; where both did, my edit wins unless chosen otherwise
+export const getDefaultChoice = (field: IMergeField): MergeChoice => {
+  return !field.conflict && same(field.base, field.mine) ? 'theirs' : 'mine';
+};
+
+/**
+ * The other user's version with the fields chosen from mine put on top
+ */
+export const mergeInvoiceEdits = (
+  conflict: IInvoiceConflict,
+  fields: IMergeField[],
+  choices: Record<string, MergeChoice>
+): InvoiceEdits => {
+  const merged: Record<string, unknown> = JSON.parse(JSON.stringify(getInvoiceEdits(conflict.theirs)));
+
+  fields
+    .filter(field => (choices[field.path] || getDefaultChoice(field)) === 'mine')
+    .forEach(field => {
+      const keys = field.path.split('.');
+      const parent = keys.slice(0, -1).reduce<Record<string, unknown>>((target, key) => {
+        if (!target[key] || typeof target[key] !== 'object') {
+          target[key] = {};
+        }
+        return target[key] as Record<string, unknown>;
+      }, merged);
+      const last = keys[keys.length - 1];
+
+      if (field.mine === undefined) {
+        delete parent[last];
+      } else {
+        parent[last] = field.mine;
+      }
+    });
+
+  return merged as unknown as InvoiceEdits;
+};
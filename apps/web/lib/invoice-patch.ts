@@ -0,0 +1,73 @@
+import type { IJsonPatchOperation, ILineItem } from "./types";
+import type { InvoiceEdits } from "./invoice-merge";
+
+// JSON Pointer (RFC 6901) to a member; ~ and / in names are escaped
+const member = (path: string, name: string) => `${path}/${name.replace(/~/g, '~0').replace(/\//g, '~1')}`;
+
+const LINE_ITEMS_PATH = '/invoice/lineItems';
+
+// Empty values count as missing, as they do on the API
+const isEmpty = (value: unknown) => value === undefined || value === null || value === '';
+
+const same = (a: unknown, b: unknown) => (isEmpty(a) && isEmpty(b)) || JSON.stringify(a) === JSON.stringify(b);
+
+// Each change tests the value it replaces, so it fails instead of overwriting someone else's change
+const diffValue = (path: string, before: unknown, after: unknown): IJsonPatchOperation[] => {
+  if (same(before, after)) return [];
+  if (before === undefined) return [{ op: 'add', path, value: after }];
+
+  const test: IJsonPatchOperation = { op: 'test', path, value: before };
+  return after === undefined
+    ? [test, { op: 'remove', path }]
+    : [test, { op: 'replace', path, value: after }];
+};
+
+const diffObject = (path: string, before: object | undefined, after: object | undefined, skip: string[] = []): IJsonPatchOperation[] => {
+  if (!before || !after) return diffValue(path, before, after);
+
+  const [from, to] = [before as Record<string, unknown>, after as Record<string, unknown>];
+  const keys = Array.from(new Set([...Object.keys(from), ...Object.keys(to)])).filter(key => !skip.includes(key));
+  return keys.flatMap(key => diffValue(member(path, key), from[key], to[key]));
+};
+
+/**
+ * Operations for the line items that were added, removed or changed, addressed by ID
+ */
+export const getLineItemsPatch = (before: ILineItem[] = [], after: ILineItem[] = []): IJsonPatchOperation[] => {
+  // Lines saved before they had IDs can only be replaced together; the API gives them IDs
+  if (before.some(item => !item.id)) {
+    return same(before, after) ? [] : [{
+      op: 'replace',
+      path: LINE_ITEMS_PATH,
+      value: after.map(({ id: _id, ...item }) => item)
+    }];
+  }
+
+  const previous = new Map(before.map(item => [item.id as string, item]));
+  const kept = new Set(after.map(item => item.id));
+
+  return [
+    ...before
+      .filter(item => !kept.has(item.id))
+      .flatMap((item): IJsonPatchOperation[] => {
+        const path = member(LINE_ITEMS_PATH, item.id as string);
+        return [{ op: 'test', path, value: item }, { op: 'remove', path }];
+      }),
+    ...after.flatMap((item): IJsonPatchOperation[] => {
+      const old = item.id ? previous.get(item.id) : undefined;
+      return old
+        ? diffObject(member(LINE_ITEMS_PATH, old.id as string), old, item, ['id'])
+        : [{ op: 'add', path: `${LINE_ITEMS_PATH}/-`, value: item }];
+    })
+  ];
+};
+
+/**
+ * JSON Patch from one version of an invoice's data to another, changing only what differs
+ */
+export const getInvoicePatch = (before: InvoiceEdits, after: InvoiceEdits): IJsonPatchOperation[] => [
+  ...diffObject('/vendor', before.vendor, after.vendor),
+  ...diffObject('/invoice', before.invoice, after.invoice, ['lineItems']),
+  ...getLineItemsPatch(before.invoice?.lineItems, after.invoice?.lineItems),
+  ...diffObject('/accounting', before.accounting, after.accounting)
+];
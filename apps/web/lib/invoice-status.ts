@@ -0,0 +1,40 @@
+import type { InvoiceStatus } from "./types";
+
+export const INVOICE_STATUSES: InvoiceStatus[] = [
+  'draft',
+  'extracted',
+  'in_review',
+  'approved',
+  'rejected',
+  'paid'
+];
+
+export const STATUS_LABELS: Record<InvoiceStatus, string> = {
+  draft: 'Draft',
+  extracted: 'Extracted',
+  in_review: 'In Review',
+  approved: 'Approved',
+  rejected: 'Rejected',
+  paid: 'Paid'
+};
+
+export const STATUS_BADGE_CLASSES: Record<InvoiceStatus, string> = {
+  draft: 'bg-gray-100 text-gray-800',
+  extracted: 'bg-blue-100 text-blue-800',
+  in_review: 'bg-yellow-100 text-yellow-800',
+  approved: 'bg-green-100 text-green-800',
+  rejected: 'bg-red-100 text-red-800',
+  paid: 'bg-purple-100 text-purple-800'
+};
+
+// Statuses in which an invoice is still worked on: it can be edited, rejected or submitted for approval
+export const REVIEWABLE_STATUSES: InvoiceStatus[] = ['draft', 'extracted', 'in_review'];
+
+// Only invoices in review can be approved
+export const APPROVABLE_STATUSES: InvoiceStatus[] = ['in_review'];
+
+// Approved and paid invoices cannot be edited until they are sent back to review
+export const LOCKED_STATUSES: InvoiceStatus[] = ['approved', 'paid'];
+
+// Statuses from which an invoice can be exported to accounting
+export const EXPORTABLE_STATUSES: InvoiceStatus[] = ['approved', 'paid'];
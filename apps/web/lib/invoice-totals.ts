@@ -0,0 +1,49 @@
+import type { IInvoiceCharge, IInvoiceData, ILineItem, InvoiceChargeType, ITaxBreakdownEntry } from "./types";
+
+export const CHARGE_TYPE_LABELS: Record<InvoiceChargeType, string> = {
+  shipping: 'Shipping',
+  other: 'Other charges'
+};
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+// Net amount of a line: quantity × unit price less the line discount
+export const getLineNet = (item: Pick<ILineItem, 'quantity' | 'unitPrice' | 'discount'>) => {
+  return item.quantity * item.unitPrice * (1 - (item.discount || 0) / 100);
+};
+
+export const getChargesTotal = (charges: IInvoiceCharge[] = []) => {
+  return round(charges.reduce((sum, charge) => sum + charge.amount, 0));
+};
+
+/**
+ * Tax per rate over the lines and charges, as the API computes it. Lines and charges
+ * without their own rate are taxed at the invoice's rate.
+ */
+export const getTaxBreakdown = (data: IInvoiceData): ITaxBreakdownEntry[] => {
+  const taxable = new Map<number, number>();
+  const add = (taxPercent: number | undefined, amount: number) => {
+    const rate = taxPercent ?? data.taxPercent ?? 0;
+    taxable.set(rate, (taxable.get(rate) || 0) + amount);
+  };
+
+  data.lineItems.forEach(item => add(item.taxPercent, getLineNet(item)));
+  (data.charges || []).forEach(charge => add(charge.taxPercent, charge.amount));
+
+  return Array.from(taxable.entries())
+    .sort(([a], [b]) => a - b)
+    .map(([taxPercent, amount]) => ({
+      taxPercent,
+      taxableAmount: round(amount),
+      taxAmount: round(round(amount) * taxPercent / 100)
+    }));
+};
+
+export const calculateInvoiceTotals = (data: IInvoiceData) => {
+  const subtotal = round(data.lineItems.reduce((sum, item) => sum + getLineNet(item), 0));
+  const charges = getChargesTotal(data.charges);
+  const taxBreakdown = getTaxBreakdown(data);
+  const tax = round(taxBreakdown.reduce((sum, entry) => sum + entry.taxAmount, 0));
+
+  return { subtotal, charges, taxBreakdown, tax, total: round(subtotal + charges + tax) };
+};
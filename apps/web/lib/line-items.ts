@@ -0,0 +1,25 @@
+import type { ILineItem } from "./types";
+
+// Line IDs are made up by the client for new lines and kept by the API
+export const newLineItemId = () => crypto.randomUUID();
+
+// Lines saved before they had IDs get one, so they can be edited by ID like the others
+export const withLineItemIds = <T extends Pick<ILineItem, 'id'>>(lineItems: T[]): T[] => {
+  return lineItems.some(item => !item.id)
+    ? lineItems.map(item => item.id ? item : { ...item, id: newLineItemId() })
+    : lineItems;
+};
+
+/**
+ * Move a line to where another one is, shifting the lines in between, and number all
+ * lines by their new order
+ */
+export const moveLineItem = <T extends Pick<ILineItem, 'id' | 'position'>>(lineItems: T[], id: string, targetId: string): T[] => {
+  const from = lineItems.findIndex(item => item.id === id);
+  const to = lineItems.findIndex(item => item.id === targetId);
+  if (from < 0 || to < 0 || from === to) return lineItems;
+
+  const reordered = [...lineItems];
+  reordered.splice(to, 0, ...reordered.splice(from, 1));
+  return reordered.map((item, index) => ({ ...item, position: index + 1 }));
+};
@@ -19,15 +19,61 @@ export interface IVendor {
   taxId?: string;
 }
 
+// A vendor in the master data
+export interface IVendorRecord {
+  _id?: string;
+  owner?: string;
+  name: string;
+  aliases: string[];
+  taxId?: string;
+  address?: string;
+  defaultCurrency?: string;
+  defaultGlAccount?: string;
+  defaultCostCenter?: string;
+  createdAt: string;
+  updatedAt?: string;
+}
+
+export type VendorMatchMethod = 'taxId' | 'name' | 'alias' | 'similarity' | 'manual';
+
+// The master vendor an invoice's vendor was matched to
+export interface IVendorMatch {
+  vendorId: string;
+  name: string;
+  method: VendorMatchMethod;
+  score: number;
+  confirmed: boolean;
+  confirmedBy?: string;
+  confirmedAt?: string;
+}
+
 export interface ILineItem {
   id?: string;
-  code?: string;
+  position?: number; // 1-based order on the invoice
+  code?: string; // item number or SKU
   description: string;
   unitPrice: number;
   quantity: number;
-  discount?: number;
-  vat?: number;
-  total: number;
+  unit?: string; // unit of measure, e.g. "h" or a UN/ECE code such as "KGM"
+  discount?: number; // percent off quantity × unit price
+  taxPercent?: number; // the invoice's taxPercent applies when missing
+  total: number; // net, before tax
+}
+
+export type InvoiceChargeType = 'shipping' | 'other';
+
+// Amounts billed besides the line items, e.g. freight; negative for allowances
+export interface IInvoiceCharge {
+  type: InvoiceChargeType;
+  description?: string;
+  amount: number;
+  taxPercent?: number;
+}
+
+export interface ITaxBreakdownEntry {
+  taxPercent: number;
+  taxableAmount: number;
+  taxAmount: number;
 }
 
 export interface IInvoiceData {
@@ -40,31 +86,328 @@ export interface IInvoiceData {
   poNumber?: string;
   poDate?: string;
   lineItems: ILineItem[];
+  charges?: IInvoiceCharge[];
+  taxBreakdown?: ITaxBreakdownEntry[];
+}
+
+// How sure the extractor was about one field and where in the PDF it was read
+export interface IFieldProvenance {
+  path: string; // e.g. 'vendor.name', 'invoice.lineItems.0.total'
+  confidence: number; // 0 to 1
+  source?: string;
+  page?: number;
+}
+
+// 'e-invoice' when the data was read from structured XML instead of being extracted by a model
+export type ExtractionSource = 'model' | 'e-invoice';
+
+export interface IExtractionMetadata {
+  model: string;
+  source?: ExtractionSource;
+  extractedAt: string;
+  fields: IFieldProvenance[];
+}
+
+export type EInvoiceFormat = 'ubl' | 'cii';
+
+// An XML e-invoice as read by the API (UBL 2.1 or UN/CEFACT CII)
+export interface IEInvoiceDocument {
+  format: EInvoiceFormat;
+  documentType: 'invoice' | 'credit-note';
+  specification?: string; // customization / guideline ID, e.g. XRechnung or Peppol BIS
+  vendor: IVendor;
+  buyer?: IVendor;
+  invoice: IInvoiceData;
+  dueDate?: string;
+  taxTotal?: number;
+  paymentTerms?: string;
+  notes: string[];
+}
+
+export type InvoiceStatus = 'draft' | 'extracted' | 'in_review' | 'approved' | 'rejected' | 'paid';
+
+export interface IStatusChange {
+  from?: InvoiceStatus;
+  to: InvoiceStatus;
+  changedBy: string;
+  changedAt: string;
+  reason?: string;
+}
+
+// A field the reviewers keep correcting on invoices from one vendor
+export interface ITemplateField {
+  path: string;
+  corrections: number;
+  extracted?: string;
+  corrected?: string;
+  page?: number;
+  label?: string;
+  updatedAt: string;
+}
+
+// Per-vendor extraction hints learned from reviewer corrections
+export interface IExtractionTemplate {
+  _id: string;
+  owner: string;
+  vendorId: string;
+  vendorName: string;
+  invoiceCount: number;
+  appliedCount: number;
+  lastAppliedAt?: string;
+  fields: ITemplateField[];
+  // The section added to the extraction prompt; absent until a field was corrected often enough
+  promptHints?: string;
+  createdAt: string;
+  updatedAt?: string;
+}
+
+// Bookkeeping codes used when the invoice is posted in an accounting package
+export interface IAccountingCoding {
+  glAccount?: string;
+  costCenter?: string;
 }
 
 export interface IInvoice {
   _id?: string;
+  owner?: string;
   fileId: string;
   fileName: string;
   vendor: IVendor;
   invoice: IInvoiceData;
   lineItems?: ILineItem[];
+  status?: InvoiceStatus;
+  statusHistory?: IStatusChange[];
+  reviewedBy?: string;
+  reviewedAt?: string;
+  rejectionReason?: string;
+  extraction?: IExtractionMetadata;
+  accounting?: IAccountingCoding;
+  // Master vendor suggested after extraction, or confirmed by a reviewer
+  vendorMatch?: IVendorMatch;
+  // Amounts that do not add up, checked by the server on every change
+  validationWarnings?: IValidationWarning[];
+  // Set on results of a full-text search
+  search?: IInvoiceSearchMatch;
+  // Other invoices that look like the same document
+  duplicates?: IDuplicateMatch[];
+  // Raised by every change; sent back as If-Match so stale saves are rejected
+  version?: number;
   createdAt: string;
   updatedAt?: string;
 }
 
+export type ValidationWarningCode =
+  | 'line_total_mismatch'
+  | 'subtotal_mismatch'
+  | 'tax_amount_mismatch'
+  | 'total_mismatch';
+
+export interface IValidationWarning {
+  code: ValidationWarningCode;
+  path: string; // e.g. 'invoice.lineItems.0.total'
+  message: string;
+  expected: number;
+  actual: number;
+  difference: number;
+}
+
+// Same file content, or the same vendor, number, total and date
+export type DuplicateMatchReason = 'content' | 'fingerprint';
+
+export interface IDuplicateMatch {
+  invoiceId: string;
+  vendorName: string;
+  invoiceNumber: string;
+  total?: number;
+  currency?: string;
+  status: InvoiceStatus;
+  createdAt: string;
+  matchedOn: DuplicateMatchReason[];
+}
+
+// What wrote a revision of an invoice
+export type RevisionSource =
+  | 'create'
+  | 'import'
+  | 'extraction'
+  | 'edit'
+  | 'status'
+  | 'vendor'
+  | 'restore'
+  | 'initial';
+
+export interface IInvoiceSnapshot {
+  vendor: IVendor;
+  invoice: IInvoiceData;
+  status: InvoiceStatus;
+  accounting?: IAccountingCoding;
+}
+
+// RFC 6902 operation for PATCH /api/invoices/:id; line items are addressed by ID
+export interface IJsonPatchOperation {
+  op: 'add' | 'replace' | 'remove' | 'test';
+  path: string; // JSON Pointer, e.g. '/vendor/name' or '/invoice/lineItems/{id}/quantity'
+  value?: unknown;
+}
+
+// One changed field; from is missing when the field was added, to when it was removed
+export interface IFieldChange {
+  path: string;
+  from?: unknown;
+  to?: unknown;
+}
+
+export interface IInvoiceRevision {
+  _id?: string;
+  invoiceId: string;
+  revision: number;
+  source: RevisionSource;
+  actor?: string;
+  actorEmail?: string;
+  note?: string;
+  restoredFrom?: number;
+  snapshot?: IInvoiceSnapshot; // only when a single revision is fetched
+  changes: IFieldChange[];
+  createdAt: string;
+}
+
+export interface IRevisionDiff {
+  from: number;
+  to: number;
+  changes: IFieldChange[];
+}
+
+// Allowed deviation of invoiced from ordered or received values, in percent
+export interface IPoMatchTolerances {
+  pricePercent: number;
+  quantityPercent: number;
+}
+
+// 2-way compares invoice and PO; 3-way also compares with the goods received
+export type PoMatchType = 'two-way' | 'three-way';
+
+export type PoMatchStatus = 'matched' | 'variance' | 'no_po_number' | 'po_not_found';
+
+export type PoVarianceCode =
+  | 'price_variance'
+  | 'quantity_over_ordered'
+  | 'quantity_over_received'
+  | 'unordered_line'
+  | 'currency_mismatch'
+  | 'vendor_mismatch';
+
+export interface IPoVariance {
+  code: PoVarianceCode;
+  path: string; // e.g. 'invoice.lineItems.0.unitPrice'
+  message: string;
+  lineNumber?: number;
+  expected?: number;
+  actual?: number;
+}
+
+export interface IPoLineMatch {
+  invoiceLine?: number; // index into invoice.lineItems
+  lineNumber?: number; // PO line
+  description: string;
+  invoicedQuantity?: number;
+  invoicedUnitPrice?: number;
+  orderedQuantity?: number;
+  orderedUnitPrice?: number;
+  receivedQuantity?: number;
+  previouslyInvoiced?: number;
+  priceVariancePercent?: number;
+  status: 'matched' | 'variance' | 'unordered' | 'not_invoiced';
+}
+
+export interface IPoMatchReport {
+  status: PoMatchStatus;
+  poNumber?: string;
+  purchaseOrderId?: string;
+  matchType?: PoMatchType;
+  tolerances?: IPoMatchTolerances;
+  lines: IPoLineMatch[];
+  variances: IPoVariance[];
+  otherInvoices: number;
+}
+
+// Passage of the document around search terms; highlights are offsets into text
+export interface ISearchSnippet {
+  page: number;
+  text: string;
+  highlights: Array<{ start: number; end: number }>;
+}
+
+export interface IInvoiceSearchMatch {
+  score: number;
+  snippets: ISearchSnippet[];
+}
+
 // Upload response
 export interface IUploadResponse {
   fileId: string;
   fileName: string;
   fileSize: number;
   uploadedAt: string;
+  // Set for XML e-invoices, which the API imports into an invoice on upload, and for draft uploads
+  invoiceId?: string;
+  format?: EInvoiceFormat;
+  // Existing invoices for the same file or invoice data
+  duplicates?: IDuplicateMatch[];
+}
+
+// Outcome for one file of a batch upload; files from a ZIP archive name the archive
+export interface IBatchUploadResult {
+  fileName: string;
+  archive?: string;
+  status: 'created' | 'failed';
+  error?: string;
+  details?: string[];
+  invoiceId?: string;
+  fileId?: string;
+  format?: EInvoiceFormat;
+  jobId?: string; // set when extraction was queued
+  extractionStatus?: ExtractionJobStatus;
+  duplicates?: IDuplicateMatch[];
+}
+
+export type BatchUploadStatus = 'queued' | 'processing' | 'completed' | 'failed';
+
+// One uploaded file of a batch, with a result for every file imported from it
+export interface IBatchUploadFile {
+  fileName: string;
+  status: 'queued' | 'done';
+  results: IBatchUploadResult[];
+}
+
+// A batch upload the API imports in the background; poll it by batchId
+export interface IBatchUploadResponse {
+  batchId: string;
+  status: BatchUploadStatus;
+  files: IBatchUploadFile[];
+  created: number;
+  failed: number;
+  queued: number;
+  error?: string;
+  createdAt: string;
+  completedAt?: string;
 }
 
 // Extract request and response
+// 'openai:<name>' selects a model served by the API's OpenAI-compatible endpoint
+export type ExtractionModel = 'gemini' | 'groq' | 'heuristic' | 'openai' | `openai:${string}`;
+
+export interface IExtractionModelInfo {
+  id: ExtractionModel;
+  name: string;
+  provider: 'gemini' | 'groq' | 'heuristic' | 'openai';
+  description: string;
+  available: boolean;
+}
+
 export interface IExtractRequest {
   fileId: string;
-  model: 'gemini' | 'groq';
+  model: ExtractionModel;
+  invoiceId?: string;
 }
 
 export interface IExtractResponse {
@@ -73,15 +416,71 @@ export interface IExtractResponse {
   model: string;
 }
 
+// Asynchronous extraction job
+export type ExtractionJobStatus = 'queued' | 'processing' | 'completed' | 'failed';
+
+export interface IExtractionJob {
+  jobId: string;
+  status: ExtractionJobStatus;
+  fileId: string;
+  model: string;
+  invoiceId?: string;
+  attempts: number;
+  maxAttempts: number;
+  error?: string;
+  // Validation problems when the model output could not be repaired
+  errorDetails?: string[];
+  result?: IExtractResponse;
+  createdAt: string;
+  completedAt?: string;
+}
+
+// Structured filters of the invoice list; dates are inclusive YYYY-MM-DD bounds
+export interface ISearchFilters {
+  dateFrom?: string;
+  dateTo?: string;
+  createdFrom?: string;
+  createdTo?: string;
+  totalMin?: number;
+  totalMax?: number;
+  currency?: string[];
+  vendor?: string;
+  hasPoNumber?: boolean;
+}
+
 // Search query
-export interface ISearchQuery {
+export interface ISearchQuery extends ISearchFilters {
   q?: string;
+  status?: InvoiceStatus[];
   page?: number;
   limit?: number;
-  sortBy?: 'createdAt' | 'updatedAt' | 'vendor.name' | 'invoice.number';
+  // Without sortBy, text searches are ranked by relevance
+  sortBy?: 'relevance' | 'createdAt' | 'updatedAt' | 'vendor.name' | 'invoice.number' | 'invoice.date' | 'invoice.total';
   sortOrder?: 'asc' | 'desc';
 }
 
+export type TableExportFormat = 'csv' | 'xlsx';
+
+// One row per invoice, or one row per line item
+export type ExportLayout = 'header' | 'lines';
+
+export type AccountingProfileId = 'quickbooks-iif' | 'xero-csv' | 'datev';
+
+export interface IAccountingProfileInfo {
+  id: AccountingProfileId;
+  name: string;
+  extension: string;
+}
+
+// Per-user settings for accounting exports
+export interface IAccountingPreferences {
+  defaultGlAccount?: string;
+  payablesAccount?: string;
+  taxAccount?: string;
+  datevConsultantNumber?: string;
+  datevClientNumber?: string;
+}
+
 // Legacy aliases for backward compatibility
 export type Invoice = IInvoice;
 export type UploadResponse = IUploadResponse;
@@ -0,0 +1,33 @@
+"use client";
+
+import { useEffect, useState } from 'react';
+import { fetchAccountingProfiles } from './api';
+import type { AccountingProfileId, IAccountingProfileInfo } from './types';
+
+/**
+ * Load the accounting export profiles offered by the API and the user's default profile
+ */
+export function useAccountingProfiles() {
+  const [profiles, setProfiles] = useState<IAccountingProfileInfo[]>([]);
+  const [defaultProfile, setDefaultProfile] = useState<AccountingProfileId | undefined>(undefined);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    fetchAccountingProfiles()
+      .then((result) => {
+        if (cancelled) return;
+        setProfiles(result.profiles);
+        setDefaultProfile(result.defaultProfile);
+      })
+      .catch((error) => {
+        console.error('Error loading accounting profiles:', error);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  return { profiles, defaultProfile };
+}
@@ -0,0 +1,64 @@
+"use client";
+
+import { useCallback, useState } from 'react';
+import { uploadBatch, waitForBatchUpload } from './api';
+import type { ExtractionModel, IBatchUploadResponse, IBatchUploadResult } from './types';
+
+// Matches the API's MAX_BATCH_SIZE default
+export const MAX_BATCH_SIZE = 100 * 1024 * 1024;
+
+export type BatchItemStatus = 'waiting' | 'uploading' | 'processing' | 'done' | 'failed';
+
+// One selected file of a batch; a ZIP archive gets a result for every file in it
+export interface IBatchItem {
+  file: File;
+  status: BatchItemStatus;
+  results?: IBatchUploadResult[];
+  error?: string;
+}
+
+// The state of every selected file in a batch report, which lists them in upload order
+const toItems = (files: File[], batch: IBatchUploadResponse): IBatchItem[] =>
+  files.map((file, index) => {
+    const reported = batch.files[index];
+    const results = reported?.results || [];
+
+    if (reported?.status === 'done') {
+      return { file, status: results.some(result => result.status === 'created') ? 'done' : 'failed', results };
+    }
+    if (batch.status === 'failed') {
+      return { file, status: 'failed', results, error: batch.error || 'Import failed' };
+    }
+    return { file, status: 'processing', results };
+  });
+
+/**
+ * Upload a batch in one request and follow the API importing it in the background, so
+ * every file shows its results as soon as it is done and a file that fails only fails
+ * itself. With a model, extraction is queued for every PDF and followed too.
+ */
+export function useBatchUpload() {
+  const [items, setItems] = useState<IBatchItem[]>([]);
+  const [isUploading, setIsUploading] = useState(false);
+
+  const start = useCallback(async (files: File[], model?: ExtractionModel): Promise<IBatchUploadResponse | undefined> => {
+    setItems(files.map(file => ({ file, status: 'uploading' })));
+    setIsUploading(true);
+    try {
+      const queued = await uploadBatch(files, model);
+      setItems(toItems(files, queued));
+      return await waitForBatchUpload(queued.batchId, batch => setItems(toItems(files, batch)));
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Upload failed';
+      setItems(current => current.map(item =>
+        item.status === 'uploading' || item.status === 'processing' ? { ...item, status: 'failed', error: message } : item));
+      return undefined;
+    } finally {
+      setIsUploading(false);
+    }
+  }, []);
+
+  const reset = useCallback(() => setItems([]), []);
+
+  return { items, isUploading, start, reset };
+}
@@ -0,0 +1,40 @@
+"use client";
+
+import { useEffect, useState } from 'react';
+import { fetchExtractionModels } from './api';
+import type { ExtractionModel, IExtractionModelInfo } from './types';
+
+/**
+ * Load the extraction models offered by the API and keep track of the selected one.
+ * The selection defaults to the first model the server reports as available.
+ */
+export function useExtractionModels() {
+  const [models, setModels] = useState<IExtractionModelInfo[]>([]);
+  const [selectedModel, setSelectedModel] = useState<ExtractionModel | undefined>(undefined);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    fetchExtractionModels()
+      .then((fetchedModels) => {
+        if (cancelled) return;
+        setModels(fetchedModels);
+        setSelectedModel(current => current ?? fetchedModels.find(model => model.available)?.id);
+      })
+      .catch((error) => {
+        console.error('Error loading extraction models:', error);
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const selectedModelInfo = models.find(model => model.id === selectedModel);
+
+  return { models, selectedModel, selectedModelInfo, setSelectedModel, isLoading };
+}
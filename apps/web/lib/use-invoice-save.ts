@@ -0,0 +1,85 @@
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { InvoiceConflictError, patchInvoice, updateInvoice } from './api';
+import { getInvoiceEdits, IInvoiceConflict, InvoiceEdits } from './invoice-merge';
+import { getInvoicePatch } from './invoice-patch';
+import type { IInvoice } from './types';
+
+/**
+ * Save edits to an invoice only if nobody else changed it since it was loaded. Saves run one
+ * after another, each based on the version the one before produced. A save rejected as stale
+ * resolves to null and sets conflict until resolveConflict is called.
+ *
+ * patch sends only the fields an edit changed, so it succeeds when someone else changed other
+ * fields meanwhile and conflicts only when they changed the same ones.
+ */
+export function useInvoiceSave(invoice: IInvoice | null) {
+  const [conflict, setConflict] = useState<IInvoiceConflict | null>(null);
+  // The invoice as last received from the API; local edits are based on it
+  const base = useRef(invoice);
+  const queue = useRef<Promise<unknown>>(Promise.resolve());
+
+  // Local edits keep the version, so a new one means the invoice was loaded or changed elsewhere
+  useEffect(() => {
+    if (invoice && (invoice._id !== base.current?._id || invoice.version !== base.current?.version)) {
+      base.current = invoice;
+    }
+  }, [invoice]);
+
+  const enqueue = useCallback((run: () => Promise<IInvoice | null>): Promise<IInvoice | null> => {
+    const result = queue.current.then(run, run);
+    queue.current = result.catch(() => undefined);
+    return result;
+  }, []);
+
+  // Send a change based on the current version; mine is what the invoice data should become
+  const send = useCallback(async (
+    current: IInvoice,
+    mine: InvoiceEdits,
+    request: () => Promise<IInvoice>
+  ): Promise<IInvoice | null> => {
+    try {
+      const saved = await request();
+      base.current = saved;
+      return saved;
+    } catch (error) {
+      if (error instanceof InvoiceConflictError) {
+        setConflict({ base: getInvoiceEdits(current), mine, theirs: error.current });
+        return null;
+      }
+      throw error;
+    }
+  }, []);
+
+  const save = useCallback((edits: Partial<IInvoice>): Promise<IInvoice | null> => enqueue(async () => {
+    const current = base.current;
+    if (!current?._id) return null;
+
+    const id = current._id;
+    return send(current, getInvoiceEdits({ ...current, ...edits }), () => updateInvoice(id, edits, current));
+  }), [enqueue, send]);
+
+  // The edit is applied to the latest saved version, so edits queued behind each other add up
+  const patch = useCallback((edit: (current: IInvoice) => InvoiceEdits): Promise<IInvoice | null> => enqueue(async () => {
+    const current = base.current;
+    if (!current?._id) return null;
+
+    const id = current._id;
+    const mine = edit(current);
+    const operations = getInvoicePatch(getInvoiceEdits(current), mine);
+    if (!operations.length) return current;
+    return send(current, mine, () => patchInvoice(id, operations));
+  }), [enqueue, send]);
+
+  // Save the merged edits on top of the other user's version, or without edits take theirs as is
+  const resolveConflict = useCallback(async (merged: InvoiceEdits | null): Promise<IInvoice | null> => {
+    if (!conflict) return null;
+
+    base.current = conflict.theirs;
+    setConflict(null);
+    return merged ? save(merged) : conflict.theirs;
+  }, [conflict, save]);
+
+  return { save, patch, conflict, resolveConflict };
+}